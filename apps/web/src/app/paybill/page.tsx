@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { ChangeEvent, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -41,21 +41,87 @@ interface TransactionResponse {
   qrCode: string;
 }
 
+interface Biller {
+  name: string;
+  paybillNumber: string;
+  accountNumberLabel: string;
+  accountNumberHint: string;
+}
+
+interface Recipient {
+  name: string;
+  accountNumberPattern?: string;
+}
+
 export default function PaybillPage() {
   const [transaction, setTransaction] = useState<TransactionResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [recipient, setRecipient] = useState<Recipient | null>(null);
+  const [recipientUnconfirmed, setRecipientUnconfirmed] = useState(false);
+  const [billerQuery, setBillerQuery] = useState('');
+  const [billers, setBillers] = useState<Biller[]>([]);
+  const [biller, setBiller] = useState<Biller | null>(null);
   
   const {
     register,
     handleSubmit,
     formState: { errors },
     watch,
+    setValue,
   } = useForm<PaybillForm>({
     resolver: zodResolver(paybillSchema),
   });
   
   const amount = watch('amount');
+  const accountNumber = watch('accountNumber');
+  const accountNumberMismatch =
+    !!recipient?.accountNumberPattern &&
+    !!accountNumber &&
+    !new RegExp(recipient.accountNumberPattern).test(accountNumber);
+  
+  // Show who the business number belongs to before the user pays it
+  const lookupRecipient = async (number: string) => {
+    setRecipient(null);
+    setRecipientUnconfirmed(false);
+    if (!/^[0-9]{5,7}$/.test(number)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/v1/mpesa/lookup/paybill/${number}`);
+      if (!response.ok) {
+        throw new Error('Recipient not found');
+      }
+      setRecipient(await response.json());
+    } catch {
+      setRecipientUnconfirmed(true);
+    }
+  };
+  
+  const searchBillers = async (query: string) => {
+    setBillerQuery(query);
+    if (query.trim().length < 2) {
+      setBillers([]);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/v1/billers?search=${encodeURIComponent(query)}`);
+      const result = await response.json();
+      setBillers(response.ok ? result.data : []);
+    } catch {
+      setBillers([]);
+    }
+  };
+  
+  const selectBiller = (selected: Biller) => {
+    setBiller(selected);
+    setBillers([]);
+    setBillerQuery(selected.name);
+    setValue('businessNumber', selected.paybillNumber, { shouldValidate: true });
+    lookupRecipient(selected.paybillNumber);
+  };
   
   const onSubmit = async (data: PaybillForm) => {
     setIsLoading(true);
@@ -71,12 +137,15 @@ export default function PaybillPage() {
           recipientPhone: data.phoneNumber,
           amount: data.amount,
           merchantCode: data.businessNumber,
+          recipientName: recipient?.name,
           accountNumber: data.accountNumber,
         }),
       });
       
       if (!response.ok) {
-        throw new Error('Failed to create transaction');
+        // Account numbers the biller would reject are refused with the reason
+        const body = await response.json().catch(() => null);
+        throw new Error([body?.message ?? 'Failed to create transaction'].flat().join('. '));
       }
       
       const result = await response.json();
@@ -180,28 +249,72 @@ export default function PaybillPage() {
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="billerSearch">Find a Biller</Label>
+              <Input
+                id="billerSearch"
+                placeholder="KPLC, DStv, Nairobi Water..."
+                value={billerQuery}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => searchBillers(e.target.value)}
+                autoComplete="off"
+              />
+              {billers.length > 0 && (
+                <div className="border rounded-lg divide-y">
+                  {billers.map(result => (
+                    <button
+                      key={result.paybillNumber}
+                      type="button"
+                      className="w-full px-3 py-2 text-left text-sm hover:bg-muted"
+                      onClick={() => selectBiller(result)}
+                    >
+                      {result.name}
+                      <span className="ml-2 text-muted-foreground">{result.paybillNumber}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            
             <div className="space-y-2">
               <Label htmlFor="businessNumber">Business Number</Label>
               <Input
                 id="businessNumber"
                 placeholder="123456"
-                {...register('businessNumber')}
+                {...register('businessNumber', {
+                  onChange: () => setBiller(null),
+                  onBlur: e => lookupRecipient(e.target.value),
+                })}
               />
               {errors.businessNumber && (
                 <p className="text-sm text-red-500">{errors.businessNumber.message}</p>
               )}
+              {recipient && (
+                <p className="text-sm text-green-600">Paying {recipient.name}</p>
+              )}
+              {recipientUnconfirmed && (
+                <p className="text-sm text-amber-600">
+                  We couldn't confirm who this business number belongs to. Check it before paying.
+                </p>
+              )}
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="accountNumber">Account Number</Label>
+              <Label htmlFor="accountNumber">
+                {biller?.accountNumberLabel ?? 'Account Number'}
+              </Label>
               <Input
                 id="accountNumber"
-                placeholder="Your account number"
+                placeholder={biller?.accountNumberHint ?? 'Your account number'}
                 {...register('accountNumber')}
               />
               {errors.accountNumber && (
                 <p className="text-sm text-red-500">{errors.accountNumber.message}</p>
               )}
+              {accountNumberMismatch && (
+                <p className="text-sm text-amber-600">
+                  This doesn't look like a {recipient?.name} account number. Check it before paying.
+                </p>
+              )}
             </div>
             
             <div className="space-y-2">
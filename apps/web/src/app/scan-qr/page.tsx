@@ -10,6 +10,8 @@ import { Loader2, CheckCircle, XCircle, Camera, QrCode } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { LipaNaMpesaQr } from '@bitpesa/shared-types';
+import { generateLipaNaMpesaQr, parseLipaNaMpesaQr } from '@bitpesa/shared-utils';
 
 const scanQrSchema = z.object({
   qrCodeData: z.string().min(1, 'QR code data is required'),
@@ -34,21 +36,13 @@ interface TransactionState {
   scannedData?: string;
 }
 
-interface ParsedQrData {
-  type: 'paybill' | 'till' | 'unknown';
-  businessNumber?: string;
-  tillNumber?: string;
-  amount?: number;
-  accountNumber?: string;
-  reference?: string;
-}
-
 export default function ScanQrPage() {
   const [transactionState, setTransactionState] = useState<TransactionState>({ status: 'idle' });
   const [btcAmount, setBtcAmount] = useState<number>(0);
   const [exchangeRate, setExchangeRate] = useState<number>(0);
   const [fee, setFee] = useState<number>(0);
-  const [parsedQrData, setParsedQrData] = useState<ParsedQrData | null>(null);
+  const [parsedQrData, setParsedQrData] = useState<LipaNaMpesaQr | null>(null);
+  const [qrError, setQrError] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
@@ -87,40 +81,18 @@ export default function ScanQrPage() {
     }
   };
 
-  const parseQrCode = (qrData: string): ParsedQrData => {
-    // M-Pesa QR code format parsing
-    // This is a simplified parser - in production, you'd use a proper QR code library
+  const readQrCode = (qrData: string) => {
     try {
-      const url = new URL(qrData);
-      
-      if (url.hostname.includes('mpesa') || url.pathname.includes('paybill')) {
-        const params = new URLSearchParams(url.search);
-        return {
-          type: 'paybill',
-          businessNumber: params.get('business') || undefined,
-          amount: params.get('amount') ? parseFloat(params.get('amount')!) : undefined,
-          accountNumber: params.get('account') || undefined,
-          reference: params.get('reference') || undefined,
-        };
-      } else if (url.pathname.includes('till')) {
-        const params = new URLSearchParams(url.search);
-        return {
-          type: 'till',
-          tillNumber: params.get('till') || undefined,
-          amount: params.get('amount') ? parseFloat(params.get('amount')!) : undefined,
-          reference: params.get('reference') || undefined,
-        };
+      const parsed = parseLipaNaMpesaQr(qrData);
+      setParsedQrData(parsed);
+      setQrError(null);
+      if (parsed.amount) {
+        setValue('amount', parsed.amount);
       }
     } catch (error) {
-      // Not a URL, try to parse as plain text
-      if (qrData.includes('paybill') || qrData.includes('600')) {
-        return { type: 'paybill' };
-      } else if (qrData.includes('till') || qrData.includes('123')) {
-        return { type: 'till' };
-      }
+      setParsedQrData(null);
+      setQrError(error instanceof Error ? error.message : 'Unreadable QR code');
     }
-    
-    return { type: 'unknown' };
   };
 
   const startCamera = async () => {
@@ -169,19 +141,20 @@ export default function ScanQrPage() {
 
     // In a real implementation, you would use a QR code scanning library here
     // For now, we'll simulate scanning
-    const simulatedQrData = 'mpesa://paybill?business=600988&account=123456&amount=1000';
+    const simulatedQrData = generateLipaNaMpesaQr({
+      type: 'PAYBILL',
+      merchantName: 'KPLC Prepaid',
+      shortCode: '888880',
+      accountNumber: '12345678901',
+      amount: 1000,
+    });
     handleQrCodeScanned(simulatedQrData);
   };
 
   const handleQrCodeScanned = (qrData: string) => {
-    const parsed = parseQrCode(qrData);
-    setParsedQrData(parsed);
+    readQrCode(qrData);
     setValue('qrCodeData', qrData);
     
-    if (parsed.amount) {
-      setValue('amount', parsed.amount);
-    }
-    
     stopCamera();
   };
 
@@ -295,13 +268,14 @@ export default function ScanQrPage() {
                 <Label htmlFor="qrCodeData">QR Code Data *</Label>
                 <Input
                   id="qrCodeData"
-                  placeholder="mpesa://paybill?business=600988&account=123456"
-                  {...register('qrCodeData')}
+                  placeholder="000201010211..."
+                  {...register('qrCodeData', { onBlur: e => readQrCode(e.target.value) })}
                   className={errors.qrCodeData ? 'border-red-500' : ''}
                 />
                 {errors.qrCodeData && (
                   <p className="text-red-500 text-sm mt-1">{errors.qrCodeData.message}</p>
                 )}
+                {qrError && <p className="text-red-500 text-sm mt-1">{qrError}</p>}
               </div>
 
               <div>
@@ -335,13 +309,13 @@ export default function ScanQrPage() {
                 <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
                   <h3 className="font-semibold mb-2">Detected Payment Type</h3>
                   <div className="text-sm">
-                    <p><strong>Type:</strong> {parsedQrData.type}</p>
-                    {parsedQrData.businessNumber && (
-                      <p><strong>Business Number:</strong> {parsedQrData.businessNumber}</p>
-                    )}
-                    {parsedQrData.tillNumber && (
-                      <p><strong>Till Number:</strong> {parsedQrData.tillNumber}</p>
-                    )}
+                    <p><strong>Merchant:</strong> {parsedQrData.merchantName}</p>
+                    <p>
+                      <strong>
+                        {parsedQrData.type === 'PAYBILL' ? 'Business Number' : 'Till Number'}:
+                      </strong>{' '}
+                      {parsedQrData.shortCode}
+                    </p>
                     {parsedQrData.accountNumber && (
                       <p><strong>Account:</strong> {parsedQrData.accountNumber}</p>
                     )}
@@ -11,10 +11,19 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, QrCode, Camera } from 'lucide-react';
 import QRCode from 'qrcode.react';
+import { LipaNaMpesaQr } from '@bitpesa/shared-types';
+import { generateLipaNaMpesaQr, parseLipaNaMpesaQr } from '@bitpesa/shared-utils';
 
 const scanPaySchema = z.object({
   qrData: z.string()
-    .min(1, 'QR code data is required'),
+    .min(1, 'QR code data is required')
+    .superRefine((value, ctx) => {
+      try {
+        parseLipaNaMpesaQr(value);
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+      }
+    }),
   amount: z.number()
     .min(10, 'Minimum amount is 10 KES')
     .max(150000, 'Maximum amount is 150,000 KES'),
@@ -26,6 +35,21 @@ const scanPaySchema = z.object({
 
 type ScanPayForm = z.infer<typeof scanPaySchema>;
 
+// Stands in for a scanned code until image and camera scanning are implemented
+const SIMULATED_QR_DATA = generateLipaNaMpesaQr({
+  type: 'TILL',
+  merchantName: 'Mama Mboga Groceries',
+  shortCode: '123456',
+});
+
+function readLipaNaMpesaQr(data?: string): LipaNaMpesaQr | null {
+  try {
+    return data ? parseLipaNaMpesaQr(data) : null;
+  } catch {
+    return null;
+  }
+}
+
 interface TransactionResponse {
   transactionId: string;
   btcAddress: string;
@@ -56,6 +80,7 @@ export default function ScanPayPage() {
   
   const amount = watch('amount');
   const qrData = watch('qrData');
+  const scannedQr = readLipaNaMpesaQr(qrData);
   
   const onSubmit = async (data: ScanPayForm) => {
     setIsLoading(true);
@@ -93,7 +118,7 @@ export default function ScanPayPage() {
     if (file) {
       // In a real implementation, you would process the QR code image here
       // For now, we'll just simulate QR code data
-      setValue('qrData', 'simulated_qr_data_from_image');
+      setValue('qrData', SIMULATED_QR_DATA, { shouldValidate: true });
     }
   };
 
@@ -102,7 +127,7 @@ export default function ScanPayPage() {
     // In a real implementation, you would start the camera and QR scanner here
     // For now, we'll simulate scanning
     setTimeout(() => {
-      setValue('qrData', 'simulated_qr_data_from_camera');
+      setValue('qrData', SIMULATED_QR_DATA, { shouldValidate: true });
       setIsScanning(false);
     }, 2000);
   };
@@ -270,10 +295,12 @@ export default function ScanPayPage() {
               </div>
             )}
             
-            {qrData && (
+            {scannedQr && (
               <div className="p-3 bg-green-50 rounded-lg">
                 <p className="text-sm text-green-700">
-                  ✅ QR Code detected: {qrData.substring(0, 20)}...
+                  ✅ {scannedQr.merchantName}: {scannedQr.type === 'PAYBILL' ? 'Paybill' : 'Till'}{' '}
+                  {scannedQr.shortCode}
+                  {scannedQr.accountNumber && `, account ${scannedQr.accountNumber}`}
                 </p>
               </div>
             )}
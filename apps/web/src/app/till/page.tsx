@@ -38,10 +38,16 @@ interface TransactionResponse {
   qrCode: string;
 }
 
+interface Recipient {
+  name: string;
+}
+
 export default function BuyGoodsPage() {
   const [transaction, setTransaction] = useState<TransactionResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [recipient, setRecipient] = useState<Recipient | null>(null);
+  const [recipientUnconfirmed, setRecipientUnconfirmed] = useState(false);
   
   const {
     register,
@@ -54,6 +60,25 @@ export default function BuyGoodsPage() {
   
   const amount = watch('amount');
   
+  // Show who the till belongs to before the user pays it
+  const lookupRecipient = async (number: string) => {
+    setRecipient(null);
+    setRecipientUnconfirmed(false);
+    if (!/^[0-9]{5,7}$/.test(number)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/v1/mpesa/lookup/till/${number}`);
+      if (!response.ok) {
+        throw new Error('Recipient not found');
+      }
+      setRecipient(await response.json());
+    } catch {
+      setRecipientUnconfirmed(true);
+    }
+  };
+  
   const onSubmit = async (data: BuyGoodsForm) => {
     setIsLoading(true);
     setError(null);
@@ -68,6 +93,7 @@ export default function BuyGoodsPage() {
           recipientPhone: data.phoneNumber,
           amount: data.amount,
           merchantCode: data.tillNumber,
+          recipientName: recipient?.name,
         }),
       });
       
@@ -181,11 +207,19 @@ export default function BuyGoodsPage() {
               <Input
                 id="tillNumber"
                 placeholder="123456"
-                {...register('tillNumber')}
+                {...register('tillNumber', { onBlur: e => lookupRecipient(e.target.value) })}
               />
               {errors.tillNumber && (
                 <p className="text-sm text-red-500">{errors.tillNumber.message}</p>
               )}
+              {recipient && (
+                <p className="text-sm text-green-600">Paying {recipient.name}</p>
+              )}
+              {recipientUnconfirmed && (
+                <p className="text-sm text-amber-600">
+                  We couldn't confirm who this till number belongs to. Check it before paying.
+                </p>
+              )}
             </div>
             
             <div className="space-y-2">
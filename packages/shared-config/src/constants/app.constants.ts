@@ -259,6 +259,7 @@ export const ERROR_CODES = {
   TRANSACTION_NOT_FOUND: 'TRANSACTION_NOT_FOUND',
   TRANSACTION_EXPIRED: 'TRANSACTION_EXPIRED',
   TRANSACTION_ALREADY_PROCESSED: 'TRANSACTION_ALREADY_PROCESSED',
+  INVALID_STATUS_TRANSITION: 'INVALID_STATUS_TRANSITION',
   INSUFFICIENT_FUNDS: 'INSUFFICIENT_FUNDS',
   
   // M-Pesa errors
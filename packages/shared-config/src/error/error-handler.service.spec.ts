@@ -1,11 +1,10 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { Logger } from '@nestjs/common';
+import { HttpException } from '@nestjs/common';
 import { ErrorHandlerService, AppError } from '../error/error-handler.service';
 import { ERROR_CODES, HTTP_STATUS } from '../constants/app.constants';
 
 describe('ErrorHandlerService', () => {
   let service: ErrorHandlerService;
-  let _logger: Logger;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -13,7 +12,6 @@ describe('ErrorHandlerService', () => {
     }).compile();
 
     service = module.get<ErrorHandlerService>(ErrorHandlerService);
-    _logger = module.get<Logger>(Logger);
   });
 
   afterEach(() => {
@@ -35,9 +33,7 @@ describe('ErrorHandlerService', () => {
     });
 
     it('should handle HttpException correctly', () => {
-      const error = new Error('Http error');
-      error.name = 'HttpException';
-      (error as any).getStatus = () => HTTP_STATUS.NOT_FOUND;
+      const error = new HttpException('Http error', HTTP_STATUS.NOT_FOUND);
 
       const errorDetails = service.handleError(error, 'TestService');
 
@@ -55,6 +51,16 @@ describe('ErrorHandlerService', () => {
       expect(errorDetails.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
     });
 
+    it('should handle InvalidTransactionTransitionError correctly', () => {
+      const error = new Error('Illegal LIGHTNING transaction status transition COMPLETED -> PENDING');
+      error.name = 'InvalidTransactionTransitionError';
+
+      const errorDetails = service.handleError(error, 'TestService');
+
+      expect(errorDetails.code).toBe(ERROR_CODES.INVALID_STATUS_TRANSITION);
+      expect(errorDetails.statusCode).toBe(HTTP_STATUS.CONFLICT);
+    });
+
     it('should handle PrismaClientKnownRequestError correctly', () => {
       const error = new Error('Unique constraint violation');
       error.name = 'PrismaClientKnownRequestError';
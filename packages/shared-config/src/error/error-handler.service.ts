@@ -106,6 +106,20 @@ export class ErrorHandlerService {
       };
     }
 
+    // Handle illegal transaction and refund status transitions from the shared state machines
+    if (
+      error.name === 'InvalidTransactionTransitionError' ||
+      error.name === 'InvalidRefundTransitionError'
+    ) {
+      return {
+        code: ERROR_CODES.INVALID_STATUS_TRANSITION,
+        message: error.message,
+        statusCode: HTTP_STATUS.CONFLICT,
+        timestamp: new Date().toISOString(),
+        stack: error.stack,
+      };
+    }
+
     // Handle database errors
     if (error.name === 'PrismaClientKnownRequestError') {
       return this.handlePrismaError(error);
@@ -0,0 +1,65 @@
+import { DomainEvent, EventType } from '@bitpesa/shared-types';
+import { deduplicateEvents, ProcessedEventDelegate } from './deduplicate-events';
+
+describe('deduplicateEvents', () => {
+  let processed: Set<string>;
+  let processedEvent: ProcessedEventDelegate;
+
+  const event: DomainEvent = {
+    id: 'event-1',
+    type: EventType.MPESA_COMPLETED,
+    source: 'mpesa-service',
+    aggregateId: 'mpesa-1',
+    payload: {},
+    occurredAt: '2024-06-10T06:13:25.000Z',
+  };
+
+  beforeEach(() => {
+    processed = new Set();
+
+    // In-memory processed_events table
+    processedEvent = {
+      findUnique: jest.fn(async ({ where }) => {
+        const { eventId, consumer } = where.eventId_consumer;
+        return processed.has(`${eventId}|${consumer}`) ? { eventId, consumer } : null;
+      }),
+      createMany: jest.fn(async ({ data: [{ eventId, consumer }] }) => {
+        processed.add(`${eventId}|${consumer}`);
+        return { count: 1 };
+      }),
+    };
+  });
+
+  it('should handle a redelivered event only once', async () => {
+    const handler = jest.fn(async () => undefined);
+    const deduplicated = deduplicateEvents(processedEvent, 'transaction-service', handler);
+
+    await deduplicated(event);
+    await deduplicated(event);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let each consumer handle the event', async () => {
+    const handler = jest.fn(async () => undefined);
+
+    await deduplicateEvents(processedEvent, 'transaction-service', handler)(event);
+    await deduplicateEvents(processedEvent, 'receipt-service', handler)(event);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not record an event whose handler failed', async () => {
+    const handler = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('transaction locked'))
+      .mockResolvedValueOnce(undefined);
+    const deduplicated = deduplicateEvents(processedEvent, 'transaction-service', handler);
+
+    await expect(deduplicated(event)).rejects.toThrow('transaction locked');
+    expect(processed.size).toBe(0);
+
+    await deduplicated(event);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
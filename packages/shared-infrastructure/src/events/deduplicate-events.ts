@@ -0,0 +1,47 @@
+import { Logger } from '@nestjs/common';
+import { EventHandler } from './event-broker';
+
+/**
+ * The part of a service's Prisma client event deduplication needs, its `processedEvent`
+ * model; every service that consumes events has a ProcessedEvent model keyed by
+ * (eventId, consumer)
+ */
+export interface ProcessedEventDelegate {
+  findUnique(args: {
+    where: { eventId_consumer: { eventId: string; consumer: string } };
+  }): Promise<unknown | null>;
+  createMany(args: {
+    data: Array<{ eventId: string; consumer: string }>;
+    skipDuplicates: true;
+  }): Promise<{ count: number }>;
+}
+
+const logger = new Logger('DeduplicateEvents');
+
+/**
+ * Wrap a handler so events it has already handled are skipped when redelivered
+ * An event is recorded only once its handler succeeds, so a crash part-way through leads
+ * to a redelivery rather than a lost event. Two deliveries racing each other can both
+ * run, so handlers still have to be safe to repeat.
+ */
+export function deduplicateEvents(
+  processedEvent: ProcessedEventDelegate,
+  consumer: string,
+  handler: EventHandler
+): EventHandler {
+  return async event => {
+    const processed = await processedEvent.findUnique({
+      where: { eventId_consumer: { eventId: event.id, consumer } },
+    });
+    if (processed) {
+      logger.debug(`${consumer} already handled ${event.type} ${event.id}`);
+      return;
+    }
+
+    await handler(event);
+    await processedEvent.createMany({
+      data: [{ eventId: event.id, consumer }],
+      skipDuplicates: true,
+    });
+  };
+}
@@ -0,0 +1,29 @@
+import { ConfigService } from '@nestjs/config';
+import { EventBroker } from './event-broker';
+import { InMemoryEventBroker } from './in-memory-event-broker';
+import { RedisStreamsEventBroker } from './redis-streams-event-broker';
+
+/**
+ * Build the event broker selected by EVENT_BROKER (redis or memory)
+ */
+export function createEventBroker(configService: ConfigService): EventBroker {
+  const backend = configService.get<string>('EVENT_BROKER', 'redis');
+
+  switch (backend) {
+    case 'redis':
+      return new RedisStreamsEventBroker({
+        url: configService.get<string>('REDIS_URL', 'redis://localhost:6379'),
+        stream: configService.get<string>('EVENT_STREAM', 'bitpesa:events'),
+      });
+
+    case 'memory':
+      // Events never leave the process, so other services would not see them
+      if (configService.get<string>('NODE_ENV') === 'production') {
+        throw new Error('The in-memory event broker cannot be used in production');
+      }
+      return new InMemoryEventBroker();
+
+    default:
+      throw new Error(`Unsupported EVENT_BROKER: ${backend}`);
+  }
+}
@@ -0,0 +1,30 @@
+import { DomainEvent, EventType } from '@bitpesa/shared-types';
+
+/**
+ * Event broker contract
+ * Services publish through the outbox relay and consume through subscriptions; the
+ * in-memory and Redis Streams brokers both deliver each event at least once per group.
+ */
+
+export const EVENT_BROKER = Symbol('EVENT_BROKER');
+
+export type EventHandler = (event: DomainEvent) => Promise<void>;
+
+export interface EventSubscription {
+  /**
+   * Consumer group, unique to this subscription; every group gets each event, and the
+   * instances of a service subscribing with the same group share the work
+   */
+  group: string;
+  types: EventType[];
+  handler: EventHandler;
+}
+
+export interface EventBroker {
+  publish(event: DomainEvent): Promise<void>;
+
+  /** Deliver matching events to the handler until it succeeds */
+  subscribe(subscription: EventSubscription): Promise<void>;
+
+  close(): Promise<void>;
+}
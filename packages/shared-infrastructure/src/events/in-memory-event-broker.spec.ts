@@ -0,0 +1,75 @@
+import { DomainEvent, EventType } from '@bitpesa/shared-types';
+import { InMemoryEventBroker } from './in-memory-event-broker';
+
+describe('InMemoryEventBroker', () => {
+  const event = (id: string, type = EventType.TRANSACTION_PAID): DomainEvent => ({
+    id,
+    type,
+    source: 'transaction-service',
+    aggregateId: 'tx-1',
+    payload: {},
+    occurredAt: new Date().toISOString(),
+  });
+
+  it('should deliver each event to every group subscribed to its type', async () => {
+    const broker = new InMemoryEventBroker();
+    const mpesa = jest.fn(async () => undefined);
+    const receipts = jest.fn(async () => undefined);
+    await broker.subscribe({ group: 'mpesa', types: [EventType.TRANSACTION_PAID], handler: mpesa });
+    await broker.subscribe({
+      group: 'receipts',
+      types: [EventType.TRANSACTION_COMPLETED],
+      handler: receipts,
+    });
+
+    await broker.publish(event('event-1'));
+    await broker.drain();
+
+    expect(mpesa).toHaveBeenCalledWith(expect.objectContaining({ id: 'event-1' }));
+    expect(receipts).not.toHaveBeenCalled();
+  });
+
+  it('should deliver events published before the subscription', async () => {
+    const broker = new InMemoryEventBroker();
+    const handler = jest.fn(async () => undefined);
+
+    await broker.publish(event('event-1'));
+    await broker.subscribe({ group: 'mpesa', types: [EventType.TRANSACTION_PAID], handler });
+    await broker.drain();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should redeliver an event until its handler succeeds', async () => {
+    const broker = new InMemoryEventBroker({ redeliveryDelayMs: 0 });
+    const handler = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('database unavailable'))
+      .mockResolvedValueOnce(undefined);
+    await broker.subscribe({ group: 'mpesa', types: [EventType.TRANSACTION_PAID], handler });
+
+    await broker.publish(event('event-1'));
+    await broker.drain();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(broker.deadLetters).toHaveLength(0);
+  });
+
+  it('should park an event that keeps failing', async () => {
+    const broker = new InMemoryEventBroker({ redeliveryDelayMs: 0, maxDeliveries: 3 });
+    const handler = jest.fn().mockRejectedValue(new Error('unknown transaction'));
+    await broker.subscribe({ group: 'mpesa', types: [EventType.TRANSACTION_PAID], handler });
+
+    await broker.publish(event('event-1'));
+    await broker.drain();
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(broker.deadLetters).toEqual([
+      {
+        group: 'mpesa',
+        event: expect.objectContaining({ id: 'event-1' }),
+        error: 'unknown transaction',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { Logger } from '@nestjs/common';
+import { DomainEvent } from '@bitpesa/shared-types';
+import { EventBroker, EventSubscription } from './event-broker';
+
+export interface InMemoryEventBrokerOptions {
+  redeliveryDelayMs?: number;
+  maxDeliveries?: number;
+}
+
+/**
+ * Broker for tests and single-process development
+ * A failed delivery is retried after redeliveryDelayMs; after maxDeliveries the event is
+ * parked in deadLetters.
+ */
+export class InMemoryEventBroker implements EventBroker {
+  private readonly logger = new Logger(InMemoryEventBroker.name);
+  readonly published: DomainEvent[] = [];
+  readonly deadLetters: Array<{ group: string; event: DomainEvent; error: string }> = [];
+  private readonly subscriptions: EventSubscription[] = [];
+  private readonly deliveries = new Set<Promise<void>>();
+  private readonly redeliveryDelayMs: number;
+  private readonly maxDeliveries: number;
+  private closed = false;
+
+  constructor(options: InMemoryEventBrokerOptions = {}) {
+    this.redeliveryDelayMs = options.redeliveryDelayMs ?? 1000;
+    this.maxDeliveries = options.maxDeliveries ?? 5;
+  }
+
+  async publish(event: DomainEvent): Promise<void> {
+    this.published.push(event);
+    this.subscriptions.forEach(subscription => this.dispatch(subscription, event));
+  }
+
+  async subscribe(subscription: EventSubscription): Promise<void> {
+    this.subscriptions.push(subscription);
+    // Like a new Redis consumer group, start from the oldest event
+    this.published.forEach(event => this.dispatch(subscription, event));
+  }
+
+  /**
+   * Wait until every delivery in progress, including redeliveries, has finished
+   */
+  async drain(): Promise<void> {
+    while (this.deliveries.size > 0) {
+      await Promise.all([...this.deliveries]);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.drain();
+  }
+
+  private dispatch(subscription: EventSubscription, event: DomainEvent): void {
+    if (!subscription.types.includes(event.type)) {
+      return;
+    }
+
+    const delivery = this.deliver(subscription, event, 1).finally(() => {
+      this.deliveries.delete(delivery);
+    });
+    this.deliveries.add(delivery);
+  }
+
+  private async deliver(
+    subscription: EventSubscription,
+    event: DomainEvent,
+    attempt: number
+  ): Promise<void> {
+    try {
+      await subscription.handler(event);
+    } catch (error) {
+      const message = (error as Error).message;
+      if (attempt >= this.maxDeliveries || this.closed) {
+        this.logger.error(
+          `Giving up on ${event.type} ${event.id} for ${subscription.group}: ${message}`
+        );
+        this.deadLetters.push({ group: subscription.group, event, error: message });
+        return;
+      }
+
+      this.logger.warn(
+        `Redelivering ${event.type} ${event.id} to ${subscription.group}: ${message}`
+      );
+      await new Promise(resolve => setTimeout(resolve, this.redeliveryDelayMs));
+      await this.deliver(subscription, event, attempt + 1);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+export { EVENT_BROKER } from './event-broker';
+export type { EventBroker, EventHandler, EventSubscription } from './event-broker';
+export { InMemoryEventBroker } from './in-memory-event-broker';
+export type { InMemoryEventBrokerOptions } from './in-memory-event-broker';
+export { RedisStreamsEventBroker } from './redis-streams-event-broker';
+export type { RedisStreamsEventBrokerOptions } from './redis-streams-event-broker';
+export { createEventBroker } from './event-broker.factory';
+export { OutboxRelay } from './outbox-relay';
+export type { OutboxRecord, OutboxRelayOptions, OutboxStore } from './outbox-relay';
+export { PrismaOutboxStore } from './prisma-outbox.store';
+export type { OutboxEventDelegate } from './prisma-outbox.store';
+export { deduplicateEvents } from './deduplicate-events';
+export type { ProcessedEventDelegate } from './deduplicate-events';
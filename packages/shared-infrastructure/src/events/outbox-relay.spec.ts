@@ -0,0 +1,73 @@
+import { EventType } from '@bitpesa/shared-types';
+import { InMemoryEventBroker } from './in-memory-event-broker';
+import { OutboxRecord, OutboxRelay, OutboxStore } from './outbox-relay';
+
+describe('OutboxRelay', () => {
+  let rows: Array<OutboxRecord & { publishedAt: Date | null; lastError?: string }>;
+  let store: OutboxStore;
+  let broker: InMemoryEventBroker;
+  let relay: OutboxRelay;
+
+  const record = (id: string, type: EventType, aggregateId = 'tx-1') => ({
+    id,
+    type,
+    aggregateId,
+    payload: { transactionId: aggregateId },
+    createdAt: new Date(`2024-06-10T06:13:2${rows.length}Z`),
+    publishedAt: null,
+  });
+
+  beforeEach(() => {
+    rows = [];
+
+    // In-memory outbox_events table
+    store = {
+      fetchUnpublished: jest.fn(async (limit: number) =>
+        rows.filter(row => !row.publishedAt).slice(0, limit)
+      ),
+      markPublished: jest.fn(async (id: string) => {
+        rows.find(row => row.id === id)!.publishedAt = new Date();
+      }),
+      markFailed: jest.fn(async (id: string, error: string) => {
+        rows.find(row => row.id === id)!.lastError = error;
+      }),
+    };
+    broker = new InMemoryEventBroker();
+    relay = new OutboxRelay(store, broker, { source: 'transaction-service', batchSize: 2 });
+  });
+
+  it('should publish pending events oldest first and mark them published', async () => {
+    rows.push(record('event-1', EventType.TRANSACTION_PAID));
+    rows.push(record('event-2', EventType.TRANSACTION_COMPLETED));
+
+    await expect(relay.relayOnce()).resolves.toBe(2);
+
+    expect(broker.published).toEqual([
+      {
+        id: 'event-1',
+        type: EventType.TRANSACTION_PAID,
+        source: 'transaction-service',
+        aggregateId: 'tx-1',
+        payload: { transactionId: 'tx-1' },
+        occurredAt: '2024-06-10T06:13:20.000Z',
+      },
+      expect.objectContaining({ id: 'event-2', type: EventType.TRANSACTION_COMPLETED }),
+    ]);
+    expect(rows.every(row => row.publishedAt)).toBe(true);
+    await expect(relay.relayOnce()).resolves.toBe(0);
+  });
+
+  it('should stop at the first failure so later events stay in order', async () => {
+    rows.push(record('event-1', EventType.TRANSACTION_PAID));
+    rows.push(record('event-2', EventType.TRANSACTION_COMPLETED));
+    jest.spyOn(broker, 'publish').mockRejectedValueOnce(new Error('Redis unavailable'));
+
+    await expect(relay.relayOnce()).resolves.toBe(0);
+
+    expect(rows[0]).toMatchObject({ publishedAt: null, lastError: 'Redis unavailable' });
+    expect(rows[1].publishedAt).toBeNull();
+
+    await expect(relay.relayOnce()).resolves.toBe(2);
+    expect(broker.published.map(event => event.id)).toEqual(['event-1', 'event-2']);
+  });
+});
@@ -0,0 +1,114 @@
+import { Logger, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { DomainEvent, EventType } from '@bitpesa/shared-types';
+import { EventBroker } from './event-broker';
+
+export interface OutboxRecord {
+  id: string;
+  type: string;
+  aggregateId: string;
+  payload: unknown;
+  createdAt: Date;
+}
+
+export interface OutboxStore {
+  /** Oldest events that have not been published yet */
+  fetchUnpublished(limit: number): Promise<OutboxRecord[]>;
+  markPublished(id: string): Promise<void>;
+  markFailed(id: string, error: string): Promise<void>;
+}
+
+export interface OutboxRelayOptions {
+  /** Service name stamped on every event as its source */
+  source: string;
+  intervalMs?: number;
+  batchSize?: number;
+}
+
+/**
+ * Publishes outbox rows to the event broker
+ * Events go out oldest first and a batch stops at the first failure, so events about the
+ * same aggregate keep their order. An event may be published twice if the process dies
+ * between publishing and marking it; consumers dedup on the event id.
+ */
+export class OutboxRelay implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(OutboxRelay.name);
+  private readonly intervalMs: number;
+  private readonly batchSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly store: OutboxStore,
+    private readonly broker: EventBroker,
+    private readonly options: OutboxRelayOptions
+  ) {
+    this.intervalMs = options.intervalMs ?? 1000;
+    this.batchSize = options.batchSize ?? 100;
+  }
+
+  onApplicationBootstrap(): void {
+    this.schedule();
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    await this.broker.close();
+  }
+
+  /**
+   * Publish one batch of pending events, returning how many went out
+   */
+  async relayOnce(): Promise<number> {
+    const records = await this.store.fetchUnpublished(this.batchSize);
+
+    let published = 0;
+    for (const record of records) {
+      try {
+        await this.broker.publish(this.toEvent(record));
+        await this.store.markPublished(record.id);
+        published++;
+      } catch (error) {
+        const message = (error as Error).message;
+        this.logger.warn(`Publishing ${record.type} ${record.id} failed: ${message}`);
+        await this.store.markFailed(record.id, message);
+        break;
+      }
+    }
+
+    return published;
+  }
+
+  private schedule(delayMs = this.intervalMs): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      let nextDelayMs = this.intervalMs;
+      try {
+        // Keep going without waiting while there is a backlog
+        if ((await this.relayOnce()) === this.batchSize) {
+          nextDelayMs = 0;
+        }
+      } catch (error) {
+        this.logger.error('Outbox relay failed', error);
+      }
+      this.schedule(nextDelayMs);
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  private toEvent(record: OutboxRecord): DomainEvent {
+    return {
+      id: record.id,
+      type: record.type as EventType,
+      source: this.options.source,
+      aggregateId: record.aggregateId,
+      payload: record.payload as Record<string, unknown>,
+      occurredAt: record.createdAt.toISOString(),
+    };
+  }
+}
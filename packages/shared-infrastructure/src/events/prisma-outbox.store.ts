@@ -0,0 +1,37 @@
+import { OutboxRecord, OutboxStore } from './outbox-relay';
+
+/**
+ * The part of a service's Prisma client the outbox needs, its `outboxEvent` model; every
+ * service that publishes events has an OutboxEvent model with the same columns
+ */
+export interface OutboxEventDelegate {
+  findMany(args: {
+    where: { publishedAt: null };
+    orderBy: { createdAt: 'asc' };
+    take: number;
+  }): Promise<OutboxRecord[]>;
+  update(args: { where: { id: string }; data: Record<string, unknown> }): Promise<unknown>;
+}
+
+export class PrismaOutboxStore implements OutboxStore {
+  constructor(private readonly outboxEvent: OutboxEventDelegate) {}
+
+  fetchUnpublished(limit: number): Promise<OutboxRecord[]> {
+    return this.outboxEvent.findMany({
+      where: { publishedAt: null },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  async markPublished(id: string): Promise<void> {
+    await this.outboxEvent.update({ where: { id }, data: { publishedAt: new Date() } });
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.outboxEvent.update({
+      where: { id },
+      data: { attempts: { increment: 1 }, lastError: error },
+    });
+  }
+}
@@ -0,0 +1,146 @@
+import * as os from 'os';
+import { Logger } from '@nestjs/common';
+import { createClient, RedisClientType } from 'redis';
+import { DomainEvent } from '@bitpesa/shared-types';
+import { EventBroker, EventSubscription } from './event-broker';
+
+export interface RedisStreamsEventBrokerOptions {
+  url: string;
+  stream?: string;
+  /** Unique per process so pending messages can be told apart */
+  consumerName?: string;
+  batchSize?: number;
+  blockMs?: number;
+  /** Messages left unacknowledged this long are redelivered, to this or another member */
+  claimIdleMs?: number;
+  /** Approximate number of events kept in the stream */
+  maxLength?: number;
+}
+
+/**
+ * Broker on a single Redis stream with one consumer group per subscribing service
+ * A message is acknowledged only after its handler succeeds; failed messages stay pending
+ * and are claimed again once they have been idle for claimIdleMs.
+ */
+export class RedisStreamsEventBroker implements EventBroker {
+  private readonly logger = new Logger(RedisStreamsEventBroker.name);
+  private readonly client: RedisClientType;
+  private readonly readers: RedisClientType[] = [];
+  private readonly stream: string;
+  private readonly consumerName: string;
+  private readonly batchSize: number;
+  private readonly blockMs: number;
+  private readonly claimIdleMs: number;
+  private readonly maxLength: number;
+  private running = true;
+
+  constructor(options: RedisStreamsEventBrokerOptions) {
+    this.client = createClient({ url: options.url });
+    this.client.on('error', error => this.logger.error('Redis event broker error', error));
+    this.stream = options.stream ?? 'bitpesa:events';
+    this.consumerName = options.consumerName ?? `${os.hostname()}-${process.pid}`;
+    this.batchSize = options.batchSize ?? 10;
+    this.blockMs = options.blockMs ?? 5000;
+    this.claimIdleMs = options.claimIdleMs ?? 60000;
+    this.maxLength = options.maxLength ?? 100000;
+  }
+
+  async publish(event: DomainEvent): Promise<void> {
+    await this.connect(this.client);
+    await this.client.xAdd(
+      this.stream,
+      '*',
+      { type: event.type, event: JSON.stringify(event) },
+      { TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: this.maxLength } }
+    );
+  }
+
+  async subscribe(subscription: EventSubscription): Promise<void> {
+    await this.connect(this.client);
+    try {
+      // Start new groups from the oldest event so nothing published before the first
+      // deployment of a consumer is missed
+      await this.client.xGroupCreate(this.stream, subscription.group, '0', { MKSTREAM: true });
+    } catch (error) {
+      if (!(error as Error).message.includes('BUSYGROUP')) {
+        throw error;
+      }
+    }
+
+    // Blocking reads need a connection of their own
+    const reader = this.client.duplicate();
+    await reader.connect();
+    this.readers.push(reader);
+
+    void this.consume(reader, subscription);
+  }
+
+  async close(): Promise<void> {
+    this.running = false;
+    await Promise.all(this.readers.map(reader => reader.disconnect()));
+    if (this.client.isOpen) {
+      await this.client.quit();
+    }
+  }
+
+  private async consume(reader: RedisClientType, subscription: EventSubscription): Promise<void> {
+    while (this.running) {
+      try {
+        const claimed = await reader.xAutoClaim(
+          this.stream,
+          subscription.group,
+          this.consumerName,
+          this.claimIdleMs,
+          '0-0',
+          { COUNT: this.batchSize }
+        );
+        const read = await reader.xReadGroup(
+          subscription.group,
+          this.consumerName,
+          { key: this.stream, id: '>' },
+          { COUNT: this.batchSize, BLOCK: this.blockMs }
+        );
+
+        const messages = [...claimed.messages, ...(read?.flatMap(stream => stream.messages) ?? [])];
+        for (const message of messages) {
+          if (message) {
+            await this.handle(reader, subscription, message);
+          }
+        }
+      } catch (error) {
+        if (this.running) {
+          this.logger.error(`Reading ${this.stream} for ${subscription.group} failed`, error);
+          await new Promise(resolve => setTimeout(resolve, 1000));
+        }
+      }
+    }
+  }
+
+  private async handle(
+    reader: RedisClientType,
+    subscription: EventSubscription,
+    message: { id: string; message: Record<string, string> }
+  ): Promise<void> {
+    const event = JSON.parse(message.message.event) as DomainEvent;
+
+    if (subscription.types.includes(event.type)) {
+      try {
+        await subscription.handler(event);
+      } catch (error) {
+        // Left pending; claimed again once idle for claimIdleMs
+        this.logger.warn(
+          `${subscription.group} failed to handle ${event.type} ${event.id}: ${(error as Error).message}`
+        );
+        return;
+      }
+    }
+
+    await reader.xAck(this.stream, subscription.group, message.id);
+  }
+
+  private async connect(client: RedisClientType): Promise<void> {
+    if (!client.isOpen) {
+      await client.connect();
+    }
+  }
+}
@@ -11,6 +11,9 @@ export {
   RateLimitService 
 } from './resilience/resilience.service';
 
+// Event exports
+export * from './events';
+
 // Module export
 export { SharedInfrastructureModule } from './shared-infrastructure.module';
 
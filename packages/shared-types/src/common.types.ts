@@ -21,6 +21,16 @@ export enum TransactionStatus {
   FAILED = 'FAILED',
   CANCELLED = 'CANCELLED',
   REFUNDED = 'REFUNDED',
+  EXPIRED = 'EXPIRED',
+  REFUNDING = 'REFUNDING',
+  MPESA_PENDING = 'MPESA_PENDING',
+  // Lightning flow
+  LIGHTNING_PENDING = 'LIGHTNING_PENDING',
+  LIGHTNING_PAID = 'LIGHTNING_PAID',
+  CONVERTING = 'CONVERTING',
+  // Minmo flow
+  AWAITING_BTC_PAYMENT = 'AWAITING_BTC_PAYMENT',
+  BTC_RECEIVED = 'BTC_RECEIVED',
 }
 
 export enum WalletType {
@@ -54,6 +64,17 @@ export enum MpesaTransactionType {
   B2C = 'B2C',
   B2B = 'B2B',
   C2B = 'C2B',
+  // Bought from the recipient's mobile network rather than paid through Daraja
+  AIRTIME = 'AIRTIME',
+}
+
+/**
+ * Kenyan mobile networks airtime can be bought on
+ */
+export enum MobileNetwork {
+  SAFARICOM = 'SAFARICOM',
+  AIRTEL = 'AIRTEL',
+  TELKOM = 'TELKOM',
 }
 
 export enum MpesaStatus {
@@ -62,6 +83,25 @@ export enum MpesaStatus {
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
   CANCELLED = 'CANCELLED',
+  // No outcome from Daraja after reconciliation gave up; needs manual review
+  TIMEOUT = 'TIMEOUT',
+  // Completed, then undone with the Daraja Reversal API
+  REVERSED = 'REVERSED',
+}
+
+/**
+ * State of a Minmo swap as minmo-service stores it
+ */
+export enum SwapStatus {
+  PENDING = 'PENDING',
+  DEPOSIT_PENDING = 'DEPOSIT_PENDING',
+  DEPOSIT_CONFIRMING = 'DEPOSIT_CONFIRMING', // Seen on-chain, too few confirmations to pay out
+  DEPOSIT_RECEIVED = 'DEPOSIT_RECEIVED',
+  PROCESSING = 'PROCESSING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+  EXPIRED = 'EXPIRED',
+  CANCELLED = 'CANCELLED',
 }
 
 export interface ApiResponse<T = any> {
@@ -92,13 +132,34 @@ export interface ExchangeRate {
   validUntil: Date;
 }
 
+/**
+ * Fees charged on a transaction, as worked out by one version of the fee schedule
+ */
+export interface FeeBreakdown {
+  serviceFee: number; // KES
+  mpesaFee: number; // KES, Safaricom tariff passed through to the payer
+  total: number; // KES
+  scheduleVersion: string;
+  promotion?: string;
+}
+
+/**
+ * Firm quote: the payer sends fromAmount BTC and the recipient gets toAmount KES,
+ * at finalRate, as long as a transaction is created against it before expiresAt
+ */
 export interface Quote {
   id: string;
   fromCurrency: Currency;
   toCurrency: Currency;
   fromAmount: number;
   toAmount: number;
+  amountSats: number;
   rate: number;
+  finalRate: number;
+  fees: FeeBreakdown;
+  totalKesAmount: number;
+  transactionType?: string;
   expiresAt: Date;
+  consumedAt?: Date;
   createdAt: Date;
 }
\ No newline at end of file
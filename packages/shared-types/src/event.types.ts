@@ -0,0 +1,80 @@
+import { TransactionStatus } from './common.types';
+import { TransactionFlow } from './transaction-state.types';
+
+/**
+ * Cross-service events
+ * A service never calls another to report a state change. It writes the event to its
+ * outbox in the same database transaction as the change, and the outbox relay publishes
+ * it to the broker. Delivery is at-least-once, so consumers dedup on the event id.
+ */
+
+export enum EventType {
+  TRANSACTION_PAID = 'transaction.paid',
+  TRANSACTION_COMPLETED = 'transaction.completed',
+  TRANSACTION_FAILED = 'transaction.failed',
+  TRANSACTION_EXPIRED = 'transaction.expired',
+  TRANSACTION_REFUNDED = 'transaction.refunded',
+  MPESA_COMPLETED = 'mpesa.completed',
+  MPESA_FAILED = 'mpesa.failed',
+  MPESA_FLOAT_UPDATED = 'mpesa.float.updated',
+  FLOAT_LOW = 'float.low',
+  SWAP_CREATED = 'swap.created',
+  SWAP_CONFIRMED = 'swap.confirmed',
+  SWAP_COMPLETED = 'swap.completed',
+  SWAP_FAILED = 'swap.failed',
+  SWAP_EXPIRED = 'swap.expired',
+}
+
+export interface DomainEvent<T = Record<string, unknown>> {
+  id: string;
+  type: EventType;
+  source: string; // Service that produced the event
+  aggregateId: string; // Transaction, M-Pesa request or swap the event is about
+  payload: T;
+  occurredAt: string; // ISO-8601
+}
+
+export interface TransactionEventPayload {
+  transactionId: string;
+  flow: TransactionFlow;
+  fromStatus: TransactionStatus;
+  status: TransactionStatus;
+  reason?: string;
+}
+
+export interface MpesaEventPayload {
+  mpesaTransactionId: string;
+  transactionId?: string; // transaction-service transaction the payment belongs to
+  resultCode: number;
+  resultDesc: string;
+  receiptNumber?: string;
+  amount?: number;
+}
+
+/**
+ * Balances of the M-Pesa shortcode from an Account Balance result
+ */
+export interface MpesaFloatEventPayload {
+  workingBalance: number; // KES available in the working account
+  utilityBalance: number; // KES available in the utility account B2C payouts draw on
+  checkedAt: string; // ISO-8601
+}
+
+/**
+ * The utility account is projected to run short once in-flight payouts are made
+ */
+export interface FloatLowEventPayload {
+  utilityBalance: number;
+  reserved: number; // KES held for open quotes and unsettled payouts
+  projectedBalance: number;
+  minimumBalance: number; // Quotes are refused below this
+  recommendedTopUp: number; // KES to bring the projected balance back to the target
+  checkedAt: string; // When utilityBalance was reported
+}
+
+export interface SwapEventPayload {
+  swapId: string;
+  status: string;
+  reason?: string;
+  data?: Record<string, unknown>;
+}
@@ -4,4 +4,8 @@ export * from './lightning.types';
 export * from './mpesa.types';
 export * from './wallet.types';
 export * from './common.types';
-export * from './compliance.types';
\ No newline at end of file
+export * from './compliance.types';
+export * from './transaction-state.types';
+export * from './refund.types';
+export * from './event.types';
+export * from './payment-variance.types';
@@ -1,4 +1,4 @@
-import { MpesaTransactionType, MpesaStatus } from './common.types';
+import { MobileNetwork, MpesaTransactionType, MpesaStatus } from './common.types';
 
 export interface MpesaTransaction {
   id: string;
@@ -50,6 +50,17 @@ export interface B2CResponse {
   responseDescription: string;
 }
 
+/**
+ * B2B payment to a paybill or till accepted by Daraja; the outcome arrives on its result callback
+ */
+export interface B2BResponse {
+  mpesaTransactionId: string;
+  originatorConversationId: string;
+  conversationId: string;
+  responseCode: string;
+  responseDescription: string;
+}
+
 export interface C2BRequest {
   phoneNumber: string;
   amount: number;
@@ -66,6 +77,88 @@ export interface C2BResponse {
   responseDescription: string;
 }
 
+/**
+ * Airtime top-up accepted by the recipient's network; the outcome arrives on its callback
+ */
+export interface AirtimePurchaseResponse {
+  mpesaTransactionId: string;
+  network: MobileNetwork;
+  provider: string;
+  providerReference: string;
+}
+
+export enum MpesaRecipientType {
+  PAYBILL = 'PAYBILL',
+  TILL = 'TILL',
+  PHONE = 'PHONE',
+}
+
+/**
+ * Who a paybill, till or phone number belongs to, shown to the payer before paying
+ */
+export interface MpesaRecipient {
+  type: MpesaRecipientType;
+  identifier: string;
+  // Registered name; only the first name and last initial for a phone number
+  name: string;
+  // Account numbers the biller accepts, as a regular expression, when known
+  accountNumberPattern?: string;
+  checkedAt: string;
+}
+
+export enum BillerCategory {
+  ELECTRICITY = 'ELECTRICITY',
+  WATER = 'WATER',
+  TV = 'TV',
+  INTERNET = 'INTERNET',
+  EDUCATION = 'EDUCATION',
+  GOVERNMENT = 'GOVERNMENT',
+  INSURANCE = 'INSURANCE',
+}
+
+/**
+ * A paybill in the biller directory, with the account numbers and amounts it accepts
+ */
+export interface Biller {
+  name: string;
+  paybillNumber: string;
+  category: BillerCategory;
+  // What the biller calls the account number, e.g. "Meter number"
+  accountNumberLabel: string;
+  // Regular expression account numbers must match
+  accountNumberPattern: string;
+  // Check digit scheme account numbers carry, if any
+  accountNumberChecksum?: 'luhn';
+  // Describes a valid account number to the payer
+  accountNumberHint: string;
+  minAmount: number;
+  maxAmount: number;
+}
+
+/**
+ * A Lipa Na M-Pesa QR code's payment details
+ */
+export interface LipaNaMpesaQr {
+  type: 'PAYBILL' | 'TILL';
+  merchantName: string;
+  // Paybill or till number
+  shortCode: string;
+  // Paybill account number
+  accountNumber?: string;
+  // Set on dynamic codes, which are for one payment of this many KES
+  amount?: number;
+  reference?: string;
+  city?: string;
+}
+
+export interface DynamicQrResponse {
+  requestId: string;
+  // PNG image, base64-encoded, as generated by Daraja
+  qrCode: string;
+  // EMVCo payload the image encodes
+  payload: string;
+}
+
 export interface MpesaCallback {
   Body: {
     stkCallback: {
@@ -91,13 +184,14 @@ export interface MpesaB2CCallback {
     OriginatorConversationID: string;
     ConversationID: string;
     TransactionID: string;
-    ResultParameters: {
+    // Left out of failed results
+    ResultParameters?: {
       ResultParameter: Array<{
         Key: string;
         Value: any;
       }>;
     };
-    ReferenceData: {
+    ReferenceData?: {
       ReferenceItem: Array<{
         Key: string;
         Value: any;
@@ -106,6 +200,14 @@ export interface MpesaB2CCallback {
   };
 }
 
+// Reversal result, posted to the reversal's ResultURL; failed reversals can carry
+// alphanumeric result codes such as "R000002"
+export interface MpesaReversalCallback {
+  Result: Omit<MpesaB2CCallback['Result'], 'ResultCode'> & {
+    ResultCode: number | string;
+  };
+}
+
 export interface MpesaC2BCallback {
   TransactionType: string;
   TransID: string;
@@ -130,6 +232,28 @@ export interface MpesaAccountBalance {
   unclearedBalance: number;
 }
 
+/**
+ * Reversal of a completed M-Pesa request, tied to the bridge transaction the request
+ * paid out for
+ */
+export interface MpesaReversal {
+  id: string;
+  mpesaTransactionId: string;
+  transactionId: string;
+  // Receipt of the payment being reversed
+  receiptNumber: string;
+  amount: number;
+  reason: string;
+  requestedBy: string;
+  status: MpesaStatus;
+  resultCode?: string;
+  resultDesc?: string;
+  // Receipt of the reversal itself
+  reversalReceiptNumber?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface MpesaTransactionStatus {
   transactionId: string;
   status: MpesaStatus;
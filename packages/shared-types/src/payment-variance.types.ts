@@ -0,0 +1,26 @@
+/**
+ * What was done with a Minmo swap whose BTC deposit differs from the quoted amount
+ */
+export enum PaymentVarianceDecision {
+  ACCEPTED = 'ACCEPTED', // Within tolerance; paid out as quoted
+  REPRICE_OFFERED = 'REPRICE_OFFERED', // Short; waiting for the user to accept a smaller payout
+  REPRICE_ACCEPTED = 'REPRICE_ACCEPTED',
+  EXCESS_REFUNDED = 'EXCESS_REFUNDED', // Over; paid out as quoted and the excess refunded
+  REFUNDED = 'REFUNDED', // Too short to pay out, or the smaller payout was declined
+}
+
+export interface PaymentVariance {
+  transactionId: string;
+  expectedBtc: number;
+  receivedBtc: number;
+  /** Received minus expected, as a fraction of expected */
+  variance: number;
+  decision: PaymentVarianceDecision;
+  quotedKesAmount: number;
+  /** KES the BTC received pays for, when the user is offered a smaller payout */
+  repricedKesAmount?: number;
+}
+
+export interface RespondToRepriceDto {
+  accept: boolean;
+}
@@ -0,0 +1,78 @@
+import { TransactionFlow } from './transaction-state.types';
+
+export enum RefundStatus {
+  AWAITING_DESTINATION = 'AWAITING_DESTINATION', // Waiting for the payer to say where to send the refund
+  PENDING = 'PENDING',
+  IN_FLIGHT = 'IN_FLIGHT',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED', // Payment failed; the payer can submit another destination
+}
+
+export enum RefundMethod {
+  LIGHTNING_INVOICE = 'LIGHTNING_INVOICE',
+  LNURL_WITHDRAW = 'LNURL_WITHDRAW',
+  ONCHAIN_ADDRESS = 'ONCHAIN_ADDRESS',
+}
+
+/**
+ * Refund state machine
+ * A refund waits for a destination, is paid once, and either succeeds or fails back to
+ * a state where the payer can submit another destination.
+ */
+export const REFUND_TRANSITIONS: Readonly<Partial<Record<RefundStatus, readonly RefundStatus[]>>> =
+  {
+    [RefundStatus.AWAITING_DESTINATION]: [RefundStatus.PENDING],
+    [RefundStatus.PENDING]: [RefundStatus.IN_FLIGHT],
+    [RefundStatus.IN_FLIGHT]: [RefundStatus.SUCCEEDED, RefundStatus.FAILED],
+    [RefundStatus.FAILED]: [RefundStatus.PENDING],
+  };
+
+export class InvalidRefundTransitionError extends Error {
+  readonly code = 'INVALID_STATUS_TRANSITION';
+
+  constructor(
+    readonly fromStatus: RefundStatus,
+    readonly toStatus: RefundStatus
+  ) {
+    super(`Illegal refund status transition ${fromStatus} -> ${toStatus}`);
+    this.name = 'InvalidRefundTransitionError';
+  }
+}
+
+export function assertRefundTransition(fromStatus: RefundStatus, toStatus: RefundStatus): void {
+  if (!REFUND_TRANSITIONS[fromStatus]?.includes(toStatus)) {
+    throw new InvalidRefundTransitionError(fromStatus, toStatus);
+  }
+}
+
+export interface RefundReceipt {
+  refundedSats: number;
+  feeSats: number;
+  paymentHash?: string;
+  preimage?: string;
+  txId?: string;
+  refundedAt: Date;
+}
+
+export interface Refund {
+  id: string;
+  transactionId: string;
+  flow: TransactionFlow;
+  status: RefundStatus;
+  reason: string;
+  amountSats: number;
+  maxFeeSats: number;
+  maxRefundableSats: number;
+  method?: RefundMethod;
+  destination?: string;
+  lnurl?: string;
+  failureReason?: string;
+  receipt?: RefundReceipt;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SubmitRefundDestinationDto {
+  lightningInvoice?: string;
+  bitcoinAddress?: string;
+}
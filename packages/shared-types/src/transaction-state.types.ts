@@ -0,0 +1,73 @@
+import { TransactionStatus } from './common.types';
+
+/**
+ * Transaction state machine
+ * Every service that changes a transaction's status checks the move against these
+ * tables. A status with no entry for a flow is terminal in that flow.
+ */
+
+export enum TransactionFlow {
+  LIGHTNING = 'LIGHTNING',
+  MINMO = 'MINMO',
+}
+
+export type TransitionTable = Readonly<
+  Partial<Record<TransactionStatus, readonly TransactionStatus[]>>
+>;
+
+const S = TransactionStatus;
+
+export const TRANSACTION_TRANSITIONS: Readonly<Record<TransactionFlow, TransitionTable>> = {
+  [TransactionFlow.LIGHTNING]: {
+    [S.PENDING]: [S.LIGHTNING_PENDING, S.FAILED, S.CANCELLED],
+    [S.LIGHTNING_PENDING]: [S.LIGHTNING_PAID, S.EXPIRED, S.CANCELLED, S.FAILED],
+    [S.LIGHTNING_PAID]: [S.CONVERTING, S.MPESA_PENDING, S.REFUNDING, S.FAILED],
+    [S.CONVERTING]: [S.MPESA_PENDING, S.REFUNDING, S.FAILED],
+    [S.MPESA_PENDING]: [S.COMPLETED, S.REFUNDING, S.FAILED],
+    [S.FAILED]: [S.REFUNDING],
+    [S.REFUNDING]: [S.REFUNDED, S.FAILED],
+  },
+  [TransactionFlow.MINMO]: {
+    [S.PENDING]: [S.AWAITING_BTC_PAYMENT, S.FAILED, S.CANCELLED],
+    [S.AWAITING_BTC_PAYMENT]: [S.BTC_RECEIVED, S.EXPIRED, S.CANCELLED, S.FAILED],
+    [S.BTC_RECEIVED]: [S.MPESA_PENDING, S.REFUNDING, S.FAILED],
+    [S.MPESA_PENDING]: [S.COMPLETED, S.REFUNDING, S.FAILED],
+    [S.FAILED]: [S.REFUNDING],
+    [S.REFUNDING]: [S.REFUNDED, S.FAILED],
+  },
+};
+
+export class InvalidTransactionTransitionError extends Error {
+  readonly code = 'INVALID_STATUS_TRANSITION';
+
+  constructor(
+    readonly flow: TransactionFlow,
+    readonly fromStatus: TransactionStatus,
+    readonly toStatus: TransactionStatus
+  ) {
+    super(`Illegal ${flow} transaction status transition ${fromStatus} -> ${toStatus}`);
+    this.name = 'InvalidTransactionTransitionError';
+  }
+}
+
+export function canTransition(
+  flow: TransactionFlow,
+  fromStatus: TransactionStatus,
+  toStatus: TransactionStatus
+): boolean {
+  return TRANSACTION_TRANSITIONS[flow][fromStatus]?.includes(toStatus) ?? false;
+}
+
+export function assertTransition(
+  flow: TransactionFlow,
+  fromStatus: TransactionStatus,
+  toStatus: TransactionStatus
+): void {
+  if (!canTransition(flow, fromStatus, toStatus)) {
+    throw new InvalidTransactionTransitionError(flow, fromStatus, toStatus);
+  }
+}
+
+export function isTerminalStatus(flow: TransactionFlow, status: TransactionStatus): boolean {
+  return (TRANSACTION_TRANSITIONS[flow][status]?.length ?? 0) === 0;
+}
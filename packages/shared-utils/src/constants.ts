@@ -1,3 +1,5 @@
+import { MobileNetwork } from '@bitpesa/shared-types';
+
 export const APP_CONFIG = {
   NAME: 'BitPesa Bridge',
   VERSION: '1.0.0',
@@ -50,6 +52,13 @@ export const TIMEOUTS = {
 
 export const KENYA_PHONE_REGEX = /^(\+254|254|0)?[17]\d{8}$/;
 
+// Leading digits of the 9-digit national number (after 254 or 0) allocated to each network
+export const MOBILE_NETWORK_PREFIXES: Record<MobileNetwork, RegExp> = {
+  [MobileNetwork.SAFARICOM]: /^(7[0-2]|74[0-35-68]|75[7-9]|76[89]|79|11[0-5])/,
+  [MobileNetwork.AIRTEL]: /^(73|75[0-6]|762|78|10[0-2])/,
+  [MobileNetwork.TELKOM]: /^77/,
+};
+
 export const MPESA_SHORTCODES = {
   SANDBOX: '174379',
   PRODUCTION: 'YOUR_PRODUCTION_SHORTCODE',
@@ -1,5 +1,5 @@
-import { Currency } from '@bitpesa/shared-types';
-import { CURRENCY_CONFIG, KENYA_PHONE_REGEX } from './constants';
+import { Currency, MobileNetwork } from '@bitpesa/shared-types';
+import { CURRENCY_CONFIG, KENYA_PHONE_REGEX, MOBILE_NETWORK_PREFIXES } from './constants';
 
 /**
  * Generate a unique ID
@@ -78,6 +78,23 @@ export function normalizeKenyaPhone(phone: string): string {
   throw new Error('Invalid phone number format');
 }
 
+/**
+ * Detect the mobile network of a Kenyan phone number from its prefix
+ * Numbers keep their prefix when ported to another network, so this is the network the
+ * number was issued on. Returns null for invalid numbers and unallocated prefixes.
+ */
+export function detectMobileNetwork(phone: string): MobileNetwork | null {
+  if (!isValidKenyaPhone(phone.replace(/[\s-]/g, ''))) {
+    return null;
+  }
+
+  const nationalNumber = normalizeKenyaPhone(phone).slice(4);
+  const match = Object.entries(MOBILE_NETWORK_PREFIXES).find(([, prefix]) =>
+    prefix.test(nationalNumber)
+  );
+  return match ? (match[0] as MobileNetwork) : null;
+}
+
 /**
  * Convert between currency units
  */
@@ -2,4 +2,5 @@ export * from './validators';
 export * from './formatters';
 export * from './constants';
 export * from './helpers';
-export * from './auth';
\ No newline at end of file
+export * from './auth';
+export * from './lipa-na-mpesa-qr';
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { LipaNaMpesaQr } from '@bitpesa/shared-types';
+
+/**
+ * Lipa Na M-Pesa QR codes
+ * Safaricom's merchant QR codes are EMVCo merchant-presented payloads: a string of
+ * two-digit id, two-digit length, value fields ending in a CRC-16 checksum (field 63).
+ * The paybill or till number sits in Safaricom's merchant account template (field 28);
+ * a paybill account number is carried as the bill number of the additional data (field 62).
+ */
+
+const PAYLOAD_FORMAT_INDICATOR = '00';
+const POINT_OF_INITIATION = '01';
+const MERCHANT_ACCOUNT_TEMPLATE = '28';
+const MERCHANT_CATEGORY_CODE = '52';
+const TRANSACTION_CURRENCY = '53';
+const TRANSACTION_AMOUNT = '54';
+const COUNTRY_CODE = '58';
+const MERCHANT_NAME = '59';
+const MERCHANT_CITY = '60';
+const ADDITIONAL_DATA = '62';
+const CRC = '63';
+
+// Merchant account template fields
+const TEMPLATE_GUID = '00';
+const TEMPLATE_SHORTCODE = '01';
+const TEMPLATE_TRANSACTION_CODE = '02';
+const SAFARICOM_GUID = 'ke.safaricom.mpesa';
+
+// Additional data fields
+const BILL_NUMBER = '01';
+const REFERENCE_LABEL = '05';
+
+const KES_NUMERIC_CODE = '404';
+
+// Daraja's transaction codes: Pay Bill and Buy Goods
+const TRANSACTION_CODES: Record<LipaNaMpesaQr['type'], string> = {
+  PAYBILL: 'PB',
+  TILL: 'BG',
+};
+
+/**
+ * Read a Lipa Na M-Pesa QR payload, throwing if it is not one or its checksum is wrong
+ */
+export function parseLipaNaMpesaQr(payload: string): LipaNaMpesaQr {
+  const data = payload.trim();
+  const crcStart = data.length - 8;
+  if (crcStart < 0 || data.slice(crcStart, crcStart + 4) !== `${CRC}04`) {
+    throw new Error('QR code has no checksum');
+  }
+  if (crc16(data.slice(0, crcStart + 4)) !== data.slice(crcStart + 4).toUpperCase()) {
+    throw new Error('QR code checksum does not match');
+  }
+
+  const fields = readFields(data);
+  if (fields.get(PAYLOAD_FORMAT_INDICATOR) !== '01') {
+    throw new Error('Not an EMVCo QR code');
+  }
+
+  const template = readFields(fields.get(MERCHANT_ACCOUNT_TEMPLATE) ?? '');
+  if (template.get(TEMPLATE_GUID) !== SAFARICOM_GUID) {
+    throw new Error('Not a Lipa Na M-Pesa QR code');
+  }
+
+  const transactionCode = template.get(TEMPLATE_TRANSACTION_CODE);
+  const type = (Object.keys(TRANSACTION_CODES) as LipaNaMpesaQr['type'][]).find(
+    key => TRANSACTION_CODES[key] === transactionCode
+  );
+  const shortCode = template.get(TEMPLATE_SHORTCODE);
+  if (!type || !shortCode) {
+    throw new Error('QR code has no paybill or till number');
+  }
+
+  const currency = fields.get(TRANSACTION_CURRENCY);
+  if (currency && currency !== KES_NUMERIC_CODE) {
+    throw new Error('QR code is not for a KES payment');
+  }
+
+  const additionalData = readFields(fields.get(ADDITIONAL_DATA) ?? '');
+  const amount = fields.get(TRANSACTION_AMOUNT);
+  return {
+    type,
+    merchantName: fields.get(MERCHANT_NAME) ?? '',
+    shortCode,
+    accountNumber: additionalData.get(BILL_NUMBER),
+    amount: amount ? Number(amount) : undefined,
+    reference: additionalData.get(REFERENCE_LABEL),
+    city: fields.get(MERCHANT_CITY),
+  };
+}
+
+/**
+ * Build a Lipa Na M-Pesa QR payload; with an amount the code is for a single payment
+ */
+export function generateLipaNaMpesaQr(qr: LipaNaMpesaQr): string {
+  const template =
+    field(TEMPLATE_GUID, SAFARICOM_GUID) +
+    field(TEMPLATE_SHORTCODE, qr.shortCode) +
+    field(TEMPLATE_TRANSACTION_CODE, TRANSACTION_CODES[qr.type]);
+  const additionalData =
+    (qr.accountNumber ? field(BILL_NUMBER, qr.accountNumber) : '') +
+    (qr.reference ? field(REFERENCE_LABEL, qr.reference) : '');
+
+  const data =
+    field(PAYLOAD_FORMAT_INDICATOR, '01') +
+    field(POINT_OF_INITIATION, qr.amount !== undefined ? '12' : '11') +
+    field(MERCHANT_ACCOUNT_TEMPLATE, template) +
+    field(MERCHANT_CATEGORY_CODE, '0000') +
+    field(TRANSACTION_CURRENCY, KES_NUMERIC_CODE) +
+    (qr.amount !== undefined ? field(TRANSACTION_AMOUNT, formatAmount(qr.amount)) : '') +
+    field(COUNTRY_CODE, 'KE') +
+    field(MERCHANT_NAME, qr.merchantName.slice(0, 25)) +
+    field(MERCHANT_CITY, (qr.city ?? 'Nairobi').slice(0, 15)) +
+    (additionalData ? field(ADDITIONAL_DATA, additionalData) : '') +
+    `${CRC}04`;
+
+  return data + crc16(data);
+}
+
+function field(id: string, value: string): string {
+  if (value.length > 99) {
+    throw new Error(`QR code field ${id} is longer than 99 characters`);
+  }
+  return id + String(value.length).padStart(2, '0') + value;
+}
+
+function readFields(data: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  let position = 0;
+  while (position < data.length) {
+    const id = data.slice(position, position + 2);
+    const length = Number(data.slice(position + 2, position + 4));
+    const value = data.slice(position + 4, position + 4 + length);
+    if (!/^\d{2}$/.test(id) || !Number.isInteger(length) || value.length !== length) {
+      throw new Error(`QR code field at position ${position} is malformed`);
+    }
+    fields.set(id, value);
+    position += 4 + length;
+  }
+  return fields;
+}
+
+function formatAmount(amount: number): string {
+  return Number.isInteger(amount) ? String(amount) : amount.toFixed(2);
+}
+
+/**
+ * CRC-16/CCITT-FALSE as four hex digits, the checksum EMVCo QR codes use
+ */
+function crc16(data: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
@@ -4,6 +4,8 @@ import { TerminusModule } from '@nestjs/terminus';
 import { ThrottlerModule } from '@nestjs/throttler';
 import { MinmoModule } from './minmo/minmo.module';
 import { HealthController } from './health/health.controller';
+import { PrismaModule } from './prisma/prisma.module';
+import { EventsModule } from './events/events.module';
 
 @Module({
   imports: [
@@ -18,6 +20,8 @@ import { HealthController } from './health/health.controller';
         limit: 100, // 100 requests per minute
       },
     ]),
+    PrismaModule,
+    EventsModule,
     MinmoModule,
   ],
   controllers: [HealthController],
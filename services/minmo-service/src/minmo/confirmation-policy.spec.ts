@@ -0,0 +1,39 @@
+import { ConfigService } from '@nestjs/config';
+import { ConfirmationPolicy, toDepositState } from './confirmation-policy';
+
+describe('ConfirmationPolicy', () => {
+  const policy = (config: Record<string, string> = {}) =>
+    new ConfirmationPolicy({
+      get: jest.fn((key: string, defaultValue: unknown) => config[key] ?? defaultValue),
+    } as unknown as ConfigService);
+
+  it('should accept unconfirmed deposits only below the zero-conf threshold', () => {
+    expect(policy().requiredConfirmations(4999, 'SEND_MONEY')).toBe(0);
+    expect(policy().requiredConfirmations(5000, 'SEND_MONEY')).toBe(2);
+    expect(policy().requiredConfirmations(100000)).toBe(2);
+  });
+
+  it('should apply the settings of the transaction type over the defaults', () => {
+    const paybillPolicy = policy({
+      MINMO_ZERO_CONF_MAX_KES_PAYBILL: '0',
+      MINMO_REQUIRED_CONFIRMATIONS_PAYBILL: '3',
+    });
+
+    expect(paybillPolicy.requiredConfirmations(100, 'PAYBILL')).toBe(3);
+    expect(paybillPolicy.requiredConfirmations(100, 'BUY_AIRTIME')).toBe(0);
+  });
+
+  it('should want a confirmation of a zero-conf deposit that could still be replaced', () => {
+    expect(policy().isSettled(0, toDepositState({ confirmations: 0 }))).toBe(true);
+    expect(policy().isSettled(0, toDepositState({ confirmations: 0, rbf: true }))).toBe(false);
+    expect(policy().isSettled(0, toDepositState({ confirmations: 0, doubleSpend: true }))).toBe(
+      false
+    );
+    expect(policy().isSettled(0, toDepositState({ confirmations: 1, rbf: true }))).toBe(true);
+  });
+
+  it('should wait for the required confirmations above the threshold', () => {
+    expect(policy().isSettled(2, toDepositState({ confirmations: 1 }))).toBe(false);
+    expect(policy().isSettled(2, toDepositState({ confirmations: 2 }))).toBe(true);
+  });
+});
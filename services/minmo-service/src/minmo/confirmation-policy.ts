@@ -0,0 +1,84 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ComplianceTransactionType } from '@bitpesa/shared-types';
+
+/**
+ * What Minmo reports about a swap's BTC deposit transaction
+ */
+export interface DepositState {
+  confirmations: number;
+  /** The transaction signals replace-by-fee, so it can be replaced before it confirms */
+  rbf?: boolean;
+  /** A conflicting transaction spending the same inputs has been seen */
+  doubleSpend?: boolean;
+}
+
+/**
+ * Deposit details from a swap.confirmed webhook's data or a status response
+ */
+export function toDepositState(data?: {
+  confirmations?: number;
+  rbf?: boolean;
+  doubleSpend?: boolean;
+}): DepositState {
+  return {
+    confirmations: Number(data?.confirmations ?? 0),
+    rbf: data?.rbf === true,
+    doubleSpend: data?.doubleSpend === true,
+  };
+}
+
+interface ConfirmationRule {
+  zeroConfMaxKes: number;
+  confirmations: number;
+}
+
+/**
+ * How many on-chain confirmations a swap's deposit needs before its M-Pesa payout
+ * Swaps under MINMO_ZERO_CONF_MAX_KES are paid out on an unconfirmed deposit, unless it
+ * signals replace-by-fee or has been double-spent, in which case one confirmation is
+ * needed; larger swaps need MINMO_REQUIRED_CONFIRMATIONS. Either can be set per
+ * transaction type, e.g. MINMO_ZERO_CONF_MAX_KES_PAYBILL.
+ */
+@Injectable()
+export class ConfirmationPolicy {
+  private readonly defaultRule: ConfirmationRule;
+  private readonly rules = new Map<string, ConfirmationRule>();
+
+  constructor(configService: ConfigService) {
+    this.defaultRule = {
+      zeroConfMaxKes: Number(configService.get('MINMO_ZERO_CONF_MAX_KES', 5000)),
+      confirmations: Number(configService.get('MINMO_REQUIRED_CONFIRMATIONS', 2)),
+    };
+    for (const type of Object.values(ComplianceTransactionType)) {
+      this.rules.set(type, {
+        zeroConfMaxKes: Number(
+          configService.get(`MINMO_ZERO_CONF_MAX_KES_${type}`, this.defaultRule.zeroConfMaxKes)
+        ),
+        confirmations: Number(
+          configService.get(`MINMO_REQUIRED_CONFIRMATIONS_${type}`, this.defaultRule.confirmations)
+        ),
+      });
+    }
+  }
+
+  /**
+   * Confirmations to require of a new swap's deposit; 0 accepts it unconfirmed
+   */
+  requiredConfirmations(kesAmount: number, transactionType?: string): number {
+    const rule = (transactionType && this.rules.get(transactionType)) || this.defaultRule;
+    return kesAmount < rule.zeroConfMaxKes ? 0 : rule.confirmations;
+  }
+
+  /**
+   * Confirmations this deposit needs, which is one for a zero-conf swap whose deposit
+   * could still be replaced
+   */
+  confirmationsNeeded(required: number, deposit: DepositState): number {
+    return required === 0 && (deposit.rbf || deposit.doubleSpend) ? 1 : required;
+  }
+
+  isSettled(required: number, deposit: DepositState): boolean {
+    return deposit.confirmations >= this.confirmationsNeeded(required, deposit);
+  }
+}
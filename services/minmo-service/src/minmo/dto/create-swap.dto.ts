@@ -1,5 +1,6 @@
-import { IsString, IsNumber, IsOptional, IsPositive, Min, Max } from 'class-validator';
+import { IsString, IsNumber, IsOptional, IsPositive, Min, Max, IsEnum } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { ComplianceTransactionType } from '@bitpesa/shared-types';
 
 export class CreateSwapDto {
   @ApiProperty({
@@ -15,11 +16,13 @@ export class CreateSwapDto {
   kesAmount: number;
 
   @ApiProperty({
-    description: 'Recipient phone number',
+    description: 'Recipient phone number; paybill and till payouts may not have one',
     example: '254700000000',
+    required: false,
   })
+  @IsOptional()
   @IsString()
-  recipientPhone: string;
+  recipientPhone?: string;
 
   @ApiProperty({
     description: 'Recipient name (optional)',
@@ -36,4 +39,14 @@ export class CreateSwapDto {
   })
   @IsString()
   transactionId: string;
+
+  @ApiProperty({
+    description: 'What the payout is for; decides the confirmations the BTC deposit needs',
+    enum: ComplianceTransactionType,
+    example: ComplianceTransactionType.SEND_MONEY,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ComplianceTransactionType)
+  transactionType?: ComplianceTransactionType;
 }
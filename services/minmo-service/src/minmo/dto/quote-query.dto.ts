@@ -0,0 +1,18 @@
+import { IsNumber, IsPositive, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class QuoteQueryDto {
+  @ApiProperty({
+    description: 'Amount in KES to receive',
+    example: 5000,
+    minimum: 10,
+    maximum: 150000,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @IsPositive()
+  @Min(10)
+  @Max(150000)
+  kesAmount: number;
+}
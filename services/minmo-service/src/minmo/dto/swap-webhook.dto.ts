@@ -1,4 +1,4 @@
-import { IsString, IsObject, IsOptional } from 'class-validator';
+import { IsString, IsObject, IsOptional, IsIn } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class SwapWebhookDto {
@@ -14,7 +14,7 @@ export class SwapWebhookDto {
     example: 'swap.confirmed',
     enum: ['swap.created', 'swap.confirmed', 'swap.completed', 'swap.failed', 'swap.expired'],
   })
-  @IsString()
+  @IsIn(['swap.created', 'swap.confirmed', 'swap.completed', 'swap.failed', 'swap.expired'])
   event: 'swap.created' | 'swap.confirmed' | 'swap.completed' | 'swap.failed' | 'swap.expired';
 
   @ApiProperty({
@@ -32,11 +32,4 @@ export class SwapWebhookDto {
   @IsOptional()
   @IsObject()
   data?: any;
-
-  @ApiProperty({
-    description: 'Webhook signature for verification',
-    example: 'sha256=abc123...',
-  })
-  @IsString()
-  signature: string;
 }
@@ -34,6 +34,11 @@ export interface MinmoStatusResponse {
   fromAmount: number;
   toAmount: number;
   completedAt?: string;
+  // The deposit transaction, once Minmo has seen it
+  txHash?: string;
+  confirmations?: number;
+  rbf?: boolean;
+  doubleSpend?: boolean;
 }
 
 @Injectable()
@@ -1,10 +1,24 @@
-import { Controller, Post, Get, Body, Param, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  Headers,
+  Req,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiHeader } from '@nestjs/swagger';
+import { Request } from 'express';
 import { ThrottlerGuard } from '@nestjs/throttler';
 import { UseGuards } from '@nestjs/common';
 import { MinmoService } from './minmo.service';
 import { WebhookHandler } from './webhook.handler';
 import { CreateSwapDto } from './dto/create-swap.dto';
+import { QuoteQueryDto } from './dto/quote-query.dto';
 import { SwapWebhookDto } from './dto/swap-webhook.dto';
 
 @ApiTags('minmo')
@@ -60,6 +74,37 @@ export class MinmoController {
     return this.minmoService.getExchangeRate();
   }
 
+  @Get('quotes')
+  @ApiOperation({ summary: 'Price a Bitcoin to KES swap at the current rate' })
+  @ApiResponse({
+    status: 200,
+    description: 'Quote retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        kesAmount: { type: 'number', example: 5000 },
+        btcAmount: { type: 'number', example: 0.00101 },
+        exchangeRate: { type: 'number', example: 5000000 },
+        minmoFee: { type: 'number', example: 50 },
+        timestamp: { type: 'string', format: 'date-time' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async getQuote(@Query() query: QuoteQueryDto) {
+    return this.minmoService.getQuote(query.kesAmount);
+  }
+
+  @Post('swaps/:swapId/cancel')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Cancel a swap that has not received its BTC' })
+  @ApiParam({ name: 'swapId', description: 'Swap ID', example: 'swap_123456789' })
+  @ApiResponse({ status: 204, description: 'Swap cancelled' })
+  @ApiResponse({ status: 400, description: 'Swap cannot be cancelled' })
+  async cancelSwap(@Param('swapId') swapId: string) {
+    await this.minmoService.cancelSwap(swapId);
+  }
+
   @Get('swaps/:swapId')
   @ApiOperation({ summary: 'Get swap status' })
   @ApiParam({ name: 'swapId', description: 'Swap ID', example: 'swap_123456789' })
@@ -74,6 +119,8 @@ export class MinmoController {
         btcAmount: { type: 'number', example: 0.001 },
         kesAmount: { type: 'number', example: 5000 },
         completedAt: { type: 'string', format: 'date-time', nullable: true },
+        confirmations: { type: 'number', example: 1 },
+        requiredConfirmations: { type: 'number', example: 2 },
       },
     },
   })
@@ -86,6 +133,11 @@ export class MinmoController {
   @Post('webhooks')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Handle Minmo webhook events' })
+  @ApiHeader({
+    name: 'X-Minmo-Signature',
+    description: '"sha256=" followed by the hex HMAC-SHA256 of the raw body',
+    required: true,
+  })
   @ApiResponse({
     status: 200,
     description: 'Webhook processed successfully',
@@ -101,9 +153,13 @@ export class MinmoController {
     },
   })
   @ApiResponse({ status: 400, description: 'Bad request or invalid signature' })
-  async handleWebhook(@Body() webhookDto: SwapWebhookDto) {
-    // Process the webhook
-    await this.webhookHandler.processWebhook(webhookDto);
+  async handleWebhook(
+    @Body() webhookDto: SwapWebhookDto,
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-minmo-signature') signature?: string,
+  ) {
+    // Verify, store and forward the webhook
+    await this.webhookHandler.processWebhook(webhookDto, req.rawBody, signature);
     
     // Return the processed webhook data
     return this.minmoService.handleWebhook(webhookDto);
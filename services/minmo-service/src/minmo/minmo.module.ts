@@ -3,10 +3,12 @@ import { MinmoController } from './minmo.controller';
 import { MinmoService } from './minmo.service';
 import { MinmoClient } from './minmo-client';
 import { WebhookHandler } from './webhook.handler';
+import { SwapPollerService } from './swap-poller.service';
+import { ConfirmationPolicy } from './confirmation-policy';
 
 @Module({
   controllers: [MinmoController],
-  providers: [MinmoService, MinmoClient, WebhookHandler],
+  providers: [MinmoService, MinmoClient, WebhookHandler, SwapPollerService, ConfirmationPolicy],
   exports: [MinmoService, MinmoClient],
 })
 export class MinmoModule {}
@@ -2,6 +2,8 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import { MinmoService } from './minmo.service';
 import { MinmoClient } from './minmo-client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfirmationPolicy } from './confirmation-policy';
 import { CreateSwapDto } from './dto/create-swap.dto';
 
 describe('MinmoService', () => {
@@ -13,12 +15,17 @@ describe('MinmoService', () => {
     createSwap: jest.fn(),
     getExchangeRate: jest.fn(),
     getSwapStatus: jest.fn(),
+    cancelSwap: jest.fn(),
   };
 
   const mockConfigService = {
     get: jest.fn(),
   };
 
+  const mockPrismaService = {
+    swap: { create: jest.fn(), findUnique: jest.fn(), updateMany: jest.fn() },
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -31,6 +38,16 @@ describe('MinmoService', () => {
           provide: ConfigService,
           useValue: mockConfigService,
         },
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfirmationPolicy,
+          useValue: new ConfirmationPolicy({
+            get: (_key: string, defaultValue: unknown) => defaultValue,
+          } as unknown as ConfigService),
+        },
       ],
     }).compile();
 
@@ -91,6 +108,16 @@ describe('MinmoService', () => {
         },
         webhookUrl: 'https://api.bitpesa.co.ke/api/v1/webhooks/minmo',
       });
+
+      expect(mockPrismaService.swap.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          minmoSwapId: 'swap_123456789',
+          transactionId: 'tx_123456789',
+          status: 'DEPOSIT_PENDING',
+          requiredConfirmations: 2,
+          expiresAt: new Date('2024-01-01T15:00:00Z'),
+        }),
+      });
     });
 
     it('should throw BadRequestException when swap creation fails', async () => {
@@ -134,6 +161,49 @@ describe('MinmoService', () => {
     });
   });
 
+  describe('getQuote', () => {
+    it('should price the payout plus the Minmo fee at the current rate', async () => {
+      mockMinmoClient.getExchangeRate.mockResolvedValue({
+        rate: 5000000,
+        timestamp: '2024-01-01T12:00:00Z',
+        spread: 0.5,
+      });
+      mockConfigService.get.mockImplementationOnce((_key: string, defaultValue: unknown) => defaultValue);
+
+      const result = await service.getQuote(5000);
+
+      expect(result).toEqual({
+        kesAmount: 5000,
+        btcAmount: 0.00101,
+        exchangeRate: 5000000,
+        minmoFee: 50,
+        timestamp: new Date('2024-01-01T12:00:00Z'),
+      });
+    });
+  });
+
+  describe('cancelSwap', () => {
+    it('should cancel the swap with Minmo and in storage while it awaits its deposit', async () => {
+      mockMinmoClient.cancelSwap.mockResolvedValue(undefined);
+
+      await service.cancelSwap('swap_123456789');
+
+      expect(minmoClient.cancelSwap).toHaveBeenCalledWith('swap_123456789');
+      expect(mockPrismaService.swap.updateMany).toHaveBeenCalledWith({
+        where: { minmoSwapId: 'swap_123456789', status: { in: ['PENDING', 'DEPOSIT_PENDING'] } },
+        data: { status: 'CANCELLED' },
+      });
+    });
+
+    it('should leave the stored swap alone when Minmo refuses to cancel it', async () => {
+      mockMinmoClient.cancelSwap.mockRejectedValue(new Error('Swap already funded'));
+      mockPrismaService.swap.updateMany.mockClear();
+
+      await expect(service.cancelSwap('swap_123456789')).rejects.toThrow('Failed to cancel swap: Swap already funded');
+      expect(mockPrismaService.swap.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getSwapStatus', () => {
     it('should get swap status successfully', async () => {
       const swapId = 'swap_123456789';
@@ -143,9 +213,11 @@ describe('MinmoService', () => {
         fromAmount: 0.001,
         toAmount: 5000,
         completedAt: '2024-01-01T15:30:00Z',
+        confirmations: 1,
       };
 
       mockMinmoClient.getSwapStatus.mockResolvedValue(mockStatusResponse);
+      mockPrismaService.swap.findUnique.mockResolvedValue({ requiredConfirmations: 2 });
 
       const result = await service.getSwapStatus(swapId);
 
@@ -155,11 +227,30 @@ describe('MinmoService', () => {
         btcAmount: 0.001,
         kesAmount: 5000,
         completedAt: new Date('2024-01-01T15:30:00Z'),
+        confirmations: 1,
+        requiredConfirmations: 2,
       });
 
       expect(minmoClient.getSwapStatus).toHaveBeenCalledWith(swapId);
     });
 
+    it('should require a confirmation of a zero-conf deposit that signals replace-by-fee', async () => {
+      mockMinmoClient.getSwapStatus.mockResolvedValue({
+        status: 'pending',
+        btcReceived: true,
+        fromAmount: 0.0002,
+        toAmount: 1000,
+        confirmations: 0,
+        rbf: true,
+      });
+      mockPrismaService.swap.findUnique.mockResolvedValue({ requiredConfirmations: 0 });
+
+      await expect(service.getSwapStatus('swap_123456789')).resolves.toMatchObject({
+        confirmations: 0,
+        requiredConfirmations: 1,
+      });
+    });
+
     it('should throw BadRequestException when status fetch fails', async () => {
       const swapId = 'swap_123456789';
       mockMinmoClient.getSwapStatus.mockRejectedValue(new Error('Status API Error'));
@@ -1,6 +1,10 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { SwapStatus } from '@bitpesa/shared-types';
 import { MinmoClient } from './minmo-client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AWAITING_DEPOSIT_STATUSES, toSwapStatus } from './swap-status';
+import { ConfirmationPolicy, toDepositState } from './confirmation-policy';
 import { CreateSwapDto } from './dto/create-swap.dto';
 import { SwapWebhookDto } from './dto/swap-webhook.dto';
 
@@ -21,12 +25,23 @@ export interface ExchangeRateResult {
   spread: number;
 }
 
+export interface QuoteResult {
+  kesAmount: number;
+  btcAmount: number;
+  exchangeRate: number;
+  minmoFee: number;
+  timestamp: Date;
+}
+
 export interface SwapStatusResult {
   status: string;
   btcReceived: boolean;
   btcAmount: number;
   kesAmount: number;
   completedAt?: Date;
+  /** Confirmations of the BTC deposit so far, and how many the payout waits for */
+  confirmations: number;
+  requiredConfirmations: number;
 }
 
 @Injectable()
@@ -36,11 +51,15 @@ export class MinmoService {
   constructor(
     private readonly configService: ConfigService,
     private readonly minmoClient: MinmoClient,
+    private readonly prisma: PrismaService,
+    private readonly confirmationPolicy: ConfirmationPolicy,
   ) {}
 
   /**
    * Create a Bitcoin to KES swap
    * User will send BTC, receive KES via M-Pesa
+   * The swap is stored so SwapPollerService can follow it if Minmo's webhooks go missing,
+   * along with the confirmations ConfirmationPolicy requires of its deposit
    */
   async createSwap(dto: CreateSwapDto): Promise<SwapResult> {
     try {
@@ -72,6 +91,30 @@ export class MinmoService {
         status: response.status,
       };
 
+      await this.prisma.swap.create({
+        data: {
+          minmoSwapId: result.swapId,
+          transactionId: dto.transactionId,
+          transactionType: dto.transactionType,
+          requiredConfirmations: this.confirmationPolicy.requiredConfirmations(
+            result.kesAmount,
+            dto.transactionType
+          ),
+          direction: 'BTC_TO_KES',
+          fromCurrency: 'BTC',
+          toCurrency: 'KES',
+          fromAmount: result.btcAmount,
+          toAmount: result.kesAmount,
+          exchangeRate: result.exchangeRate,
+          minmoFee: result.minmoFee,
+          netAmount: result.kesAmount,
+          btcAddress: result.btcAddress,
+          status: toSwapStatus(result.status) ?? SwapStatus.PENDING,
+          expiresAt: result.expiresAt,
+          metadata: swapData.metadata,
+        },
+      });
+
       this.logger.log(`Minmo swap created: ${result.swapId}`);
       return result;
     } catch (error) {
@@ -98,12 +141,57 @@ export class MinmoService {
     }
   }
 
+  /**
+   * Price a swap paying out kesAmount at Minmo's current rate
+   * Minmo charges MINMO_FEE_RATE of the payout, which the payer's BTC covers; the swap
+   * Minmo creates carries the final rate and fee.
+   */
+  async getQuote(kesAmount: number): Promise<QuoteResult> {
+    const { rate, timestamp } = await this.getExchangeRate();
+    const feeRate = Number(this.configService.get('MINMO_FEE_RATE', 0.01));
+    const minmoFee = Math.round(kesAmount * feeRate * 100) / 100;
+
+    return {
+      kesAmount,
+      btcAmount: Number(((kesAmount + minmoFee) / rate).toFixed(8)),
+      exchangeRate: rate,
+      minmoFee,
+      timestamp,
+    };
+  }
+
+  /**
+   * Cancel a swap that has not received its BTC
+   * The stored swap is cancelled as well, so SwapPollerService does not report the
+   * cancellation back to transaction-service.
+   */
+  async cancelSwap(swapId: string): Promise<void> {
+    try {
+      await this.minmoClient.cancelSwap(swapId);
+    } catch (error) {
+      this.logger.error(`Failed to cancel swap ${swapId}: ${error.message}`);
+      throw new BadRequestException(`Failed to cancel swap: ${error.message}`);
+    }
+
+    await this.prisma.swap.updateMany({
+      where: { minmoSwapId: swapId, status: { in: AWAITING_DEPOSIT_STATUSES } },
+      data: { status: SwapStatus.CANCELLED },
+    });
+    this.logger.log(`Minmo swap cancelled: ${swapId}`);
+  }
+
   /**
    * Get swap status from Minmo
+   * A deposit that signals replace-by-fee or was double-spent raises the confirmations a
+   * zero-conf swap needs to one.
    */
   async getSwapStatus(swapId: string): Promise<SwapStatusResult> {
     try {
-      const response = await this.minmoClient.getSwapStatus(swapId);
+      const [response, swap] = await Promise.all([
+        this.minmoClient.getSwapStatus(swapId),
+        this.prisma.swap.findUnique({ where: { minmoSwapId: swapId } }),
+      ]);
+      const deposit = toDepositState(response);
 
       return {
         status: response.status,
@@ -111,6 +199,11 @@ export class MinmoService {
         btcAmount: response.fromAmount,
         kesAmount: response.toAmount,
         completedAt: response.completedAt ? new Date(response.completedAt) : undefined,
+        confirmations: deposit.confirmations,
+        requiredConfirmations: this.confirmationPolicy.confirmationsNeeded(
+          swap?.requiredConfirmations ?? 0,
+          deposit
+        ),
       };
     } catch (error) {
       this.logger.error(`Failed to get swap status: ${error.message}`);
@@ -119,14 +212,11 @@ export class MinmoService {
   }
 
   /**
-   * Handle webhook from Minmo
+   * Summarise a webhook from Minmo; WebhookHandler has already verified and stored it
    */
   async handleWebhook(dto: SwapWebhookDto): Promise<any> {
     this.logger.log(`Received Minmo webhook: ${dto.event}`);
 
-    // Verify webhook signature
-    this.verifyWebhookSignature(dto);
-
     return {
       swapId: dto.swapId,
       event: dto.event,
@@ -135,31 +225,4 @@ export class MinmoService {
       data: dto.data,
     };
   }
-
-  /**
-   * Verify webhook signature for security
-   */
-  private verifyWebhookSignature(payload: SwapWebhookDto): void {
-    const webhookSecret = this.configService.get('MINMO_WEBHOOK_SECRET');
-    
-    if (!webhookSecret) {
-      this.logger.warn('MINMO_WEBHOOK_SECRET not configured - skipping signature verification');
-      return;
-    }
-
-    // Implement signature verification based on Minmo's documentation
-    // This is critical for security
-    const crypto = require('crypto');
-    const expectedSignature = crypto
-      .createHmac('sha256', webhookSecret)
-      .update(JSON.stringify(payload))
-      .digest('hex');
-
-    if (payload.signature !== expectedSignature) {
-      this.logger.error('Invalid webhook signature');
-      throw new BadRequestException('Invalid webhook signature');
-    }
-
-    this.logger.log('Webhook signature verified successfully');
-  }
 }
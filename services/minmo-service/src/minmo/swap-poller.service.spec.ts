@@ -0,0 +1,205 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventType, SwapStatus } from '@bitpesa/shared-types';
+import { SwapPollerService } from './swap-poller.service';
+import { MinmoClient } from './minmo-client';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../events/outbox.service';
+import { ConfirmationPolicy } from './confirmation-policy';
+
+describe('SwapPollerService', () => {
+  let poller: SwapPollerService;
+  let swaps: Array<Record<string, any>>;
+  let outboxEvents: Array<Record<string, any>>;
+
+  const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * 60 * 1000);
+
+  const minmoClient = {
+    getSwapStatus: jest.fn(),
+  };
+
+  const minmoStatus = (status: string, btcReceived = false, confirmations = 0) =>
+    minmoClient.getSwapStatus.mockResolvedValue({
+      status,
+      btcReceived,
+      fromAmount: 0.001,
+      toAmount: 5000,
+      confirmations,
+    });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    outboxEvents = [];
+    swaps = [
+      {
+        id: 'swap-1',
+        minmoSwapId: 'swap_123',
+        status: SwapStatus.DEPOSIT_PENDING,
+        expiresAt: minutesFromNow(30),
+        pollAttempts: 0,
+        nextPollAt: null,
+        requiredConfirmations: 0,
+        btcConfirmations: null,
+        createdAt: minutesFromNow(-5),
+      },
+    ];
+
+    // In-memory swaps and outbox_events tables
+    const matches = (row: Record<string, any>, where: Record<string, any>) =>
+      (!where.id || row.id === where.id) &&
+      (!where.status ||
+        (where.status.in ? where.status.in.includes(row.status) : row.status === where.status)) &&
+      (!where.OR || row.nextPollAt === null || row.nextPollAt <= where.OR[1].nextPollAt.lte);
+
+    const swap = {
+      findMany: jest.fn(async ({ where }) => swaps.filter(row => matches(row, where))),
+      update: jest.fn(async ({ where, data: { pollAttempts, ...data } }) => {
+        const row = swaps.find(candidate => candidate.id === where.id)!;
+        row.pollAttempts += pollAttempts?.increment ?? 0;
+        Object.assign(row, data);
+        return row;
+      }),
+      updateMany: jest.fn(async ({ where, data }) => {
+        const rows = swaps.filter(row => matches(row, where));
+        rows.forEach(row => Object.assign(row, data));
+        return { count: rows.length };
+      }),
+    };
+    const tx = {
+      swap,
+      outboxEvent: {
+        create: jest.fn(async ({ data }) => outboxEvents.push(data)),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SwapPollerService,
+        OutboxService,
+        ConfirmationPolicy,
+        { provide: MinmoClient, useValue: minmoClient },
+        {
+          provide: PrismaService,
+          useValue: { swap, $transaction: jest.fn(callback => callback(tx)) },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue: unknown) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    poller = module.get<SwapPollerService>(SwapPollerService);
+  });
+
+  it('should publish the swap event a missed webhook would have sent', async () => {
+    minmoStatus('confirmed', true);
+
+    await expect(poller.pollOnce()).resolves.toBe(1);
+
+    expect(minmoClient.getSwapStatus).toHaveBeenCalledWith('swap_123');
+    expect(swaps[0]).toMatchObject({ status: SwapStatus.DEPOSIT_RECEIVED, pollAttempts: 0 });
+    expect(outboxEvents).toEqual([
+      {
+        type: EventType.SWAP_CONFIRMED,
+        aggregateId: 'swap_123',
+        payload: {
+          swapId: 'swap_123',
+          status: 'confirmed',
+          data: { btcAmount: 0.001, confirmations: 0 },
+        },
+      },
+    ]);
+  });
+
+  it('should publish the confirmation once the deposit has the confirmations it needs', async () => {
+    swaps[0].requiredConfirmations = 2;
+    minmoStatus('confirmed', true, 1);
+
+    await poller.pollOnce();
+
+    expect(swaps[0]).toMatchObject({ status: SwapStatus.DEPOSIT_CONFIRMING, btcConfirmations: 1 });
+    expect(outboxEvents).toHaveLength(0);
+
+    swaps[0].nextPollAt = null;
+    minmoStatus('confirmed', true, 2);
+    await poller.pollOnce();
+
+    expect(swaps[0]).toMatchObject({ status: SwapStatus.DEPOSIT_RECEIVED, btcConfirmations: 2 });
+    expect(outboxEvents).toEqual([
+      expect.objectContaining({
+        type: EventType.SWAP_CONFIRMED,
+        payload: expect.objectContaining({ data: { btcAmount: 0.001, confirmations: 2 } }),
+      }),
+    ]);
+  });
+
+  it('should hold a swap Minmo reports as completed until its deposit is confirmed', async () => {
+    swaps[0].requiredConfirmations = 2;
+    minmoStatus('completed', true, 1);
+
+    await poller.pollOnce();
+
+    expect(swaps[0]).toMatchObject({ status: SwapStatus.DEPOSIT_CONFIRMING, btcConfirmations: 1 });
+    expect(outboxEvents).toHaveLength(0);
+
+    swaps[0].nextPollAt = null;
+    minmoStatus('completed', true, 2);
+    await poller.pollOnce();
+
+    expect(swaps[0].status).toBe(SwapStatus.COMPLETED);
+    expect(outboxEvents).toEqual([expect.objectContaining({ type: EventType.SWAP_COMPLETED })]);
+  });
+
+  it('should publish nothing when the stored status is already up to date', async () => {
+    swaps[0].status = SwapStatus.DEPOSIT_RECEIVED;
+    minmoStatus('confirmed', true);
+
+    await poller.pollOnce();
+
+    expect(outboxEvents).toHaveLength(0);
+  });
+
+  it('should back off polls of a swap that has not changed', async () => {
+    minmoStatus('pending');
+
+    await poller.pollOnce();
+    const firstPollDue = swaps[0].nextPollAt.getTime();
+    swaps[0].nextPollAt = new Date(Date.now() - 1);
+    await poller.pollOnce();
+
+    expect(swaps[0].pollAttempts).toBe(2);
+    expect(swaps[0].nextPollAt.getTime() - Date.now()).toBeGreaterThan(
+      firstPollDue - Date.now() + 50000
+    );
+    await expect(poller.pollOnce()).resolves.toBe(0);
+    expect(minmoClient.getSwapStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it('should expire a swap Minmo still reports as awaiting BTC after its deadline', async () => {
+    swaps[0].expiresAt = minutesFromNow(-10);
+    minmoStatus('pending');
+
+    await poller.pollOnce();
+
+    const reason = `MinMo swap passed its ${swaps[0].expiresAt.toISOString()} deadline without receiving BTC`;
+    expect(swaps[0]).toMatchObject({ status: SwapStatus.EXPIRED, failureReason: reason });
+    expect(outboxEvents).toEqual([
+      {
+        type: EventType.SWAP_EXPIRED,
+        aggregateId: 'swap_123',
+        payload: { swapId: 'swap_123', status: 'expired', reason },
+      },
+    ]);
+  });
+
+  it('should not expire a swap while Minmo cannot be asked about its deposit', async () => {
+    swaps[0].expiresAt = minutesFromNow(-10);
+    minmoClient.getSwapStatus.mockRejectedValue(new Error('Minmo unavailable'));
+
+    await poller.pollOnce();
+
+    expect(swaps[0]).toMatchObject({ status: SwapStatus.DEPOSIT_PENDING, pollAttempts: 1 });
+    expect(outboxEvents).toHaveLength(0);
+  });
+});
@@ -0,0 +1,217 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SwapEventPayload, SwapStatus } from '@bitpesa/shared-types';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../events/outbox.service';
+import { MinmoClient } from './minmo-client';
+import { ConfirmationPolicy, toDepositState } from './confirmation-policy';
+import {
+  AWAITING_DEPOSIT_STATUSES,
+  DEPOSIT_SEEN_STATUSES,
+  OPEN_SWAP_STATUSES,
+  swapStatusEvent,
+  toSwapStatus,
+} from './swap-status';
+
+interface OpenSwap {
+  id: string;
+  minmoSwapId: string;
+  status: SwapStatus;
+  expiresAt: Date;
+  pollAttempts: number;
+  requiredConfirmations: number;
+  btcConfirmations: number | null;
+}
+
+/**
+ * Follows open swaps with Minmo's status API, the fallback for webhooks that never arrive
+ * Each pass queries the swaps that are due and compares Minmo's answer with the stored
+ * status; a change is stored and published as the same swap event the webhook would have
+ * sent. A swap Minmo still reports as awaiting its deposit MINMO_SWAP_EXPIRY_GRACE_MS after
+ * its deadline is expired here. A swap Minmo reports as having its deposit, processing or
+ * completed is held in DEPOSIT_CONFIRMING until the deposit has the confirmations
+ * ConfirmationPolicy requires. Polls of an unchanged swap back off exponentially up to
+ * MINMO_POLL_MAX_BACKOFF_MS.
+ */
+@Injectable()
+export class SwapPollerService implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(SwapPollerService.name);
+  private readonly intervalMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly expiryGraceMs: number;
+  private readonly batchSize = 50;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly minmoClient: MinmoClient,
+    private readonly outbox: OutboxService,
+    private readonly confirmationPolicy: ConfirmationPolicy,
+    configService: ConfigService
+  ) {
+    this.intervalMs = Number(configService.get('MINMO_POLL_INTERVAL_MS', 60000));
+    this.maxBackoffMs = Number(configService.get('MINMO_POLL_MAX_BACKOFF_MS', 1800000));
+    this.expiryGraceMs = Number(configService.get('MINMO_SWAP_EXPIRY_GRACE_MS', 300000));
+  }
+
+  onApplicationBootstrap(): void {
+    this.schedule();
+  }
+
+  onApplicationShutdown(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  /**
+   * Poll every open swap that is due, returning how many were picked up
+   */
+  async pollOnce(): Promise<number> {
+    const now = new Date();
+    const due: OpenSwap[] = await this.prisma.swap.findMany({
+      where: {
+        status: { in: OPEN_SWAP_STATUSES },
+        OR: [{ nextPollAt: null }, { nextPollAt: { lte: now } }],
+      },
+      orderBy: { createdAt: 'asc' },
+      take: this.batchSize,
+    });
+
+    for (const swap of due) {
+      try {
+        await this.poll(swap);
+      } catch (error) {
+        this.logger.warn(`Polling swap ${swap.minmoSwapId} failed: ${(error as Error).message}`);
+      }
+    }
+
+    return due.length;
+  }
+
+  private async poll(swap: OpenSwap): Promise<void> {
+    // Book the poll first so a slow Minmo answer does not get the swap polled twice
+    await this.prisma.swap.update({
+      where: { id: swap.id },
+      data: {
+        pollAttempts: { increment: 1 },
+        lastPolledAt: new Date(),
+        nextPollAt: new Date(Date.now() + this.backoffMs(swap.pollAttempts)),
+      },
+    });
+
+    const response = await this.minmoClient.getSwapStatus(swap.minmoSwapId);
+    let status = toSwapStatus(response.status);
+    if (!status) {
+      this.logger.warn(`Swap ${swap.minmoSwapId} has unknown Minmo status "${response.status}"`);
+      return;
+    }
+    if (AWAITING_DEPOSIT_STATUSES.includes(status) && response.btcReceived) {
+      status = SwapStatus.DEPOSIT_RECEIVED;
+    }
+    const deposit = toDepositState(response);
+    // A deposit already let through is not checked again
+    if (
+      DEPOSIT_SEEN_STATUSES.includes(status) &&
+      !DEPOSIT_SEEN_STATUSES.includes(swap.status) &&
+      !this.confirmationPolicy.isSettled(swap.requiredConfirmations, deposit)
+    ) {
+      status = SwapStatus.DEPOSIT_CONFIRMING;
+    }
+
+    if (status !== swap.status) {
+      // Once the BTC has arrived, fromAmount is what was actually received
+      await this.changeStatus(swap, status, {
+        swapId: swap.minmoSwapId,
+        status: response.status,
+        data: response.btcReceived
+          ? {
+              btcAmount: response.fromAmount,
+              txHash: response.txHash,
+              confirmations: deposit.confirmations,
+            }
+          : undefined,
+      });
+      return;
+    }
+
+    if (
+      status === SwapStatus.DEPOSIT_CONFIRMING &&
+      deposit.confirmations !== swap.btcConfirmations
+    ) {
+      await this.prisma.swap.update({
+        where: { id: swap.id },
+        data: { btcConfirmations: deposit.confirmations },
+      });
+      return;
+    }
+
+    // Minmo has just told us the BTC has not arrived, so the swap can safely be given up on
+    const deadline = swap.expiresAt.getTime() + this.expiryGraceMs;
+    if (AWAITING_DEPOSIT_STATUSES.includes(status) && Date.now() > deadline) {
+      await this.changeStatus(swap, SwapStatus.EXPIRED, {
+        swapId: swap.minmoSwapId,
+        status: 'expired',
+        reason: `MinMo swap passed its ${swap.expiresAt.toISOString()} deadline without receiving BTC`,
+      });
+    }
+  }
+
+  /**
+   * Store a status change and queue its swap event in one database transaction
+   * The update only applies while the swap is in the status the poll started from, so a
+   * webhook that got there first is not reported twice.
+   */
+  private async changeStatus(
+    swap: OpenSwap,
+    status: SwapStatus,
+    payload: SwapEventPayload
+  ): Promise<void> {
+    const event = swapStatusEvent(swap.status, status);
+
+    await this.prisma.$transaction(async tx => {
+      const { count } = await tx.swap.updateMany({
+        where: { id: swap.id, status: swap.status },
+        data: {
+          status,
+          pollAttempts: 0,
+          nextPollAt: new Date(Date.now() + this.intervalMs),
+          btcTransactionHash: payload.data?.txHash as string | undefined,
+          btcConfirmations: payload.data?.confirmations as number | undefined,
+          completedAt: status === SwapStatus.COMPLETED ? new Date() : undefined,
+          failureReason: payload.reason,
+        },
+      });
+      if (count === 0) {
+        return;
+      }
+
+      this.logger.log(`Swap ${swap.minmoSwapId} moved from ${swap.status} to ${status} (polled)`);
+      if (event) {
+        await this.outbox.enqueue(tx, event, swap.minmoSwapId, payload);
+      }
+    });
+  }
+
+  private backoffMs(attempt: number): number {
+    return Math.min(this.intervalMs * 2 ** attempt, this.maxBackoffMs);
+  }
+
+  private schedule(): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.pollOnce();
+      } catch (error) {
+        this.logger.error('Minmo swap polling failed', error);
+      }
+      this.schedule();
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,69 @@
+import { EventType, SwapStatus } from '@bitpesa/shared-types';
+
+/**
+ * Stored status for each status Minmo reports a swap in
+ */
+const MINMO_STATUSES: Record<string, SwapStatus> = {
+  pending: SwapStatus.DEPOSIT_PENDING,
+  created: SwapStatus.DEPOSIT_PENDING,
+  awaiting_deposit: SwapStatus.DEPOSIT_PENDING,
+  confirmed: SwapStatus.DEPOSIT_RECEIVED,
+  deposit_received: SwapStatus.DEPOSIT_RECEIVED,
+  processing: SwapStatus.PROCESSING,
+  completed: SwapStatus.COMPLETED,
+  failed: SwapStatus.FAILED,
+  expired: SwapStatus.EXPIRED,
+  cancelled: SwapStatus.CANCELLED,
+};
+
+/**
+ * Event transaction-service is sent when a swap reaches a status; the statuses before the
+ * BTC deposit has enough confirmations have none
+ */
+const STATUS_EVENTS: Partial<Record<SwapStatus, EventType>> = {
+  [SwapStatus.DEPOSIT_RECEIVED]: EventType.SWAP_CONFIRMED,
+  [SwapStatus.PROCESSING]: EventType.SWAP_CONFIRMED,
+  [SwapStatus.COMPLETED]: EventType.SWAP_COMPLETED,
+  [SwapStatus.FAILED]: EventType.SWAP_FAILED,
+  [SwapStatus.CANCELLED]: EventType.SWAP_FAILED,
+  [SwapStatus.EXPIRED]: EventType.SWAP_EXPIRED,
+};
+
+/**
+ * Swaps that can still change; the poller checks these with Minmo
+ */
+export const OPEN_SWAP_STATUSES = [
+  SwapStatus.PENDING,
+  SwapStatus.DEPOSIT_PENDING,
+  SwapStatus.DEPOSIT_CONFIRMING,
+  SwapStatus.DEPOSIT_RECEIVED,
+  SwapStatus.PROCESSING,
+];
+
+/**
+ * Statuses Minmo reports once it has seen the BTC deposit; a swap reported in any of them
+ * is held in DEPOSIT_CONFIRMING until ConfirmationPolicy considers the deposit settled
+ */
+export const DEPOSIT_SEEN_STATUSES = [
+  SwapStatus.DEPOSIT_RECEIVED,
+  SwapStatus.PROCESSING,
+  SwapStatus.COMPLETED,
+];
+
+/**
+ * Swaps whose BTC has not arrived, which expire at their deadline
+ */
+export const AWAITING_DEPOSIT_STATUSES = [SwapStatus.PENDING, SwapStatus.DEPOSIT_PENDING];
+
+export function toSwapStatus(minmoStatus: string): SwapStatus | undefined {
+  return MINMO_STATUSES[minmoStatus.toLowerCase()];
+}
+
+/**
+ * Event to publish when a swap moves from one status to another, if any; moving between
+ * two statuses that mean the same to transaction-service publishes nothing
+ */
+export function swapStatusEvent(from: SwapStatus, to: SwapStatus): EventType | undefined {
+  const event = STATUS_EVENTS[to];
+  return event === STATUS_EVENTS[from] ? undefined : event;
+}
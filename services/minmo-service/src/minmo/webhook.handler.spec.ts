@@ -0,0 +1,195 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { EventType, SwapStatus } from '@bitpesa/shared-types';
+import { WebhookHandler } from './webhook.handler';
+import { SwapWebhookDto } from './dto/swap-webhook.dto';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../events/outbox.service';
+import { ConfirmationPolicy } from './confirmation-policy';
+
+describe('WebhookHandler', () => {
+  let handler: WebhookHandler;
+  let webhooks: Map<string, Record<string, any>>;
+  let outboxEvents: Array<Record<string, any>>;
+  let swap: Record<string, any>;
+  let webhookSecret: string | undefined;
+
+  const sign = (body: Buffer) =>
+    `sha256=${crypto.createHmac('sha256', 'whsec_test').update(body).digest('hex')}`;
+
+  const webhook = (event: SwapWebhookDto['event'], data?: Record<string, unknown>) => {
+    const dto = { swapId: 'swap_123', event, status: event.split('.')[1], data };
+    return { dto: dto as SwapWebhookDto, rawBody: Buffer.from(JSON.stringify(dto)) };
+  };
+
+  beforeEach(async () => {
+    webhooks = new Map();
+    outboxEvents = [];
+    swap = { minmoSwapId: 'swap_123', status: SwapStatus.DEPOSIT_PENDING };
+    webhookSecret = 'whsec_test';
+
+    // In-memory swaps, swap_webhooks and outbox_events tables
+    const tx = {
+      swap: {
+        findUnique: jest.fn(async ({ where }) =>
+          where.minmoSwapId === swap.minmoSwapId ? { ...swap } : null
+        ),
+        updateMany: jest.fn(async ({ where, data }) => {
+          if (where.minmoSwapId !== swap.minmoSwapId || !where.status.in.includes(swap.status)) {
+            return { count: 0 };
+          }
+          Object.assign(swap, data);
+          return { count: 1 };
+        }),
+      },
+      swapWebhook: {
+        createMany: jest.fn(async ({ data: [data] }) => {
+          if (webhooks.has(data.payloadHash)) {
+            return { count: 0 };
+          }
+          webhooks.set(data.payloadHash, data);
+          return { count: 1 };
+        }),
+      },
+      outboxEvent: {
+        create: jest.fn(async ({ data }) => outboxEvents.push(data)),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookHandler,
+        OutboxService,
+        { provide: PrismaService, useValue: { $transaction: jest.fn(callback => callback(tx)) } },
+        { provide: ConfigService, useValue: { get: jest.fn(() => webhookSecret) } },
+        {
+          provide: ConfirmationPolicy,
+          useValue: new ConfirmationPolicy({
+            get: (_key: string, defaultValue: unknown) => defaultValue,
+          } as unknown as ConfigService),
+        },
+      ],
+    }).compile();
+
+    handler = module.get<WebhookHandler>(WebhookHandler);
+  });
+
+  it('should store a signed webhook and queue its swap event', async () => {
+    const { dto, rawBody } = webhook('swap.confirmed');
+
+    await handler.processWebhook(dto, rawBody, sign(rawBody));
+
+    expect([...webhooks.values()]).toEqual([
+      expect.objectContaining({
+        swapId: 'swap_123',
+        webhookType: 'swap.confirmed',
+        webhookData: JSON.parse(rawBody.toString()),
+        processed: true,
+      }),
+    ]);
+    expect(outboxEvents).toEqual([
+      {
+        type: EventType.SWAP_CONFIRMED,
+        aggregateId: 'swap_123',
+        payload: { swapId: 'swap_123', status: 'confirmed', reason: undefined, data: undefined },
+      },
+    ]);
+    expect(swap.status).toBe(SwapStatus.DEPOSIT_RECEIVED);
+  });
+
+  it('should hold the swap event until the deposit has the confirmations it needs', async () => {
+    swap.requiredConfirmations = 2;
+    const first = webhook('swap.confirmed', { txHash: 'abc', confirmations: 1 });
+
+    await handler.processWebhook(first.dto, first.rawBody, sign(first.rawBody));
+
+    expect(swap).toMatchObject({
+      status: SwapStatus.DEPOSIT_CONFIRMING,
+      btcTransactionHash: 'abc',
+      btcConfirmations: 1,
+      nextPollAt: null,
+    });
+    expect(outboxEvents).toHaveLength(0);
+
+    const second = webhook('swap.confirmed', { txHash: 'abc', confirmations: 2 });
+    await handler.processWebhook(second.dto, second.rawBody, sign(second.rawBody));
+
+    expect(swap).toMatchObject({ status: SwapStatus.DEPOSIT_RECEIVED, btcConfirmations: 2 });
+    expect(outboxEvents).toEqual([expect.objectContaining({ type: EventType.SWAP_CONFIRMED })]);
+  });
+
+  it('should hold a completed swap whose deposit lacks the confirmations it needs', async () => {
+    swap.requiredConfirmations = 2;
+    const { dto, rawBody } = webhook('swap.completed', { txHash: 'abc', confirmations: 1 });
+
+    await handler.processWebhook(dto, rawBody, sign(rawBody));
+
+    expect(swap).toMatchObject({ status: SwapStatus.DEPOSIT_CONFIRMING, btcConfirmations: 1 });
+    expect(swap.completedAt).toBeUndefined();
+    expect(outboxEvents).toHaveLength(0);
+  });
+
+  it('should not check the deposit again once the swap has been confirmed', async () => {
+    swap.status = SwapStatus.DEPOSIT_RECEIVED;
+    swap.requiredConfirmations = 2;
+    const { dto, rawBody } = webhook('swap.completed');
+
+    await handler.processWebhook(dto, rawBody, sign(rawBody));
+
+    expect(swap.status).toBe(SwapStatus.COMPLETED);
+    expect(outboxEvents).toEqual([expect.objectContaining({ type: EventType.SWAP_COMPLETED })]);
+  });
+
+  it('should not accept an unconfirmed deposit that signals replace-by-fee', async () => {
+    const { dto, rawBody } = webhook('swap.confirmed', { confirmations: 0, rbf: true });
+
+    await handler.processWebhook(dto, rawBody, sign(rawBody));
+
+    expect(swap.status).toBe(SwapStatus.DEPOSIT_CONFIRMING);
+    expect(outboxEvents).toHaveLength(0);
+  });
+
+  it('should pass the failure reason on with swap.failed', async () => {
+    const { dto, rawBody } = webhook('swap.failed', { reason: 'Deposit below minimum' });
+
+    await handler.processWebhook(dto, rawBody, sign(rawBody));
+
+    expect(outboxEvents[0]).toMatchObject({
+      type: EventType.SWAP_FAILED,
+      payload: { reason: 'Deposit below minimum' },
+    });
+  });
+
+  it('should queue the event only once when Minmo retries a webhook', async () => {
+    const { dto, rawBody } = webhook('swap.confirmed');
+
+    await handler.processWebhook(dto, rawBody, sign(rawBody));
+    await handler.processWebhook(dto, rawBody, sign(rawBody));
+
+    expect(webhooks.size).toBe(1);
+    expect(outboxEvents).toHaveLength(1);
+  });
+
+  it('should reject webhooks with a missing or wrong signature', async () => {
+    const { dto, rawBody } = webhook('swap.confirmed');
+    const tampered = Buffer.from(rawBody.toString().replace('swap_123', 'swap_999'));
+
+    await expect(handler.processWebhook(dto, rawBody, undefined)).rejects.toThrow(
+      'Missing webhook signature'
+    );
+    await expect(handler.processWebhook(dto, tampered, sign(rawBody))).rejects.toThrow(
+      'Invalid webhook signature'
+    );
+    expect(outboxEvents).toHaveLength(0);
+  });
+
+  it('should refuse webhooks when no secret is configured', async () => {
+    webhookSecret = undefined;
+    const { dto, rawBody } = webhook('swap.confirmed');
+
+    await expect(handler.processWebhook(dto, rawBody, sign(rawBody))).rejects.toThrow(
+      'MINMO_WEBHOOK_SECRET is not configured'
+    );
+  });
+});
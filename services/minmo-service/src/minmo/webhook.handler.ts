@@ -1,119 +1,146 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { MinmoService } from './minmo.service';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import * as crypto from 'crypto';
+import { EventType, SwapEventPayload, SwapStatus } from '@bitpesa/shared-types';
 import { SwapWebhookDto } from './dto/swap-webhook.dto';
+import { DEPOSIT_SEEN_STATUSES, OPEN_SWAP_STATUSES, toSwapStatus } from './swap-status';
+import { ConfirmationPolicy, toDepositState } from './confirmation-policy';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../events/outbox.service';
+
+/**
+ * Event published for each Minmo webhook event
+ */
+const SWAP_EVENTS: Record<SwapWebhookDto['event'], EventType> = {
+  'swap.created': EventType.SWAP_CREATED,
+  'swap.confirmed': EventType.SWAP_CONFIRMED,
+  'swap.completed': EventType.SWAP_COMPLETED,
+  'swap.failed': EventType.SWAP_FAILED,
+  'swap.expired': EventType.SWAP_EXPIRED,
+};
 
 @Injectable()
 export class WebhookHandler {
   private readonly logger = new Logger(WebhookHandler.name);
 
-  constructor(private readonly minmoService: MinmoService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+    private readonly outbox: OutboxService,
+    private readonly confirmationPolicy: ConfirmationPolicy
+  ) {}
 
   /**
    * Process Minmo webhook events
+   * The raw webhook and the swap event for transaction-service are stored in one database
+   * transaction; the outbox relay then delivers the event, retrying until it is handled.
+   * Minmo's retries of a webhook we already stored are acknowledged and ignored.
+   * The stored swap takes the webhook's status, so SwapPollerService does not report the
+   * same change again. A webhook reporting the deposit received, the swap processing or
+   * completed while the deposit has fewer confirmations than ConfirmationPolicy requires
+   * leaves the swap DEPOSIT_CONFIRMING and publishes nothing; the poller publishes the
+   * swap's event once Minmo reports enough confirmations.
    */
-  async processWebhook(dto: SwapWebhookDto): Promise<void> {
-    try {
-      this.logger.log(`Processing webhook for swap ${dto.swapId}: ${dto.event}`);
+  async processWebhook(
+    dto: SwapWebhookDto,
+    rawBody: Buffer | undefined,
+    signature: string | undefined
+  ): Promise<void> {
+    this.verifySignature(rawBody, signature);
+    this.logger.log(`Processing webhook for swap ${dto.swapId}: ${dto.event}`);
 
-      // Handle different webhook events
-      switch (dto.event) {
-        case 'swap.created':
-          await this.handleSwapCreated(dto);
-          break;
-        case 'swap.confirmed':
-          await this.handleSwapConfirmed(dto);
-          break;
-        case 'swap.completed':
-          await this.handleSwapCompleted(dto);
-          break;
-        case 'swap.failed':
-          await this.handleSwapFailed(dto);
-          break;
-        case 'swap.expired':
-          await this.handleSwapExpired(dto);
-          break;
-        default:
-          this.logger.warn(`Unknown webhook event: ${dto.event}`);
-      }
-    } catch (error) {
-      this.logger.error(`Webhook processing failed: ${error.message}`);
-      throw error;
-    }
-  }
+    const payloadHash = crypto.createHash('sha256').update(rawBody!).digest('hex');
+    const eventType = SWAP_EVENTS[dto.event];
 
-  /**
-   * Handle swap created event
-   */
-  private async handleSwapCreated(dto: SwapWebhookDto): Promise<void> {
-    this.logger.log(`Swap ${dto.swapId} created successfully`);
-    // Notify transaction service that swap is ready for payment
-    // This could trigger a notification to the user
-  }
+    await this.prisma.$transaction(async tx => {
+      const { count } = await tx.swapWebhook.createMany({
+        data: [
+          {
+            swapId: dto.swapId,
+            webhookType: dto.event,
+            webhookData: JSON.parse(rawBody!.toString()) as Prisma.InputJsonValue,
+            signature: signature!,
+            payloadHash,
+            processed: true,
+            processedAt: new Date(),
+          },
+        ],
+        skipDuplicates: true,
+      });
+      if (count === 0) {
+        this.logger.log(`Webhook for swap ${dto.swapId} (${dto.event}) already received`);
+        return;
+      }
 
-  /**
-   * Handle swap confirmed event (BTC received)
-   */
-  private async handleSwapConfirmed(dto: SwapWebhookDto): Promise<void> {
-    this.logger.log(`Swap ${dto.swapId} confirmed - BTC received`);
-    
-    // This is the critical event - BTC has been received
-    // Notify transaction service to proceed with M-Pesa payment
-    // TODO: Send notification to transaction service
-    // await this.notifyTransactionService(dto.swapId, 'BTC_RECEIVED');
-  }
+      let status = toSwapStatus(dto.status);
+      let settled = true;
+      if (status && DEPOSIT_SEEN_STATUSES.includes(status)) {
+        const swap = await tx.swap.findUnique({ where: { minmoSwapId: dto.swapId } });
+        // A deposit already let through is not checked again by later events
+        settled =
+          DEPOSIT_SEEN_STATUSES.includes(swap?.status as SwapStatus) ||
+          this.confirmationPolicy.isSettled(
+            swap?.requiredConfirmations ?? 0,
+            toDepositState(dto.data)
+          );
+        status = settled ? status : SwapStatus.DEPOSIT_CONFIRMING;
+      }
+      if (status) {
+        await tx.swap.updateMany({
+          where: { minmoSwapId: dto.swapId, status: { in: OPEN_SWAP_STATUSES } },
+          data: {
+            status,
+            pollAttempts: 0,
+            // Check the confirmations again on the poller's next pass
+            nextPollAt: settled ? undefined : null,
+            btcTransactionHash: dto.data?.txHash,
+            btcConfirmations: dto.data?.confirmations,
+            completedAt: status === SwapStatus.COMPLETED ? new Date() : undefined,
+            failureReason: status === SwapStatus.FAILED ? dto.data?.reason : undefined,
+          },
+        });
+      }
+      if (!settled) {
+        this.logger.log(`Swap ${dto.swapId} deposit seen; waiting for more confirmations`);
+        return;
+      }
 
-  /**
-   * Handle swap completed event
-   */
-  private async handleSwapCompleted(dto: SwapWebhookDto): Promise<void> {
-    this.logger.log(`Swap ${dto.swapId} completed successfully`);
-    
-    // Swap is fully completed
-    // Update transaction status to completed
-    // TODO: Send notification to transaction service
-    // await this.notifyTransactionService(dto.swapId, 'COMPLETED');
-  }
+      const payload: SwapEventPayload = {
+        swapId: dto.swapId,
+        status: dto.status,
+        reason: dto.event === 'swap.failed' ? dto.data?.reason : undefined,
+        data: dto.data,
+      };
+      await this.outbox.enqueue(tx, eventType, dto.swapId, payload);
+    });
 
-  /**
-   * Handle swap failed event
-   */
-  private async handleSwapFailed(dto: SwapWebhookDto): Promise<void> {
-    this.logger.error(`Swap ${dto.swapId} failed: ${dto.data?.reason || 'Unknown reason'}`);
-    
-    // Swap failed - update transaction status
-    // TODO: Send notification to transaction service
-    // await this.notifyTransactionService(dto.swapId, 'FAILED', dto.data?.reason);
+    if (dto.event === 'swap.failed') {
+      this.logger.error(`Swap ${dto.swapId} failed: ${dto.data?.reason || 'Unknown reason'}`);
+    }
   }
 
   /**
-   * Handle swap expired event
+   * Check the X-Minmo-Signature header, "sha256=" followed by the hex HMAC-SHA256 of the
+   * raw request body keyed with MINMO_WEBHOOK_SECRET
    */
-  private async handleSwapExpired(dto: SwapWebhookDto): Promise<void> {
-    this.logger.log(`Swap ${dto.swapId} expired`);
-    
-    // Swap expired - user didn't send BTC in time
-    // TODO: Send notification to transaction service
-    // await this.notifyTransactionService(dto.swapId, 'EXPIRED');
-  }
+  private verifySignature(rawBody: Buffer | undefined, signature: string | undefined): void {
+    const webhookSecret = this.configService.get<string>('MINMO_WEBHOOK_SECRET');
+    if (!webhookSecret) {
+      // Refuse rather than accept unverified webhooks; Minmo retries once this is fixed
+      throw new Error('MINMO_WEBHOOK_SECRET is not configured');
+    }
+    if (!rawBody || !signature) {
+      throw new BadRequestException('Missing webhook signature');
+    }
 
-  /**
-   * Notify transaction service about swap status change
-   * TODO: Implement HTTP client to notify transaction service
-   */
-  private async notifyTransactionService(swapId: string, status: string, reason?: string): Promise<void> {
-    try {
-      // This would make an HTTP call to the transaction service
-      // to update the transaction status based on Minmo events
-      this.logger.log(`Notifying transaction service: swap ${swapId} status ${status}`);
-      
-      // Example implementation:
-      // await this.httpService.post(`${TRANSACTION_SERVICE_URL}/webhooks/minmo`, {
-      //   swapId,
-      //   status,
-      //   reason,
-      // }).toPromise();
-    } catch (error) {
-      this.logger.error(`Failed to notify transaction service: ${error.message}`);
+    const expected = Buffer.from(
+      `sha256=${crypto.createHmac('sha256', webhookSecret).update(rawBody).digest('hex')}`
+    );
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      this.logger.error('Invalid webhook signature');
+      throw new BadRequestException('Invalid webhook signature');
     }
   }
 }
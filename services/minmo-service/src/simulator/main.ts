@@ -0,0 +1,36 @@
+import { Logger } from '@nestjs/common';
+import { MINMO_SCENARIOS, MinmoScenario, MinmoSimulator } from './minmo-simulator';
+
+async function bootstrap() {
+  const scenario = (process.env.MINMO_SIMULATOR_SCENARIO ?? 'success') as MinmoScenario;
+  if (!MINMO_SCENARIOS.includes(scenario)) {
+    throw new Error(`MINMO_SIMULATOR_SCENARIO must be one of ${MINMO_SCENARIOS.join(', ')}`);
+  }
+
+  const simulator = new MinmoSimulator({
+    apiKey: process.env.MINMO_API_KEY,
+    webhookSecret: process.env.MINMO_WEBHOOK_SECRET,
+    scenario,
+    webhookDelayMs: Number(process.env.MINMO_SIMULATOR_WEBHOOK_DELAY_MS ?? 1000),
+    expiresInMs: Number(process.env.MINMO_SIMULATOR_EXPIRES_IN_MS ?? 15 * 60 * 1000),
+  });
+  await simulator.listen(
+    Number(process.env.MINMO_SIMULATOR_PORT ?? 8090),
+    process.env.MINMO_SIMULATOR_HOST ?? '0.0.0.0'
+  );
+
+  const logger = new Logger('Bootstrap');
+  logger.log(`Default scenario: ${scenario}; set MINMO_API_URL=${simulator.url} to use it`);
+
+  const shutdown = () => simulator.close().then(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+bootstrap().catch(error => {
+  new Logger('Bootstrap').error(
+    `Failed to start Minmo simulator: ${(error as Error).message}`,
+    (error as Error).stack
+  );
+  process.exit(1);
+});
@@ -0,0 +1,232 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { MinmoSimulator } from './minmo-simulator';
+import { MinmoClient, MinmoSwapRequest } from '../minmo/minmo-client';
+import { SwapWebhookDto } from '../minmo/dto/swap-webhook.dto';
+
+describe('MinmoSimulator', () => {
+  let simulator: MinmoSimulator;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let webhooks: Array<{ signature: string; rawBody: string; body: Record<string, any> }>;
+  let minmo: MinmoClient;
+
+  const client = (apiKey: string) => {
+    const config: Record<string, string> = { MINMO_API_URL: simulator.url, MINMO_API_KEY: apiKey };
+    return new MinmoClient({
+      get: jest.fn(key => config[key]),
+    } as unknown as ConfigService);
+  };
+
+  beforeEach(async () => {
+    // Stands in for minmo-service's webhook route
+    webhooks = [];
+    receiver = http.createServer((request, response) => {
+      const chunks: Buffer[] = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', () => {
+        const rawBody = Buffer.concat(chunks).toString();
+        webhooks.push({
+          signature: request.headers['x-minmo-signature'] as string,
+          rawBody,
+          body: JSON.parse(rawBody),
+        });
+        response.end();
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+
+    simulator = new MinmoSimulator({
+      apiKey: 'minmo-key',
+      webhookSecret: 'whsec_test',
+      webhookDelayMs: 10,
+      expiresInMs: 200,
+      rate: 10000000,
+      scenarios: {
+        '254708000002': 'underpayment',
+        '254708000003': 'overpayment',
+        '254708000004': 'expiry',
+        '254708000005': 'late_payment',
+      },
+    });
+    await simulator.listen(0);
+    minmo = client('minmo-key');
+  });
+
+  afterEach(async () => {
+    await simulator.flush();
+    await simulator.close();
+    await new Promise(resolve => receiver.close(resolve));
+  });
+
+  // The request MinmoService sends
+  const createSwap = (recipientPhone: string) => {
+    const request: MinmoSwapRequest = {
+      fromCurrency: 'BTC',
+      toCurrency: 'KES',
+      toAmount: 5000,
+      payoutMethod: 'CUSTOM',
+      metadata: { internalTransactionId: 'tx_1', recipientPhone },
+      webhookUrl: `${receiverUrl}/api/v1/webhooks/minmo`,
+    };
+    return minmo.createSwap(request);
+  };
+
+  it('should quote a swap and report its status', async () => {
+    const swap = await createSwap('254708000004');
+
+    expect(swap).toEqual({
+      id: expect.stringMatching(/^swap_/),
+      depositAddress: expect.stringMatching(/^bc1q/),
+      fromAmount: 0.000505,
+      toAmount: 5000,
+      rate: 10000000,
+      fee: 50,
+      expiresAt: expect.any(String),
+      status: 'pending',
+    });
+    await expect(minmo.getSwapStatus(swap.id)).resolves.toEqual({
+      id: swap.id,
+      status: 'pending',
+      btcReceived: false,
+      fromAmount: 0.000505,
+      toAmount: 5000,
+    });
+  });
+
+  it('should send signed webhooks our webhook route accepts', async () => {
+    const swap = await createSwap('254708000001');
+    await simulator.flush();
+
+    expect(webhooks.map(webhook => webhook.body.event)).toEqual([
+      'swap.confirmed',
+      'swap.completed',
+    ]);
+    for (const webhook of webhooks) {
+      const expected = crypto
+        .createHmac('sha256', 'whsec_test')
+        .update(webhook.rawBody)
+        .digest('hex');
+      expect(webhook.signature).toBe(`sha256=${expected}`);
+      await expect(validate(plainToInstance(SwapWebhookDto, webhook.body))).resolves.toEqual([]);
+    }
+    await expect(minmo.getSwapStatus(swap.id)).resolves.toMatchObject({
+      status: 'completed',
+      btcReceived: true,
+      completedAt: expect.any(String),
+    });
+  });
+
+  it('should report the BTC actually received when a swap is under- or overpaid', async () => {
+    const underpaid = await createSwap('254708000002');
+    const overpaid = await createSwap('254708000003');
+    await simulator.flush();
+
+    const confirmation = (swapId: string) =>
+      webhooks.find(
+        webhook => webhook.body.swapId === swapId && webhook.body.event === 'swap.confirmed'
+      )!.body.data;
+    expect(confirmation(underpaid.id)).toMatchObject({
+      btcAmount: 0.0004545,
+      expectedBtcAmount: 0.000505,
+    });
+    expect(confirmation(overpaid.id)).toMatchObject({
+      btcAmount: 0.0005555,
+      expectedBtcAmount: 0.000505,
+    });
+    await expect(minmo.getSwapStatus(underpaid.id)).resolves.toMatchObject({
+      fromAmount: 0.0004545,
+      toAmount: 4495,
+    });
+  });
+
+  it('should expire a swap that receives no BTC', async () => {
+    const swap = await createSwap('254708000004');
+    await simulator.flush();
+
+    expect(webhooks.map(webhook => webhook.body)).toEqual([
+      {
+        swapId: swap.id,
+        event: 'swap.expired',
+        status: 'expired',
+        data: { reason: 'No deposit received before the swap expired' },
+      },
+    ]);
+    await expect(minmo.getSwapStatus(swap.id)).resolves.toMatchObject({
+      status: 'expired',
+      btcReceived: false,
+    });
+  });
+
+  it('should report BTC that arrives after the swap expired', async () => {
+    const swap = await createSwap('254708000005');
+    await simulator.flush();
+
+    expect(webhooks.map(webhook => [webhook.body.event, webhook.body.status])).toEqual([
+      ['swap.expired', 'expired'],
+      ['swap.confirmed', 'expired'],
+    ]);
+    expect(webhooks[1].body.data).toMatchObject({ btcAmount: 0.000505, late: true });
+    await expect(minmo.getSwapStatus(swap.id)).resolves.toMatchObject({
+      status: 'expired',
+      btcReceived: true,
+    });
+  });
+
+  it('should cancel only a swap still waiting for its deposit', async () => {
+    const swap = await createSwap('254708000004');
+
+    await expect(minmo.cancelSwap(swap.id)).resolves.toEqual({ id: swap.id, status: 'cancelled' });
+    await expect(minmo.cancelSwap(swap.id)).rejects.toMatchObject({
+      response: {
+        status: 400,
+        data: { message: `Swap ${swap.id} is cancelled and cannot be cancelled` },
+      },
+    });
+    await simulator.flush();
+    expect(webhooks).toHaveLength(0);
+  });
+
+  it('should list swaps, quote rates and answer health checks', async () => {
+    const first = await createSwap('254708000004');
+    const second = await createSwap('254708000004');
+
+    await expect(minmo.getSwapHistory(1, 0)).resolves.toMatchObject({
+      data: [{ id: second.id }],
+      total: 2,
+    });
+    await expect(minmo.getSwapHistory(10, 1)).resolves.toMatchObject({ data: [{ id: first.id }] });
+    await expect(minmo.getExchangeRate('BTC-KES')).resolves.toEqual({
+      rate: 10000000,
+      timestamp: expect.any(String),
+      spread: 0.5,
+    });
+    await expect(minmo.testConnection()).resolves.toBe(true);
+  });
+
+  it('should refuse requests with the wrong API key or a malformed swap', async () => {
+    await expect(client('wrong-key').getExchangeRate('BTC-KES')).rejects.toMatchObject({
+      response: { status: 401, data: { message: 'Invalid API key' } },
+    });
+    await expect(
+      minmo.createSwap({
+        fromCurrency: 'BTC',
+        toCurrency: 'KES',
+        toAmount: 5000,
+        payoutMethod: 'CUSTOM',
+        metadata: {},
+        webhookUrl: '/api/v1/webhooks/minmo',
+      })
+    ).rejects.toMatchObject({
+      response: { status: 400, data: { message: 'webhookUrl must be an http(s) URL' } },
+    });
+    await expect(minmo.getSwapStatus('swap_missing')).rejects.toMatchObject({
+      response: { status: 404 },
+    });
+  });
+});
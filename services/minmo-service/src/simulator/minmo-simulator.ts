@@ -0,0 +1,439 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { Logger } from '@nestjs/common';
+import axios from 'axios';
+
+export type MinmoScenario = 'success' | 'underpayment' | 'overpayment' | 'late_payment' | 'expiry';
+
+export const MINMO_SCENARIOS: MinmoScenario[] = [
+  'success',
+  'underpayment',
+  'overpayment',
+  'late_payment',
+  'expiry',
+];
+
+export interface MinmoSimulatorOptions {
+  /** Bearer token requests must carry, as MINMO_API_KEY */
+  apiKey?: string;
+  /** Key webhooks are signed with, as MINMO_WEBHOOK_SECRET */
+  webhookSecret?: string;
+  /** Outcome of swaps whose recipient has no scenario of its own */
+  scenario?: MinmoScenario;
+  /** Outcome by the recipientPhone in the swap metadata, e.g. { '254708000002': 'expiry' } */
+  scenarios?: Record<string, MinmoScenario>;
+  /** Wait between the steps of a swap, such as the deposit and the payout */
+  webhookDelayMs?: number;
+  /** How long a swap waits for its deposit */
+  expiresInMs?: number;
+  /** BTC/KES rate quoted for new swaps */
+  rate?: number;
+}
+
+// Share of the quoted BTC the user sends in each scenario
+const DEPOSIT_SHARES: Record<MinmoScenario, number> = {
+  success: 1,
+  underpayment: 0.9,
+  overpayment: 1.1,
+  late_payment: 1,
+  expiry: 0,
+};
+
+const FEE_RATE = 0.01;
+
+type Body = Record<string, any>;
+
+interface SimulatedSwap {
+  id: string;
+  depositAddress: string;
+  fromAmount: number;
+  toAmount: number;
+  rate: number;
+  fee: number;
+  status: 'pending' | 'confirmed' | 'completed' | 'expired' | 'cancelled';
+  btcReceived: number;
+  txHash?: string;
+  webhookUrl: string;
+  metadata: Body;
+  createdAt: Date;
+  expiresAt: Date;
+  completedAt?: Date;
+}
+
+class MinmoError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Local stand-in for Minmo's swap API
+ * Serves swap creation, status, cancellation and history, rates and health as MinmoClient
+ * calls them, then plays each swap's scenario out through signed webhooks to its
+ * webhookUrl, webhookDelayMs apart: with success the quoted BTC arrives (swap.confirmed) and
+ * the KES is paid (swap.completed); underpayment and overpayment deposit 90% and 110% of the
+ * quote and pay out the re-priced amount; expiry sends no BTC, so the swap expires after
+ * expiresInMs (swap.expired); late_payment expires the same way, then reports the BTC
+ * arriving anyway. POST /simulator/scenario { scenario, recipientPhone? } changes scenarios
+ * at runtime.
+ */
+export class MinmoSimulator {
+  private readonly logger = new Logger(MinmoSimulator.name);
+  private readonly server: http.Server;
+  private readonly scenarios: Map<string, MinmoScenario>;
+  private readonly swaps = new Map<string, SimulatedSwap>();
+  private readonly pending = new Set<Promise<void>>();
+  private readonly apiKey: string;
+  private readonly webhookSecret: string;
+  private defaultScenario: MinmoScenario;
+  private webhookDelayMs: number;
+  private expiresInMs: number;
+  private rate: number;
+
+  constructor(options: MinmoSimulatorOptions = {}) {
+    this.apiKey = options.apiKey ?? 'minmo-simulator-key';
+    this.webhookSecret = options.webhookSecret ?? 'minmo-simulator-secret';
+    this.defaultScenario = options.scenario ?? 'success';
+    this.scenarios = new Map(Object.entries(options.scenarios ?? {}));
+    this.webhookDelayMs = options.webhookDelayMs ?? 1000;
+    this.expiresInMs = options.expiresInMs ?? 15 * 60 * 1000;
+    this.rate = options.rate ?? 8500000;
+    this.server = http.createServer((request, response) => this.handle(request, response));
+  }
+
+  async listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(port, host, resolve));
+    this.logger.log(`Minmo simulator listening on ${this.url}`);
+    return this.url;
+  }
+
+  get url(): string {
+    const { address, port } = this.server.address() as AddressInfo;
+    return `http://${address}:${port}`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  setScenario(scenario: MinmoScenario, recipientPhone?: string): void {
+    if (recipientPhone) {
+      this.scenarios.set(recipientPhone, scenario);
+    } else {
+      this.defaultScenario = scenario;
+    }
+  }
+
+  /**
+   * Resolves once every swap step scheduled so far has run and sent its webhook
+   */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all([...this.pending]);
+    }
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse) {
+    const [path, query = ''] = (request.url ?? '').split('?');
+    try {
+      const body = await this.readBody(request);
+      let result: Body;
+
+      if (request.method === 'GET' && path === '/health') {
+        result = { status: 'ok' };
+      } else if (request.method === 'POST' && path === '/simulator/scenario') {
+        result = this.configureScenario(body);
+      } else {
+        this.authorize(request);
+        result = this.route(request.method, path, new URLSearchParams(query), body);
+      }
+
+      this.send(response, 200, result);
+    } catch (error) {
+      const minmoError =
+        error instanceof MinmoError ? error : new MinmoError(500, (error as Error).message);
+      this.send(response, minmoError.status, {
+        statusCode: minmoError.status,
+        message: minmoError.message,
+      });
+    }
+  }
+
+  private route(
+    method: string | undefined,
+    path: string,
+    query: URLSearchParams,
+    body: Body
+  ): Body {
+    const swapPath = path.match(/^\/swaps\/([^/]+)(\/cancel)?$/);
+    const ratePath = path.match(/^\/rates\/([^/]+)$/);
+
+    if (method === 'POST' && path === '/swaps/create') {
+      return this.createSwap(body);
+    }
+    if (method === 'GET' && path === '/swaps') {
+      return this.listSwaps(query);
+    }
+    if (method === 'GET' && swapPath && !swapPath[2]) {
+      return this.swapStatus(this.find(swapPath[1]));
+    }
+    if (method === 'POST' && swapPath?.[2]) {
+      return this.cancelSwap(this.find(swapPath[1]));
+    }
+    if (method === 'GET' && ratePath) {
+      return this.quoteRate(ratePath[1]);
+    }
+    throw new MinmoError(404, `Cannot ${method} ${path}`);
+  }
+
+  private authorize(request: http.IncomingMessage): void {
+    if (request.headers.authorization !== `Bearer ${this.apiKey}`) {
+      throw new MinmoError(401, 'Invalid API key');
+    }
+  }
+
+  private configureScenario(body: Body): Body {
+    if (!MINMO_SCENARIOS.includes(body.scenario)) {
+      throw new MinmoError(400, `Unknown scenario ${body.scenario}`);
+    }
+
+    this.setScenario(body.scenario, body.recipientPhone);
+    return { scenario: body.scenario, recipientPhone: body.recipientPhone ?? null };
+  }
+
+  private createSwap(body: Body): Body {
+    if (body.fromCurrency !== 'BTC' || body.toCurrency !== 'KES') {
+      throw new MinmoError(400, 'Only BTC to KES swaps are supported');
+    }
+    if (typeof body.toAmount !== 'number' || body.toAmount <= 0) {
+      throw new MinmoError(400, 'toAmount must be a positive number');
+    }
+    if (!body.payoutMethod) {
+      throw new MinmoError(400, 'payoutMethod is required');
+    }
+    if (typeof body.webhookUrl !== 'string' || !/^https?:\/\//.test(body.webhookUrl)) {
+      throw new MinmoError(400, 'webhookUrl must be an http(s) URL');
+    }
+
+    const fee = this.round(body.toAmount * FEE_RATE, 2);
+    const now = new Date();
+    const swap: SimulatedSwap = {
+      id: `swap_${crypto.randomBytes(8).toString('hex')}`,
+      depositAddress: this.address(),
+      fromAmount: this.round((body.toAmount + fee) / this.rate, 8),
+      toAmount: body.toAmount,
+      rate: this.rate,
+      fee,
+      status: 'pending',
+      btcReceived: 0,
+      webhookUrl: body.webhookUrl,
+      metadata: body.metadata ?? {},
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.expiresInMs),
+    };
+    this.swaps.set(swap.id, swap);
+    this.play(swap, this.scenarios.get(swap.metadata.recipientPhone) ?? this.defaultScenario);
+
+    return {
+      id: swap.id,
+      depositAddress: swap.depositAddress,
+      fromAmount: swap.fromAmount,
+      toAmount: swap.toAmount,
+      rate: swap.rate,
+      fee: swap.fee,
+      expiresAt: swap.expiresAt.toISOString(),
+      status: swap.status,
+    };
+  }
+
+  private swapStatus(swap: SimulatedSwap): Body {
+    return {
+      id: swap.id,
+      status: swap.status,
+      btcReceived: swap.btcReceived > 0,
+      fromAmount: swap.btcReceived > 0 ? swap.btcReceived : swap.fromAmount,
+      toAmount: swap.toAmount,
+      ...(swap.txHash && { txHash: swap.txHash, confirmations: 1 }),
+      ...(swap.completedAt && { completedAt: swap.completedAt.toISOString() }),
+    };
+  }
+
+  private cancelSwap(swap: SimulatedSwap): Body {
+    if (swap.status !== 'pending') {
+      throw new MinmoError(400, `Swap ${swap.id} is ${swap.status} and cannot be cancelled`);
+    }
+
+    swap.status = 'cancelled';
+    return { id: swap.id, status: swap.status };
+  }
+
+  private listSwaps(query: URLSearchParams): Body {
+    const limit = Number(query.get('limit') ?? 50);
+    const offset = Number(query.get('offset') ?? 0);
+    const swaps = [...this.swaps.values()].reverse();
+    return {
+      data: swaps.slice(offset, offset + limit).map(swap => this.swapStatus(swap)),
+      total: swaps.length,
+      limit,
+      offset,
+    };
+  }
+
+  private quoteRate(pair: string): Body {
+    if (pair !== 'BTC-KES') {
+      throw new MinmoError(404, `Unsupported pair ${pair}`);
+    }
+    return { rate: this.rate, timestamp: new Date().toISOString(), spread: 0.5 };
+  }
+
+  /**
+   * Schedule the deposit, payout or expiry the scenario calls for
+   */
+  private play(swap: SimulatedSwap, scenario: MinmoScenario): void {
+    if (scenario === 'expiry' || scenario === 'late_payment') {
+      this.schedule(swap, this.expiresInMs, () => this.expire(swap));
+      if (scenario === 'late_payment') {
+        this.schedule(swap, this.expiresInMs + this.webhookDelayMs, () =>
+          this.deposit(swap, DEPOSIT_SHARES[scenario], true)
+        );
+      }
+      return;
+    }
+
+    this.schedule(swap, this.webhookDelayMs, () => this.deposit(swap, DEPOSIT_SHARES[scenario]));
+    this.schedule(swap, this.webhookDelayMs * 2, () => this.complete(swap));
+  }
+
+  private deposit(swap: SimulatedSwap, share: number, late = false): Body | undefined {
+    if (swap.status !== (late ? 'expired' : 'pending')) {
+      return undefined;
+    }
+
+    swap.btcReceived = this.round(swap.fromAmount * share, 8);
+    swap.txHash = crypto.randomBytes(32).toString('hex');
+    if (!late) {
+      swap.status = 'confirmed';
+    }
+    return {
+      event: 'swap.confirmed',
+      data: {
+        btcAmount: swap.btcReceived,
+        expectedBtcAmount: swap.fromAmount,
+        txHash: swap.txHash,
+        confirmations: 1,
+        ...(late && { late: true }),
+      },
+    };
+  }
+
+  private complete(swap: SimulatedSwap): Body | undefined {
+    if (swap.status !== 'confirmed') {
+      return undefined;
+    }
+
+    // Minmo pays out what the BTC it received is worth
+    swap.toAmount = this.round(swap.btcReceived * swap.rate - swap.fee, 2);
+    swap.status = 'completed';
+    swap.completedAt = new Date();
+    return {
+      event: 'swap.completed',
+      data: {
+        btcAmount: swap.btcReceived,
+        kesAmount: swap.toAmount,
+        completedAt: swap.completedAt.toISOString(),
+      },
+    };
+  }
+
+  private expire(swap: SimulatedSwap): Body | undefined {
+    if (swap.status !== 'pending') {
+      return undefined;
+    }
+
+    swap.status = 'expired';
+    return {
+      event: 'swap.expired',
+      data: { reason: 'No deposit received before the swap expired' },
+    };
+  }
+
+  /**
+   * Run a step of the swap after delayMs and send the webhook it returns, if any
+   */
+  private schedule(swap: SimulatedSwap, delayMs: number, step: () => Body | undefined): void {
+    const delivery = new Promise<void>(resolve => setTimeout(resolve, delayMs))
+      .then(async () => {
+        const webhook = step();
+        if (webhook) {
+          await this.sendWebhook(swap, webhook);
+        }
+      })
+      .catch(error => this.logger.warn(`Webhook to ${swap.webhookUrl} failed: ${error.message}`))
+      .finally(() => this.pending.delete(delivery));
+    this.pending.add(delivery);
+  }
+
+  /**
+   * POST a webhook signed as Minmo signs them: X-Minmo-Signature is "sha256=" followed by
+   * the hex HMAC-SHA256 of the raw body
+   */
+  private async sendWebhook(swap: SimulatedSwap, webhook: Body): Promise<void> {
+    const body = JSON.stringify({
+      swapId: swap.id,
+      event: webhook.event,
+      status: swap.status,
+      data: webhook.data,
+    });
+    const signature = crypto.createHmac('sha256', this.webhookSecret).update(body).digest('hex');
+
+    await axios.post(swap.webhookUrl, body, {
+      headers: { 'Content-Type': 'application/json', 'X-Minmo-Signature': `sha256=${signature}` },
+      timeout: 10000,
+    });
+  }
+
+  private find(swapId: string): SimulatedSwap {
+    const swap = this.swaps.get(swapId);
+    if (!swap) {
+      throw new MinmoError(404, `Swap ${swapId} not found`);
+    }
+    return swap;
+  }
+
+  private async readBody(request: http.IncomingMessage): Promise<Body> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    if (chunks.length === 0) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString());
+    } catch {
+      throw new MinmoError(400, 'Request body is not valid JSON');
+    }
+  }
+
+  private send(response: http.ServerResponse, status: number, body: Body): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+
+  /**
+   * A random bech32-looking deposit address; not a valid one
+   */
+  private address(): string {
+    const alphabet = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+    return `bc1q${Array.from(crypto.randomBytes(38), byte => alphabet[byte % 32]).join('')}`;
+  }
+
+  private round(value: number, decimals: number): number {
+    return Number(value.toFixed(decimals));
+  }
+}
@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { MetricsModule } from './metrics/metrics.module';
+import { EventsModule } from './events/events.module';
 import { SharedInfrastructureModule } from '@bitpesa/shared-infrastructure';
 
 @Module({
@@ -10,6 +11,7 @@ import { SharedInfrastructureModule } from '@bitpesa/shared-infrastructure';
       envFilePath: ['.env.local', '.env'],
     }),
     SharedInfrastructureModule,
+    EventsModule,
     MetricsModule,
   ],
 })
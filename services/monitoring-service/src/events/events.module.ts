@@ -0,0 +1,20 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EVENT_BROKER, createEventBroker } from '@bitpesa/shared-infrastructure';
+
+/**
+ * Event broker for consuming the events other services publish; monitoring-service
+ * publishes none, so it has no outbox
+ */
+@Global()
+@Module({
+  providers: [
+    {
+      provide: EVENT_BROKER,
+      useFactory: createEventBroker,
+      inject: [ConfigService],
+    },
+  ],
+  exports: [EVENT_BROKER],
+})
+export class EventsModule {}
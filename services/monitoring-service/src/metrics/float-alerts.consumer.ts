@@ -0,0 +1,55 @@
+import { Inject, Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { DomainEvent, EventType, FloatLowEventPayload } from '@bitpesa/shared-types';
+import {
+  EVENT_BROKER,
+  EventBroker,
+  PrismaService,
+  deduplicateEvents,
+} from '@bitpesa/shared-infrastructure';
+
+const CONSUMER = 'monitoring-service.float';
+
+/**
+ * Raises an alert for each float.low event transaction-service publishes
+ * The alert is critical once the projected balance is below the minimum, as new quotes
+ * are then being refused.
+ */
+@Injectable()
+export class FloatAlertsConsumer implements OnApplicationBootstrap {
+  private readonly logger = new Logger(FloatAlertsConsumer.name);
+
+  constructor(
+    @Inject(EVENT_BROKER) private readonly broker: EventBroker,
+    private readonly prisma: PrismaService
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.broker.subscribe({
+      group: CONSUMER,
+      types: [EventType.FLOAT_LOW],
+      handler: deduplicateEvents(this.prisma.processedEvent, CONSUMER, event => this.handle(event)),
+    });
+  }
+
+  private async handle(event: DomainEvent): Promise<void> {
+    const payload = event.payload as unknown as FloatLowEventPayload;
+    const refusingQuotes = payload.projectedBalance < payload.minimumBalance;
+    const message =
+      `M-Pesa float low: ${payload.projectedBalance} KES projected from a ` +
+      `${payload.utilityBalance} KES balance with ${payload.reserved} KES reserved` +
+      `${refusingQuotes ? '; quotes are being refused' : ''}. ` +
+      `Top up ${payload.recommendedTopUp} KES.`;
+
+    this.logger.warn(message);
+    await this.prisma.alert.create({
+      data: {
+        ruleId: 'mpesa-float-low',
+        ruleName: 'M-Pesa Float Low',
+        severity: refusingQuotes ? 'CRITICAL' : 'HIGH',
+        message,
+        metrics: { ...payload },
+        resolved: false,
+      },
+    });
+  }
+}
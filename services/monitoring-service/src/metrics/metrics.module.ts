@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 import { MetricsService } from './metrics.service';
 import { MetricsController } from './metrics.controller';
+import { FloatAlertsConsumer } from './float-alerts.consumer';
 import { SharedInfrastructureModule } from '@bitpesa/shared-infrastructure';
 
 @Module({
   imports: [SharedInfrastructureModule],
-  providers: [MetricsService],
+  providers: [MetricsService, FloatAlertsConsumer],
   controllers: [MetricsController],
   exports: [MetricsService],
 })
@@ -0,0 +1,41 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AuthToken, verifyToken } from '@bitpesa/shared-utils';
+
+export interface AdminRequest {
+  headers: { authorization?: string };
+  // Claims of the admin's token, set by AdminGuard
+  admin: AuthToken;
+}
+
+/**
+ * Admits only requests with a bearer JWT issued to an admin, and puts its claims on
+ * request.admin for auditing who made the request
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  private readonly logger = new Logger(AdminGuard.name);
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AdminRequest>();
+
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    const claims = scheme === 'Bearer' && token ? await verifyToken(token) : null;
+    if (!claims) {
+      throw new UnauthorizedException('Invalid or missing access token');
+    }
+    if (claims.role !== 'admin') {
+      this.logger.warn(`Rejected ${claims.username}: admin role required`);
+      throw new ForbiddenException('Admin role required');
+    }
+
+    request.admin = claims;
+    return true;
+  }
+}
@@ -2,6 +2,7 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { ConfigService } from '@nestjs/config';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { WinstonModule } from 'nest-winston';
 import { AppModule } from './app.module';
 import { createLoggerConfig } from '@bitpesa/shared-config';
@@ -9,7 +10,7 @@ import { createLoggerConfig } from '@bitpesa/shared-config';
 async function bootstrap() {
   const loggerConfig = createLoggerConfig();
   
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: WinstonModule.createLogger({
       level: loggerConfig.level,
       format: loggerConfig.format === 'json' ? 
@@ -30,6 +31,10 @@ async function bootstrap() {
   const configService = app.get(ConfigService);
   const port = configService.get('PORT', 3002);
 
+  // Take the client address from X-Forwarded-For set by the gateway, so callback
+  // allow-listing sees Safaricom's address rather than the proxy's
+  app.set('trust proxy', configService.get('TRUST_PROXY', 'loopback, uniquelocal'));
+
   // Global validation pipe
   app.useGlobalPipes(new ValidationPipe({
     whitelist: true,
@@ -0,0 +1,75 @@
+import axios, { AxiosInstance } from 'axios';
+import { z } from 'zod';
+import { MobileNetwork } from '@bitpesa/shared-types';
+import {
+  AirtimeProvider,
+  AirtimeProviderOptions,
+  AirtimeResult,
+  AirtimeTopUp,
+  AirtimeTopUpAccepted,
+} from './airtime-provider';
+
+interface AirtelTopUpResponse {
+  data?: { transaction?: { id: string; status: string } };
+  status: { code: string; success: boolean; message: string };
+}
+
+/**
+ * Airtel airtime through the Airtel Africa Open API
+ * Airtel identifies a top-up by the id we send, and reports it with a TS (success) or TF
+ * (failure) status code.
+ */
+export class AirtelAirtimeProvider implements AirtimeProvider {
+  readonly name = 'airtel';
+  readonly network = MobileNetwork.AIRTEL;
+  readonly minAmount: number;
+  readonly maxAmount: number;
+  readonly resultSchema: z.ZodType<AirtimeResult, z.ZodTypeDef, unknown> = z
+    .object({
+      transaction: z.object({
+        id: z.string().min(1),
+        message: z.string().default(''),
+        status_code: z.string().min(1),
+        airtel_money_id: z.string().optional(),
+      }),
+    })
+    .transform(({ transaction }) => ({
+      providerReference: transaction.id,
+      succeeded: transaction.status_code === 'TS',
+      resultCode: transaction.status_code === 'TS' ? 0 : 1,
+      resultDesc: `${transaction.status_code}${transaction.message ? `: ${transaction.message}` : ''}`,
+      receiptNumber: transaction.airtel_money_id,
+    }));
+
+  private readonly client: AxiosInstance;
+
+  constructor(options: AirtimeProviderOptions) {
+    this.minAmount = options.minAmount;
+    this.maxAmount = options.maxAmount;
+    this.client = axios.create({
+      baseURL: options.url,
+      timeout: options.timeoutMs ?? 30000,
+      headers: {
+        Authorization: `Bearer ${options.apiKey}`,
+        'Content-Type': 'application/json',
+        'X-Country': 'KE',
+        'X-Currency': 'KES',
+      },
+    });
+  }
+
+  async topUp(request: AirtimeTopUp): Promise<AirtimeTopUpAccepted> {
+    const { data } = await this.client.post<AirtelTopUpResponse>('/standard/v1/airtime/topup', {
+      reference: request.mpesaTransactionId,
+      // Airtel takes the number without the country code
+      subscriber: { country: 'KE', currency: 'KES', msisdn: request.phoneNumber.slice(3) },
+      transaction: { amount: request.amount, id: request.mpesaTransactionId },
+      callback_url: request.callbackUrl,
+    });
+    if (!data.status.success) {
+      throw new Error(`Airtel rejected the top-up: ${data.status.message}`);
+    }
+
+    return { providerReference: data.data?.transaction?.id ?? request.mpesaTransactionId };
+  }
+}
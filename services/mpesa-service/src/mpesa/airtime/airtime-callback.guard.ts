@@ -0,0 +1,54 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CallbackTokenService, routeCallbackKind } from '../callback/callback-token.service';
+
+/**
+ * Admits an airtime provider's callback only with its request's callback token and, when
+ * AIRTIME_CALLBACK_ALLOWED_IPS is set, only from those addresses
+ * Airtel and Telkom do not call from Safaricom's addresses, so CallbackGuard's Daraja
+ * allow-list does not apply here.
+ */
+@Injectable()
+export class AirtimeCallbackGuard implements CanActivate {
+  private readonly logger = new Logger(AirtimeCallbackGuard.name);
+  private readonly allowedIps: Set<string> | null;
+
+  constructor(
+    configService: ConfigService,
+    private readonly callbackTokens: CallbackTokenService
+  ) {
+    const ips = configService
+      .get<string>('AIRTIME_CALLBACK_ALLOWED_IPS', '*')
+      .split(',')
+      .map(ip => ip.trim())
+      .filter(Boolean);
+    this.allowedIps = ips.includes('*') ? null : new Set(ips);
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context
+      .switchToHttp()
+      .getRequest<{ ip?: string; params: Record<string, string>; route?: { path?: string } }>();
+
+    const ip = (request.ip ?? '').replace(/^::ffff:/, '');
+    if (this.allowedIps && !this.allowedIps.has(ip)) {
+      this.logger.warn(`Rejected airtime callback from ${ip}`);
+      throw new ForbiddenException('Callback source not allowed');
+    }
+
+    const { mpesaTransactionId, token } = request.params;
+    const kind = routeCallbackKind(request.route?.path);
+    if (!kind || !this.callbackTokens.verify(kind, mpesaTransactionId ?? '', token ?? '')) {
+      this.logger.warn(`Rejected airtime callback for ${mpesaTransactionId}: invalid token`);
+      throw new ForbiddenException('Invalid callback token');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,73 @@
+import { ConfigService } from '@nestjs/config';
+import { MobileNetwork } from '@bitpesa/shared-types';
+import { AirtimeProvider, AirtimeProviderOptions } from './airtime-provider';
+import { SafaricomAirtimeProvider } from './safaricom-airtime.provider';
+import { AirtelAirtimeProvider } from './airtel-airtime.provider';
+import { TelkomAirtimeProvider } from './telkom-airtime.provider';
+import { StubAirtimeProvider } from './stub-airtime.provider';
+
+/**
+ * Denominations each network sells when AIRTIME_<NETWORK>_MIN/MAX are not set, in KES
+ */
+const DEFAULT_DENOMINATIONS: Record<MobileNetwork, { min: number; max: number }> = {
+  [MobileNetwork.SAFARICOM]: { min: 5, max: 10000 },
+  [MobileNetwork.AIRTEL]: { min: 5, max: 10000 },
+  [MobileNetwork.TELKOM]: { min: 10, max: 5000 },
+};
+
+/**
+ * Build one airtime provider per network, selected by AIRTIME_BACKEND (live or stub)
+ */
+export function createAirtimeProviders(configService: ConfigService): AirtimeProvider[] {
+  const backend = configService.get<string>('AIRTIME_BACKEND', 'stub');
+
+  switch (backend) {
+    case 'live':
+      return [
+        new SafaricomAirtimeProvider(getOptions(configService, MobileNetwork.SAFARICOM)),
+        new AirtelAirtimeProvider(getOptions(configService, MobileNetwork.AIRTEL)),
+        new TelkomAirtimeProvider(getOptions(configService, MobileNetwork.TELKOM)),
+      ];
+
+    case 'stub': {
+      if (configService.get<string>('NODE_ENV') === 'production') {
+        throw new Error('The stub airtime provider cannot be used in production');
+      }
+      const delay = configService.get<string>('AIRTIME_STUB_CALLBACK_DELAY_MS');
+      return Object.values(MobileNetwork).map(
+        network =>
+          new StubAirtimeProvider(network, {
+            ...getDenominations(configService, network),
+            callbackDelayMs: delay !== undefined ? Number(delay) : undefined,
+          })
+      );
+    }
+
+    default:
+      throw new Error(`Unsupported AIRTIME_BACKEND: ${backend}`);
+  }
+}
+
+function getOptions(configService: ConfigService, network: MobileNetwork): AirtimeProviderOptions {
+  return {
+    url: getRequired(configService, `AIRTIME_${network}_URL`),
+    apiKey: getRequired(configService, `AIRTIME_${network}_API_KEY`),
+    ...getDenominations(configService, network),
+  };
+}
+
+function getDenominations(configService: ConfigService, network: MobileNetwork) {
+  const defaults = DEFAULT_DENOMINATIONS[network];
+  return {
+    minAmount: Number(configService.get(`AIRTIME_${network}_MIN`, defaults.min)),
+    maxAmount: Number(configService.get(`AIRTIME_${network}_MAX`, defaults.max)),
+  };
+}
+
+function getRequired(configService: ConfigService, key: string): string {
+  const value = configService.get<string>(key);
+  if (!value) {
+    throw new Error(`${key} is required for the live airtime providers`);
+  }
+  return value;
+}
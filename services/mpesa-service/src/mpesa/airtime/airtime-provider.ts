@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { MobileNetwork } from '@bitpesa/shared-types';
+
+/**
+ * Airtime provider contract
+ * Each network's top-up API (and the local stub) implements this interface so
+ * AirtimeService and CallbackService never talk to a provider API directly.
+ */
+
+export const AIRTIME_PROVIDERS = Symbol('AIRTIME_PROVIDERS');
+
+export interface AirtimeTopUp {
+  // Our id for the top-up, sent to the provider as its reference
+  mpesaTransactionId: string;
+  // 2547XXXXXXXX or 2541XXXXXXXX
+  phoneNumber: string;
+  amount: number;
+  // Per-request URL from CallbackTokenService
+  callbackUrl: string;
+}
+
+export interface AirtimeTopUpAccepted {
+  providerReference: string;
+}
+
+/**
+ * A provider's callback, reduced to what settles the M-Pesa request
+ */
+export interface AirtimeResult {
+  providerReference: string;
+  succeeded: boolean;
+  resultCode: number;
+  resultDesc: string;
+  receiptNumber?: string;
+}
+
+export interface AirtimeProvider {
+  readonly name: string;
+  readonly network: MobileNetwork;
+  // Denominations the provider sells, in KES
+  readonly minAmount: number;
+  readonly maxAmount: number;
+  // Validates the provider's callback payload and maps it to an AirtimeResult
+  readonly resultSchema: z.ZodType<AirtimeResult, z.ZodTypeDef, unknown>;
+
+  topUp(request: AirtimeTopUp): Promise<AirtimeTopUpAccepted>;
+}
+
+export interface AirtimeProviderOptions {
+  url: string;
+  apiKey: string;
+  minAmount: number;
+  maxAmount: number;
+  timeoutMs?: number;
+}
@@ -0,0 +1,91 @@
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  AirtimePurchaseResponse,
+  MobileNetwork,
+  MpesaStatus,
+  MpesaTransactionType,
+} from '@bitpesa/shared-types';
+import { detectMobileNetwork, normalizeKenyaPhone } from '@bitpesa/shared-utils';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CallbackTokenService } from '../callback/callback-token.service';
+import { AIRTIME_PROVIDERS, AirtimeProvider } from './airtime-provider';
+
+/**
+ * Buys airtime from the recipient's own network
+ * The network is read from the number's prefix and the top-up sent to that network's
+ * provider, within the denominations it sells. The top-up is recorded as an AIRTIME
+ * M-Pesa request so the provider's callback settles it like any other request and
+ * publishes mpesa.completed / mpesa.failed.
+ */
+@Injectable()
+export class AirtimeService {
+  private readonly logger = new Logger(AirtimeService.name);
+  private readonly providers: Map<MobileNetwork, AirtimeProvider>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly callbackTokens: CallbackTokenService,
+    @Inject(AIRTIME_PROVIDERS) providers: AirtimeProvider[]
+  ) {
+    this.providers = new Map(providers.map(provider => [provider.network, provider]));
+  }
+
+  async buyAirtime(params: {
+    transactionId: string;
+    phoneNumber: string;
+    amount: number;
+  }): Promise<AirtimePurchaseResponse> {
+    const network = detectMobileNetwork(params.phoneNumber);
+    const provider = network ? this.providers.get(network) : undefined;
+    if (!network || !provider) {
+      throw new BadRequestException(`Airtime is not available for ${params.phoneNumber}`);
+    }
+    if (params.amount < provider.minAmount || params.amount > provider.maxAmount) {
+      throw new BadRequestException(
+        `${network} airtime is sold from ${provider.minAmount} to ${provider.maxAmount} KES`
+      );
+    }
+
+    const mpesaTransaction = await this.prisma.mpesaTransaction.create({
+      data: {
+        transactionId: params.transactionId,
+        transactionType: MpesaTransactionType.AIRTIME,
+        phoneNumber: normalizeKenyaPhone(params.phoneNumber).slice(1),
+        amount: params.amount,
+        occasion: 'Airtime Purchase',
+        airtimeProvider: provider.name,
+      },
+    });
+
+    let providerReference: string;
+    try {
+      ({ providerReference } = await provider.topUp({
+        mpesaTransactionId: mpesaTransaction.id,
+        phoneNumber: mpesaTransaction.phoneNumber,
+        amount: params.amount,
+        callbackUrl: this.callbackTokens.callbackUrl('airtime', mpesaTransaction.id),
+      }));
+    } catch (error) {
+      await this.prisma.mpesaTransaction.update({
+        where: { id: mpesaTransaction.id },
+        data: { status: MpesaStatus.FAILED, resultDesc: (error as Error).message },
+      });
+      throw error;
+    }
+
+    await this.prisma.mpesaTransaction.update({
+      where: { id: mpesaTransaction.id },
+      data: { providerReference },
+    });
+
+    this.logger.log(
+      `Airtime top-up ${mpesaTransaction.id} of ${params.amount} KES sent to ${provider.name}: ${providerReference}`
+    );
+    return {
+      mpesaTransactionId: mpesaTransaction.id,
+      network,
+      provider: provider.name,
+      providerReference,
+    };
+  }
+}
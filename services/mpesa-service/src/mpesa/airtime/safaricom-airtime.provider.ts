@@ -0,0 +1,70 @@
+import axios, { AxiosInstance } from 'axios';
+import { z } from 'zod';
+import { MobileNetwork } from '@bitpesa/shared-types';
+import {
+  AirtimeProvider,
+  AirtimeProviderOptions,
+  AirtimeResult,
+  AirtimeTopUp,
+  AirtimeTopUpAccepted,
+} from './airtime-provider';
+
+interface SafaricomTopUpResponse {
+  requestId: string;
+  responseCode: string;
+  responseDescription: string;
+}
+
+/**
+ * Safaricom airtime through its dealer top-up API
+ */
+export class SafaricomAirtimeProvider implements AirtimeProvider {
+  readonly name = 'safaricom';
+  readonly network = MobileNetwork.SAFARICOM;
+  readonly minAmount: number;
+  readonly maxAmount: number;
+  readonly resultSchema: z.ZodType<AirtimeResult, z.ZodTypeDef, unknown> = z
+    .object({
+      requestId: z.string().min(1),
+      status: z.enum(['SUCCESS', 'FAILED']),
+      responseCode: z.coerce.number().int(),
+      responseDescription: z.string(),
+      receiptNumber: z.string().optional(),
+    })
+    .transform(result => ({
+      providerReference: result.requestId,
+      succeeded: result.status === 'SUCCESS',
+      resultCode: result.responseCode,
+      resultDesc: result.responseDescription,
+      receiptNumber: result.receiptNumber,
+    }));
+
+  private readonly client: AxiosInstance;
+
+  constructor(options: AirtimeProviderOptions) {
+    this.minAmount = options.minAmount;
+    this.maxAmount = options.maxAmount;
+    this.client = axios.create({
+      baseURL: options.url,
+      timeout: options.timeoutMs ?? 30000,
+      headers: {
+        Authorization: `Bearer ${options.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async topUp(request: AirtimeTopUp): Promise<AirtimeTopUpAccepted> {
+    const { data } = await this.client.post<SafaricomTopUpResponse>('/v1/airtime/topup', {
+      recipientMsisdn: request.phoneNumber,
+      amount: request.amount,
+      transactionReference: request.mpesaTransactionId,
+      callbackUrl: request.callbackUrl,
+    });
+    if (data.responseCode !== '0') {
+      throw new Error(`Safaricom rejected the top-up: ${data.responseDescription}`);
+    }
+
+    return { providerReference: data.requestId };
+  }
+}
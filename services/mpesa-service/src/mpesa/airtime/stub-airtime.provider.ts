@@ -0,0 +1,80 @@
+import axios from 'axios';
+import { z } from 'zod';
+import { MobileNetwork } from '@bitpesa/shared-types';
+import {
+  AirtimeProvider,
+  AirtimeResult,
+  AirtimeTopUp,
+  AirtimeTopUpAccepted,
+} from './airtime-provider';
+
+export interface StubAirtimeProviderOptions {
+  minAmount?: number;
+  maxAmount?: number;
+  /** Post a successful callback to the top-up's callback URL after this long */
+  callbackDelayMs?: number;
+}
+
+export interface StubAirtimeCallback {
+  reference: string;
+  status: 'SUCCESS' | 'FAILED';
+  message?: string;
+}
+
+/**
+ * In-process airtime provider for local development and tests
+ * Accepts every top-up and records it; callbackFor() builds the callback the stub would
+ * send, and with callbackDelayMs set the stub posts it itself.
+ */
+export class StubAirtimeProvider implements AirtimeProvider {
+  readonly name: string;
+  readonly minAmount: number;
+  readonly maxAmount: number;
+  readonly resultSchema: z.ZodType<AirtimeResult, z.ZodTypeDef, unknown> = z
+    .object({
+      reference: z.string().min(1),
+      status: z.enum(['SUCCESS', 'FAILED']),
+      message: z.string().optional(),
+    })
+    .transform(result => ({
+      providerReference: result.reference,
+      succeeded: result.status === 'SUCCESS',
+      resultCode: result.status === 'SUCCESS' ? 0 : 1,
+      resultDesc: result.message ?? result.status,
+      receiptNumber: result.status === 'SUCCESS' ? `STUB${result.reference}` : undefined,
+    }));
+
+  readonly topUps: Array<AirtimeTopUp & AirtimeTopUpAccepted> = [];
+  private readonly callbackDelayMs?: number;
+
+  constructor(
+    readonly network: MobileNetwork,
+    options: StubAirtimeProviderOptions = {}
+  ) {
+    this.name = `stub-${network.toLowerCase()}`;
+    this.minAmount = options.minAmount ?? 5;
+    this.maxAmount = options.maxAmount ?? 10000;
+    this.callbackDelayMs = options.callbackDelayMs;
+  }
+
+  async topUp(request: AirtimeTopUp): Promise<AirtimeTopUpAccepted> {
+    const providerReference = `stub_${this.topUps.length + 1}`;
+    this.topUps.push({ ...request, providerReference });
+
+    if (this.callbackDelayMs !== undefined) {
+      setTimeout(() => {
+        axios.post(request.callbackUrl, this.callbackFor(providerReference)).catch(() => undefined);
+      }, this.callbackDelayMs).unref();
+    }
+
+    return { providerReference };
+  }
+
+  callbackFor(reference: string, succeeded = true): StubAirtimeCallback {
+    return {
+      reference,
+      status: succeeded ? 'SUCCESS' : 'FAILED',
+      message: succeeded ? 'Top-up completed' : 'Top-up failed',
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import axios, { AxiosInstance } from 'axios';
+import { z } from 'zod';
+import { MobileNetwork } from '@bitpesa/shared-types';
+import {
+  AirtimeProvider,
+  AirtimeProviderOptions,
+  AirtimeResult,
+  AirtimeTopUp,
+  AirtimeTopUpAccepted,
+} from './airtime-provider';
+
+interface TelkomTopUpResponse {
+  txnId: string;
+  resultCode: string;
+  resultMessage: string;
+}
+
+/**
+ * Telkom airtime through its partner top-up API, which reports success as result code "00"
+ */
+export class TelkomAirtimeProvider implements AirtimeProvider {
+  readonly name = 'telkom';
+  readonly network = MobileNetwork.TELKOM;
+  readonly minAmount: number;
+  readonly maxAmount: number;
+  readonly resultSchema: z.ZodType<AirtimeResult, z.ZodTypeDef, unknown> = z
+    .object({
+      txnId: z.string().min(1),
+      resultCode: z.string().regex(/^\d+$/),
+      resultMessage: z.string(),
+      receipt: z.string().optional(),
+    })
+    .transform(result => ({
+      providerReference: result.txnId,
+      succeeded: Number(result.resultCode) === 0,
+      resultCode: Number(result.resultCode),
+      resultDesc: result.resultMessage,
+      receiptNumber: result.receipt,
+    }));
+
+  private readonly client: AxiosInstance;
+
+  constructor(options: AirtimeProviderOptions) {
+    this.minAmount = options.minAmount;
+    this.maxAmount = options.maxAmount;
+    this.client = axios.create({
+      baseURL: options.url,
+      timeout: options.timeoutMs ?? 30000,
+      headers: {
+        'X-Api-Key': options.apiKey,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async topUp(request: AirtimeTopUp): Promise<AirtimeTopUpAccepted> {
+    const { data } = await this.client.post<TelkomTopUpResponse>('/api/v1/topup', {
+      msisdn: request.phoneNumber,
+      amount: request.amount,
+      ref: request.mpesaTransactionId,
+      notifyUrl: request.callbackUrl,
+    });
+    if (Number(data.resultCode) !== 0) {
+      throw new Error(`Telkom rejected the top-up: ${data.resultMessage}`);
+    }
+
+    return { providerReference: data.txnId };
+  }
+}
@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MpesaStatus, MpesaTransactionType } from '@bitpesa/shared-types';
+import { B2BService } from './b2b.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DarajaClient } from '../daraja/daraja.client';
+import { CallbackTokenService } from '../callback/callback-token.service';
+
+describe('B2BService', () => {
+  let service: B2BService;
+  let mpesaTransactions: Array<Record<string, any>>;
+
+  const daraja = {
+    sendB2B: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    daraja.sendB2B.mockResolvedValue({
+      OriginatorConversationID: '5118-111210482-1',
+      ConversationID: 'AG_20230420_2010759fd5662ef6d054',
+      ResponseCode: '0',
+      ResponseDescription: 'Accept the service request successfully.',
+    });
+    mpesaTransactions = [];
+
+    // In-memory mpesa_transactions table; B2B request rows stay nested in their request
+    const prisma = {
+      mpesaTransaction: {
+        create: jest.fn(async ({ data }) => {
+          const mpesaTransaction = {
+            id: `mtx-${mpesaTransactions.length + 1}`,
+            status: MpesaStatus.PENDING,
+            ...data,
+          };
+          mpesaTransactions.push(mpesaTransaction);
+          return mpesaTransaction;
+        }),
+        update: jest.fn(async ({ where, data }) =>
+          Object.assign(mpesaTransactions.find(row => row.id === where.id)!, data)
+        ),
+      },
+    };
+
+    const config: Record<string, string> = {
+      MPESA_CALLBACK_URL: 'https://bitpesa.example/api/v1/mpesa/callback',
+      MPESA_CALLBACK_SECRET: 'callback-secret',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        B2BService,
+        CallbackTokenService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: DarajaClient, useValue: daraja },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key, defaultValue) => config[key] ?? defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<B2BService>(B2BService);
+  });
+
+  it('should pay a paybill to its account with the paybill result callback', async () => {
+    const response = await service.pay({
+      transactionId: 'tx-1',
+      commandId: 'BusinessPayBill',
+      receiverShortCode: '888880',
+      accountReference: '1234567890',
+      amount: 1200,
+      phoneNumber: '254712345678',
+    });
+
+    const { originatorConversationId } = mpesaTransactions[0];
+    expect(daraja.sendB2B).toHaveBeenCalledWith(
+      expect.objectContaining({
+        commandId: 'BusinessPayBill',
+        receiverShortCode: '888880',
+        accountReference: '1234567890',
+        requester: '254712345678',
+        originatorConversationId,
+        resultUrl: expect.stringContaining('/callback/paybill/mtx-1/'),
+        timeoutUrl: expect.stringContaining('/callback/timeout/mtx-1/'),
+      })
+    );
+    expect(mpesaTransactions[0]).toMatchObject({
+      transactionType: MpesaTransactionType.B2B,
+      accountReference: '1234567890',
+      b2bRequests: {
+        create: expect.objectContaining({
+          senderIdentifierType: '4',
+          receiverIdentifierType: '4',
+          receiverShortCode: '888880',
+        }),
+      },
+    });
+    expect(response).toMatchObject({
+      mpesaTransactionId: 'mtx-1',
+      originatorConversationId,
+      conversationId: 'AG_20230420_2010759fd5662ef6d054',
+    });
+  });
+
+  it('should pay a till as a till, without an account', async () => {
+    await service.pay({
+      transactionId: 'tx-2',
+      commandId: 'BusinessBuyGoods',
+      receiverShortCode: '5123456',
+      accountReference: 'ignored',
+      amount: 300,
+      phoneNumber: '254712345678',
+    });
+
+    expect(daraja.sendB2B).toHaveBeenCalledWith(
+      expect.objectContaining({
+        commandId: 'BusinessBuyGoods',
+        accountReference: undefined,
+        resultUrl: expect.stringContaining('/callback/till/mtx-1/'),
+      })
+    );
+    expect(mpesaTransactions[0].b2bRequests.create).toMatchObject({
+      receiverIdentifierType: '2',
+      accountReference: undefined,
+    });
+  });
+
+  it('should fail the request when Daraja rejects it', async () => {
+    daraja.sendB2B.mockRejectedValueOnce(new Error('Request failed with status 400'));
+
+    await expect(
+      service.pay({
+        transactionId: 'tx-3',
+        commandId: 'BusinessBuyGoods',
+        receiverShortCode: '5123456',
+        amount: 300,
+        phoneNumber: '254712345678',
+      })
+    ).rejects.toThrow('status 400');
+    expect(mpesaTransactions[0].status).toBe(MpesaStatus.FAILED);
+  });
+});
@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { B2BResponse, MpesaStatus, MpesaTransactionType } from '@bitpesa/shared-types';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  B2B_RECEIVER_IDENTIFIER_TYPES,
+  B2B_SENDER_IDENTIFIER_TYPE,
+  B2BCommandId,
+  DarajaClient,
+} from '../daraja/daraja.client';
+import { CallbackTokenService } from '../callback/callback-token.service';
+
+/**
+ * Pays paybills and tills from our shortcode with Daraja B2B
+ * The payment is recorded as a B2B M-Pesa request, with the Daraja parameters it was sent
+ * with, before Daraja is called. Its result settles the request on the paybill or till
+ * callback, with the receipt number; a queue timeout has reconciliation query it.
+ */
+@Injectable()
+export class B2BService {
+  private readonly logger = new Logger(B2BService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly daraja: DarajaClient,
+    private readonly callbackTokens: CallbackTokenService
+  ) {}
+
+  async pay(params: {
+    transactionId: string;
+    commandId: B2BCommandId;
+    receiverShortCode: string;
+    amount: number;
+    accountReference?: string;
+    // Customer the payment is made for, 2547XXXXXXXX
+    phoneNumber: string;
+  }): Promise<B2BResponse> {
+    const paybill = params.commandId === 'BusinessPayBill';
+    const accountReference = paybill ? params.accountReference : undefined;
+    const remarks = paybill
+      ? `Paybill ${params.receiverShortCode} account ${accountReference}`
+      : `Till ${params.receiverShortCode}`;
+    const originatorConversationId = crypto.randomUUID();
+
+    const mpesaTransaction = await this.prisma.mpesaTransaction.create({
+      data: {
+        transactionId: params.transactionId,
+        transactionType: MpesaTransactionType.B2B,
+        phoneNumber: params.phoneNumber,
+        amount: params.amount,
+        accountReference,
+        transactionDesc: remarks,
+        originatorConversationId,
+        b2bRequests: {
+          create: {
+            commandId: params.commandId,
+            senderIdentifierType: B2B_SENDER_IDENTIFIER_TYPE,
+            receiverIdentifierType: B2B_RECEIVER_IDENTIFIER_TYPES[params.commandId],
+            receiverShortCode: params.receiverShortCode,
+            accountReference,
+            requester: params.phoneNumber,
+            amount: params.amount,
+            remarks,
+          },
+        },
+      },
+    });
+
+    let response: { ConversationID?: string; ResponseCode?: string; ResponseDescription?: string };
+    try {
+      response = await this.daraja.sendB2B({
+        commandId: params.commandId,
+        receiverShortCode: params.receiverShortCode,
+        amount: params.amount,
+        accountReference,
+        requester: params.phoneNumber,
+        remarks,
+        originatorConversationId,
+        resultUrl: this.callbackTokens.callbackUrl(
+          paybill ? 'paybill' : 'till',
+          mpesaTransaction.id
+        ),
+        timeoutUrl: this.callbackTokens.callbackUrl('timeout', mpesaTransaction.id),
+      });
+    } catch (error) {
+      await this.prisma.mpesaTransaction.update({
+        where: { id: mpesaTransaction.id },
+        data: { status: MpesaStatus.FAILED, resultDesc: (error as Error).message },
+      });
+      throw error;
+    }
+
+    this.logger.log(
+      `${params.commandId} ${mpesaTransaction.id} of ${params.amount} KES to ${params.receiverShortCode} accepted: ${response.ConversationID}`
+    );
+    return {
+      mpesaTransactionId: mpesaTransaction.id,
+      originatorConversationId,
+      conversationId: response.ConversationID ?? '',
+      responseCode: response.ResponseCode ?? '',
+      responseDescription: response.ResponseDescription ?? '',
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+export type CallbackKind =
+  | 'stk-push'
+  | 'b2c'
+  | 'airtime'
+  | 'paybill'
+  | 'till'
+  | 'status'
+  | 'reversal'
+  | 'balance'
+  | 'timeout';
+
+/**
+ * The callback kind a route serves, read from its path template, e.g. "b2c" for
+ * /mpesa/callback/b2c/:mpesaTransactionId/:token
+ */
+export function routeCallbackKind(routePath: string | undefined): CallbackKind | undefined {
+  return routePath?.match(/\/callback\/([^/]+)\/:mpesaTransactionId\//)?.[1] as
+    | CallbackKind
+    | undefined;
+}
+
+/**
+ * Per-request callback tokens
+ * Each request sent to Daraja gets its own callback URL ending in
+ * /<kind>/<mpesaTransactionId>/<token>, where the token is an HMAC of the kind and the
+ * M-Pesa transaction id, so a callback can only settle the request it was issued for,
+ * and only through the route it was issued for.
+ */
+@Injectable()
+export class CallbackTokenService {
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Callback URL to send with a request, e.g. as an STK Push CallBackURL, B2C ResultURL or
+   * QueueTimeOutURL
+   */
+  callbackUrl(kind: CallbackKind, mpesaTransactionId: string): string {
+    const baseUrl = this.configService.get<string>('MPESA_CALLBACK_URL');
+    if (!baseUrl) {
+      throw new Error('MPESA_CALLBACK_URL is not configured');
+    }
+
+    return `${baseUrl.replace(/\/$/, '')}/${kind}/${mpesaTransactionId}/${this.sign(kind, mpesaTransactionId)}`;
+  }
+
+  sign(kind: CallbackKind, mpesaTransactionId: string): string {
+    return crypto
+      .createHmac('sha256', this.secret())
+      .update(`${kind}:${mpesaTransactionId}`)
+      .digest('hex');
+  }
+
+  verify(kind: CallbackKind, mpesaTransactionId: string, token: string): boolean {
+    const expected = Buffer.from(this.sign(kind, mpesaTransactionId));
+    const received = Buffer.from(token);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  private secret(): string {
+    const secret = this.configService.get<string>('MPESA_CALLBACK_SECRET');
+    if (!secret) {
+      throw new Error('MPESA_CALLBACK_SECRET is not configured');
+    }
+    return secret;
+  }
+}
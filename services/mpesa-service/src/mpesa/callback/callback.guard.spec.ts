@@ -0,0 +1,75 @@
+import { ExecutionContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CallbackGuard } from './callback.guard';
+import { CallbackTokenService } from './callback-token.service';
+
+describe('CallbackGuard', () => {
+  let config: Record<string, string | undefined>;
+
+  const configService = { get: jest.fn((key: string) => config[key]) } as unknown as ConfigService;
+  const callbackTokens = new CallbackTokenService(configService);
+
+  const request = (
+    ip: string,
+    params: Record<string, string> = {},
+    path = '/mpesa/callback/stk-push/:mpesaTransactionId/:token'
+  ) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ ip, params, route: { path } }) }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    config = {
+      MPESA_CALLBACK_SECRET: 'callback-secret',
+      MPESA_CALLBACK_URL: 'https://bitpesa.example/api/v1/mpesa/callback/',
+    };
+  });
+
+  it('should admit Safaricom addresses by default', () => {
+    const guard = new CallbackGuard(configService, callbackTokens);
+
+    expect(guard.canActivate(request('::ffff:196.201.214.200'))).toBe(true);
+    expect(() => guard.canActivate(request('203.0.113.7'))).toThrow('Callback source not allowed');
+  });
+
+  it('should use the configured allow-list', () => {
+    config.MPESA_CALLBACK_ALLOWED_IPS = '127.0.0.1, 10.0.0.5';
+    const guard = new CallbackGuard(configService, callbackTokens);
+
+    expect(guard.canActivate(request('10.0.0.5'))).toBe(true);
+    expect(() => guard.canActivate(request('196.201.214.200'))).toThrow();
+  });
+
+  it('should require the callback token issued for the M-Pesa request', () => {
+    config.MPESA_CALLBACK_ALLOWED_IPS = '*';
+    const guard = new CallbackGuard(configService, callbackTokens);
+    const url = callbackTokens.callbackUrl('stk-push', 'mtx-1');
+    const token = url.split('/').pop()!;
+
+    expect(url).toBe(`https://bitpesa.example/api/v1/mpesa/callback/stk-push/mtx-1/${token}`);
+    expect(guard.canActivate(request('203.0.113.7', { mpesaTransactionId: 'mtx-1', token }))).toBe(
+      true
+    );
+    expect(() =>
+      guard.canActivate(request('203.0.113.7', { mpesaTransactionId: 'mtx-2', token }))
+    ).toThrow('Invalid callback token');
+  });
+
+  it('should reject a callback token on a route of another kind', () => {
+    config.MPESA_CALLBACK_ALLOWED_IPS = '*';
+    const guard = new CallbackGuard(configService, callbackTokens);
+    const token = callbackTokens.callbackUrl('timeout', 'mtx-1').split('/').pop()!;
+    const params = { mpesaTransactionId: 'mtx-1', token };
+
+    expect(
+      guard.canActivate(
+        request('203.0.113.7', params, '/mpesa/callback/timeout/:mpesaTransactionId/:token')
+      )
+    ).toBe(true);
+    expect(() =>
+      guard.canActivate(
+        request('203.0.113.7', params, '/mpesa/callback/b2c/:mpesaTransactionId/:token')
+      )
+    ).toThrow('Invalid callback token');
+  });
+});
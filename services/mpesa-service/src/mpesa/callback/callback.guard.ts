@@ -0,0 +1,77 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CallbackTokenService, routeCallbackKind } from './callback-token.service';
+
+/**
+ * Addresses Safaricom sends Daraja callbacks from
+ */
+const DARAJA_CALLBACK_IPS = [
+  '196.201.214.200',
+  '196.201.214.206',
+  '196.201.213.114',
+  '196.201.214.207',
+  '196.201.214.208',
+  '196.201.213.44',
+  '196.201.212.127',
+  '196.201.212.138',
+  '196.201.212.129',
+  '196.201.212.136',
+  '196.201.212.74',
+  '196.201.212.69',
+];
+
+/**
+ * Admits a Daraja callback only from an allow-listed address and, on routes carrying
+ * :mpesaTransactionId and :token, only with that request's callback token
+ * MPESA_CALLBACK_ALLOWED_IPS replaces the Safaricom list; "*" allows any address.
+ */
+@Injectable()
+export class CallbackGuard implements CanActivate {
+  private readonly logger = new Logger(CallbackGuard.name);
+  private readonly allowedIps: Set<string> | null;
+
+  constructor(
+    configService: ConfigService,
+    private readonly callbackTokens: CallbackTokenService
+  ) {
+    const configured = configService.get<string>('MPESA_CALLBACK_ALLOWED_IPS');
+    const ips = configured
+      ? configured
+          .split(',')
+          .map(ip => ip.trim())
+          .filter(Boolean)
+      : DARAJA_CALLBACK_IPS;
+    this.allowedIps = ips.includes('*') ? null : new Set(ips);
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context
+      .switchToHttp()
+      .getRequest<{ ip?: string; params: Record<string, string>; route?: { path?: string } }>();
+
+    // request.ip is the client address once Express trusts the proxy in front of us
+    const ip = (request.ip ?? '').replace(/^::ffff:/, '');
+    if (this.allowedIps && !this.allowedIps.has(ip)) {
+      this.logger.warn(`Rejected callback from ${ip}`);
+      throw new ForbiddenException('Callback source not allowed');
+    }
+
+    const { mpesaTransactionId, token } = request.params;
+    const kind = routeCallbackKind(request.route?.path);
+    if (
+      mpesaTransactionId !== undefined &&
+      !(kind && this.callbackTokens.verify(kind, mpesaTransactionId, token ?? ''))
+    ) {
+      this.logger.warn(`Rejected callback for M-Pesa request ${mpesaTransactionId}: invalid token`);
+      throw new ForbiddenException('Invalid callback token');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import {
+  MpesaB2CCallback,
+  MpesaC2BCallback,
+  MpesaCallback,
+  MpesaReversalCallback,
+} from '@bitpesa/shared-types';
+
+// Daraja sends some numbers as strings, e.g. C2B "TransAmount": "10.00"
+const darajaNumber = z.coerce.number().finite();
+
+// Some items, e.g. the STK Push "Balance", come without a Value
+const itemValue = z.union([z.string(), z.number()]).nullable().default(null);
+
+const keyValue = z.object({ Key: z.string(), Value: itemValue });
+
+// STK Push (also paybill and till) result, posted to the request's CallBackURL
+export const stkPushCallbackSchema: z.ZodType<MpesaCallback, z.ZodTypeDef, unknown> = z.object({
+  Body: z.object({
+    stkCallback: z.object({
+      MerchantRequestID: z.string().min(1),
+      CheckoutRequestID: z.string().min(1),
+      ResultCode: darajaNumber,
+      ResultDesc: z.string(),
+      CallbackMetadata: z
+        .object({
+          Item: z.array(z.object({ Name: z.string(), Value: itemValue })),
+        })
+        .optional(),
+    }),
+  }),
+});
+
+// Synchronous response to an STK Push Query once the customer has acted on the prompt
+export const stkPushQueryResponseSchema = z.object({
+  MerchantRequestID: z.string().min(1),
+  CheckoutRequestID: z.string().min(1),
+  ResultCode: darajaNumber,
+  ResultDesc: z.string(),
+});
+
+// B2C, B2B, Transaction Status Query and Account Balance result, posted to the request's
+// ResultURL
+export const b2cCallbackSchema: z.ZodType<MpesaB2CCallback, z.ZodTypeDef, unknown> = z.object({
+  Result: z.object({
+    ResultType: darajaNumber,
+    ResultCode: darajaNumber,
+    ResultDesc: z.string(),
+    OriginatorConversationID: z.string().min(1),
+    ConversationID: z.string().min(1),
+    TransactionID: z.string(),
+    ResultParameters: z
+      .object({
+        ResultParameter: z.array(keyValue),
+      })
+      .optional(),
+    ReferenceData: z
+      .object({
+        // A single item arrives as an object rather than a one-element array
+        ReferenceItem: z
+          .union([keyValue, z.array(keyValue)])
+          .transform(items => (Array.isArray(items) ? items : [items])),
+      })
+      .optional(),
+  }),
+});
+
+// Reversal result, posted to the reversal's ResultURL
+export const reversalCallbackSchema: z.ZodType<MpesaReversalCallback, z.ZodTypeDef, unknown> =
+  z.object({
+    Result: z.object({
+      ResultType: darajaNumber,
+      ResultCode: z.union([z.number(), z.string().min(1)]),
+      ResultDesc: z.string(),
+      OriginatorConversationID: z.string().min(1),
+      ConversationID: z.string().min(1),
+      TransactionID: z.string(),
+      ResultParameters: z
+        .object({
+          ResultParameter: z.array(keyValue),
+        })
+        .optional(),
+    }),
+  });
+
+// C2B confirmation, posted to the URL registered for the shortcode
+export const c2bCallbackSchema: z.ZodType<MpesaC2BCallback, z.ZodTypeDef, unknown> = z.object({
+  TransactionType: z.string(),
+  TransID: z.string().min(1),
+  TransTime: z.string(),
+  TransAmount: darajaNumber,
+  BusinessShortCode: z.string().min(1),
+  BillRefNumber: z.string().default(''),
+  InvoiceNumber: z.string().default(''),
+  OrgAccountBalance: darajaNumber.default(0),
+  ThirdPartyTransID: z.string().default(''),
+  MSISDN: z.string().min(1),
+  FirstName: z.string().default(''),
+  MiddleName: z.string().default(''),
+  LastName: z.string().default(''),
+});
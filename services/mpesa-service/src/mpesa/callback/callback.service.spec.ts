@@ -0,0 +1,512 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventType, MobileNetwork, MpesaStatus } from '@bitpesa/shared-types';
+import { CallbackService } from './callback.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../events/outbox.service';
+import { AIRTIME_PROVIDERS } from '../airtime/airtime-provider';
+import { StubAirtimeProvider } from '../airtime/stub-airtime.provider';
+import { AirtelAirtimeProvider } from '../airtime/airtel-airtime.provider';
+
+describe('CallbackService', () => {
+  let service: CallbackService;
+  let callbacks: Array<Record<string, any>>;
+  let mpesaTransactions: Map<string, Record<string, any>>;
+  let outboxEvents: Array<Record<string, any>>;
+  let reversals: Array<Record<string, any>>;
+  let snapshots: Array<Record<string, any>>;
+  const stubProvider = new StubAirtimeProvider(MobileNetwork.SAFARICOM);
+  const airtelProvider = new AirtelAirtimeProvider({
+    url: 'https://openapi.airtel.africa',
+    apiKey: 'airtel-key',
+    minAmount: 5,
+    maxAmount: 10000,
+  });
+
+  const stkCallback = (resultCode = 0, checkoutRequestId = 'ws_CO_1') => ({
+    Body: {
+      stkCallback: {
+        MerchantRequestID: '29115-34620561-1',
+        CheckoutRequestID: checkoutRequestId,
+        ResultCode: resultCode,
+        ResultDesc: resultCode === 0 ? 'The service request is processed successfully.' : 'Failed',
+        CallbackMetadata:
+          resultCode === 0
+            ? {
+                Item: [
+                  { Name: 'Amount', Value: 1000 },
+                  { Name: 'MpesaReceiptNumber', Value: 'NLJ7RT61SV' },
+                  { Name: 'Balance' },
+                ],
+              }
+            : undefined,
+      },
+    },
+  });
+
+  const b2cResult = () => ({
+    Result: {
+      ResultType: 0,
+      ResultCode: 0,
+      ResultDesc: 'The service request is processed successfully.',
+      OriginatorConversationID: 'BP_1',
+      ConversationID: 'AG_20191219_00005797af5d7d75f652',
+      TransactionID: 'NLJ41HAY6Q',
+      ResultParameters: {
+        ResultParameter: [
+          { Key: 'TransactionAmount', Value: 1000 },
+          { Key: 'TransactionReceipt', Value: 'NLJ41HAY6Q' },
+        ],
+      },
+      ReferenceData: { ReferenceItem: { Key: 'QueueTimeoutURL', Value: 'https://example.com' } },
+    },
+  });
+
+  beforeEach(async () => {
+    callbacks = [];
+    outboxEvents = [];
+    reversals = [];
+    snapshots = [];
+    mpesaTransactions = new Map([
+      [
+        'mtx-1',
+        {
+          id: 'mtx-1',
+          transactionId: 'tx-1',
+          checkoutRequestId: 'ws_CO_1',
+          originatorConversationId: null,
+          status: MpesaStatus.PENDING,
+        },
+      ],
+      [
+        'mtx-2',
+        {
+          id: 'mtx-2',
+          transactionId: 'tx-2',
+          checkoutRequestId: null,
+          originatorConversationId: 'BP_1',
+          status: MpesaStatus.PROCESSING,
+        },
+      ],
+    ]);
+
+    // In-memory mpesa_callbacks, mpesa_transactions and outbox_events tables
+    const prisma: Record<string, any> = {
+      mpesaCallback: {
+        create: jest.fn(async ({ data }) => {
+          const callback = { id: `cb-${callbacks.length + 1}`, processed: false, ...data };
+          callbacks.push(callback);
+          return callback;
+        }),
+        update: jest.fn(async ({ where, data }) => {
+          const callback = callbacks.find(row => row.id === where.id)!;
+          Object.assign(callback, data);
+          return callback;
+        }),
+        findFirst: jest.fn(
+          async ({ where }) =>
+            callbacks.find(
+              row => row.callbackKey === where.callbackKey && row.processed === where.processed
+            ) ?? null
+        ),
+      },
+      mpesaTransaction: {
+        findUnique: jest.fn(async ({ where }) => mpesaTransactions.get(where.id) ?? null),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const mpesaTransaction = mpesaTransactions.get(where.id);
+          const statuses = where.status.in ?? [where.status];
+          if (!mpesaTransaction || !statuses.includes(mpesaTransaction.status)) {
+            return { count: 0 };
+          }
+          Object.assign(mpesaTransaction, data);
+          return { count: 1 };
+        }),
+      },
+      mpesaReversal: {
+        findFirst: jest.fn(
+          async ({ where }) =>
+            reversals.find(
+              row =>
+                row.mpesaTransactionId === where.mpesaTransactionId && row.status === where.status
+            ) ?? null
+        ),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const rows = reversals.filter(row => row.id === where.id && row.status === where.status);
+          rows.forEach(row => Object.assign(row, data));
+          return { count: rows.length };
+        }),
+      },
+      mpesaFloatSnapshot: {
+        findUnique: jest.fn(
+          async ({ where }) => snapshots.find(row => row.id === where.id) ?? null
+        ),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const rows = snapshots.filter(row => row.id === where.id && row.status === where.status);
+          rows.forEach(row => Object.assign(row, data));
+          return { count: rows.length };
+        }),
+      },
+      outboxEvent: {
+        create: jest.fn(async ({ data }) => outboxEvents.push(data)),
+      },
+      $transaction: jest.fn(callback => callback(prisma)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CallbackService,
+        OutboxService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AIRTIME_PROVIDERS, useValue: [stubProvider, airtelProvider] },
+      ],
+    }).compile();
+
+    service = module.get<CallbackService>(CallbackService);
+  });
+
+  it('should store the callback, settle the request and queue mpesa.completed', async () => {
+    const result = await service.handleStkPushCallback('mtx-1', stkCallback(), '196.201.214.200');
+
+    expect(result).toEqual({ ResultCode: 0, ResultDesc: 'Accepted' });
+    expect(callbacks).toEqual([
+      expect.objectContaining({
+        mpesaTransactionId: 'mtx-1',
+        callbackType: 'STK_PUSH',
+        callbackKey: 'ws_CO_1',
+        callbackData: stkCallback(),
+        sourceIp: '196.201.214.200',
+        processed: true,
+      }),
+    ]);
+    expect(mpesaTransactions.get('mtx-1')).toMatchObject({
+      status: MpesaStatus.COMPLETED,
+      mpesaReceiptNumber: 'NLJ7RT61SV',
+    });
+    expect(outboxEvents).toEqual([
+      expect.objectContaining({
+        type: EventType.MPESA_COMPLETED,
+        aggregateId: 'mtx-1',
+        payload: expect.objectContaining({ transactionId: 'tx-1', amount: 1000 }),
+      }),
+    ]);
+  });
+
+  it('should queue mpesa.failed for an unsuccessful result', async () => {
+    await service.handleStkPushCallback('mtx-1', stkCallback(1032));
+
+    expect(mpesaTransactions.get('mtx-1')!.status).toBe(MpesaStatus.FAILED);
+    expect(outboxEvents).toEqual([expect.objectContaining({ type: EventType.MPESA_FAILED })]);
+  });
+
+  it('should match B2C results on their OriginatorConversationID', async () => {
+    await service.handleB2CCallback('mtx-2', b2cResult());
+
+    expect(mpesaTransactions.get('mtx-2')).toMatchObject({
+      status: MpesaStatus.COMPLETED,
+      mpesaReceiptNumber: 'NLJ41HAY6Q',
+    });
+    expect(callbacks[0].callbackKey).toBe('AG_20191219_00005797af5d7d75f652');
+  });
+
+  it('should settle a paybill payment with its B2B receipt', async () => {
+    const result = b2cResult();
+    result.Result.ResultParameters.ResultParameter = [
+      { Key: 'Amount', Value: 1000 },
+      { Key: 'ReceiverPartyPublicName', Value: '888880 - Kenya Power' },
+    ];
+
+    await service.handleB2BCallback('mtx-2', result);
+
+    expect(mpesaTransactions.get('mtx-2')).toMatchObject({
+      status: MpesaStatus.COMPLETED,
+      mpesaReceiptNumber: 'NLJ41HAY6Q',
+    });
+    expect(callbacks[0]).toMatchObject({ callbackType: 'B2B', processed: true });
+    expect(outboxEvents[0]).toMatchObject({
+      type: EventType.MPESA_COMPLETED,
+      payload: { transactionId: 'tx-2', receiptNumber: 'NLJ41HAY6Q', amount: 1000 },
+    });
+  });
+
+  it('should store and reject a payload that is not a Daraja callback', async () => {
+    await expect(
+      service.handleStkPushCallback('mtx-1', { Body: { stkCallback: { ResultCode: 0 } } })
+    ).rejects.toThrow('Invalid callback payload');
+
+    expect(callbacks).toEqual([
+      expect.objectContaining({
+        processed: false,
+        error: expect.stringContaining('Body.stkCallback.CheckoutRequestID'),
+      }),
+    ]);
+    expect(mpesaTransactions.get('mtx-1')!.status).toBe(MpesaStatus.PENDING);
+  });
+
+  it('should reject a callback for a different request than its URL was issued for', async () => {
+    await expect(
+      service.handleStkPushCallback('mtx-1', stkCallback(0, 'ws_CO_other'))
+    ).rejects.toThrow('does not belong to M-Pesa request mtx-1');
+
+    expect(outboxEvents).toHaveLength(0);
+  });
+
+  it('should acknowledge and skip a repeated callback', async () => {
+    await service.handleStkPushCallback('mtx-1', stkCallback());
+    const result = await service.handleStkPushCallback('mtx-1', stkCallback());
+
+    expect(result.ResultCode).toBe(0);
+    expect(callbacks).toHaveLength(2);
+    expect(callbacks[1]).toMatchObject({ processed: false, error: 'Duplicate of callback cb-1' });
+    expect(outboxEvents).toHaveLength(1);
+  });
+
+  it('should settle a B2C payment from a Transaction Status Query result', async () => {
+    const statusResult = (transactionStatus: string) => ({
+      Result: {
+        ResultType: 0,
+        ResultCode: 0,
+        ResultDesc: 'The service request is processed successfully.',
+        OriginatorConversationID: '10816-694520-2',
+        ConversationID: 'AG_20200120_0000417c8a2a1d4a4e0e',
+        TransactionID: 'OAK0000000',
+        ResultParameters: {
+          ResultParameter: [
+            { Key: 'ReceiptNo', Value: 'NLJ41HAY6Q' },
+            { Key: 'TransactionStatus', Value: transactionStatus },
+            { Key: 'Amount', Value: 1000 },
+          ],
+        },
+      },
+    });
+
+    await service.handleTransactionStatusResult('mtx-2', statusResult('Completed'));
+
+    expect(mpesaTransactions.get('mtx-2')).toMatchObject({
+      status: MpesaStatus.COMPLETED,
+      mpesaReceiptNumber: 'NLJ41HAY6Q',
+    });
+    expect(outboxEvents).toEqual([expect.objectContaining({ type: EventType.MPESA_COMPLETED })]);
+  });
+
+  it('should settle a request reconciliation gave up on when a late answer arrives', async () => {
+    mpesaTransactions.get('mtx-1')!.status = MpesaStatus.TIMEOUT;
+
+    await service.handleStkPushQueryResult('mtx-1', {
+      MerchantRequestID: '29115-34620561-1',
+      CheckoutRequestID: 'ws_CO_1',
+      ResponseCode: '0',
+      ResultCode: '1032',
+      ResultDesc: 'Request cancelled by user',
+    });
+
+    expect(mpesaTransactions.get('mtx-1')).toMatchObject({
+      status: MpesaStatus.FAILED,
+      resultCode: 1032,
+    });
+    expect(callbacks[0]).toMatchObject({ callbackType: 'STK_PUSH_QUERY', processed: true });
+    expect(outboxEvents).toEqual([expect.objectContaining({ type: EventType.MPESA_FAILED })]);
+  });
+
+  it('should bring a request that timed out in the Daraja queue forward for reconciliation', async () => {
+    await service.handleQueueTimeout('mtx-2', { Result: { ResultCode: 1 } });
+
+    expect(mpesaTransactions.get('mtx-2')!.nextReconcileAt).toBeInstanceOf(Date);
+    expect(callbacks[0]).toMatchObject({ callbackType: 'TIMEOUT', processed: true });
+  });
+
+  describe('reversal results', () => {
+    const reversalResult = (resultCode: number | string = 0) => ({
+      Result: {
+        ResultType: 0,
+        ResultCode: resultCode,
+        ResultDesc:
+          resultCode === 0
+            ? 'The service request is processed successfully.'
+            : 'The OriginalTransactionID is invalid.',
+        OriginatorConversationID: '71840-27539181-07',
+        ConversationID: 'AG_20210709_12346c8e6f8858d7b70a',
+        TransactionID: 'SGT7QNXE1R',
+      },
+    });
+
+    beforeEach(() => {
+      mpesaTransactions.get('mtx-2')!.status = MpesaStatus.COMPLETED;
+      reversals.push({
+        id: 'rev-1',
+        mpesaTransactionId: 'mtx-2',
+        transactionId: 'tx-2',
+        originatorConversationId: '71840-27539181-07',
+        status: MpesaStatus.PENDING,
+      });
+    });
+
+    it('should complete the reversal and mark the request REVERSED', async () => {
+      await service.handleReversalResult('mtx-2', reversalResult());
+
+      expect(reversals[0]).toMatchObject({
+        status: MpesaStatus.COMPLETED,
+        resultCode: '0',
+        reversalReceiptNumber: 'SGT7QNXE1R',
+      });
+      expect(mpesaTransactions.get('mtx-2')!.status).toBe(MpesaStatus.REVERSED);
+      expect(callbacks[0]).toMatchObject({ callbackType: 'REVERSAL', processed: true });
+    });
+
+    it('should fail the reversal on an alphanumeric result code and keep the request', async () => {
+      await service.handleReversalResult('mtx-2', reversalResult('R000002'));
+
+      expect(reversals[0]).toMatchObject({ status: MpesaStatus.FAILED, resultCode: 'R000002' });
+      expect(mpesaTransactions.get('mtx-2')!.status).toBe(MpesaStatus.COMPLETED);
+    });
+  });
+
+  describe('account balance results', () => {
+    const balanceResult = (resultCode = 0) => ({
+      Result: {
+        ResultType: 0,
+        ResultCode: resultCode,
+        ResultDesc:
+          resultCode === 0
+            ? 'The service request is processed successfully.'
+            : 'The initiator information is invalid.',
+        OriginatorConversationID: '16917-22577599-3',
+        ConversationID: 'AG_20200206_00005e091a8ec6b9eac5',
+        TransactionID: 'OA90000000',
+        ResultParameters:
+          resultCode === 0
+            ? {
+                ResultParameter: [
+                  {
+                    Key: 'AccountBalance',
+                    Value:
+                      'Working Account|KES|700000.00|700000.00|0.00|0.00&Utility Account|KES|228037.00|228037.00|0.00|0.00',
+                  },
+                  { Key: 'BOCompletedTime', Value: 20200109125710 },
+                ],
+              }
+            : undefined,
+      },
+    });
+
+    beforeEach(() => {
+      snapshots.push({
+        id: 'snap-1',
+        originatorConversationId: '16917-22577599-3',
+        status: MpesaStatus.PENDING,
+      });
+    });
+
+    it('should record the balances and queue mpesa.float.updated', async () => {
+      await service.handleAccountBalanceResult('snap-1', balanceResult());
+      await service.handleAccountBalanceResult('snap-1', balanceResult());
+
+      expect(snapshots[0]).toMatchObject({
+        status: MpesaStatus.COMPLETED,
+        workingBalance: 700000,
+        utilityBalance: 228037,
+        checkedAt: expect.any(Date),
+      });
+      expect(outboxEvents).toHaveLength(1);
+      expect(outboxEvents[0]).toMatchObject({
+        type: EventType.MPESA_FLOAT_UPDATED,
+        payload: { workingBalance: 700000, utilityBalance: 228037 },
+      });
+      expect(callbacks.map(callback => callback.processed)).toEqual([true, false]);
+    });
+
+    it('should fail the snapshot without publishing when the query failed', async () => {
+      await service.handleAccountBalanceResult('snap-1', balanceResult(2001));
+
+      expect(snapshots[0]).toMatchObject({ status: MpesaStatus.FAILED, resultCode: 2001 });
+      expect(outboxEvents).toHaveLength(0);
+    });
+  });
+
+  describe('airtime results', () => {
+    beforeEach(() => {
+      mpesaTransactions.set('mtx-3', {
+        id: 'mtx-3',
+        transactionId: 'tx-3',
+        amount: 100,
+        airtimeProvider: 'stub-safaricom',
+        providerReference: 'stub_1',
+        status: MpesaStatus.PENDING,
+      });
+      mpesaTransactions.set('mtx-4', {
+        id: 'mtx-4',
+        transactionId: 'tx-4',
+        amount: 50,
+        airtimeProvider: 'airtel',
+        providerReference: 'mtx-4',
+        status: MpesaStatus.PENDING,
+      });
+    });
+
+    it("should settle a top-up from its provider's callback once", async () => {
+      await service.handleAirtimeResult('mtx-3', stubProvider.callbackFor('stub_1'));
+      await service.handleAirtimeResult('mtx-3', stubProvider.callbackFor('stub_1'));
+
+      expect(mpesaTransactions.get('mtx-3')).toMatchObject({
+        status: MpesaStatus.COMPLETED,
+        mpesaReceiptNumber: 'STUBstub_1',
+      });
+      expect(callbacks[0]).toMatchObject({
+        callbackType: 'AIRTIME',
+        callbackKey: 'stub-safaricom:stub_1',
+        processed: true,
+      });
+      expect(outboxEvents).toHaveLength(1);
+      expect(outboxEvents[0]).toMatchObject({
+        type: EventType.MPESA_COMPLETED,
+        payload: { transactionId: 'tx-3', amount: 100 },
+      });
+    });
+
+    it("should read the callback with the top-up's provider schema", async () => {
+      await service.handleAirtimeResult('mtx-4', {
+        transaction: {
+          id: 'mtx-4',
+          message: 'Subscriber barred',
+          status_code: 'TF',
+          airtel_money_id: 'MP210603.1234.L06941',
+        },
+      });
+
+      expect(mpesaTransactions.get('mtx-4')).toMatchObject({
+        status: MpesaStatus.FAILED,
+        resultCode: 1,
+        resultDesc: 'TF: Subscriber barred',
+      });
+      expect(outboxEvents[0]).toMatchObject({ type: EventType.MPESA_FAILED });
+
+      await expect(
+        service.handleAirtimeResult('mtx-4', stubProvider.callbackFor('mtx-4'))
+      ).rejects.toThrow('Invalid callback payload');
+    });
+
+    it('should reject a callback for another top-up', async () => {
+      await expect(
+        service.handleAirtimeResult('mtx-3', stubProvider.callbackFor('stub_2'))
+      ).rejects.toThrow('does not belong to M-Pesa request mtx-3');
+      expect(mpesaTransactions.get('mtx-3')!.status).toBe(MpesaStatus.PENDING);
+    });
+  });
+
+  it('should deduplicate C2B confirmations on TransID', async () => {
+    const confirmation = {
+      TransactionType: 'Pay Bill',
+      TransID: 'RKTQDM7W6S',
+      TransTime: '20191122063845',
+      TransAmount: '10.00',
+      BusinessShortCode: '600638',
+      BillRefNumber: 'invoice008',
+      OrgAccountBalance: '',
+      MSISDN: '254708374149',
+      FirstName: 'John',
+    };
+
+    await service.handleC2BCallback(confirmation);
+    await service.handleC2BCallback(confirmation);
+
+    expect(callbacks.map(callback => callback.processed)).toEqual([true, false]);
+  });
+});
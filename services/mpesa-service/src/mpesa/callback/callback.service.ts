@@ -0,0 +1,614 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import {
+  EventType,
+  MpesaEventPayload,
+  MpesaFloatEventPayload,
+  MpesaStatus,
+} from '@bitpesa/shared-types';
+import { PrismaService } from '../../prisma/prisma.service';
+import { OutboxService } from '../../events/outbox.service';
+import { AIRTIME_PROVIDERS, AirtimeProvider } from '../airtime/airtime-provider';
+import { parseAccountBalance, UTILITY_ACCOUNT, WORKING_ACCOUNT } from '../float/account-balance';
+import {
+  b2cCallbackSchema,
+  c2bCallbackSchema,
+  reversalCallbackSchema,
+  stkPushCallbackSchema,
+  stkPushQueryResponseSchema,
+} from './callback.schemas';
+
+type CallbackResult = { ResultCode: number; ResultDesc: string };
+
+interface CallbackOutcome {
+  succeeded: boolean;
+  resultCode: number;
+  resultDesc: string;
+  receiptNumber?: string;
+  amount?: number;
+}
+
+/**
+ * A stored callback on its way to settling an M-Pesa request
+ */
+interface ReceivedCallback {
+  id: string;
+  // Daraja (or airtime provider) id callbacks are deduplicated on
+  key: string;
+  // Id the request was sent with, which the callback echoes; unset for results of our own
+  // status queries, which only the callback token ties to the request
+  requestId?: string;
+  data: unknown;
+}
+
+const ACCEPTED: CallbackResult = { ResultCode: 0, ResultDesc: 'Accepted' };
+
+/**
+ * Statuses a request can still be settled from; a late answer also settles a request
+ * reconciliation has given up on
+ */
+const UNSETTLED = [MpesaStatus.PENDING, MpesaStatus.PROCESSING, MpesaStatus.TIMEOUT];
+
+/**
+ * Ingests Daraja and airtime provider callbacks and settles the M-Pesa requests they report on
+ * Every callback that gets past CallbackGuard is stored in MpesaCallback before anything
+ * else happens, then checked against its Daraja payload schema and against the request
+ * its callback URL was issued for. Daraja retries callbacks, so one whose
+ * CheckoutRequestID, ConversationID or TransID was already processed is acknowledged
+ * and skipped. The status change, the callback and the mpesa.completed / mpesa.failed
+ * event are written in one database transaction.
+ */
+@Injectable()
+export class CallbackService {
+  private readonly logger = new Logger(CallbackService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly outbox: OutboxService,
+    @Inject(AIRTIME_PROVIDERS) private readonly airtimeProviders: AirtimeProvider[]
+  ) {}
+
+  async handleStkPushCallback(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<CallbackResult> {
+    const callbackId = await this.store('STK_PUSH', callbackData, sourceIp, mpesaTransactionId);
+    const callback = (await this.parse(callbackId, stkPushCallbackSchema, callbackData)).Body
+      .stkCallback;
+    const metadata = Object.fromEntries(
+      (callback.CallbackMetadata?.Item ?? []).map(item => [item.Name, item.Value])
+    );
+
+    const received: ReceivedCallback = {
+      id: callbackId,
+      key: callback.CheckoutRequestID,
+      requestId: callback.CheckoutRequestID,
+      data: callbackData,
+    };
+    return this.settle(mpesaTransactionId, received, {
+      succeeded: callback.ResultCode === 0,
+      resultCode: callback.ResultCode,
+      resultDesc: callback.ResultDesc,
+      receiptNumber: metadata.MpesaReceiptNumber ?? undefined,
+      amount: metadata.Amount != null ? Number(metadata.Amount) : undefined,
+    });
+  }
+
+  async handleB2CCallback(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<CallbackResult> {
+    const callbackId = await this.store('B2C', callbackData, sourceIp, mpesaTransactionId);
+    const result = (await this.parse(callbackId, b2cCallbackSchema, callbackData)).Result;
+    const parameters = Object.fromEntries(
+      (result.ResultParameters?.ResultParameter ?? []).map(item => [item.Key, item.Value])
+    );
+
+    const received: ReceivedCallback = {
+      id: callbackId,
+      key: result.ConversationID,
+      requestId: result.OriginatorConversationID,
+      data: callbackData,
+    };
+    return this.settle(mpesaTransactionId, received, {
+      succeeded: result.ResultCode === 0,
+      resultCode: result.ResultCode,
+      resultDesc: result.ResultDesc,
+      receiptNumber: parameters.TransactionReceipt ?? result.TransactionID,
+      amount:
+        parameters.TransactionAmount != null ? Number(parameters.TransactionAmount) : undefined,
+    });
+  }
+
+  /**
+   * Settle a paybill or till payment from its B2B result
+   */
+  async handleB2BCallback(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<CallbackResult> {
+    const callbackId = await this.store('B2B', callbackData, sourceIp, mpesaTransactionId);
+    const result = (await this.parse(callbackId, b2cCallbackSchema, callbackData)).Result;
+    const parameters = Object.fromEntries(
+      (result.ResultParameters?.ResultParameter ?? []).map(item => [item.Key, item.Value])
+    );
+
+    const received: ReceivedCallback = {
+      id: callbackId,
+      key: result.ConversationID,
+      requestId: result.OriginatorConversationID,
+      data: callbackData,
+    };
+    return this.settle(mpesaTransactionId, received, {
+      succeeded: result.ResultCode === 0,
+      resultCode: result.ResultCode,
+      resultDesc: result.ResultDesc,
+      // Daraja sends an empty TransactionID for a failed payment
+      receiptNumber: result.TransactionID || undefined,
+      amount: parameters.Amount != null ? Number(parameters.Amount) : undefined,
+    });
+  }
+
+  /**
+   * Settle an airtime top-up from its provider's callback, parsed with that provider's schema
+   */
+  async handleAirtimeResult(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<CallbackResult> {
+    const callbackId = await this.store('AIRTIME', callbackData, sourceIp, mpesaTransactionId);
+    const mpesaTransaction = await this.prisma.mpesaTransaction.findUnique({
+      where: { id: mpesaTransactionId },
+    });
+    const provider = this.airtimeProviders.find(
+      candidate => candidate.name === mpesaTransaction?.airtimeProvider
+    );
+    if (!mpesaTransaction || !provider) {
+      await this.reject(callbackId, 'Unknown airtime top-up');
+      throw new NotFoundException(`No airtime top-up ${mpesaTransactionId}`);
+    }
+    const result = await this.parse(callbackId, provider.resultSchema, callbackData);
+
+    const received: ReceivedCallback = {
+      id: callbackId,
+      key: `${provider.name}:${result.providerReference}`,
+      // Unset only if the callback beat our own record of the provider's response
+      requestId: mpesaTransaction.providerReference ? result.providerReference : undefined,
+      data: callbackData,
+    };
+    return this.settle(mpesaTransactionId, received, {
+      succeeded: result.succeeded,
+      resultCode: result.resultCode,
+      resultDesc: result.resultDesc,
+      receiptNumber: result.receiptNumber,
+      amount: result.succeeded ? Number(mpesaTransaction.amount) : undefined,
+    });
+  }
+
+  /**
+   * Settle an STK Push from its STK Push Query response, recorded like a callback
+   */
+  async handleStkPushQueryResult(
+    mpesaTransactionId: string,
+    response: unknown
+  ): Promise<CallbackResult> {
+    const callbackId = await this.store('STK_PUSH_QUERY', response, undefined, mpesaTransactionId);
+    const result = await this.parse(callbackId, stkPushQueryResponseSchema, response);
+
+    const received: ReceivedCallback = {
+      id: callbackId,
+      key: result.CheckoutRequestID,
+      requestId: result.CheckoutRequestID,
+      data: response,
+    };
+    return this.settle(mpesaTransactionId, received, {
+      succeeded: result.ResultCode === 0,
+      resultCode: result.ResultCode,
+      resultDesc: result.ResultDesc,
+    });
+  }
+
+  /**
+   * Settle a B2C payment from the result of a Transaction Status Query
+   * The result's own ResultCode only says whether the query worked; the payment's outcome
+   * is in its TransactionStatus parameter.
+   */
+  async handleTransactionStatusResult(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<CallbackResult> {
+    const callbackId = await this.store('STATUS', callbackData, sourceIp, mpesaTransactionId);
+    const result = (await this.parse(callbackId, b2cCallbackSchema, callbackData)).Result;
+    if (result.ResultCode !== 0) {
+      // Reconciliation asks again later
+      await this.reject(
+        callbackId,
+        `Status query failed: ${result.ResultDesc}`,
+        result.ConversationID
+      );
+      return ACCEPTED;
+    }
+
+    const parameters = Object.fromEntries(
+      (result.ResultParameters?.ResultParameter ?? []).map(item => [item.Key, item.Value])
+    );
+    const transactionStatus = String(parameters.TransactionStatus ?? 'Unknown');
+
+    const received: ReceivedCallback = {
+      id: callbackId,
+      key: result.ConversationID,
+      data: callbackData,
+    };
+    return this.settle(mpesaTransactionId, received, {
+      succeeded: transactionStatus === 'Completed',
+      resultCode: result.ResultCode,
+      resultDesc: `${transactionStatus}${parameters.ReasonType ? `: ${parameters.ReasonType}` : ''}`,
+      receiptNumber: parameters.ReceiptNo ?? undefined,
+      amount: parameters.Amount != null ? Number(parameters.Amount) : undefined,
+    });
+  }
+
+  /**
+   * A request or status query timed out in Daraja's queue; have reconciliation query it now
+   */
+  async handleQueueTimeout(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<CallbackResult> {
+    const callbackId = await this.store('TIMEOUT', callbackData, sourceIp, mpesaTransactionId);
+
+    await this.prisma.$transaction(async tx => {
+      await tx.mpesaTransaction.updateMany({
+        where: { id: mpesaTransactionId, status: { in: UNSETTLED } },
+        data: { nextReconcileAt: new Date() },
+      });
+      await tx.mpesaCallback.update({
+        where: { id: callbackId },
+        data: { processed: true, processedAt: new Date() },
+      });
+    });
+
+    this.logger.warn(`M-Pesa request ${mpesaTransactionId} timed out in the Daraja queue`);
+    return ACCEPTED;
+  }
+
+  /**
+   * Record the outcome of a reversal; a successful one moves the reversed request to REVERSED
+   * The reversal's QueueTimeOutURL is this route too, so a reversal that timed out in the
+   * Daraja queue fails and can be requested again.
+   */
+  async handleReversalResult(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<CallbackResult> {
+    const callbackId = await this.store('REVERSAL', callbackData, sourceIp, mpesaTransactionId);
+    const result = (await this.parse(callbackId, reversalCallbackSchema, callbackData)).Result;
+    if (await this.isDuplicate(callbackId, result.ConversationID)) {
+      return ACCEPTED;
+    }
+
+    const reversal = await this.prisma.mpesaReversal.findFirst({
+      where: { mpesaTransactionId, status: MpesaStatus.PENDING },
+    });
+    if (!reversal) {
+      await this.reject(callbackId, 'No reversal in progress', result.ConversationID);
+      throw new NotFoundException(
+        `No reversal in progress for M-Pesa request ${mpesaTransactionId}`
+      );
+    }
+    // Unset only if the result beat our own record of Daraja's response
+    if (
+      reversal.originatorConversationId &&
+      reversal.originatorConversationId !== result.OriginatorConversationID
+    ) {
+      await this.reject(
+        callbackId,
+        `Callback is for request ${result.OriginatorConversationID}`,
+        result.ConversationID
+      );
+      throw new BadRequestException(
+        `Callback for ${result.OriginatorConversationID} does not belong to reversal ${reversal.id}`
+      );
+    }
+
+    const resultCode = String(result.ResultCode);
+    const status = resultCode === '0' ? MpesaStatus.COMPLETED : MpesaStatus.FAILED;
+
+    await this.prisma.$transaction(async tx => {
+      // Guard on PENDING so a retried result cannot settle the reversal twice
+      const { count } = await tx.mpesaReversal.updateMany({
+        where: { id: reversal.id, status: MpesaStatus.PENDING },
+        data: {
+          status,
+          resultCode,
+          resultDesc: result.ResultDesc,
+          originatorConversationId: result.OriginatorConversationID,
+          conversationId: result.ConversationID,
+          reversalReceiptNumber:
+            status === MpesaStatus.COMPLETED ? result.TransactionID || undefined : undefined,
+        },
+      });
+      if (count === 0) {
+        await tx.mpesaCallback.update({
+          where: { id: callbackId },
+          data: { callbackKey: result.ConversationID, error: 'Reversal already settled' },
+        });
+        return;
+      }
+
+      if (status === MpesaStatus.COMPLETED) {
+        await tx.mpesaTransaction.updateMany({
+          where: { id: mpesaTransactionId, status: MpesaStatus.COMPLETED },
+          data: { status: MpesaStatus.REVERSED },
+        });
+      }
+      await tx.mpesaCallback.update({
+        where: { id: callbackId },
+        data: { callbackKey: result.ConversationID, processed: true, processedAt: new Date() },
+      });
+    });
+
+    this.logger.log(
+      `Reversal ${reversal.id} of M-Pesa request ${mpesaTransactionId} for transaction ${reversal.transactionId}: ${status}`
+    );
+    return ACCEPTED;
+  }
+
+  /**
+   * Record the shortcode's balances from an Account Balance result and publish them as
+   * mpesa.float.updated
+   * The query's QueueTimeOutURL is this route too; a timed-out query fails its snapshot and
+   * FloatService asks again on its next check.
+   */
+  async handleAccountBalanceResult(
+    snapshotId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<CallbackResult> {
+    const callbackId = await this.store('ACCOUNT_BALANCE', callbackData, sourceIp);
+    const result = (await this.parse(callbackId, b2cCallbackSchema, callbackData)).Result;
+    if (await this.isDuplicate(callbackId, result.ConversationID)) {
+      return ACCEPTED;
+    }
+
+    const snapshot = await this.prisma.mpesaFloatSnapshot.findUnique({
+      where: { id: snapshotId },
+    });
+    if (!snapshot) {
+      await this.reject(callbackId, 'Unknown balance query', result.ConversationID);
+      throw new NotFoundException(`No balance query ${snapshotId}`);
+    }
+    if (
+      snapshot.originatorConversationId &&
+      snapshot.originatorConversationId !== result.OriginatorConversationID
+    ) {
+      await this.reject(
+        callbackId,
+        `Callback is for request ${result.OriginatorConversationID}`,
+        result.ConversationID
+      );
+      throw new BadRequestException(
+        `Callback for ${result.OriginatorConversationID} does not belong to balance query ${snapshotId}`
+      );
+    }
+
+    const parameters = Object.fromEntries(
+      (result.ResultParameters?.ResultParameter ?? []).map(item => [item.Key, item.Value])
+    );
+    const accounts =
+      result.ResultCode === 0 ? parseAccountBalance(String(parameters.AccountBalance ?? '')) : [];
+    const working = accounts.find(account => account.name === WORKING_ACCOUNT);
+    const utility = accounts.find(account => account.name === UTILITY_ACCOUNT);
+    const status = utility ? MpesaStatus.COMPLETED : MpesaStatus.FAILED;
+    const checkedAt = new Date();
+
+    await this.prisma.$transaction(async tx => {
+      // Guard on PENDING so a retried result cannot publish the balances twice
+      const { count } = await tx.mpesaFloatSnapshot.updateMany({
+        where: { id: snapshotId, status: MpesaStatus.PENDING },
+        data: {
+          status,
+          resultCode: result.ResultCode,
+          resultDesc: utility ? result.ResultDesc : `${result.ResultDesc} (no utility account)`,
+          conversationId: result.ConversationID,
+          workingBalance: working?.available,
+          utilityBalance: utility?.available,
+          accounts: accounts as unknown as Prisma.InputJsonValue,
+          checkedAt: utility ? checkedAt : undefined,
+        },
+      });
+      if (count === 0) {
+        await tx.mpesaCallback.update({
+          where: { id: callbackId },
+          data: { callbackKey: result.ConversationID, error: 'Balance query already settled' },
+        });
+        return;
+      }
+
+      await tx.mpesaCallback.update({
+        where: { id: callbackId },
+        data: { callbackKey: result.ConversationID, processed: true, processedAt: new Date() },
+      });
+      if (!utility) {
+        return;
+      }
+
+      const payload: MpesaFloatEventPayload = {
+        workingBalance: working?.available ?? 0,
+        utilityBalance: utility.available,
+        checkedAt: checkedAt.toISOString(),
+      };
+      await this.outbox.enqueue(tx, EventType.MPESA_FLOAT_UPDATED, snapshotId, payload);
+    });
+
+    this.logger.log(
+      `Balance query ${snapshotId}: ${status}${utility ? `, utility account ${utility.available} KES` : ''}`
+    );
+    return ACCEPTED;
+  }
+
+  async handleC2BCallback(callbackData: unknown, sourceIp?: string): Promise<CallbackResult> {
+    const callbackId = await this.store('C2B', callbackData, sourceIp);
+    const payment = await this.parse(callbackId, c2bCallbackSchema, callbackData);
+
+    if (await this.isDuplicate(callbackId, payment.TransID)) {
+      return ACCEPTED;
+    }
+    await this.prisma.mpesaCallback.update({
+      where: { id: callbackId },
+      data: { callbackKey: payment.TransID, processed: true, processedAt: new Date() },
+    });
+
+    // Incoming customer payments are not part of a bridge transaction
+    this.logger.log(
+      `C2B payment ${payment.TransID}: ${payment.TransAmount} KES to ${payment.BusinessShortCode}`
+    );
+    return ACCEPTED;
+  }
+
+  private async store(
+    callbackType: string,
+    callbackData: unknown,
+    sourceIp?: string,
+    mpesaTransactionId?: string
+  ): Promise<string> {
+    const { id } = await this.prisma.mpesaCallback.create({
+      data: {
+        mpesaTransactionId,
+        callbackType,
+        callbackData: (callbackData ?? {}) as Prisma.InputJsonValue,
+        sourceIp,
+      },
+    });
+    return id;
+  }
+
+  private async parse<T>(
+    callbackId: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    callbackData: unknown
+  ): Promise<T> {
+    const parsed = schema.safeParse(callbackData);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map(issue => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        .join('; ');
+      await this.reject(callbackId, `Invalid payload: ${issues}`);
+      throw new BadRequestException(`Invalid callback payload: ${issues}`);
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Whether a callback with the same Daraja id was already processed; marks this one skipped
+   */
+  private async isDuplicate(callbackId: string, callbackKey: string): Promise<boolean> {
+    const processed = await this.prisma.mpesaCallback.findFirst({
+      where: { callbackKey, processed: true },
+    });
+    if (!processed) {
+      return false;
+    }
+
+    this.logger.log(`Callback ${callbackKey} already processed`);
+    await this.reject(callbackId, `Duplicate of callback ${processed.id}`, callbackKey);
+    return true;
+  }
+
+  private async reject(callbackId: string, error: string, callbackKey?: string): Promise<void> {
+    await this.prisma.mpesaCallback.update({
+      where: { id: callbackId },
+      data: { callbackKey, error },
+    });
+  }
+
+  /**
+   * Settle the request the callback URL was issued for, provided the callback echoes the
+   * id that request was sent with
+   */
+  private async settle(
+    mpesaTransactionId: string,
+    callback: ReceivedCallback,
+    outcome: CallbackOutcome
+  ): Promise<CallbackResult> {
+    const mpesaTransaction = await this.prisma.mpesaTransaction.findUnique({
+      where: { id: mpesaTransactionId },
+    });
+    if (!mpesaTransaction) {
+      await this.reject(callback.id, 'Unknown M-Pesa request', callback.key);
+      throw new NotFoundException(`No M-Pesa request ${mpesaTransactionId}`);
+    }
+    if (
+      callback.requestId !== undefined &&
+      callback.requestId !== mpesaTransaction.checkoutRequestId &&
+      callback.requestId !== mpesaTransaction.originatorConversationId &&
+      callback.requestId !== mpesaTransaction.providerReference
+    ) {
+      await this.reject(callback.id, `Callback is for request ${callback.requestId}`, callback.key);
+      throw new BadRequestException(
+        `Callback for ${callback.requestId} does not belong to M-Pesa request ${mpesaTransactionId}`
+      );
+    }
+    if (await this.isDuplicate(callback.id, callback.key)) {
+      return ACCEPTED;
+    }
+
+    const status = outcome.succeeded ? MpesaStatus.COMPLETED : MpesaStatus.FAILED;
+
+    await this.prisma.$transaction(async tx => {
+      // Guard on the unsettled statuses so a retried callback cannot settle twice
+      const { count } = await tx.mpesaTransaction.updateMany({
+        where: {
+          id: mpesaTransaction.id,
+          status: { in: UNSETTLED },
+        },
+        data: {
+          status,
+          resultCode: outcome.resultCode,
+          resultDesc: outcome.resultDesc,
+          mpesaReceiptNumber: outcome.receiptNumber,
+          callbackData: callback.data as Prisma.InputJsonValue,
+        },
+      });
+      if (count === 0) {
+        this.logger.log(`M-Pesa request ${mpesaTransaction.id} already settled`);
+        await tx.mpesaCallback.update({
+          where: { id: callback.id },
+          data: { callbackKey: callback.key, error: 'M-Pesa request already settled' },
+        });
+        return;
+      }
+
+      await tx.mpesaCallback.update({
+        where: { id: callback.id },
+        data: { callbackKey: callback.key, processed: true, processedAt: new Date() },
+      });
+
+      const payload: MpesaEventPayload = {
+        mpesaTransactionId: mpesaTransaction.id,
+        transactionId: mpesaTransaction.transactionId,
+        resultCode: outcome.resultCode,
+        resultDesc: outcome.resultDesc,
+        receiptNumber: outcome.receiptNumber,
+        amount: outcome.amount,
+      };
+      await this.outbox.enqueue(
+        tx,
+        status === MpesaStatus.COMPLETED ? EventType.MPESA_COMPLETED : EventType.MPESA_FAILED,
+        mpesaTransaction.id,
+        payload
+      );
+    });
+
+    this.logger.log(`M-Pesa request ${mpesaTransaction.id}: ${status}`);
+    return ACCEPTED;
+  }
+}
@@ -4,6 +4,24 @@ import axios, { AxiosInstance } from 'axios';
 import * as crypto from 'crypto';
 import { retryWithBackoff } from '@bitpesa/shared-utils';
 
+/**
+ * B2B commands BitPesa pays merchants with: a paybill, or a till (Buy Goods)
+ */
+export type B2BCommandId = 'BusinessPayBill' | 'BusinessBuyGoods';
+
+/**
+ * Daraja identifier types of the party receiving a B2B payment
+ */
+export const B2B_RECEIVER_IDENTIFIER_TYPES: Record<B2BCommandId, string> = {
+  BusinessPayBill: '4', // Organisation shortcode
+  BusinessBuyGoods: '2', // Till number
+};
+
+/**
+ * Identifier type of our own shortcode, the sender of every B2B payment
+ */
+export const B2B_SENDER_IDENTIFIER_TYPE = '4';
+
 @Injectable()
 export class DarajaClient implements OnModuleInit {
   private readonly logger = new Logger(DarajaClient.name);
@@ -19,12 +37,8 @@ export class DarajaClient implements OnModuleInit {
 
   private async initializeClient() {
     try {
-      const baseURL = this.configService.get('MPESA_ENVIRONMENT') === 'production' 
-        ? 'https://api.safaricom.co.ke'
-        : 'https://sandbox.safaricom.co.ke';
-
       this.httpClient = axios.create({
-        baseURL,
+        baseURL: this.baseUrl(),
         timeout: 30000,
         headers: {
           'Content-Type': 'application/json',
@@ -41,6 +55,21 @@ export class DarajaClient implements OnModuleInit {
     }
   }
 
+  /**
+   * Daraja for MPESA_ENVIRONMENT: production, sandbox, or simulator for the local
+   * Daraja simulator at MPESA_SIMULATOR_URL
+   */
+  private baseUrl(): string {
+    switch (this.configService.get('MPESA_ENVIRONMENT')) {
+      case 'production':
+        return 'https://api.safaricom.co.ke';
+      case 'simulator':
+        return this.configService.get('MPESA_SIMULATOR_URL', 'http://localhost:8089');
+      default:
+        return 'https://sandbox.safaricom.co.ke';
+    }
+  }
+
   private async getAccessToken(): Promise<string> {
     try {
       // Check if token is still valid
@@ -99,6 +128,8 @@ export class DarajaClient implements OnModuleInit {
     amount: number;
     accountReference: string;
     transactionDesc: string;
+    // Per-request URL from CallbackTokenService
+    callbackUrl: string;
   }): Promise<any> {
     try {
       const timestamp = new Date().toISOString().replace(/[^0-9]/g, '').slice(0, 14);
@@ -115,7 +146,7 @@ export class DarajaClient implements OnModuleInit {
         PartyA: params.phoneNumber,
         PartyB: shortCode,
         PhoneNumber: params.phoneNumber,
-        CallBackURL: this.configService.get('MPESA_CALLBACK_URL'),
+        CallBackURL: params.callbackUrl,
         AccountReference: params.accountReference,
         TransactionDesc: params.transactionDesc,
       };
@@ -133,10 +164,15 @@ export class DarajaClient implements OnModuleInit {
     accountReference: string;
     transactionDesc: string;
     occasion?: string;
+    // Stored on the M-Pesa transaction so the result can be matched to it
+    originatorConversationId?: string;
+    // Per-request URLs from CallbackTokenService
+    resultUrl: string;
+    timeoutUrl: string;
   }): Promise<any> {
     try {
       const payload = {
-        OriginatorConversationID: this.generateConversationId(),
+        OriginatorConversationID: params.originatorConversationId ?? this.generateConversationId(),
         InitiatorName: this.configService.get('MPESA_INITIATOR_NAME'),
         SecurityCredential: this.configService.get('MPESA_INITIATOR_PASSWORD'),
         CommandID: 'BusinessPayment',
@@ -144,8 +180,8 @@ export class DarajaClient implements OnModuleInit {
         PartyA: this.configService.get('MPESA_SHORTCODE'),
         PartyB: params.phoneNumber,
         Remarks: params.transactionDesc,
-        QueueTimeOutURL: this.configService.get('MPESA_TIMEOUT_URL'),
-        ResultURL: this.configService.get('MPESA_RESULT_URL'),
+        QueueTimeOutURL: params.timeoutUrl,
+        ResultURL: params.resultUrl,
         Occasion: params.occasion || 'Payment',
       };
 
@@ -156,6 +192,51 @@ export class DarajaClient implements OnModuleInit {
     }
   }
 
+  /**
+   * Pay a paybill or till from our shortcode; the result is posted to resultUrl, or to
+   * timeoutUrl if the request times out in Daraja's queue
+   */
+  async sendB2B(params: {
+    commandId: B2BCommandId;
+    // Paybill or till number
+    receiverShortCode: string;
+    amount: number;
+    // Paybill account number; tills have none
+    accountReference?: string;
+    // Customer the payment is made for, 2547XXXXXXXX
+    requester?: string;
+    remarks: string;
+    // Stored on the M-Pesa transaction so the result can be matched to it
+    originatorConversationId?: string;
+    // Per-request URLs from CallbackTokenService
+    resultUrl: string;
+    timeoutUrl: string;
+  }): Promise<any> {
+    try {
+      const payload = {
+        OriginatorConversationID: params.originatorConversationId ?? this.generateConversationId(),
+        Initiator: this.configService.get('MPESA_INITIATOR_NAME'),
+        SecurityCredential: this.configService.get('MPESA_INITIATOR_PASSWORD'),
+        CommandID: params.commandId,
+        SenderIdentifierType: B2B_SENDER_IDENTIFIER_TYPE,
+        RecieverIdentifierType: B2B_RECEIVER_IDENTIFIER_TYPES[params.commandId], // Daraja's spelling
+        Amount: params.amount,
+        PartyA: this.configService.get('MPESA_SHORTCODE'),
+        PartyB: params.receiverShortCode,
+        AccountReference: params.commandId === 'BusinessPayBill' ? params.accountReference : undefined,
+        Requester: params.requester,
+        Remarks: params.remarks,
+        QueueTimeOutURL: params.timeoutUrl,
+        ResultURL: params.resultUrl,
+      };
+
+      return await this.makeRequest('POST', '/mpesa/b2b/v1/paymentrequest', payload);
+    } catch (error) {
+      this.logger.error('Failed to send B2B payment:', error);
+      throw error;
+    }
+  }
+
   async registerC2B(params: {
     shortCode: string;
     responseType: string;
@@ -177,7 +258,11 @@ export class DarajaClient implements OnModuleInit {
     }
   }
 
-  async getAccountBalance(): Promise<any> {
+  /**
+   * Ask for the shortcode's balances; the answer is posted to resultUrl, or to timeoutUrl if
+   * the query times out in Daraja's queue
+   */
+  async getAccountBalance(params: { resultUrl: string; timeoutUrl: string }): Promise<any> {
     try {
       const payload = {
         Initiator: this.configService.get('MPESA_INITIATOR_NAME'),
@@ -186,8 +271,8 @@ export class DarajaClient implements OnModuleInit {
         PartyA: this.configService.get('MPESA_SHORTCODE'),
         IdentifierType: '4',
         Remarks: 'Account balance query',
-        QueueTimeOutURL: this.configService.get('MPESA_TIMEOUT_URL'),
-        ResultURL: this.configService.get('MPESA_RESULT_URL'),
+        QueueTimeOutURL: params.timeoutUrl,
+        ResultURL: params.resultUrl,
       };
 
       return await this.makeRequest('POST', '/mpesa/accountbalance/v1/query', payload);
@@ -197,17 +282,52 @@ export class DarajaClient implements OnModuleInit {
     }
   }
 
-  async queryTransactionStatus(transactionId: string): Promise<any> {
+  /**
+   * Ask for the outcome of an STK Push; answered synchronously
+   * Daraja responds with an error while the customer has not yet acted on the prompt.
+   */
+  async queryStkPush(checkoutRequestId: string): Promise<any> {
+    try {
+      const timestamp = this.generateTimestamp();
+      const shortCode = this.configService.get('MPESA_SHORTCODE');
+      const passkey = this.configService.get('MPESA_PASSKEY');
+
+      const payload = {
+        BusinessShortCode: shortCode,
+        Password: this.generatePassword(shortCode, passkey, timestamp),
+        Timestamp: timestamp,
+        CheckoutRequestID: checkoutRequestId,
+      };
+
+      return await this.makeRequest('POST', '/mpesa/stkpushquery/v1/query', payload);
+    } catch (error) {
+      this.logger.error('Failed to query STK Push:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ask for the outcome of a B2C payment; the answer is posted to resultUrl, or to
+   * timeoutUrl if the query times out in Daraja's queue
+   */
+  async queryTransactionStatus(params: {
+    // M-Pesa receipt, when known
+    transactionId?: string;
+    originatorConversationId?: string;
+    resultUrl: string;
+    timeoutUrl: string;
+  }): Promise<any> {
     try {
       const payload = {
         Initiator: this.configService.get('MPESA_INITIATOR_NAME'),
         SecurityCredential: this.configService.get('MPESA_INITIATOR_PASSWORD'),
         CommandID: 'TransactionStatusQuery',
-        TransactionID: transactionId,
+        TransactionID: params.transactionId,
+        OriginalConversationID: params.originatorConversationId,
         PartyA: this.configService.get('MPESA_SHORTCODE'),
         IdentifierType: '4',
-        ResultURL: this.configService.get('MPESA_RESULT_URL'),
-        QueueTimeOutURL: this.configService.get('MPESA_TIMEOUT_URL'),
+        ResultURL: params.resultUrl,
+        QueueTimeOutURL: params.timeoutUrl,
         Remarks: 'Transaction status query',
         Occasion: 'Query',
       };
@@ -219,6 +339,73 @@ export class DarajaClient implements OnModuleInit {
     }
   }
 
+  /**
+   * Reverse a completed payment; the result is posted to resultUrl, or to timeoutUrl if the
+   * request times out in Daraja's queue
+   */
+  async reverseTransaction(params: {
+    // M-Pesa receipt of the payment to reverse
+    transactionId: string;
+    amount: number;
+    remarks: string;
+    resultUrl: string;
+    timeoutUrl: string;
+  }): Promise<any> {
+    try {
+      const payload = {
+        Initiator: this.configService.get('MPESA_INITIATOR_NAME'),
+        SecurityCredential: this.configService.get('MPESA_INITIATOR_PASSWORD'),
+        CommandID: 'TransactionReversal',
+        TransactionID: params.transactionId,
+        Amount: params.amount,
+        ReceiverParty: this.configService.get('MPESA_SHORTCODE'),
+        RecieverIdentifierType: '11', // Daraja's spelling
+        ResultURL: params.resultUrl,
+        QueueTimeOutURL: params.timeoutUrl,
+        Remarks: params.remarks,
+        Occasion: 'Reversal',
+      };
+
+      return await this.makeRequest('POST', '/mpesa/reversal/v1/request', payload);
+    } catch (error) {
+      this.logger.error('Failed to reverse transaction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a Lipa Na M-Pesa Dynamic QR code for a paybill or till; answered synchronously
+   * with the code as a base64-encoded PNG
+   */
+  async generateDynamicQr(params: {
+    merchantName: string;
+    // Paybill account number, or the merchant's reference for a till payment
+    refNo: string;
+    amount: number;
+    // Daraja's transaction code: PB for paybill, BG for buy goods
+    trxCode: 'PB' | 'BG';
+    // Paybill or till number
+    cpi: string;
+    // Image width and height in pixels
+    size: number;
+  }): Promise<any> {
+    try {
+      const payload = {
+        MerchantName: params.merchantName,
+        RefNo: params.refNo,
+        Amount: params.amount,
+        TrxCode: params.trxCode,
+        CPI: params.cpi,
+        Size: String(params.size),
+      };
+
+      return await this.makeRequest('POST', '/mpesa/qrcode/v1/generate', payload);
+    } catch (error) {
+      this.logger.error('Failed to generate dynamic QR code:', error);
+      throw error;
+    }
+  }
+
   private generateConversationId(): string {
     return `BP_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
   }
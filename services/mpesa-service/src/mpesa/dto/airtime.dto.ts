@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNumber, IsString, IsUUID, Matches, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { KENYA_PHONE_REGEX } from '@bitpesa/shared-utils';
+
+export class AirtimeDto {
+  @ApiProperty({
+    description: 'Safaricom, Airtel or Telkom number to top up, in any Kenyan format',
+    example: '0733123456',
+  })
+  @IsString()
+  @Matches(KENYA_PHONE_REGEX)
+  phoneNumber: string;
+
+  @ApiProperty({
+    description: "Amount in KES, within the recipient network's denominations",
+    example: 100,
+  })
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  amount: number;
+
+  @ApiProperty({
+    description: 'Bridge transaction the airtime is bought for',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  transactionId: string;
+}
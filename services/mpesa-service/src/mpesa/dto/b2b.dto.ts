@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNumber, IsString, IsUUID, Length, Matches, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+class B2BPaymentDto {
+  @ApiProperty({
+    description: 'Customer the payment is made for, in format 254XXXXXXXXX',
+    example: '254712345678',
+  })
+  @IsString()
+  @Length(12, 12)
+  phoneNumber: string;
+
+  @ApiProperty({
+    description: 'Amount in KES',
+    example: 1000,
+    minimum: 1,
+    maximum: 500000,
+  })
+  @IsNumber()
+  @Min(1)
+  @Max(500000)
+  @Type(() => Number)
+  amount: number;
+
+  @ApiProperty({
+    description: 'Bridge transaction the payment is made for',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  transactionId: string;
+}
+
+export class PaybillDto extends B2BPaymentDto {
+  @ApiProperty({
+    description: 'Paybill (business) number',
+    example: '888880',
+  })
+  @IsString()
+  @Matches(/^\d{5,7}$/)
+  businessNumber: string;
+
+  @ApiProperty({
+    description: 'Account number at the business',
+    example: '1234567890',
+  })
+  @IsString()
+  @Length(1, 13)
+  accountNumber: string;
+}
+
+export class BuyGoodsDto extends B2BPaymentDto {
+  @ApiProperty({
+    description: 'Till number',
+    example: '5123456',
+  })
+  @IsString()
+  @Matches(/^\d{5,7}$/)
+  tillNumber: string;
+}
@@ -1,3 +1,7 @@
 export * from './stk-push.dto';
 export * from './b2c.dto';
+export * from './b2b.dto';
 export * from './c2b.dto';
+export * from './reversal.dto';
+export * from './airtime.dto';
+export * from './qr-code.dto';
@@ -0,0 +1,56 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Length,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class QrCodeDto {
+  @ApiProperty({
+    description: 'Whether the code pays a paybill or a till',
+    enum: ['PAYBILL', 'TILL'],
+  })
+  @IsIn(['PAYBILL', 'TILL'])
+  type: 'PAYBILL' | 'TILL';
+
+  @ApiProperty({ description: 'Name shown to the payer', example: 'Mama Mboga Groceries' })
+  @IsString()
+  @Length(1, 25)
+  merchantName: string;
+
+  @ApiProperty({ description: 'Paybill or till number', example: '123456' })
+  @IsString()
+  @Matches(/^\d{5,7}$/)
+  shortCode: string;
+
+  @ApiPropertyOptional({
+    description: 'Paybill account number, or a reference for a till payment',
+    example: 'INV-1001',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 20)
+  accountNumber?: string;
+
+  @ApiProperty({ description: 'Amount in KES', example: 1000, minimum: 1, maximum: 150000 })
+  @IsNumber()
+  @Min(1)
+  @Max(150000)
+  @Type(() => Number)
+  amount: number;
+
+  @ApiPropertyOptional({ description: 'Image size in pixels', example: 300, default: 300 })
+  @IsOptional()
+  @IsInt()
+  @Min(100)
+  @Max(1000)
+  @Type(() => Number)
+  size?: number;
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, Length } from 'class-validator';
+
+export class ReverseTransactionDto {
+  @ApiProperty({
+    description: 'Why the payment is being reversed; sent to Daraja as the remarks',
+    example: 'Paid to the wrong recipient',
+  })
+  @IsString()
+  @Length(3, 100)
+  reason: string;
+}
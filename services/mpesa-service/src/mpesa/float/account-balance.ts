@@ -0,0 +1,32 @@
+export interface AccountBalance {
+  name: string; // e.g. "Utility Account"
+  currency: string;
+  current: number;
+  available: number;
+  reserved: number;
+  uncleared: number;
+}
+
+export const WORKING_ACCOUNT = 'Working Account';
+export const UTILITY_ACCOUNT = 'Utility Account';
+
+/**
+ * Parse the AccountBalance result parameter of an Account Balance query, e.g.
+ * "Working Account|KES|700000.00|700000.00|0.00|0.00&Utility Account|KES|228037.00|228037.00|0.00|0.00"
+ */
+export function parseAccountBalance(value: string): AccountBalance[] {
+  return value
+    .split('&')
+    .map(account => {
+      const [name, currency, current, available, reserved, uncleared] = account.split('|');
+      return {
+        name: name?.trim() ?? '',
+        currency: currency ?? '',
+        current: Number(current),
+        available: Number(available),
+        reserved: Number(reserved),
+        uncleared: Number(uncleared),
+      };
+    })
+    .filter(account => account.name && Number.isFinite(account.available));
+}
@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MpesaStatus } from '@bitpesa/shared-types';
+import { FloatService } from './float.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DarajaClient } from '../daraja/daraja.client';
+import { CallbackTokenService } from '../callback/callback-token.service';
+
+describe('FloatService', () => {
+  let service: FloatService;
+  let snapshots: Array<Record<string, any>>;
+
+  const daraja = {
+    getAccountBalance: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    daraja.getAccountBalance.mockResolvedValue({
+      OriginatorConversationID: '16917-22577599-3',
+      ConversationID: 'AG_20200206_00005e091a8ec6b9eac5',
+      ResponseCode: '0',
+    });
+    snapshots = [];
+
+    // In-memory mpesa_float_snapshots table
+    const prisma = {
+      mpesaFloatSnapshot: {
+        create: jest.fn(async ({ data }) => {
+          const snapshot = {
+            id: `snap-${snapshots.length + 1}`,
+            status: MpesaStatus.PENDING,
+            ...data,
+          };
+          snapshots.push(snapshot);
+          return snapshot;
+        }),
+        update: jest.fn(async ({ where, data }) =>
+          Object.assign(snapshots.find(row => row.id === where.id)!, data)
+        ),
+        findFirst: jest.fn(
+          async ({ where }) =>
+            snapshots
+              .filter(row => row.status === where.status)
+              .sort((a, b) => b.checkedAt - a.checkedAt)[0] ?? null
+        ),
+      },
+    };
+
+    const config: Record<string, string> = {
+      MPESA_CALLBACK_URL: 'https://bitpesa.example/api/v1/mpesa/callback',
+      MPESA_CALLBACK_SECRET: 'callback-secret',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FloatService,
+        CallbackTokenService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: DarajaClient, useValue: daraja },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key, defaultValue) => config[key] ?? defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FloatService>(FloatService);
+  });
+
+  it('should record a balance query with its own callback URL', async () => {
+    const snapshotId = await service.checkBalance();
+
+    expect(daraja.getAccountBalance).toHaveBeenCalledWith({
+      resultUrl: expect.stringContaining(`/callback/balance/${snapshotId}/`),
+      timeoutUrl: expect.stringContaining(`/callback/balance/${snapshotId}/`),
+    });
+    expect(snapshots[0]).toMatchObject({
+      status: MpesaStatus.PENDING,
+      originatorConversationId: '16917-22577599-3',
+    });
+  });
+
+  it('should fail the query when Daraja rejects it', async () => {
+    daraja.getAccountBalance.mockRejectedValueOnce(new Error('Request failed with status 500'));
+
+    await expect(service.checkBalance()).rejects.toThrow('status 500');
+    expect(snapshots[0].status).toBe(MpesaStatus.FAILED);
+  });
+
+  it('should report the utility account from the latest completed query', async () => {
+    await expect(service.getLatestBalance()).rejects.toThrow('No account balance');
+
+    snapshots.push(
+      {
+        id: 'snap-1',
+        status: MpesaStatus.COMPLETED,
+        checkedAt: new Date('2026-01-01T10:00:00Z'),
+        accounts: [
+          {
+            name: 'Utility Account',
+            currency: 'KES',
+            current: 1000,
+            available: 1000,
+            reserved: 0,
+            uncleared: 0,
+          },
+        ],
+      },
+      {
+        id: 'snap-2',
+        status: MpesaStatus.COMPLETED,
+        checkedAt: new Date('2026-01-01T10:05:00Z'),
+        accounts: [
+          {
+            name: 'Working Account',
+            currency: 'KES',
+            current: 500,
+            available: 500,
+            reserved: 0,
+            uncleared: 0,
+          },
+          {
+            name: 'Utility Account',
+            currency: 'KES',
+            current: 900,
+            available: 800,
+            reserved: 100,
+            uncleared: 0,
+          },
+        ],
+      }
+    );
+
+    await expect(service.getLatestBalance()).resolves.toEqual({
+      accountType: 'Utility Account',
+      balance: 900,
+      availableBalance: 800,
+      reservedBalance: 100,
+      unclearedBalance: 0,
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MpesaAccountBalance, MpesaStatus } from '@bitpesa/shared-types';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DarajaClient } from '../daraja/daraja.client';
+import { CallbackTokenService } from '../callback/callback-token.service';
+import { AccountBalance, UTILITY_ACCOUNT } from './account-balance';
+
+/**
+ * Keeps track of the shortcode's float
+ * Every MPESA_FLOAT_CHECK_INTERVAL_MS an Account Balance query is sent to Daraja and
+ * recorded as an MpesaFloatSnapshot. Its result callback fills in the balances and
+ * publishes mpesa.float.updated, from which transaction-service decides whether it can
+ * still take on payouts.
+ */
+@Injectable()
+export class FloatService implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(FloatService.name);
+  private readonly intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly daraja: DarajaClient,
+    private readonly callbackTokens: CallbackTokenService,
+    configService: ConfigService
+  ) {
+    this.intervalMs = Number(configService.get('MPESA_FLOAT_CHECK_INTERVAL_MS', 300000));
+  }
+
+  onApplicationBootstrap(): void {
+    // Check right away so transaction-service has a balance to work from after a deploy
+    this.schedule(0);
+  }
+
+  onApplicationShutdown(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  /**
+   * Send an Account Balance query, returning the id of the snapshot its result will fill in
+   */
+  async checkBalance(): Promise<string> {
+    const snapshot = await this.prisma.mpesaFloatSnapshot.create({ data: {} });
+
+    // Daraja posts both the result and a queue timeout to the same route
+    const callbackUrl = this.callbackTokens.callbackUrl('balance', snapshot.id);
+    try {
+      const response = await this.daraja.getAccountBalance({
+        resultUrl: callbackUrl,
+        timeoutUrl: callbackUrl,
+      });
+      await this.prisma.mpesaFloatSnapshot.update({
+        where: { id: snapshot.id },
+        data: {
+          originatorConversationId: response?.OriginatorConversationID,
+          conversationId: response?.ConversationID,
+        },
+      });
+    } catch (error) {
+      await this.prisma.mpesaFloatSnapshot.update({
+        where: { id: snapshot.id },
+        data: { status: MpesaStatus.FAILED, resultDesc: (error as Error).message },
+      });
+      throw error;
+    }
+
+    return snapshot.id;
+  }
+
+  /**
+   * Utility account balance from the latest Account Balance result
+   */
+  async getLatestBalance(): Promise<MpesaAccountBalance> {
+    const snapshot = await this.prisma.mpesaFloatSnapshot.findFirst({
+      where: { status: MpesaStatus.COMPLETED },
+      orderBy: { checkedAt: 'desc' },
+    });
+    const utility = ((snapshot?.accounts ?? []) as unknown as AccountBalance[]).find(
+      account => account.name === UTILITY_ACCOUNT
+    );
+    if (!utility) {
+      throw new NotFoundException('No account balance has been reported yet');
+    }
+
+    return {
+      accountType: utility.name,
+      balance: utility.current,
+      availableBalance: utility.available,
+      reservedBalance: utility.reserved,
+      unclearedBalance: utility.uncleared,
+    };
+  }
+
+  private schedule(delayMs = this.intervalMs): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.checkBalance();
+      } catch (error) {
+        this.logger.error('M-Pesa account balance check failed', error);
+      }
+      this.schedule();
+    }, delayMs);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+import { MpesaRecipientType } from '@bitpesa/shared-types';
+
+export interface DirectoryEntry {
+  name: string;
+  accountNumberPattern?: string;
+}
+
+interface DirectoryResponse {
+  name: string;
+  accountNumberPattern?: string | null;
+}
+
+/**
+ * Client for the directory paybill, till and phone numbers are resolved from
+ * Configured with MPESA_DIRECTORY_URL and MPESA_DIRECTORY_API_KEY; without a URL every
+ * number is unknown and only cached names are served.
+ */
+@Injectable()
+export class RecipientDirectory {
+  private readonly client: AxiosInstance | null;
+
+  constructor(configService: ConfigService) {
+    const url = configService.get<string>('MPESA_DIRECTORY_URL');
+    this.client = url
+      ? axios.create({
+          baseURL: url,
+          timeout: 10000,
+          headers: {
+            Authorization: `Bearer ${configService.get<string>('MPESA_DIRECTORY_API_KEY', '')}`,
+          },
+        })
+      : null;
+  }
+
+  /**
+   * The registered name for a number, or null if the directory does not know it
+   */
+  async find(type: MpesaRecipientType, identifier: string): Promise<DirectoryEntry | null> {
+    if (!this.client) {
+      return null;
+    }
+
+    try {
+      const { data } = await this.client.get<DirectoryResponse>(
+        `/v1/${type.toLowerCase()}/${identifier}`
+      );
+      return {
+        name: data.name,
+        accountNumberPattern: data.accountNumberPattern ?? undefined,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MpesaRecipientType } from '@bitpesa/shared-types';
+import { RecipientLookupService } from './recipient-lookup.service';
+import { RecipientDirectory } from './recipient-directory';
+import { PrismaService } from '../../prisma/prisma.service';
+
+describe('RecipientLookupService', () => {
+  let service: RecipientLookupService;
+  let recipients: Map<string, Record<string, any>>;
+  let config: Record<string, string>;
+
+  const directory = {
+    find: jest.fn(),
+  };
+
+  const compile = async () => {
+    const key = ({ type, identifier }: Record<string, string>) => `${type}:${identifier}`;
+
+    // In-memory mpesa_recipients table
+    const prisma = {
+      mpesaRecipient: {
+        findUnique: jest.fn(
+          async ({ where }) => recipients.get(key(where.type_identifier)) ?? null
+        ),
+        upsert: jest.fn(async ({ where, create, update }) => {
+          const row = { ...(recipients.get(key(where.type_identifier)) ?? create), ...update };
+          recipients.set(key(where.type_identifier), row);
+          return row;
+        }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecipientLookupService,
+        { provide: RecipientDirectory, useValue: directory },
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((k, defaultValue) => config[k] ?? defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RecipientLookupService>(RecipientLookupService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    recipients = new Map();
+    config = {};
+    directory.find.mockResolvedValue({ name: 'KENYA POWER', accountNumberPattern: '^\\d{11}$' });
+    await compile();
+  });
+
+  it('should resolve a paybill from the directory and serve it from the cache afterwards', async () => {
+    const first = await service.lookup(MpesaRecipientType.PAYBILL, '888880');
+    const second = await service.lookup(MpesaRecipientType.PAYBILL, '888880');
+
+    expect(first).toMatchObject({ name: 'KENYA POWER', accountNumberPattern: '^\\d{11}$' });
+    expect(second).toEqual(first);
+    expect(directory.find).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve an expired name while the directory is unreachable', async () => {
+    recipients.set('TILL:123456', {
+      type: 'TILL',
+      identifier: '123456',
+      name: 'MAMA MBOGA',
+      accountNumberPattern: null,
+      checkedAt: new Date('2026-01-01T00:00:00.000Z'),
+      expiresAt: new Date('2026-01-02T00:00:00.000Z'),
+    });
+    directory.find.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await expect(service.lookup(MpesaRecipientType.TILL, '123456')).resolves.toMatchObject({
+      name: 'MAMA MBOGA',
+    });
+  });
+
+  it('should report a number the directory does not know', async () => {
+    directory.find.mockResolvedValue(null);
+
+    await expect(service.lookup(MpesaRecipientType.TILL, '123456')).rejects.toThrow(
+      'No registered name found for 123456'
+    );
+  });
+
+  it('should only look up phone names when enabled, and mask them', async () => {
+    directory.find.mockResolvedValue({ name: 'JOHN KAMAU MWANGI' });
+
+    await expect(service.lookup(MpesaRecipientType.PHONE, '0712345678')).rejects.toThrow(
+      'Phone number name lookup is not enabled'
+    );
+
+    config.MPESA_PHONE_NAME_LOOKUP_ENABLED = 'true';
+    await compile();
+
+    await expect(service.lookup(MpesaRecipientType.PHONE, '0712345678')).resolves.toMatchObject({
+      identifier: '254712345678',
+      name: 'JOHN M.',
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MpesaRecipient, MpesaRecipientType } from '@bitpesa/shared-types';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DirectoryEntry, RecipientDirectory } from './recipient-directory';
+
+const SHORTCODE_REGEX = /^\d{5,7}$/;
+const PHONE_REGEX = /^254[71]\d{8}$/;
+
+/**
+ * Resolves paybill, till and phone numbers to who they belong to before a payment
+ * Names are cached in mpesa_recipients for MPESA_RECIPIENT_CACHE_TTL_MS; an expired name
+ * is still served while the directory cannot be reached. Phone numbers are only looked up
+ * with MPESA_PHONE_NAME_LOOKUP_ENABLED, and only their first name and last initial shown.
+ */
+@Injectable()
+export class RecipientLookupService {
+  private readonly logger = new Logger(RecipientLookupService.name);
+  private readonly cacheTtlMs: number;
+  private readonly phoneLookupEnabled: boolean;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly directory: RecipientDirectory,
+    configService: ConfigService
+  ) {
+    this.cacheTtlMs = Number(configService.get('MPESA_RECIPIENT_CACHE_TTL_MS', 86400000));
+    this.phoneLookupEnabled =
+      String(configService.get('MPESA_PHONE_NAME_LOOKUP_ENABLED', 'false')) === 'true';
+  }
+
+  async lookup(type: MpesaRecipientType, identifier: string): Promise<MpesaRecipient> {
+    identifier = this.validate(type, identifier);
+
+    const cached = await this.prisma.mpesaRecipient.findUnique({
+      where: { type_identifier: { type, identifier } },
+    });
+    if (cached && cached.expiresAt > new Date()) {
+      return this.toRecipient(cached);
+    }
+
+    let entry: DirectoryEntry | null;
+    try {
+      entry = await this.directory.find(type, identifier);
+    } catch (error) {
+      this.logger.warn(`Recipient directory lookup of ${type} ${identifier} failed: ${error}`);
+      if (cached) {
+        return this.toRecipient(cached);
+      }
+      throw new NotFoundException(`Could not confirm who ${identifier} belongs to`);
+    }
+
+    if (!entry) {
+      throw new NotFoundException(`No registered name found for ${identifier}`);
+    }
+
+    const checkedAt = new Date();
+    const data = {
+      name: type === MpesaRecipientType.PHONE ? this.maskName(entry.name) : entry.name,
+      accountNumberPattern: entry.accountNumberPattern ?? null,
+      checkedAt,
+      expiresAt: new Date(checkedAt.getTime() + this.cacheTtlMs),
+    };
+    const recipient = await this.prisma.mpesaRecipient.upsert({
+      where: { type_identifier: { type, identifier } },
+      create: { type, identifier, ...data },
+      update: data,
+    });
+    return this.toRecipient(recipient);
+  }
+
+  private validate(type: MpesaRecipientType, identifier: string): string {
+    if (type === MpesaRecipientType.PHONE) {
+      if (!this.phoneLookupEnabled) {
+        throw new ForbiddenException('Phone number name lookup is not enabled');
+      }
+      const phone = identifier.replace(/^\+/, '').replace(/^0/, '254');
+      if (!PHONE_REGEX.test(phone)) {
+        throw new BadRequestException('Phone number must be in format 2547XXXXXXXX');
+      }
+      return phone;
+    }
+
+    if (!SHORTCODE_REGEX.test(identifier)) {
+      throw new BadRequestException(`Invalid ${type.toLowerCase()} number: ${identifier}`);
+    }
+    return identifier;
+  }
+
+  /**
+   * "JOHN KAMAU MWANGI" becomes "JOHN M."
+   */
+  private maskName(name: string): string {
+    const parts = name.trim().split(/\s+/);
+    return parts.length > 1 ? `${parts[0]} ${parts[parts.length - 1][0]}.` : parts[0];
+  }
+
+  private toRecipient(row: {
+    type: string;
+    identifier: string;
+    name: string;
+    accountNumberPattern: string | null;
+    checkedAt: Date;
+  }): MpesaRecipient {
+    return {
+      type: row.type as MpesaRecipientType,
+      identifier: row.identifier,
+      name: row.name,
+      accountNumberPattern: row.accountNumberPattern ?? undefined,
+      checkedAt: row.checkedAt.toISOString(),
+    };
+  }
+}
@@ -1,8 +1,31 @@
-import { Controller, Get, Post, Body, Param, Logger } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { Controller, Get, Post, Body, Param, Logger, Ip, Req, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth } from '@nestjs/swagger';
 import { MpesaService } from './mpesa.service';
-import { StkPushDto, B2CDto, C2BDto } from './dto';
-import { MpesaTransaction, STKPushResponse, B2CResponse, C2BResponse } from '@bitpesa/shared-types';
+import { CallbackGuard } from './callback/callback.guard';
+import { AirtimeCallbackGuard } from './airtime/airtime-callback.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import type { AdminRequest } from '../auth/admin.guard';
+import {
+  StkPushDto,
+  B2CDto,
+  C2BDto,
+  ReverseTransactionDto,
+  AirtimeDto,
+  PaybillDto,
+  BuyGoodsDto,
+  QrCodeDto,
+} from './dto';
+import {
+  MpesaTransaction,
+  MpesaReversal,
+  STKPushResponse,
+  B2CResponse,
+  C2BResponse,
+  AirtimePurchaseResponse,
+  B2BResponse,
+  MpesaRecipient,
+  DynamicQrResponse,
+} from '@bitpesa/shared-types';
 
 @ApiTags('mpesa')
 @Controller('mpesa')
@@ -51,31 +74,124 @@ export class MpesaController {
     return this.mpesaService.getTransaction(id);
   }
 
-  @Post('callback/stk-push')
+  @Post('transaction/:id/reverse')
+  @UseGuards(AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Reverse a completed M-Pesa payment (admin only)' })
+  @ApiParam({ name: 'id', description: 'M-Pesa transaction ID' })
+  @ApiResponse({ status: 201, description: 'Reversal requested; the result arrives by callback' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid access token' })
+  @ApiResponse({ status: 403, description: 'Admin role required' })
+  @ApiResponse({ status: 404, description: 'Transaction not found' })
+  @ApiResponse({ status: 409, description: 'Transaction not completed or already reversed' })
+  async reverseTransaction(
+    @Param('id') id: string,
+    @Body() dto: ReverseTransactionDto,
+    @Req() request: AdminRequest
+  ): Promise<MpesaReversal> {
+    this.logger.log(`Reversing M-Pesa transaction: ${id}`);
+    return this.mpesaService.reverseTransaction(id, dto.reason, request.admin.username);
+  }
+
+  @Post('callback/stk-push/:mpesaTransactionId/:token')
+  @UseGuards(CallbackGuard)
   @ApiOperation({ summary: 'Handle STK Push callback' })
   @ApiResponse({ status: 200, description: 'Callback processed successfully' })
   @ApiResponse({ status: 400, description: 'Invalid callback data' })
-  async handleStkPushCallback(@Body() callbackData: any): Promise<{ ResultCode: number; ResultDesc: string }> {
+  async handleStkPushCallback(
+    @Param('mpesaTransactionId') mpesaTransactionId: string,
+    @Body() callbackData: unknown,
+    @Ip() sourceIp: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
     this.logger.log('Handling STK Push callback');
-    return this.mpesaService.handleStkPushCallback(callbackData);
+    return this.mpesaService.handleStkPushCallback(mpesaTransactionId, callbackData, sourceIp);
   }
 
-  @Post('callback/b2c')
+  @Post('callback/b2c/:mpesaTransactionId/:token')
+  @UseGuards(CallbackGuard)
   @ApiOperation({ summary: 'Handle B2C callback' })
   @ApiResponse({ status: 200, description: 'Callback processed successfully' })
   @ApiResponse({ status: 400, description: 'Invalid callback data' })
-  async handleB2CCallback(@Body() callbackData: any): Promise<{ ResultCode: number; ResultDesc: string }> {
+  async handleB2CCallback(
+    @Param('mpesaTransactionId') mpesaTransactionId: string,
+    @Body() callbackData: unknown,
+    @Ip() sourceIp: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
     this.logger.log('Handling B2C callback');
-    return this.mpesaService.handleB2CCallback(callbackData);
+    return this.mpesaService.handleB2CCallback(mpesaTransactionId, callbackData, sourceIp);
+  }
+
+  @Post('callback/status/:mpesaTransactionId/:token')
+  @UseGuards(CallbackGuard)
+  @ApiOperation({ summary: 'Handle Transaction Status Query result' })
+  @ApiResponse({ status: 200, description: 'Callback processed successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid callback data' })
+  async handleTransactionStatusCallback(
+    @Param('mpesaTransactionId') mpesaTransactionId: string,
+    @Body() callbackData: unknown,
+    @Ip() sourceIp: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
+    this.logger.log('Handling transaction status callback');
+    return this.mpesaService.handleTransactionStatusCallback(
+      mpesaTransactionId,
+      callbackData,
+      sourceIp
+    );
+  }
+
+  @Post('callback/timeout/:mpesaTransactionId/:token')
+  @UseGuards(CallbackGuard)
+  @ApiOperation({ summary: 'Handle queue timeout callback' })
+  @ApiResponse({ status: 200, description: 'Callback processed successfully' })
+  async handleTimeoutCallback(
+    @Param('mpesaTransactionId') mpesaTransactionId: string,
+    @Body() callbackData: unknown,
+    @Ip() sourceIp: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
+    this.logger.log('Handling queue timeout callback');
+    return this.mpesaService.handleTimeoutCallback(mpesaTransactionId, callbackData, sourceIp);
+  }
+
+  @Post('callback/reversal/:mpesaTransactionId/:token')
+  @UseGuards(CallbackGuard)
+  @ApiOperation({ summary: 'Handle reversal result or queue timeout' })
+  @ApiResponse({ status: 200, description: 'Callback processed successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid callback data' })
+  async handleReversalCallback(
+    @Param('mpesaTransactionId') mpesaTransactionId: string,
+    @Body() callbackData: unknown,
+    @Ip() sourceIp: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
+    this.logger.log('Handling reversal callback');
+    return this.mpesaService.handleReversalCallback(mpesaTransactionId, callbackData, sourceIp);
+  }
+
+  // The balance query's snapshot id takes the place of an M-Pesa request id in the route
+  @Post('callback/balance/:mpesaTransactionId/:token')
+  @UseGuards(CallbackGuard)
+  @ApiOperation({ summary: 'Handle account balance result or queue timeout' })
+  @ApiResponse({ status: 200, description: 'Callback processed successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid callback data' })
+  async handleAccountBalanceCallback(
+    @Param('mpesaTransactionId') snapshotId: string,
+    @Body() callbackData: unknown,
+    @Ip() sourceIp: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
+    this.logger.log('Handling account balance callback');
+    return this.mpesaService.handleAccountBalanceCallback(snapshotId, callbackData, sourceIp);
   }
 
   @Post('callback/c2b')
+  @UseGuards(CallbackGuard)
   @ApiOperation({ summary: 'Handle C2B callback' })
   @ApiResponse({ status: 200, description: 'Callback processed successfully' })
   @ApiResponse({ status: 400, description: 'Invalid callback data' })
-  async handleC2BCallback(@Body() callbackData: any): Promise<{ ResultCode: number; ResultDesc: string }> {
+  async handleC2BCallback(
+    @Body() callbackData: unknown,
+    @Ip() sourceIp: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
     this.logger.log('Handling C2B callback');
-    return this.mpesaService.handleC2BCallback(callbackData);
+    return this.mpesaService.handleC2BCallback(callbackData, sourceIp);
   }
 
   @Get('balance')
@@ -108,80 +224,93 @@ export class MpesaController {
   // New BitPesa Bridge endpoints
   @Post('airtime')
   @ApiOperation({ summary: 'Buy airtime' })
-  @ApiResponse({ status: 201, description: 'Airtime purchase initiated successfully', type: B2CResponse })
-  @ApiResponse({ status: 400, description: 'Invalid request data' })
-  async buyAirtime(
-    @Body() dto: { phoneNumber: string; amount: number; accountReference: string }
-  ): Promise<B2CResponse> {
-    this.logger.log(`Buying airtime for ${dto.phoneNumber}, amount: ${dto.amount}`);
-    return this.mpesaService.buyAirtime(dto.phoneNumber, dto.amount, dto.accountReference);
+  @ApiResponse({ status: 201, description: 'Airtime purchase initiated successfully' })
+  @ApiResponse({ status: 400, description: 'Unsupported network or amount outside its denominations' })
+  async buyAirtime(@Body() airtimeDto: AirtimeDto): Promise<AirtimePurchaseResponse> {
+    this.logger.log(`Buying airtime for ${airtimeDto.phoneNumber}, amount: ${airtimeDto.amount}`);
+    return this.mpesaService.buyAirtime(airtimeDto);
   }
 
   @Post('paybill')
-  @ApiOperation({ summary: 'Process paybill payment' })
-  @ApiResponse({ status: 201, description: 'Paybill payment initiated successfully', type: STKPushResponse })
+  @ApiOperation({ summary: 'Pay a paybill from the BitPesa shortcode (B2B BusinessPayBill)' })
+  @ApiResponse({ status: 201, description: 'Paybill payment accepted by Daraja' })
   @ApiResponse({ status: 400, description: 'Invalid request data' })
-  async paybill(
-    @Body() dto: { 
-      phoneNumber: string; 
-      businessNumber: string; 
-      amount: number; 
-      accountNumber: string; 
-      reference: string; 
-    }
-  ): Promise<STKPushResponse> {
-    this.logger.log(`Processing paybill payment to ${dto.businessNumber}, amount: ${dto.amount}`);
-    return this.mpesaService.paybill(
-      dto.phoneNumber, 
-      dto.businessNumber, 
-      dto.amount, 
-      dto.accountNumber, 
-      dto.reference
-    );
+  async paybill(@Body() paybillDto: PaybillDto): Promise<B2BResponse> {
+    this.logger.log(`Processing paybill payment to ${paybillDto.businessNumber}, amount: ${paybillDto.amount}`);
+    return this.mpesaService.paybill(paybillDto);
   }
 
   @Post('till')
-  @ApiOperation({ summary: 'Process till payment (buy goods)' })
-  @ApiResponse({ status: 201, description: 'Till payment initiated successfully', type: STKPushResponse })
+  @ApiOperation({ summary: 'Pay a till from the BitPesa shortcode (B2B BusinessBuyGoods)' })
+  @ApiResponse({ status: 201, description: 'Till payment accepted by Daraja' })
   @ApiResponse({ status: 400, description: 'Invalid request data' })
-  async buyGoods(
-    @Body() dto: { 
-      phoneNumber: string; 
-      tillNumber: string; 
-      amount: number; 
-      accountReference: string; 
-    }
-  ): Promise<STKPushResponse> {
-    this.logger.log(`Processing till payment to ${dto.tillNumber}, amount: ${dto.amount}`);
-    return this.mpesaService.buyGoods(
-      dto.phoneNumber, 
-      dto.tillNumber, 
-      dto.amount, 
-      dto.accountReference
-    );
+  async buyGoods(@Body() buyGoodsDto: BuyGoodsDto): Promise<B2BResponse> {
+    this.logger.log(`Processing till payment to ${buyGoodsDto.tillNumber}, amount: ${buyGoodsDto.amount}`);
+    return this.mpesaService.buyGoods(buyGoodsDto);
+  }
+
+  @Post('qr-code')
+  @ApiOperation({ summary: 'Generate a Lipa Na M-Pesa Dynamic QR code for a paybill or till' })
+  @ApiResponse({ status: 201, description: 'QR code image and the payload it encodes' })
+  @ApiResponse({ status: 400, description: 'Invalid request data' })
+  @ApiResponse({ status: 502, description: 'Daraja did not generate a QR code' })
+  async generateQrCode(@Body() qrCodeDto: QrCodeDto): Promise<DynamicQrResponse> {
+    this.logger.log(`Generating QR code for ${qrCodeDto.shortCode}`);
+    return this.mpesaService.generateQrCode(qrCodeDto);
+  }
+
+  @Get('lookup/:type/:identifier')
+  @ApiOperation({ summary: 'Look up who a paybill, till or phone number belongs to' })
+  @ApiParam({ name: 'type', description: 'paybill, till or phone' })
+  @ApiParam({ name: 'identifier', description: 'Paybill or till number, or phone number' })
+  @ApiResponse({ status: 200, description: 'Registered name found' })
+  @ApiResponse({ status: 400, description: 'Invalid lookup type or number' })
+  @ApiResponse({ status: 403, description: 'Phone number lookup not enabled' })
+  @ApiResponse({ status: 404, description: 'No registered name found' })
+  async lookupRecipient(
+    @Param('type') type: string,
+    @Param('identifier') identifier: string
+  ): Promise<MpesaRecipient> {
+    this.logger.log(`Looking up ${type} ${identifier}`);
+    return this.mpesaService.lookupRecipient(type, identifier);
   }
 
-  @Post('callback/airtime')
+  @Post('callback/airtime/:mpesaTransactionId/:token')
+  @UseGuards(AirtimeCallbackGuard)
   @ApiOperation({ summary: 'Handle airtime callback' })
   @ApiResponse({ status: 200, description: 'Airtime callback processed successfully' })
-  async handleAirtimeCallback(@Body() callbackData: any): Promise<{ ResultCode: number; ResultDesc: string }> {
+  async handleAirtimeCallback(
+    @Param('mpesaTransactionId') mpesaTransactionId: string,
+    @Body() callbackData: unknown,
+    @Ip() sourceIp: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
     this.logger.log('Handling airtime callback');
-    return this.mpesaService.handleAirtimeCallback(callbackData);
+    return this.mpesaService.handleAirtimeCallback(mpesaTransactionId, callbackData, sourceIp);
   }
 
-  @Post('callback/paybill')
+  @Post('callback/paybill/:mpesaTransactionId/:token')
+  @UseGuards(CallbackGuard)
   @ApiOperation({ summary: 'Handle paybill callback' })
   @ApiResponse({ status: 200, description: 'Paybill callback processed successfully' })
-  async handlePaybillCallback(@Body() callbackData: any): Promise<{ ResultCode: number; ResultDesc: string }> {
+  async handlePaybillCallback(
+    @Param('mpesaTransactionId') mpesaTransactionId: string,
+    @Body() callbackData: unknown,
+    @Ip() sourceIp: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
     this.logger.log('Handling paybill callback');
-    return this.mpesaService.handlePaybillCallback(callbackData);
+    return this.mpesaService.handlePaybillCallback(mpesaTransactionId, callbackData, sourceIp);
   }
 
-  @Post('callback/till')
+  @Post('callback/till/:mpesaTransactionId/:token')
+  @UseGuards(CallbackGuard)
   @ApiOperation({ summary: 'Handle till callback' })
   @ApiResponse({ status: 200, description: 'Till callback processed successfully' })
-  async handleTillCallback(@Body() callbackData: any): Promise<{ ResultCode: number; ResultDesc: string }> {
+  async handleTillCallback(
+    @Param('mpesaTransactionId') mpesaTransactionId: string,
+    @Body() callbackData: unknown,
+    @Ip() sourceIp: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
     this.logger.log('Handling till callback');
-    return this.mpesaService.handleTillCallback(callbackData);
+    return this.mpesaService.handleTillCallback(mpesaTransactionId, callbackData, sourceIp);
   }
 }
@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { MpesaController } from './mpesa.controller';
 import { MpesaService } from './mpesa.service';
 import { DarajaClient } from './daraja/daraja.client';
@@ -6,6 +7,20 @@ import { StkPushService } from './stk-push/stk-push.service';
 import { B2CService } from './b2c/b2c.service';
 import { C2BService } from './c2b/c2b.service';
 import { CallbackService } from './callback/callback.service';
+import { CallbackTokenService } from './callback/callback-token.service';
+import { CallbackGuard } from './callback/callback.guard';
+import { ReconciliationService } from './reconciliation/reconciliation.service';
+import { ReversalService } from './reversal/reversal.service';
+import { FloatService } from './float/float.service';
+import { AirtimeService } from './airtime/airtime.service';
+import { B2BService } from './b2b/b2b.service';
+import { RecipientLookupService } from './lookup/recipient-lookup.service';
+import { RecipientDirectory } from './lookup/recipient-directory';
+import { QrCodeService } from './qr/qr-code.service';
+import { AirtimeCallbackGuard } from './airtime/airtime-callback.guard';
+import { AIRTIME_PROVIDERS } from './airtime/airtime-provider';
+import { createAirtimeProviders } from './airtime/airtime-provider.factory';
+import { AdminGuard } from '../auth/admin.guard';
 
 @Module({
   controllers: [MpesaController],
@@ -16,6 +31,23 @@ import { CallbackService } from './callback/callback.service';
     B2CService,
     C2BService,
     CallbackService,
+    CallbackTokenService,
+    CallbackGuard,
+    ReconciliationService,
+    ReversalService,
+    FloatService,
+    AirtimeService,
+    AirtimeCallbackGuard,
+    B2BService,
+    RecipientLookupService,
+    RecipientDirectory,
+    QrCodeService,
+    {
+      provide: AIRTIME_PROVIDERS,
+      useFactory: createAirtimeProviders,
+      inject: [ConfigService],
+    },
+    AdminGuard,
   ],
   exports: [
     MpesaService,
@@ -23,6 +55,7 @@ import { CallbackService } from './callback/callback.service';
     B2CService,
     C2BService,
     CallbackService,
+    CallbackTokenService,
   ],
 })
 export class MpesaModule {}
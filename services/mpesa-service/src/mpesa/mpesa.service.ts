@@ -1,11 +1,34 @@
-import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  HttpException,
+  NotFoundException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { StkPushService } from './stk-push/stk-push.service';
 import { B2CService } from './b2c/b2c.service';
 import { C2BService } from './c2b/c2b.service';
 import { CallbackService } from './callback/callback.service';
-import { StkPushDto, B2CDto, C2BDto } from './dto';
-import { MpesaTransaction, STKPushResponse, B2CResponse, C2BResponse } from '@bitpesa/shared-types';
+import { ReversalService } from './reversal/reversal.service';
+import { FloatService } from './float/float.service';
+import { AirtimeService } from './airtime/airtime.service';
+import { B2BService } from './b2b/b2b.service';
+import { RecipientLookupService } from './lookup/recipient-lookup.service';
+import { QrCodeService } from './qr/qr-code.service';
+import { StkPushDto, B2CDto, C2BDto, AirtimeDto, PaybillDto, BuyGoodsDto, QrCodeDto } from './dto';
+import {
+  MpesaTransaction,
+  MpesaReversal,
+  STKPushResponse,
+  B2CResponse,
+  C2BResponse,
+  AirtimePurchaseResponse,
+  B2BResponse,
+  MpesaRecipient,
+  MpesaRecipientType,
+  DynamicQrResponse,
+} from '@bitpesa/shared-types';
 
 @Injectable()
 export class MpesaService {
@@ -17,6 +40,12 @@ export class MpesaService {
     private readonly b2cService: B2CService,
     private readonly c2bService: C2BService,
     private readonly callbackService: CallbackService,
+    private readonly reversalService: ReversalService,
+    private readonly floatService: FloatService,
+    private readonly airtimeService: AirtimeService,
+    private readonly b2bService: B2BService,
+    private readonly recipientLookupService: RecipientLookupService,
+    private readonly qrCodeService: QrCodeService,
   ) {}
 
   async initiateStkPush(stkPushDto: StkPushDto): Promise<STKPushResponse> {
@@ -80,11 +109,40 @@ export class MpesaService {
     }
   }
 
-  async handleStkPushCallback(callbackData: any): Promise<{ ResultCode: number; ResultDesc: string }> {
+  async reverseTransaction(
+    id: string,
+    reason: string,
+    requestedBy: string
+  ): Promise<MpesaReversal> {
+    try {
+      this.logger.log(`Reversing M-Pesa transaction ${id} for ${requestedBy}: ${reason}`);
+
+      const reversal = await this.reversalService.requestReversal(id, { reason, requestedBy });
+
+      this.logger.log(`Reversal requested: ${reversal.id}`);
+      return reversal;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error(`Failed to reverse M-Pesa transaction ${id}:`, error);
+      throw new BadRequestException('Failed to reverse M-Pesa transaction');
+    }
+  }
+
+  async handleStkPushCallback(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
     try {
       this.logger.log('Handling STK Push callback');
 
-      const result = await this.callbackService.handleStkPushCallback(callbackData);
+      const result = await this.callbackService.handleStkPushCallback(
+        mpesaTransactionId,
+        callbackData,
+        sourceIp
+      );
       
       this.logger.log(`STK Push callback processed: ${result.ResultCode}`);
       return result;
@@ -94,11 +152,19 @@ export class MpesaService {
     }
   }
 
-  async handleB2CCallback(callbackData: any): Promise<{ ResultCode: number; ResultDesc: string }> {
+  async handleB2CCallback(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
     try {
       this.logger.log('Handling B2C callback');
 
-      const result = await this.callbackService.handleB2CCallback(callbackData);
+      const result = await this.callbackService.handleB2CCallback(
+        mpesaTransactionId,
+        callbackData,
+        sourceIp
+      );
       
       this.logger.log(`B2C callback processed: ${result.ResultCode}`);
       return result;
@@ -108,11 +174,99 @@ export class MpesaService {
     }
   }
 
-  async handleC2BCallback(callbackData: any): Promise<{ ResultCode: number; ResultDesc: string }> {
+  async handleTransactionStatusCallback(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
+    try {
+      this.logger.log('Handling transaction status callback');
+
+      const result = await this.callbackService.handleTransactionStatusResult(
+        mpesaTransactionId,
+        callbackData,
+        sourceIp
+      );
+
+      this.logger.log(`Transaction status callback processed: ${result.ResultCode}`);
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to handle transaction status callback:', error);
+      return { ResultCode: 1, ResultDesc: 'Callback processing failed' };
+    }
+  }
+
+  async handleTimeoutCallback(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
+    try {
+      this.logger.log('Handling queue timeout callback');
+
+      return await this.callbackService.handleQueueTimeout(
+        mpesaTransactionId,
+        callbackData,
+        sourceIp
+      );
+    } catch (error) {
+      this.logger.error('Failed to handle queue timeout callback:', error);
+      return { ResultCode: 1, ResultDesc: 'Callback processing failed' };
+    }
+  }
+
+  async handleReversalCallback(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
+    try {
+      this.logger.log('Handling reversal callback');
+
+      const result = await this.callbackService.handleReversalResult(
+        mpesaTransactionId,
+        callbackData,
+        sourceIp
+      );
+
+      this.logger.log(`Reversal callback processed: ${result.ResultCode}`);
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to handle reversal callback:', error);
+      return { ResultCode: 1, ResultDesc: 'Callback processing failed' };
+    }
+  }
+
+  async handleAccountBalanceCallback(
+    snapshotId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
+    try {
+      this.logger.log('Handling account balance callback');
+
+      const result = await this.callbackService.handleAccountBalanceResult(
+        snapshotId,
+        callbackData,
+        sourceIp
+      );
+
+      this.logger.log(`Account balance callback processed: ${result.ResultCode}`);
+      return result;
+    } catch (error) {
+      this.logger.error('Failed to handle account balance callback:', error);
+      return { ResultCode: 1, ResultDesc: 'Callback processing failed' };
+    }
+  }
+
+  async handleC2BCallback(
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
     try {
       this.logger.log('Handling C2B callback');
 
-      const result = await this.callbackService.handleC2BCallback(callbackData);
+      const result = await this.callbackService.handleC2BCallback(callbackData, sourceIp);
       
       this.logger.log(`C2B callback processed: ${result.ResultCode}`);
       return result;
@@ -132,11 +286,14 @@ export class MpesaService {
     try {
       this.logger.log('Getting M-Pesa account balance');
 
-      const balance = await this.stkPushService.getAccountBalance();
+      const balance = await this.floatService.getLatestBalance();
       
       this.logger.log('Account balance retrieved successfully');
       return balance;
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       this.logger.error('Failed to get account balance:', error);
       throw new BadRequestException('Failed to get M-Pesa account balance');
     }
@@ -169,43 +326,37 @@ export class MpesaService {
   }
 
   // New transaction types for BitPesa Bridge
-  async buyAirtime(phoneNumber: string, amount: number, accountReference: string): Promise<B2CResponse> {
+  async buyAirtime(airtimeDto: AirtimeDto): Promise<AirtimePurchaseResponse> {
     try {
-      this.logger.log(`Buying airtime for ${phoneNumber}, amount: ${amount}`);
-
-      const airtimeDto: B2CDto = {
-        phoneNumber,
-        amount,
-        commandId: 'BusinessPayment',
-        remarks: `Airtime purchase - ${accountReference}`,
-        occasion: 'Airtime Purchase',
-      };
+      this.logger.log(`Buying airtime for ${airtimeDto.phoneNumber}, amount: ${airtimeDto.amount}`);
 
-      const response = await this.b2cService.sendB2C(airtimeDto);
-      
-      this.logger.log(`Airtime purchase initiated: ${response.originatorConversationId}`);
+      const response = await this.airtimeService.buyAirtime(airtimeDto);
+
+      this.logger.log(`Airtime purchase initiated: ${response.providerReference}`);
       return response;
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       this.logger.error('Failed to buy airtime:', error);
       throw new BadRequestException('Failed to buy airtime');
     }
   }
 
-  async paybill(phoneNumber: string, businessNumber: string, amount: number, accountNumber: string, reference: string): Promise<STKPushResponse> {
+  async paybill(paybillDto: PaybillDto): Promise<B2BResponse> {
     try {
-      this.logger.log(`Processing paybill payment to ${businessNumber}, amount: ${amount}`);
-
-      const paybillDto: StkPushDto = {
-        phoneNumber,
-        amount,
-        accountReference: accountNumber,
-        transactionDesc: `Paybill payment - ${reference}`,
-        businessShortCode: businessNumber,
-      };
-
-      const response = await this.stkPushService.initiateStkPush(paybillDto);
-      
-      this.logger.log(`Paybill payment initiated: ${response.merchantRequestId}`);
+      this.logger.log(`Processing paybill payment to ${paybillDto.businessNumber}, amount: ${paybillDto.amount}`);
+
+      const response = await this.b2bService.pay({
+        transactionId: paybillDto.transactionId,
+        commandId: 'BusinessPayBill',
+        receiverShortCode: paybillDto.businessNumber,
+        accountReference: paybillDto.accountNumber,
+        amount: paybillDto.amount,
+        phoneNumber: paybillDto.phoneNumber,
+      });
+
+      this.logger.log(`Paybill payment initiated: ${response.originatorConversationId}`);
       return response;
     } catch (error) {
       this.logger.error('Failed to process paybill payment:', error);
@@ -213,21 +364,19 @@ export class MpesaService {
     }
   }
 
-  async buyGoods(phoneNumber: string, tillNumber: string, amount: number, accountReference: string): Promise<STKPushResponse> {
+  async buyGoods(buyGoodsDto: BuyGoodsDto): Promise<B2BResponse> {
     try {
-      this.logger.log(`Processing till payment to ${tillNumber}, amount: ${amount}`);
-
-      const tillDto: StkPushDto = {
-        phoneNumber,
-        amount,
-        accountReference,
-        transactionDesc: `Buy goods - ${accountReference}`,
-        businessShortCode: tillNumber,
-      };
+      this.logger.log(`Processing till payment to ${buyGoodsDto.tillNumber}, amount: ${buyGoodsDto.amount}`);
 
-      const response = await this.stkPushService.initiateStkPush(tillDto);
-      
-      this.logger.log(`Till payment initiated: ${response.merchantRequestId}`);
+      const response = await this.b2bService.pay({
+        transactionId: buyGoodsDto.transactionId,
+        commandId: 'BusinessBuyGoods',
+        receiverShortCode: buyGoodsDto.tillNumber,
+        amount: buyGoodsDto.amount,
+        phoneNumber: buyGoodsDto.phoneNumber,
+      });
+
+      this.logger.log(`Till payment initiated: ${response.originatorConversationId}`);
       return response;
     } catch (error) {
       this.logger.error('Failed to process till payment:', error);
@@ -235,11 +384,50 @@ export class MpesaService {
     }
   }
 
-  async handleAirtimeCallback(callbackData: any): Promise<{ ResultCode: number; ResultDesc: string }> {
+  async lookupRecipient(type: string, identifier: string): Promise<MpesaRecipient> {
+    const recipientType = Object.values(MpesaRecipientType).find(value => value === type.toUpperCase());
+    if (!recipientType) {
+      throw new BadRequestException('Lookup type must be paybill, till or phone');
+    }
+
+    try {
+      return await this.recipientLookupService.lookup(recipientType, identifier);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error(`Failed to look up ${type} ${identifier}:`, error);
+      throw new BadRequestException('Failed to look up recipient');
+    }
+  }
+
+  async generateQrCode(qrCodeDto: QrCodeDto): Promise<DynamicQrResponse> {
+    try {
+      this.logger.log(`Generating QR code for ${qrCodeDto.type.toLowerCase()} ${qrCodeDto.shortCode}`);
+
+      return await this.qrCodeService.generate(qrCodeDto);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error('Failed to generate QR code:', error);
+      throw new BadRequestException('Failed to generate QR code');
+    }
+  }
+
+  async handleAirtimeCallback(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
     try {
       this.logger.log('Handling airtime callback');
 
-      const result = await this.callbackService.handleB2CCallback(callbackData);
+      const result = await this.callbackService.handleAirtimeResult(
+        mpesaTransactionId,
+        callbackData,
+        sourceIp
+      );
       
       this.logger.log(`Airtime callback processed: ${result.ResultCode}`);
       return result;
@@ -249,11 +437,19 @@ export class MpesaService {
     }
   }
 
-  async handlePaybillCallback(callbackData: any): Promise<{ ResultCode: number; ResultDesc: string }> {
+  async handlePaybillCallback(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
     try {
       this.logger.log('Handling paybill callback');
 
-      const result = await this.callbackService.handleStkPushCallback(callbackData);
+      const result = await this.callbackService.handleB2BCallback(
+        mpesaTransactionId,
+        callbackData,
+        sourceIp
+      );
       
       this.logger.log(`Paybill callback processed: ${result.ResultCode}`);
       return result;
@@ -263,11 +459,19 @@ export class MpesaService {
     }
   }
 
-  async handleTillCallback(callbackData: any): Promise<{ ResultCode: number; ResultDesc: string }> {
+  async handleTillCallback(
+    mpesaTransactionId: string,
+    callbackData: unknown,
+    sourceIp?: string
+  ): Promise<{ ResultCode: number; ResultDesc: string }> {
     try {
       this.logger.log('Handling till callback');
 
-      const result = await this.callbackService.handleStkPushCallback(callbackData);
+      const result = await this.callbackService.handleB2BCallback(
+        mpesaTransactionId,
+        callbackData,
+        sourceIp
+      );
       
       this.logger.log(`Till callback processed: ${result.ResultCode}`);
       return result;
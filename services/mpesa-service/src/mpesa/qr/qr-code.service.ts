@@ -0,0 +1,53 @@
+import { BadGatewayException, Injectable, Logger } from '@nestjs/common';
+import { DynamicQrResponse } from '@bitpesa/shared-types';
+import { generateLipaNaMpesaQr } from '@bitpesa/shared-utils';
+import { DarajaClient } from '../daraja/daraja.client';
+
+/**
+ * Lipa Na M-Pesa QR codes merchants can print
+ * The image comes from Daraja's Dynamic QR API so any M-Pesa app can pay it; the EMVCo
+ * payload it encodes is returned alongside so BitPesa's scan pages can read it directly.
+ */
+@Injectable()
+export class QrCodeService {
+  private readonly logger = new Logger(QrCodeService.name);
+
+  constructor(private readonly daraja: DarajaClient) {}
+
+  async generate(params: {
+    type: 'PAYBILL' | 'TILL';
+    merchantName: string;
+    shortCode: string;
+    accountNumber?: string;
+    amount: number;
+    size?: number;
+  }): Promise<DynamicQrResponse> {
+    const response = await this.daraja.generateDynamicQr({
+      merchantName: params.merchantName,
+      refNo: params.accountNumber ?? params.merchantName,
+      amount: params.amount,
+      trxCode: params.type === 'PAYBILL' ? 'PB' : 'BG',
+      cpi: params.shortCode,
+      size: params.size ?? 300,
+    });
+    if (!response?.QRCode) {
+      throw new BadGatewayException(
+        `Daraja did not generate a QR code: ${response?.ResponseDescription ?? 'no response'}`
+      );
+    }
+
+    this.logger.log(`Generated QR code ${response.RequestID} for ${params.shortCode}`);
+    return {
+      requestId: response.RequestID,
+      qrCode: response.QRCode,
+      payload: generateLipaNaMpesaQr({
+        type: params.type,
+        merchantName: params.merchantName,
+        shortCode: params.shortCode,
+        accountNumber: params.type === 'PAYBILL' ? params.accountNumber : undefined,
+        reference: params.type === 'TILL' ? params.accountNumber : undefined,
+        amount: params.amount,
+      }),
+    };
+  }
+}
@@ -0,0 +1,152 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MpesaStatus } from '@bitpesa/shared-types';
+import { ReconciliationService } from './reconciliation.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DarajaClient } from '../daraja/daraja.client';
+import { CallbackService } from '../callback/callback.service';
+import { CallbackTokenService } from '../callback/callback-token.service';
+
+describe('ReconciliationService', () => {
+  let service: ReconciliationService;
+  let mpesaTransactions: Array<Record<string, any>>;
+
+  const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+  const daraja = {
+    queryStkPush: jest.fn(),
+    queryTransactionStatus: jest.fn(),
+  };
+  const callbackService = {
+    handleStkPushQueryResult: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mpesaTransactions = [
+      {
+        id: 'mtx-stk',
+        checkoutRequestId: 'ws_CO_1',
+        originatorConversationId: null,
+        mpesaReceiptNumber: null,
+        status: MpesaStatus.PENDING,
+        reconcileAttempts: 0,
+        nextReconcileAt: null,
+        createdAt: minutesAgo(5),
+      },
+      {
+        id: 'mtx-b2c',
+        checkoutRequestId: null,
+        originatorConversationId: 'BP_1',
+        mpesaReceiptNumber: null,
+        status: MpesaStatus.PROCESSING,
+        reconcileAttempts: 0,
+        nextReconcileAt: null,
+        createdAt: minutesAgo(5),
+      },
+    ];
+
+    // In-memory mpesa_transactions table
+    const matches = (row: Record<string, any>, where: Record<string, any>) =>
+      (!where.id || row.id === where.id) &&
+      (!where.status || where.status.in.includes(row.status)) &&
+      (!where.createdAt || row.createdAt <= where.createdAt.lte) &&
+      (!where.OR ||
+        row.nextReconcileAt === null ||
+        row.nextReconcileAt <= where.OR[1].nextReconcileAt.lte);
+
+    const prisma = {
+      mpesaTransaction: {
+        findMany: jest.fn(async ({ where }) =>
+          mpesaTransactions.filter(row => matches(row, where))
+        ),
+        update: jest.fn(async ({ where, data }) => {
+          const row = mpesaTransactions.find(candidate => candidate.id === where.id)!;
+          row.reconcileAttempts += data.reconcileAttempts.increment;
+          row.nextReconcileAt = data.nextReconcileAt;
+          return row;
+        }),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const rows = mpesaTransactions.filter(row => matches(row, where));
+          rows.forEach(row => Object.assign(row, data));
+          return { count: rows.length };
+        }),
+      },
+    };
+
+    const config: Record<string, string> = {
+      MPESA_CALLBACK_URL: 'https://bitpesa.example/api/v1/mpesa/callback',
+      MPESA_CALLBACK_SECRET: 'callback-secret',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReconciliationService,
+        CallbackTokenService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: DarajaClient, useValue: daraja },
+        { provide: CallbackService, useValue: callbackService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key, defaultValue) => config[key] ?? defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReconciliationService>(ReconciliationService);
+  });
+
+  it('should settle a stale STK Push from its STK Push Query result', async () => {
+    const response = {
+      MerchantRequestID: '29115-34620561-1',
+      CheckoutRequestID: 'ws_CO_1',
+      ResponseCode: '0',
+      ResultCode: '1032',
+      ResultDesc: 'Request cancelled by user',
+    };
+    daraja.queryStkPush.mockResolvedValue(response);
+
+    await service.reconcileOnce();
+
+    expect(daraja.queryStkPush).toHaveBeenCalledWith('ws_CO_1');
+    expect(callbackService.handleStkPushQueryResult).toHaveBeenCalledWith('mtx-stk', response);
+  });
+
+  it('should ask for a B2C result on the status and timeout URLs issued for it', async () => {
+    daraja.queryStkPush.mockResolvedValue({});
+
+    await service.reconcileOnce();
+
+    expect(daraja.queryTransactionStatus).toHaveBeenCalledWith({
+      transactionId: undefined,
+      originatorConversationId: 'BP_1',
+      resultUrl: expect.stringMatching(
+        /^https:\/\/bitpesa\.example\/api\/v1\/mpesa\/callback\/status\/mtx-b2c\/[0-9a-f]{64}$/
+      ),
+      timeoutUrl: expect.stringContaining('/callback/timeout/mtx-b2c/'),
+    });
+  });
+
+  it('should leave fresh requests and back off between queries', async () => {
+    mpesaTransactions[1].createdAt = new Date();
+    daraja.queryStkPush.mockRejectedValue(new Error('The transaction is being processed'));
+
+    await service.reconcileOnce();
+    await service.reconcileOnce();
+
+    expect(daraja.queryStkPush).toHaveBeenCalledTimes(1);
+    expect(daraja.queryTransactionStatus).not.toHaveBeenCalled();
+    expect(mpesaTransactions[0].reconcileAttempts).toBe(1);
+    expect(mpesaTransactions[0].nextReconcileAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should set a request to TIMEOUT once it runs out of attempts', async () => {
+    mpesaTransactions[0].reconcileAttempts = 10;
+    mpesaTransactions[0].nextReconcileAt = minutesAgo(1);
+
+    await service.reconcileOnce();
+
+    expect(daraja.queryStkPush).not.toHaveBeenCalled();
+    expect(mpesaTransactions[0].status).toBe(MpesaStatus.TIMEOUT);
+  });
+});
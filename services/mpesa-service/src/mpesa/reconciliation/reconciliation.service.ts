@@ -0,0 +1,153 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MpesaStatus } from '@bitpesa/shared-types';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DarajaClient } from '../daraja/daraja.client';
+import { CallbackService } from '../callback/callback.service';
+import { CallbackTokenService } from '../callback/callback-token.service';
+
+/**
+ * Longest wait between two status queries for the same request
+ */
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+interface StaleRequest {
+  id: string;
+  checkoutRequestId: string | null;
+  originatorConversationId: string | null;
+  mpesaReceiptNumber: string | null;
+  reconcileAttempts: number;
+}
+
+/**
+ * Resolves M-Pesa requests Daraja has not called back about
+ * A request still PENDING or PROCESSING MPESA_RECONCILE_AFTER_MS after it was made is
+ * queried upstream: an STK Push with STK Push Query, whose answer settles it right away,
+ * and a B2C payment with Transaction Status Query, whose answer arrives on the status
+ * callback. Settling publishes mpesa.completed / mpesa.failed to transaction-service.
+ * Queries back off exponentially; after MPESA_RECONCILE_MAX_ATTEMPTS the request is set to
+ * TIMEOUT for manual review rather than failed, since the money may have moved.
+ */
+@Injectable()
+export class ReconciliationService implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(ReconciliationService.name);
+  private readonly intervalMs: number;
+  private readonly staleAfterMs: number;
+  private readonly maxAttempts: number;
+  private readonly batchSize = 50;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly daraja: DarajaClient,
+    private readonly callbackService: CallbackService,
+    private readonly callbackTokens: CallbackTokenService,
+    configService: ConfigService
+  ) {
+    this.intervalMs = Number(configService.get('MPESA_RECONCILE_INTERVAL_MS', 30000));
+    this.staleAfterMs = Number(configService.get('MPESA_RECONCILE_AFTER_MS', 120000));
+    this.maxAttempts = Number(configService.get('MPESA_RECONCILE_MAX_ATTEMPTS', 10));
+  }
+
+  onApplicationBootstrap(): void {
+    this.schedule();
+  }
+
+  onApplicationShutdown(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  /**
+   * Query every request that is due, returning how many were picked up
+   */
+  async reconcileOnce(): Promise<number> {
+    const now = new Date();
+    const due: StaleRequest[] = await this.prisma.mpesaTransaction.findMany({
+      where: {
+        status: { in: [MpesaStatus.PENDING, MpesaStatus.PROCESSING] },
+        createdAt: { lte: new Date(now.getTime() - this.staleAfterMs) },
+        OR: [{ nextReconcileAt: null }, { nextReconcileAt: { lte: now } }],
+      },
+      orderBy: { createdAt: 'asc' },
+      take: this.batchSize,
+    });
+
+    for (const request of due) {
+      try {
+        await this.reconcile(request);
+      } catch (error) {
+        // Daraja also answers STK Push Query with an error while the prompt is still open
+        this.logger.warn(
+          `Reconciling M-Pesa request ${request.id} failed: ${(error as Error).message}`
+        );
+      }
+    }
+
+    return due.length;
+  }
+
+  private async reconcile(request: StaleRequest): Promise<void> {
+    if (request.reconcileAttempts >= this.maxAttempts) {
+      await this.prisma.mpesaTransaction.updateMany({
+        where: {
+          id: request.id,
+          status: { in: [MpesaStatus.PENDING, MpesaStatus.PROCESSING] },
+        },
+        data: { status: MpesaStatus.TIMEOUT, nextReconcileAt: null },
+      });
+      this.logger.error(
+        `M-Pesa request ${request.id} unresolved after ${request.reconcileAttempts} status queries; needs manual review`
+      );
+      return;
+    }
+
+    // Book the attempt first so a request is not queried again while Daraja is slow to answer
+    await this.prisma.mpesaTransaction.update({
+      where: { id: request.id },
+      data: {
+        reconcileAttempts: { increment: 1 },
+        nextReconcileAt: new Date(Date.now() + this.backoffMs(request.reconcileAttempts)),
+      },
+    });
+
+    if (request.checkoutRequestId) {
+      const response = await this.daraja.queryStkPush(request.checkoutRequestId);
+      if (response?.ResultCode !== undefined) {
+        await this.callbackService.handleStkPushQueryResult(request.id, response);
+      }
+    } else if (request.originatorConversationId) {
+      await this.daraja.queryTransactionStatus({
+        transactionId: request.mpesaReceiptNumber ?? undefined,
+        originatorConversationId: request.originatorConversationId,
+        resultUrl: this.callbackTokens.callbackUrl('status', request.id),
+        timeoutUrl: this.callbackTokens.callbackUrl('timeout', request.id),
+      });
+    } else {
+      this.logger.warn(`M-Pesa request ${request.id} has no Daraja request id to query`);
+    }
+  }
+
+  private backoffMs(attempt: number): number {
+    return Math.min(this.intervalMs * 2 ** attempt, MAX_BACKOFF_MS);
+  }
+
+  private schedule(): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        await this.reconcileOnce();
+      } catch (error) {
+        this.logger.error('M-Pesa reconciliation failed', error);
+      }
+      this.schedule();
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MpesaStatus } from '@bitpesa/shared-types';
+import { ReversalService } from './reversal.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DarajaClient } from '../daraja/daraja.client';
+import { CallbackTokenService } from '../callback/callback-token.service';
+
+describe('ReversalService', () => {
+  let service: ReversalService;
+  let mpesaTransaction: Record<string, any>;
+  let reversals: Array<Record<string, any>>;
+
+  const daraja = {
+    reverseTransaction: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    daraja.reverseTransaction.mockResolvedValue({
+      OriginatorConversationID: '71840-27539181-07',
+      ConversationID: 'AG_20210709_12346c8e6f8858d7b70a',
+      ResponseCode: '0',
+    });
+    mpesaTransaction = {
+      id: 'mtx-1',
+      transactionId: 'tx-1',
+      mpesaReceiptNumber: 'NLJ41HAY6Q',
+      amount: 1000,
+      status: MpesaStatus.COMPLETED,
+    };
+    reversals = [];
+
+    // In-memory mpesa_transactions and mpesa_reversals tables
+    const prisma = {
+      mpesaTransaction: {
+        findUnique: jest.fn(async ({ where }) =>
+          where.id === mpesaTransaction.id ? mpesaTransaction : null
+        ),
+      },
+      mpesaReversal: {
+        findFirst: jest.fn(
+          async ({ where }) =>
+            reversals.find(
+              row =>
+                row.mpesaTransactionId === where.mpesaTransactionId &&
+                where.status.in.includes(row.status)
+            ) ?? null
+        ),
+        create: jest.fn(async ({ data }) => {
+          const reversal = {
+            id: `rev-${reversals.length + 1}`,
+            status: MpesaStatus.PENDING,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            ...data,
+          };
+          reversals.push(reversal);
+          return reversal;
+        }),
+        update: jest.fn(async ({ where, data }) =>
+          Object.assign(reversals.find(row => row.id === where.id)!, data)
+        ),
+      },
+    };
+
+    const config: Record<string, string> = {
+      MPESA_CALLBACK_URL: 'https://bitpesa.example/api/v1/mpesa/callback',
+      MPESA_CALLBACK_SECRET: 'callback-secret',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReversalService,
+        CallbackTokenService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: DarajaClient, useValue: daraja },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key, defaultValue) => config[key] ?? defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReversalService>(ReversalService);
+  });
+
+  it('should record the reversal against the transaction and send it to Daraja', async () => {
+    const reversal = await service.requestReversal('mtx-1', {
+      reason: 'Paid to the wrong recipient',
+      requestedBy: 'ops-admin',
+    });
+
+    expect(daraja.reverseTransaction).toHaveBeenCalledWith({
+      transactionId: 'NLJ41HAY6Q',
+      amount: 1000,
+      remarks: 'Paid to the wrong recipient',
+      resultUrl: expect.stringContaining('/callback/reversal/mtx-1/'),
+      timeoutUrl: expect.stringContaining('/callback/reversal/mtx-1/'),
+    });
+    expect(reversal).toMatchObject({
+      mpesaTransactionId: 'mtx-1',
+      transactionId: 'tx-1',
+      receiptNumber: 'NLJ41HAY6Q',
+      requestedBy: 'ops-admin',
+      status: MpesaStatus.PENDING,
+    });
+    expect(reversals[0].originatorConversationId).toBe('71840-27539181-07');
+  });
+
+  it('should only reverse completed payments', async () => {
+    mpesaTransaction.status = MpesaStatus.PENDING;
+
+    await expect(
+      service.requestReversal('mtx-1', { reason: 'Duplicate payout', requestedBy: 'ops-admin' })
+    ).rejects.toThrow('only completed payments can be reversed');
+    expect(daraja.reverseTransaction).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a second reversal while one is in progress', async () => {
+    const params = { reason: 'Duplicate payout', requestedBy: 'ops-admin' };
+    await service.requestReversal('mtx-1', params);
+
+    await expect(service.requestReversal('mtx-1', params)).rejects.toThrow(
+      'already has reversal rev-1 (PENDING)'
+    );
+  });
+
+  it('should fail the reversal when Daraja rejects it, so it can be requested again', async () => {
+    daraja.reverseTransaction.mockRejectedValueOnce(new Error('Request failed with status 400'));
+    const params = { reason: 'Duplicate payout', requestedBy: 'ops-admin' };
+
+    await expect(service.requestReversal('mtx-1', params)).rejects.toThrow('status 400');
+    expect(reversals[0].status).toBe(MpesaStatus.FAILED);
+
+    await expect(service.requestReversal('mtx-1', params)).resolves.toMatchObject({ id: 'rev-2' });
+  });
+});
@@ -0,0 +1,128 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { MpesaReversal, MpesaStatus } from '@bitpesa/shared-types';
+import { PrismaService } from '../../prisma/prisma.service';
+import { DarajaClient } from '../daraja/daraja.client';
+import { CallbackTokenService } from '../callback/callback-token.service';
+
+interface ReversalRow {
+  id: string;
+  mpesaTransactionId: string;
+  transactionId: string;
+  receiptNumber: string;
+  amount: { toString(): string };
+  reason: string;
+  requestedBy: string;
+  status: string;
+  resultCode: string | null;
+  resultDesc: string | null;
+  reversalReceiptNumber: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Undoes completed M-Pesa payments with the Daraja Reversal API
+ * A reversal is recorded against the M-Pesa request and the bridge transaction it paid out
+ * for, with who asked for it and why, before Daraja is called. Its result arrives on the
+ * reversal callback, where CallbackService settles it and moves the request to REVERSED.
+ */
+@Injectable()
+export class ReversalService {
+  private readonly logger = new Logger(ReversalService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly daraja: DarajaClient,
+    private readonly callbackTokens: CallbackTokenService
+  ) {}
+
+  async requestReversal(
+    mpesaTransactionId: string,
+    params: { reason: string; requestedBy: string }
+  ): Promise<MpesaReversal> {
+    const mpesaTransaction = await this.prisma.mpesaTransaction.findUnique({
+      where: { id: mpesaTransactionId },
+    });
+    if (!mpesaTransaction) {
+      throw new NotFoundException(`No M-Pesa request ${mpesaTransactionId}`);
+    }
+    if (mpesaTransaction.status !== MpesaStatus.COMPLETED || !mpesaTransaction.mpesaReceiptNumber) {
+      throw new ConflictException(
+        `M-Pesa request ${mpesaTransactionId} is ${mpesaTransaction.status}; only completed payments can be reversed`
+      );
+    }
+
+    // A failed reversal can be requested again; one in flight or done cannot
+    const existing = await this.prisma.mpesaReversal.findFirst({
+      where: {
+        mpesaTransactionId,
+        status: { in: [MpesaStatus.PENDING, MpesaStatus.COMPLETED] },
+      },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `M-Pesa request ${mpesaTransactionId} already has reversal ${existing.id} (${existing.status})`
+      );
+    }
+
+    const reversal: ReversalRow = await this.prisma.mpesaReversal.create({
+      data: {
+        mpesaTransactionId,
+        transactionId: mpesaTransaction.transactionId,
+        receiptNumber: mpesaTransaction.mpesaReceiptNumber,
+        amount: mpesaTransaction.amount,
+        reason: params.reason,
+        requestedBy: params.requestedBy,
+      },
+    });
+
+    // Daraja posts both the result and a queue timeout to the same route
+    const callbackUrl = this.callbackTokens.callbackUrl('reversal', mpesaTransactionId);
+    let response: { OriginatorConversationID?: string; ConversationID?: string };
+    try {
+      response = await this.daraja.reverseTransaction({
+        transactionId: mpesaTransaction.mpesaReceiptNumber,
+        amount: Number(mpesaTransaction.amount),
+        remarks: params.reason,
+        resultUrl: callbackUrl,
+        timeoutUrl: callbackUrl,
+      });
+    } catch (error) {
+      await this.prisma.mpesaReversal.update({
+        where: { id: reversal.id },
+        data: { status: MpesaStatus.FAILED, resultDesc: (error as Error).message },
+      });
+      throw error;
+    }
+
+    this.logger.log(
+      `Reversal ${reversal.id} of ${mpesaTransaction.mpesaReceiptNumber} for transaction ${mpesaTransaction.transactionId} requested by ${params.requestedBy}`
+    );
+    const updated: ReversalRow = await this.prisma.mpesaReversal.update({
+      where: { id: reversal.id },
+      data: {
+        originatorConversationId: response.OriginatorConversationID,
+        conversationId: response.ConversationID,
+      },
+    });
+    return this.toReversal(updated);
+  }
+
+  private toReversal(row: ReversalRow): MpesaReversal {
+    return {
+      id: row.id,
+      mpesaTransactionId: row.mpesaTransactionId,
+      transactionId: row.transactionId,
+      receiptNumber: row.receiptNumber,
+      amount: Number(row.amount),
+      reason: row.reason,
+      requestedBy: row.requestedBy,
+      status: row.status as MpesaStatus,
+      resultCode: row.resultCode ?? undefined,
+      resultDesc: row.resultDesc ?? undefined,
+      reversalReceiptNumber: row.reversalReceiptNumber ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
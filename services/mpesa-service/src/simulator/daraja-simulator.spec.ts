@@ -0,0 +1,197 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { DarajaSimulator } from './daraja-simulator';
+import { DarajaClient } from '../mpesa/daraja/daraja.client';
+
+describe('DarajaSimulator', () => {
+  let simulator: DarajaSimulator;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let callbacks: Array<{ path: string; body: Record<string, any> }>;
+  let daraja: DarajaClient;
+
+  beforeEach(async () => {
+    // Stands in for mpesa-service's callback routes
+    callbacks = [];
+    receiver = http.createServer((request, response) => {
+      const chunks: Buffer[] = [];
+      request.on('data', chunk => chunks.push(chunk));
+      request.on('end', () => {
+        callbacks.push({ path: request.url!, body: JSON.parse(Buffer.concat(chunks).toString()) });
+        response.end();
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+
+    simulator = new DarajaSimulator({
+      callbackDelayMs: 10,
+      balance: 5000,
+      scenarios: { '254708000002': 'user_cancelled', '254708000003': 'timeout' },
+    });
+    await simulator.listen(0);
+
+    const config: Record<string, string> = {
+      MPESA_ENVIRONMENT: 'simulator',
+      MPESA_SIMULATOR_URL: simulator.url,
+      MPESA_CONSUMER_KEY: 'consumer-key',
+      MPESA_CONSUMER_SECRET: 'consumer-secret',
+      MPESA_SHORTCODE: '174379',
+      MPESA_PASSKEY: 'passkey',
+      MPESA_INITIATOR_NAME: 'testapi',
+      MPESA_INITIATOR_PASSWORD: 'credential',
+    };
+    daraja = new DarajaClient({
+      get: jest.fn((key, defaultValue) => config[key] ?? defaultValue),
+    } as unknown as ConfigService);
+    await daraja.onModuleInit();
+  });
+
+  afterEach(async () => {
+    await simulator.flush();
+    await simulator.close();
+    await new Promise(resolve => receiver.close(resolve));
+  });
+
+  const stkPush = (phoneNumber: string) =>
+    daraja.initiateStkPush({
+      phoneNumber,
+      amount: 1000,
+      accountReference: 'BP-1',
+      transactionDesc: 'Bitcoin purchase',
+      callbackUrl: `${receiverUrl}/stk-push/mtx-1/token`,
+    });
+
+  it('should accept an STK Push and call back with the payment', async () => {
+    const response = await stkPush('254708000001');
+    await simulator.flush();
+
+    expect(response).toMatchObject({ ResponseCode: '0', CheckoutRequestID: expect.any(String) });
+    expect(callbacks).toEqual([
+      {
+        path: '/stk-push/mtx-1/token',
+        body: {
+          Body: {
+            stkCallback: expect.objectContaining({
+              CheckoutRequestID: response.CheckoutRequestID,
+              ResultCode: 0,
+              CallbackMetadata: {
+                Item: expect.arrayContaining([
+                  { Name: 'Amount', Value: 1000 },
+                  { Name: 'MpesaReceiptNumber', Value: expect.stringMatching(/^[A-Z0-9]{10}$/) },
+                ]),
+              },
+            }),
+          },
+        },
+      },
+    ]);
+  });
+
+  it('should answer STK Push Query only once the customer has acted', async () => {
+    const { CheckoutRequestID } = await stkPush('254708000002');
+
+    await expect(daraja.queryStkPush(CheckoutRequestID)).rejects.toMatchObject({
+      response: { status: 500, data: { errorMessage: 'The transaction is being processed' } },
+    });
+
+    await simulator.flush();
+    expect(callbacks[0].body.Body.stkCallback).toMatchObject({ ResultCode: 1032 });
+    await expect(daraja.queryStkPush(CheckoutRequestID)).resolves.toMatchObject({
+      ResultCode: '1032',
+      ResultDesc: 'Request cancelled by user',
+    });
+  });
+
+  it('should send a B2C payment that times out to its QueueTimeOutURL', async () => {
+    const urls = {
+      resultUrl: `${receiverUrl}/b2c/mtx-2/token`,
+      timeoutUrl: `${receiverUrl}/timeout/mtx-2/token`,
+    };
+
+    await daraja.sendB2C({
+      phoneNumber: '254708000003',
+      amount: 500,
+      accountReference: 'BP-2',
+      transactionDesc: 'Bitcoin sale',
+      ...urls,
+    });
+    await simulator.flush();
+
+    expect(callbacks).toEqual([
+      {
+        path: '/timeout/mtx-2/token',
+        body: { Result: expect.objectContaining({ ResultCode: 1 }) },
+      },
+    ]);
+  });
+
+  it('should pay a paybill with B2B and report the receipt to its ResultURL', async () => {
+    const response = await daraja.sendB2B({
+      commandId: 'BusinessPayBill',
+      receiverShortCode: '888880',
+      amount: 1200,
+      accountReference: '1234567890',
+      requester: '254708000001',
+      remarks: 'Paybill 888880',
+      originatorConversationId: 'b2b-1',
+      resultUrl: `${receiverUrl}/paybill/mtx-3/token`,
+      timeoutUrl: `${receiverUrl}/timeout/mtx-3/token`,
+    });
+    await simulator.flush();
+
+    expect(response).toMatchObject({ OriginatorConversationID: 'b2b-1', ResponseCode: '0' });
+    expect(callbacks[0].path).toBe('/paybill/mtx-3/token');
+    expect(callbacks[0].body.Result).toMatchObject({
+      ResultCode: 0,
+      OriginatorConversationID: 'b2b-1',
+      TransactionID: expect.stringMatching(/^[A-Z0-9]{10}$/),
+      ResultParameters: {
+        ResultParameter: expect.arrayContaining([{ Key: 'Amount', Value: 1200 }]),
+      },
+    });
+  });
+
+  it('should fail B2C payments beyond the organisation balance', async () => {
+    await daraja.sendB2C({
+      phoneNumber: '254708000001',
+      amount: 6000,
+      accountReference: 'BP-3',
+      transactionDesc: 'Bitcoin sale',
+      resultUrl: `${receiverUrl}/b2c/mtx-3/token`,
+      timeoutUrl: `${receiverUrl}/timeout/mtx-3/token`,
+    });
+    await simulator.flush();
+
+    expect(callbacks[0].body.Result).toMatchObject({
+      ResultCode: 1,
+      ResultDesc: 'The balance is insufficient for the transaction.',
+    });
+  });
+
+  it('should generate a Dynamic QR code image', async () => {
+    const response = await daraja.generateDynamicQr({
+      merchantName: 'Mama Mboga',
+      refNo: 'INV-1001',
+      amount: 500,
+      trxCode: 'BG',
+      cpi: '123456',
+      size: 300,
+    });
+
+    expect(response).toMatchObject({
+      ResponseDescription: 'The service request is processed successfully.',
+      QRCode: expect.stringMatching(/^iVBORw0KGgo/),
+    });
+  });
+
+  it('should reject requests without an access token', async () => {
+    await expect(
+      axios.post(`${simulator.url}/mpesa/stkpush/v1/processrequest`, {})
+    ).rejects.toMatchObject({
+      response: { status: 401, data: { errorCode: '404.001.03' } },
+    });
+  });
+});
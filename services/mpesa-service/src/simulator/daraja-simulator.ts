@@ -0,0 +1,733 @@
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { Logger } from '@nestjs/common';
+import axios from 'axios';
+
+export type DarajaScenario = 'success' | 'insufficient_funds' | 'user_cancelled' | 'timeout';
+
+export const DARAJA_SCENARIOS: DarajaScenario[] = [
+  'success',
+  'insufficient_funds',
+  'user_cancelled',
+  'timeout',
+];
+
+export interface DarajaSimulatorOptions {
+  /** Outcome of requests whose phone number has no scenario of its own */
+  scenario?: DarajaScenario;
+  /** Outcome by customer phone number, e.g. { '254708000002': 'user_cancelled' } */
+  scenarios?: Record<string, DarajaScenario>;
+  /** Wait before each asynchronous callback is sent */
+  callbackDelayMs?: number;
+  /** Utility account balance in KES that B2C payments draw on */
+  balance?: number;
+}
+
+// Daraja reports some results, such as reversal errors, with alphanumeric codes
+type Result = { ResultCode: number | string; ResultDesc: string };
+type Body = Record<string, any>;
+
+// STK Push results as the customer's handset reports them
+const STK_RESULTS: Record<DarajaScenario, Result> = {
+  success: { ResultCode: 0, ResultDesc: 'The service request is processed successfully.' },
+  insufficient_funds: {
+    ResultCode: 1,
+    ResultDesc: 'The balance is insufficient for the transaction.',
+  },
+  user_cancelled: { ResultCode: 1032, ResultDesc: 'Request cancelled by user' },
+  timeout: { ResultCode: 1037, ResultDesc: 'DS timeout user cannot be reached' },
+};
+
+// Results of organisation-initiated requests; a payout recipient cannot cancel, so
+// user_cancelled stands for a recipient who cannot receive the payment
+const RESULTS: Record<Exclude<DarajaScenario, 'timeout'>, Result> = {
+  success: { ResultCode: 0, ResultDesc: 'The service request is processed successfully.' },
+  insufficient_funds: {
+    ResultCode: 1,
+    ResultDesc: 'The balance is insufficient for the transaction.',
+  },
+  user_cancelled: {
+    ResultCode: 2040,
+    ResultDesc:
+      'Credit Party customer type (Unregistered or Registered Customer) can not be supported by the service.',
+  },
+};
+
+// Stands in for the QR code images Daraja generates: a 1x1 PNG
+const PLACEHOLDER_QR_CODE =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+interface SimulatedTransaction {
+  merchantRequestId?: string;
+  checkoutRequestId?: string;
+  conversationId: string;
+  originatorConversationId: string;
+  receipt: string;
+  amount: number;
+  phoneNumber: string;
+  // Set once the outcome has been sent
+  result?: Result;
+  completedAt?: Date;
+}
+
+class DarajaError extends Error {
+  constructor(
+    readonly status: number,
+    readonly errorCode: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Local stand-in for Safaricom's Daraja API
+ * Serves the OAuth, STK Push, B2C, C2B, account balance, transaction status and reversal
+ * endpoints with Daraja's synchronous responses, then posts the outcome to the callback
+ * URLs given in each request after callbackDelayMs. The outcome follows the scenario for
+ * the customer's phone number, or the default scenario; with 'timeout', asynchronous
+ * requests are answered on their QueueTimeOutURL instead of their ResultURL.
+ * POST /simulator/scenario { scenario, phoneNumber? } changes scenarios at runtime.
+ */
+export class DarajaSimulator {
+  private readonly logger = new Logger(DarajaSimulator.name);
+  private readonly server: http.Server;
+  private readonly scenarios: Map<string, DarajaScenario>;
+  private readonly transactions: SimulatedTransaction[] = [];
+  private readonly accessTokens = new Set<string>();
+  private readonly c2bUrls = new Map<string, { confirmationUrl: string; validationUrl: string }>();
+  private readonly pending = new Set<Promise<void>>();
+  private defaultScenario: DarajaScenario;
+  private callbackDelayMs: number;
+  private balance: number;
+
+  constructor(options: DarajaSimulatorOptions = {}) {
+    this.defaultScenario = options.scenario ?? 'success';
+    this.scenarios = new Map(Object.entries(options.scenarios ?? {}));
+    this.callbackDelayMs = options.callbackDelayMs ?? 1000;
+    this.balance = options.balance ?? 1000000;
+    this.server = http.createServer((request, response) => this.handle(request, response));
+  }
+
+  async listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(port, host, resolve));
+    this.logger.log(`Daraja simulator listening on ${this.url}`);
+    return this.url;
+  }
+
+  get url(): string {
+    const { address, port } = this.server.address() as AddressInfo;
+    return `http://${address}:${port}`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  setScenario(scenario: DarajaScenario, phoneNumber?: string): void {
+    if (phoneNumber) {
+      this.scenarios.set(phoneNumber, scenario);
+    } else {
+      this.defaultScenario = scenario;
+    }
+  }
+
+  /**
+   * Resolves once every callback scheduled so far has been sent
+   */
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all([...this.pending]);
+    }
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse) {
+    const path = (request.url ?? '').split('?')[0];
+    try {
+      const body = await this.readBody(request);
+      let result: Body;
+
+      // Daraja documents GET; DarajaClient POSTs
+      if (path === '/oauth/v1/generate') {
+        result = this.generateToken(request);
+      } else if (request.method === 'POST' && path === '/simulator/scenario') {
+        result = this.configureScenario(body);
+      } else {
+        this.authorize(request);
+        result = this.route(request.method, path, body);
+      }
+
+      this.send(response, 200, result);
+    } catch (error) {
+      const darajaError =
+        error instanceof DarajaError
+          ? error
+          : new DarajaError(500, '500.003.02', (error as Error).message);
+      this.send(response, darajaError.status, {
+        requestId: this.id(),
+        errorCode: darajaError.errorCode,
+        errorMessage: darajaError.message,
+      });
+    }
+  }
+
+  private route(method: string | undefined, path: string, body: Body): Body {
+    if (method !== 'POST') {
+      throw new DarajaError(404, '404.001.01', 'Resource not found');
+    }
+
+    switch (path) {
+      case '/mpesa/stkpush/v1/processrequest':
+        return this.stkPush(body);
+      case '/mpesa/stkpushquery/v1/query':
+        return this.stkPushQuery(body);
+      case '/mpesa/b2c/v1/paymentrequest':
+        return this.b2c(body);
+      case '/mpesa/b2b/v1/paymentrequest':
+        return this.b2b(body);
+      case '/mpesa/c2b/v1/registerurl':
+        return this.registerC2B(body);
+      case '/mpesa/c2b/v1/simulate':
+        return this.simulateC2B(body);
+      case '/mpesa/accountbalance/v1/query':
+        return this.accountBalance(body);
+      case '/mpesa/transactionstatus/v1/query':
+        return this.transactionStatus(body);
+      case '/mpesa/reversal/v1/request':
+        return this.reversal(body);
+      case '/mpesa/qrcode/v1/generate':
+        return this.dynamicQr(body);
+      default:
+        throw new DarajaError(404, '404.001.01', 'Resource not found');
+    }
+  }
+
+  private generateToken(request: http.IncomingMessage): Body {
+    if (!request.headers.authorization?.startsWith('Basic ')) {
+      throw new DarajaError(400, '400.008.01', 'Invalid Authentication passed');
+    }
+
+    const accessToken = crypto.randomBytes(18).toString('base64url');
+    this.accessTokens.add(accessToken);
+    return { access_token: accessToken, expires_in: '3599' };
+  }
+
+  private authorize(request: http.IncomingMessage): void {
+    const token = request.headers.authorization?.replace(/^Bearer /, '');
+    if (!token || !this.accessTokens.has(token)) {
+      throw new DarajaError(401, '404.001.03', 'Invalid Access Token');
+    }
+  }
+
+  private configureScenario(body: Body): Body {
+    if (!DARAJA_SCENARIOS.includes(body.scenario)) {
+      throw new DarajaError(400, '400.002.02', `Unknown scenario ${body.scenario}`);
+    }
+
+    this.setScenario(body.scenario, body.phoneNumber);
+    return { scenario: body.scenario, phoneNumber: body.phoneNumber ?? null };
+  }
+
+  private stkPush(body: Body): Body {
+    this.require(body, [
+      'BusinessShortCode',
+      'Password',
+      'Timestamp',
+      'Amount',
+      'PhoneNumber',
+      'CallBackURL',
+    ]);
+
+    const transaction = this.record({
+      merchantRequestId: `${this.digits(5)}-${this.digits(8)}-1`,
+      checkoutRequestId: `ws_CO_${this.timestamp()}${this.digits(6)}`,
+      amount: Number(body.Amount),
+      phoneNumber: String(body.PhoneNumber),
+    });
+    const result = STK_RESULTS[this.scenarioFor(transaction.phoneNumber)];
+
+    this.schedule(transaction, result, body.CallBackURL, () => ({
+      Body: {
+        stkCallback: {
+          MerchantRequestID: transaction.merchantRequestId,
+          CheckoutRequestID: transaction.checkoutRequestId,
+          ...result,
+          ...(result.ResultCode === 0 && {
+            CallbackMetadata: {
+              Item: [
+                { Name: 'Amount', Value: transaction.amount },
+                { Name: 'MpesaReceiptNumber', Value: transaction.receipt },
+                { Name: 'Balance' },
+                { Name: 'TransactionDate', Value: Number(this.timestamp()) },
+                { Name: 'PhoneNumber', Value: Number(transaction.phoneNumber) },
+              ],
+            },
+          }),
+        },
+      },
+    }));
+
+    return {
+      MerchantRequestID: transaction.merchantRequestId,
+      CheckoutRequestID: transaction.checkoutRequestId,
+      ResponseCode: '0',
+      ResponseDescription: 'Success. Request accepted for processing',
+      CustomerMessage: 'Success. Request accepted for processing',
+    };
+  }
+
+  private stkPushQuery(body: Body): Body {
+    this.require(body, ['BusinessShortCode', 'CheckoutRequestID']);
+
+    const transaction = this.transactions.find(
+      candidate => candidate.checkoutRequestId === body.CheckoutRequestID
+    );
+    if (!transaction) {
+      throw new DarajaError(
+        500,
+        '500.001.1001',
+        'Unable to lock subscriber, a transaction is already in process for the current subscriber'
+      );
+    }
+    if (!transaction.result) {
+      throw new DarajaError(500, '500.001.1001', 'The transaction is being processed');
+    }
+
+    return {
+      ResponseCode: '0',
+      ResponseDescription: 'The service request has been accepted successsfully',
+      MerchantRequestID: transaction.merchantRequestId,
+      CheckoutRequestID: transaction.checkoutRequestId,
+      ResultCode: String(transaction.result.ResultCode),
+      ResultDesc: transaction.result.ResultDesc,
+    };
+  }
+
+  private b2c(body: Body): Body {
+    this.require(body, [
+      'InitiatorName',
+      'SecurityCredential',
+      'CommandID',
+      'Amount',
+      'PartyA',
+      'PartyB',
+      'ResultURL',
+      'QueueTimeOutURL',
+    ]);
+
+    const transaction = this.record({
+      originatorConversationId: body.OriginatorConversationID,
+      amount: Number(body.Amount),
+      phoneNumber: String(body.PartyB),
+    });
+    let scenario = this.scenarioFor(transaction.phoneNumber);
+    if (scenario === 'success' && transaction.amount > this.balance) {
+      scenario = 'insufficient_funds';
+    }
+
+    this.scheduleResult(transaction, scenario, body, result => {
+      if (result.ResultCode === 0) {
+        this.balance -= transaction.amount;
+      }
+      return result.ResultCode === 0
+        ? [
+            { Key: 'TransactionAmount', Value: transaction.amount },
+            { Key: 'TransactionReceipt', Value: transaction.receipt },
+            { Key: 'B2CRecipientIsRegisteredCustomer', Value: 'Y' },
+            { Key: 'B2CChargesPaidAccountAvailableFunds', Value: this.balance },
+            {
+              Key: 'ReceiverPartyPublicName',
+              Value: `${transaction.phoneNumber} - Simulated Customer`,
+            },
+            { Key: 'TransactionCompletedDateTime', Value: this.darajaDate(new Date()) },
+            { Key: 'B2CUtilityAccountAvailableFunds', Value: this.balance },
+            { Key: 'B2CWorkingAccountAvailableFunds', Value: this.balance },
+          ]
+        : undefined;
+    });
+
+    return this.accepted(transaction);
+  }
+
+  private b2b(body: Body): Body {
+    this.require(body, [
+      'Initiator',
+      'SecurityCredential',
+      'CommandID',
+      'SenderIdentifierType',
+      'RecieverIdentifierType',
+      'Amount',
+      'PartyA',
+      'PartyB',
+      'ResultURL',
+      'QueueTimeOutURL',
+    ]);
+    if (body.CommandID === 'BusinessPayBill' && !body.AccountReference) {
+      throw new DarajaError(400, '400.002.02', 'Invalid AccountReference');
+    }
+
+    // Scenarios are keyed by the customer the payment is made for
+    const transaction = this.record({
+      originatorConversationId: body.OriginatorConversationID,
+      amount: Number(body.Amount),
+      phoneNumber: String(body.Requester ?? ''),
+    });
+    let scenario = this.scenarioFor(transaction.phoneNumber);
+    if (scenario === 'success' && transaction.amount > this.balance) {
+      scenario = 'insufficient_funds';
+    }
+
+    this.scheduleResult(transaction, scenario, body, result => {
+      if (result.ResultCode === 0) {
+        this.balance -= transaction.amount;
+      }
+      return result.ResultCode === 0
+        ? [
+            {
+              Key: 'DebitAccountBalance',
+              Value: `{Amount={CurrencyCode=KES, BasicAmount=${this.balance}}}`,
+            },
+            { Key: 'Amount', Value: transaction.amount },
+            {
+              Key: 'DebitPartyAffectedAccountBalance',
+              Value: `Working Account|KES|${this.balance}|${this.balance}|0.00|0.00`,
+            },
+            { Key: 'TransCompletedTime', Value: Number(this.timestamp()) },
+            { Key: 'DebitPartyCharges', Value: '' },
+            { Key: 'ReceiverPartyPublicName', Value: `${body.PartyB} - Simulated Merchant` },
+            { Key: 'Currency', Value: 'KES' },
+            {
+              Key: 'InitiatorAccountCurrentBalance',
+              Value: `{Amount={CurrencyCode=KES, BasicAmount=${this.balance}}}`,
+            },
+          ]
+        : undefined;
+    });
+
+    return this.accepted(transaction);
+  }
+
+  private registerC2B(body: Body): Body {
+    this.require(body, ['ShortCode', 'ConfirmationURL']);
+
+    this.c2bUrls.set(String(body.ShortCode), {
+      confirmationUrl: body.ConfirmationURL,
+      validationUrl: body.ValidationURL,
+    });
+    return {
+      OriginatorCoversationID: this.id(),
+      ResponseCode: '0',
+      ResponseDescription: 'success',
+    };
+  }
+
+  /**
+   * Daraja's sandbox-only C2B simulate endpoint: a customer paying the shortcode
+   */
+  private simulateC2B(body: Body): Body {
+    this.require(body, ['ShortCode', 'Amount', 'Msisdn']);
+
+    const urls = this.c2bUrls.get(String(body.ShortCode));
+    if (!urls) {
+      throw new DarajaError(400, '400.002.02', `No URLs registered for ${body.ShortCode}`);
+    }
+
+    const transaction = this.record({
+      amount: Number(body.Amount),
+      phoneNumber: String(body.Msisdn),
+    });
+    this.schedule(transaction, RESULTS.success, urls.confirmationUrl, () => ({
+      TransactionType: body.CommandID === 'CustomerBuyGoodsOnline' ? 'Buy Goods' : 'Pay Bill',
+      TransID: transaction.receipt,
+      TransTime: this.timestamp(),
+      TransAmount: transaction.amount.toFixed(2),
+      BusinessShortCode: String(body.ShortCode),
+      BillRefNumber: body.BillRefNumber ?? '',
+      InvoiceNumber: '',
+      OrgAccountBalance: (this.balance += transaction.amount).toFixed(2),
+      ThirdPartyTransID: '',
+      MSISDN: transaction.phoneNumber,
+      FirstName: 'Simulated',
+      MiddleName: '',
+      LastName: 'Customer',
+    }));
+
+    return this.accepted(transaction);
+  }
+
+  private accountBalance(body: Body): Body {
+    this.require(body, [
+      'Initiator',
+      'SecurityCredential',
+      'PartyA',
+      'ResultURL',
+      'QueueTimeOutURL',
+    ]);
+
+    const transaction = this.record({ amount: 0, phoneNumber: '' });
+    this.scheduleResult(transaction, this.defaultScenario, body, result =>
+      result.ResultCode === 0
+        ? [
+            {
+              Key: 'AccountBalance',
+              Value: `Working Account|KES|0.00|0.00|0.00|0.00&Utility Account|KES|${this.balance.toFixed(2)}|${this.balance.toFixed(2)}|0.00|0.00`,
+            },
+            { Key: 'BOCompletedTime', Value: this.timestamp() },
+          ]
+        : undefined
+    );
+
+    return this.accepted(transaction);
+  }
+
+  private transactionStatus(body: Body): Body {
+    this.require(body, [
+      'Initiator',
+      'SecurityCredential',
+      'PartyA',
+      'ResultURL',
+      'QueueTimeOutURL',
+    ]);
+
+    const original = this.transactions.find(
+      candidate =>
+        (body.TransactionID && candidate.receipt === body.TransactionID) ||
+        (body.OriginalConversationID &&
+          candidate.originatorConversationId === body.OriginalConversationID)
+    );
+    const query = this.record({ amount: 0, phoneNumber: '' });
+    const scenario = this.defaultScenario === 'timeout' ? 'timeout' : 'success';
+
+    this.scheduleResult(
+      query,
+      scenario,
+      body,
+      () => {
+        if (!original) {
+          return undefined;
+        }
+        const status = !original.result
+          ? 'Pending'
+          : original.result.ResultCode === 0
+            ? 'Completed'
+            : 'Failed';
+        return [
+          { Key: 'ReceiptNo', Value: original.receipt },
+          { Key: 'TransactionStatus', Value: status },
+          { Key: 'Amount', Value: original.amount },
+          { Key: 'ReasonType', Value: original.result?.ResultDesc ?? '' },
+          { Key: 'OriginatorConversationID', Value: original.originatorConversationId },
+          {
+            Key: 'FinalisedTime',
+            Value: original.completedAt ? this.darajaDate(original.completedAt) : '',
+          },
+        ];
+      },
+      original ? undefined : { ResultCode: 2001, ResultDesc: 'The transaction could not be found.' }
+    );
+
+    return this.accepted(query);
+  }
+
+  private reversal(body: Body): Body {
+    this.require(body, [
+      'Initiator',
+      'SecurityCredential',
+      'TransactionID',
+      'Amount',
+      'ResultURL',
+      'QueueTimeOutURL',
+    ]);
+
+    const original = this.transactions.find(candidate => candidate.receipt === body.TransactionID);
+    const transaction = this.record({
+      amount: Number(body.Amount),
+      phoneNumber: original?.phoneNumber ?? '',
+    });
+
+    this.scheduleResult(
+      transaction,
+      this.scenarioFor(transaction.phoneNumber),
+      body,
+      result => {
+        if (result.ResultCode === 0) {
+          this.balance += transaction.amount;
+        }
+        return result.ResultCode === 0
+          ? [
+              { Key: 'OriginalTransactionID', Value: body.TransactionID },
+              { Key: 'Amount', Value: transaction.amount },
+              { Key: 'TransCompletedTime', Value: this.timestamp() },
+              {
+                Key: 'CreditPartyPublicName',
+                Value: `${transaction.phoneNumber} - Simulated Customer`,
+              },
+              { Key: 'DebitPartyPublicName', Value: `${body.ReceiverParty ?? ''} - BitPesa` },
+              { Key: 'Charge', Value: 0 },
+            ]
+          : undefined;
+      },
+      original
+        ? undefined
+        : { ResultCode: 'R000002', ResultDesc: 'The OriginalTransactionID is invalid.' }
+    );
+
+    return this.accepted(transaction);
+  }
+
+  /**
+   * Send an organisation-initiated request's result to its ResultURL, or a queue timeout
+   * to its QueueTimeOutURL
+   */
+  private scheduleResult(
+    transaction: SimulatedTransaction,
+    scenario: DarajaScenario,
+    body: Body,
+    parameters: (result: Result) => Array<{ Key: string; Value: unknown }> | undefined,
+    override?: Result
+  ): void {
+    if (scenario === 'timeout') {
+      this.schedule(transaction, undefined, body.QueueTimeOutURL, () => ({
+        Result: {
+          ResultType: 1,
+          ResultCode: 1,
+          ResultDesc: 'The request timed out in the queue.',
+          OriginatorConversationID: transaction.originatorConversationId,
+          ConversationID: transaction.conversationId,
+          TransactionID: '',
+        },
+      }));
+      return;
+    }
+
+    const result = override ?? RESULTS[scenario];
+    this.schedule(transaction, result, body.ResultURL, () => {
+      const resultParameters = parameters(result);
+      return {
+        Result: {
+          ResultType: 0,
+          ...result,
+          OriginatorConversationID: transaction.originatorConversationId,
+          ConversationID: transaction.conversationId,
+          TransactionID: transaction.receipt,
+          ...(resultParameters && { ResultParameters: { ResultParameter: resultParameters } }),
+          ReferenceData: {
+            ReferenceItem: { Key: 'QueueTimeoutURL', Value: body.QueueTimeOutURL },
+          },
+        },
+      };
+    });
+  }
+
+  private schedule(
+    transaction: SimulatedTransaction,
+    result: Result | undefined,
+    url: string,
+    payload: () => Body
+  ): void {
+    const delivery = new Promise<void>(resolve => setTimeout(resolve, this.callbackDelayMs))
+      .then(async () => {
+        transaction.result = result;
+        transaction.completedAt = new Date();
+        await axios.post(url, payload(), { timeout: 10000 });
+      })
+      .catch(error => this.logger.warn(`Callback to ${url} failed: ${error.message}`))
+      .finally(() => this.pending.delete(delivery));
+    this.pending.add(delivery);
+  }
+
+  private record(
+    fields: Pick<SimulatedTransaction, 'amount' | 'phoneNumber'> & Partial<SimulatedTransaction>
+  ): SimulatedTransaction {
+    const transaction: SimulatedTransaction = {
+      conversationId: `AG_${this.timestamp().slice(0, 8)}_${crypto.randomBytes(10).toString('hex')}`,
+      receipt: this.receipt(),
+      ...fields,
+      originatorConversationId: fields.originatorConversationId ?? this.id(),
+    };
+    this.transactions.push(transaction);
+    return transaction;
+  }
+
+  private accepted(transaction: SimulatedTransaction): Body {
+    return {
+      ConversationID: transaction.conversationId,
+      OriginatorConversationID: transaction.originatorConversationId,
+      ResponseCode: '0',
+      ResponseDescription: 'Accept the service request successfully.',
+    };
+  }
+
+  private scenarioFor(phoneNumber: string): DarajaScenario {
+    return this.scenarios.get(phoneNumber) ?? this.defaultScenario;
+  }
+
+  private dynamicQr(body: Body): Body {
+    this.require(body, ['MerchantName', 'RefNo', 'Amount', 'TrxCode', 'CPI', 'Size']);
+    if (!['BG', 'WA', 'PB', 'SM', 'SB'].includes(body.TrxCode)) {
+      throw new DarajaError(400, '400.002.02', 'Bad Request - Invalid TrxCode');
+    }
+
+    return {
+      ResponseCode: `AG_${this.timestamp().slice(0, 8)}_${this.digits(16)}`,
+      RequestID: this.id(),
+      ResponseDescription: 'The service request is processed successfully.',
+      QRCode: PLACEHOLDER_QR_CODE,
+    };
+  }
+
+  private require(body: Body, fields: string[]): void {
+    const missing = fields.filter(field => body[field] === undefined || body[field] === '');
+    if (missing.length > 0) {
+      throw new DarajaError(400, '400.002.02', `Bad Request - Invalid ${missing[0]}`);
+    }
+  }
+
+  private async readBody(request: http.IncomingMessage): Promise<Body> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    if (chunks.length === 0) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString());
+    } catch {
+      throw new DarajaError(400, '400.002.05', 'Invalid Request Payload');
+    }
+  }
+
+  private send(response: http.ServerResponse, status: number, body: Body): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+
+  private id(): string {
+    return `${this.digits(5)}-${this.digits(7)}-1`;
+  }
+
+  private receipt(): string {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    return Array.from(crypto.randomBytes(10), byte => alphabet[byte % alphabet.length]).join('');
+  }
+
+  private digits(length: number): string {
+    return Array.from(crypto.randomBytes(length), byte => byte % 10).join('');
+  }
+
+  private timestamp(date = new Date()): string {
+    return date
+      .toISOString()
+      .replace(/[^0-9]/g, '')
+      .slice(0, 14);
+  }
+
+  private darajaDate(date: Date): string {
+    // e.g. 19.12.2019 11:45:50
+    const [year, month, day] = date.toISOString().slice(0, 10).split('-');
+    return `${day}.${month}.${year} ${date.toISOString().slice(11, 19)}`;
+  }
+}
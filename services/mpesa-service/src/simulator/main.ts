@@ -0,0 +1,33 @@
+import { Logger } from '@nestjs/common';
+import { DARAJA_SCENARIOS, DarajaScenario, DarajaSimulator } from './daraja-simulator';
+
+async function bootstrap() {
+  const scenario = (process.env.DARAJA_SIMULATOR_SCENARIO ?? 'success') as DarajaScenario;
+  if (!DARAJA_SCENARIOS.includes(scenario)) {
+    throw new Error(`DARAJA_SIMULATOR_SCENARIO must be one of ${DARAJA_SCENARIOS.join(', ')}`);
+  }
+
+  const simulator = new DarajaSimulator({
+    scenario,
+    callbackDelayMs: Number(process.env.DARAJA_SIMULATOR_CALLBACK_DELAY_MS ?? 1000),
+  });
+  await simulator.listen(
+    Number(process.env.DARAJA_SIMULATOR_PORT ?? 8089),
+    process.env.DARAJA_SIMULATOR_HOST ?? '0.0.0.0'
+  );
+
+  const logger = new Logger('Bootstrap');
+  logger.log(`Default scenario: ${scenario}; set MPESA_ENVIRONMENT=simulator to use it`);
+
+  const shutdown = () => simulator.close().then(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+bootstrap().catch(error => {
+  new Logger('Bootstrap').error(
+    `Failed to start Daraja simulator: ${(error as Error).message}`,
+    (error as Error).stack
+  );
+  process.exit(1);
+});
@@ -8,6 +8,8 @@ import { LoggerModule } from './logger/logger.module';
 import { TransactionModule } from './transaction/transaction.module';
 import { ConversionModule } from './conversion/conversion.module';
 import { NotificationModule } from './notification/notification.module';
+import { IdempotencyModule } from './idempotency/idempotency.module';
+import { EventsModule } from './events/events.module';
 import { 
   appConfigSchema, 
   getAppConfig, 
@@ -26,6 +28,8 @@ import {
     TerminusModule,
     PrismaModule,
     RedisModule,
+    IdempotencyModule,
+    EventsModule,
     LoggerModule,
     TransactionModule,
     ConversionModule,
@@ -0,0 +1,80 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { Biller, BillerCategory } from '@bitpesa/shared-types';
+import { BILLER_DIRECTORY, BillerDirectory } from './biller-directory';
+import { PaybillDto } from '../transaction/dto';
+
+describe('BillerDirectory', () => {
+  const biller = (overrides: Partial<Biller>): Biller => ({
+    name: 'Test Biller',
+    paybillNumber: '100100',
+    category: BillerCategory.EDUCATION,
+    accountNumberLabel: 'Admission number',
+    accountNumberPattern: '^\\d{6}$',
+    accountNumberHint: '6 digit admission number',
+    minAmount: 100,
+    maxAmount: 50000,
+    ...overrides,
+  });
+
+  it('should search billers by name or paybill number within a category', () => {
+    expect(BILLER_DIRECTORY.search('kplc').map(b => b.paybillNumber)).toEqual(['888888', '888880']);
+    expect(BILLER_DIRECTORY.search('4449').map(b => b.name)).toEqual(['DStv']);
+    expect(BILLER_DIRECTORY.search('', BillerCategory.WATER).map(b => b.name)).toEqual([
+      'Nairobi Water',
+    ]);
+  });
+
+  it('should reject account numbers and amounts the biller would not accept', () => {
+    expect(BILLER_DIRECTORY.validatePayment('888880', '12345678901', 500)).toBeNull();
+    expect(BILLER_DIRECTORY.validatePayment('888880', '1234', 500)).toBe(
+      '1234 is not a valid KPLC Prepaid meter number: expected 11 or 13 digit prepaid meter number'
+    );
+    expect(BILLER_DIRECTORY.validatePayment('888880', undefined, 500)).toBe(
+      'KPLC Prepaid payments need a meter number'
+    );
+    expect(BILLER_DIRECTORY.validatePayment('444900', '1234567890', 60000)).toBe(
+      'DStv accepts payments from 50 to 50000 KES'
+    );
+  });
+
+  it('should leave paybills outside the directory unchecked', () => {
+    expect(BILLER_DIRECTORY.validatePayment('123456', undefined, 1000000)).toBeNull();
+  });
+
+  it('should check the Luhn digit of billers that use one', () => {
+    const directory = new BillerDirectory([
+      biller({ accountNumberPattern: '^\\d{11}$', accountNumberChecksum: 'luhn' }),
+    ]);
+
+    expect(directory.validatePayment('100100', '79927398713', 1000)).toBeNull();
+    expect(directory.validatePayment('100100', '79927398710', 1000)).toMatch('is not a valid');
+  });
+
+  it('should refuse a paybill listed twice', () => {
+    expect(() => new BillerDirectory([biller({}), biller({ name: 'Copy' })])).toThrow(
+      'Paybill 100100 is listed more than once'
+    );
+  });
+
+  it('should enforce the directory in paybill requests', async () => {
+    const merchantCodeErrors = async (accountNumber: string) => {
+      const dto = plainToInstance(PaybillDto, {
+        recipientPhone: '+254712345678',
+        kesAmount: 1000,
+        merchantCode: '888880',
+        accountNumber,
+      });
+      const errors = await validate(dto);
+      return errors.filter(error => error.property === 'merchantCode');
+    };
+
+    await expect(merchantCodeErrors('12345678901')).resolves.toEqual([]);
+
+    const [error] = await merchantCodeErrors('ABC');
+    expect(error.constraints).toEqual({
+      isBillerPayment:
+        'ABC is not a valid KPLC Prepaid meter number: expected 11 or 13 digit prepaid meter number',
+    });
+  });
+});
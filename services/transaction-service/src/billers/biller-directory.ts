@@ -0,0 +1,91 @@
+import { Biller, BillerCategory } from '@bitpesa/shared-types';
+import seed from './billers.json';
+
+/**
+ * Paybills whose account numbers and amounts are known
+ * Seeded from billers.json. Payments to a paybill in the directory are refused before an
+ * invoice is issued when the account number or amount is one the biller would reject;
+ * paybills outside it are paid unchecked.
+ */
+export class BillerDirectory {
+  private readonly billers = new Map<string, { biller: Biller; pattern: RegExp }>();
+
+  constructor(billers: Biller[]) {
+    for (const biller of billers) {
+      if (this.billers.has(biller.paybillNumber)) {
+        throw new Error(`Paybill ${biller.paybillNumber} is listed more than once`);
+      }
+      this.billers.set(biller.paybillNumber, {
+        biller,
+        pattern: new RegExp(biller.accountNumberPattern),
+      });
+    }
+  }
+
+  find(paybillNumber: string): Biller | undefined {
+    return this.billers.get(paybillNumber)?.biller;
+  }
+
+  /**
+   * Billers whose name or paybill number contains `query`, optionally in one category
+   */
+  search(query = '', category?: BillerCategory): Biller[] {
+    const needle = query.trim().toLowerCase();
+    return [...this.billers.values()]
+      .map(({ biller }) => biller)
+      .filter(biller => !category || biller.category === category)
+      .filter(
+        biller =>
+          !needle ||
+          biller.name.toLowerCase().includes(needle) ||
+          biller.paybillNumber.includes(needle)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Why the biller would reject this payment, or null if it would not (or is not listed)
+   */
+  validatePayment(paybillNumber: string, accountNumber?: string, amount?: number): string | null {
+    const entry = this.billers.get(paybillNumber);
+    if (!entry) {
+      return null;
+    }
+
+    const { biller, pattern } = entry;
+    if (!accountNumber) {
+      return `${biller.name} payments need a ${biller.accountNumberLabel.toLowerCase()}`;
+    }
+    if (
+      !pattern.test(accountNumber) ||
+      (biller.accountNumberChecksum === 'luhn' && !isLuhnValid(accountNumber))
+    ) {
+      return `${accountNumber} is not a valid ${biller.name} ${biller.accountNumberLabel.toLowerCase()}: expected ${biller.accountNumberHint}`;
+    }
+    if (amount !== undefined && (amount < biller.minAmount || amount > biller.maxAmount)) {
+      return `${biller.name} accepts payments from ${biller.minAmount} to ${biller.maxAmount} KES`;
+    }
+    return null;
+  }
+}
+
+function isLuhnValid(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export const BILLER_DIRECTORY = new BillerDirectory(seed as Biller[]);
@@ -0,0 +1,29 @@
+import { Controller, Get, NotFoundException, Param, Query, UseGuards } from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { ApiResponse, Biller, BillerCategory } from '@bitpesa/shared-types';
+import { BILLER_DIRECTORY } from './biller-directory';
+
+@Controller('billers')
+@UseGuards(ThrottlerGuard) // Rate limiting
+export class BillerController {
+  /**
+   * Search the biller directory by name or paybill number
+   */
+  @Get()
+  search(
+    @Query('search') search?: string,
+    @Query('category') category?: BillerCategory
+  ): ApiResponse<Biller[]> {
+    const billers = BILLER_DIRECTORY.search(search, category);
+    return { success: true, data: billers, timestamp: new Date().toISOString() };
+  }
+
+  @Get(':paybillNumber')
+  find(@Param('paybillNumber') paybillNumber: string): ApiResponse<Biller> {
+    const biller = BILLER_DIRECTORY.find(paybillNumber);
+    if (!biller) {
+      throw new NotFoundException(`Paybill ${paybillNumber} is not in the biller directory`);
+    }
+    return { success: true, data: biller, timestamp: new Date().toISOString() };
+  }
+}
@@ -0,0 +1,42 @@
+import { ValidationArguments, ValidationOptions, registerDecorator } from 'class-validator';
+import { BILLER_DIRECTORY } from './biller-directory';
+
+interface BillerPayment {
+  accountNumber?: string;
+  kesAmount?: number;
+}
+
+/**
+ * Checks a paybill number's payment against the biller directory: the account number
+ * must be one the biller accepts and the amount within its limits
+ */
+export function IsBillerPayment(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'isBillerPayment',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown, args: ValidationArguments) {
+          const payment = args.object as BillerPayment;
+          return (
+            typeof value !== 'string' ||
+            BILLER_DIRECTORY.validatePayment(value, payment.accountNumber, payment.kesAmount) ===
+              null
+          );
+        },
+        defaultMessage(args: ValidationArguments) {
+          const payment = args.object as BillerPayment;
+          return (
+            BILLER_DIRECTORY.validatePayment(
+              args.value,
+              payment.accountNumber,
+              payment.kesAmount
+            ) ?? ''
+          );
+        },
+      },
+    });
+  };
+}
@@ -1,9 +1,19 @@
 import { Module, Global } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ConversionService } from './conversion.service';
+import { RATE_SOURCES } from './rate-sources/rate-source';
+import { createRateSources } from './rate-sources/rate-source.factory';
 
 @Global()
 @Module({
-  providers: [ConversionService],
+  providers: [
+    ConversionService,
+    {
+      provide: RATE_SOURCES,
+      useFactory: createRateSources,
+      inject: [ConfigService],
+    },
+  ],
   exports: [ConversionService],
 })
 export class ConversionModule {}
@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ConversionService } from './conversion.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RATE_SOURCES } from './rate-sources/rate-source';
+import { RATE_SOURCE_DEFINITIONS } from './rate-sources/http-rate-source';
+import { createRateSources } from './rate-sources/rate-source.factory';
+
+// The fixtures were recorded a few seconds before this
+const RECORDED_AT = new Date('2024-06-10T06:13:25Z');
+
+const fixture = (source: string) =>
+  JSON.parse(
+    fs.readFileSync(path.join(__dirname, 'rate-sources/fixtures', `${source}.json`), 'utf8')
+  );
+
+describe('ConversionService', () => {
+  let service: ConversionService;
+  let config: Record<string, string>;
+  let responses: Record<string, unknown>;
+  let snapshot: Record<string, any> | null;
+  let prisma: Record<string, any>;
+
+  const respond = (source: string, body: unknown) => {
+    responses[RATE_SOURCE_DEFINITIONS[source].url] = body;
+  };
+
+  const createService = async () => {
+    const configService = { get: jest.fn((key, defaultValue) => config[key] ?? defaultValue) };
+    const http = {
+      get: jest.fn(async (url: string) => {
+        if (responses[url] instanceof Error) {
+          throw responses[url];
+        }
+        return { data: responses[url] };
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConversionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: configService },
+        {
+          provide: RATE_SOURCES,
+          useFactory: () => createRateSources(configService as any, http as any),
+        },
+      ],
+    }).compile();
+
+    service = module.get<ConversionService>(ConversionService);
+    return http;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: RECORDED_AT, doNotFake: ['nextTick', 'setImmediate'] });
+    config = {};
+    responses = {};
+    snapshot = null;
+
+    respond('binance', fixture('binance'));
+    respond('coinbase', fixture('coinbase'));
+    respond('kraken', fixture('kraken'));
+    respond('bitstamp', fixture('bitstamp'));
+    respond('open-er-api', fixture('open-er-api'));
+    respond('currency-api', fixture('currency-api'));
+    respond('floatrates', fixture('floatrates'));
+
+    // Single-row in-memory exchange_rates table
+    prisma = {
+      exchangeRate: {
+        findFirst: jest.fn(async ({ where }) =>
+          snapshot && snapshot.validUntil > where.validUntil.gt ? snapshot : null
+        ),
+        create: jest.fn(async ({ data }) => {
+          snapshot = { id: 'rate-1', ...data };
+          return snapshot;
+        }),
+      },
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getCurrentRate', () => {
+    it('should price BTC/KES from the median of each pair and apply the spread', async () => {
+      await createService();
+
+      const rate = await service.getCurrentRate('BTC', 'KES');
+
+      // BTC/USD median 67247.565 (of 4), USD/KES median 129.5 (of 3)
+      expect(rate).toMatchObject({
+        fromCurrency: 'BTC',
+        toCurrency: 'KES',
+        rate: 8708559.67,
+        finalRate: 8621474.07,
+        spread: 0.01,
+        source:
+          'BTC/USD: binance, coinbase, kraken, bitstamp; USD/KES: open-er-api, currency-api, floatrates',
+        validFrom: RECORDED_AT,
+        validUntil: new Date(RECORDED_AT.getTime() + 30 * 1000),
+      });
+      expect(prisma.exchangeRate.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reuse the snapshot until it expires', async () => {
+      config.RATE_SPREAD = '0.02';
+      const http = await createService();
+
+      await service.getCurrentRate('BTC', 'KES');
+      const reused = await service.getCurrentRate('BTC', 'KES');
+
+      expect(reused?.finalRate).toBe(8534388.48);
+      expect(http.get).toHaveBeenCalledTimes(7);
+
+      jest.advanceTimersByTime(30 * 1000);
+      await service.getCurrentRate('BTC', 'KES');
+      expect(http.get).toHaveBeenCalledTimes(14);
+    });
+
+    it('should reject an outlier source and price from the rest', async () => {
+      respond('binance', { ...fixture('binance'), lastPrice: '70000.00000000' });
+      await createService();
+
+      const rate = await service.getCurrentRate('BTC', 'KES');
+
+      expect(rate?.rate).toBe(8708243.04);
+      expect(rate?.source).toContain('BTC/USD: coinbase, kraken, bitstamp;');
+    });
+
+    it('should price without a source that is down', async () => {
+      respond('kraken', new Error('connect ECONNREFUSED'));
+      await createService();
+
+      const rate = await service.getCurrentRate('BTC', 'KES');
+
+      expect(rate?.source).toContain('BTC/USD: binance, coinbase, bitstamp;');
+    });
+
+    it('should refuse to quote when sources are stale', async () => {
+      await createService();
+      jest.setSystemTime(new Date('2024-06-10T06:15:00Z'));
+
+      await expect(service.getCurrentRate('BTC', 'KES')).rejects.toThrow(
+        'Only 1 fresh BTC/USD rate(s), need 2 (stale: binance, coinbase, bitstamp)'
+      );
+      expect(prisma.exchangeRate.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to quote when sources disagree', async () => {
+      config.RATE_BTC_USD_SOURCES = 'binance,coinbase';
+      respond('binance', { ...fixture('binance'), lastPrice: '72000.00000000' });
+      await createService();
+
+      await expect(service.getCurrentRate('BTC', 'KES')).rejects.toThrow(
+        'BTC/USD sources disagree by more than 2%: binance 72000, coinbase 67245.12'
+      );
+    });
+
+    it('should not price pairs other than BTC/KES', async () => {
+      await createService();
+
+      await expect(service.getCurrentRate('USD', 'KES')).resolves.toBeNull();
+    });
+  });
+
+  it('should reject unknown or mismatched rate sources', async () => {
+    config.RATE_USD_KES_SOURCES = 'open-er-api,binance';
+
+    await expect(createService()).rejects.toThrow(
+      'Rate source binance quotes BTC/USD, not USD/KES'
+    );
+  });
+});
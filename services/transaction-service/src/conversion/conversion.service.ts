@@ -1,32 +1,85 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
+import { RATE_SOURCES, RatePair, RateSource, SourceRate } from './rate-sources/rate-source';
+import { AggregatedRate, AggregationOptions, aggregateRates } from './rate-aggregator';
 
 export interface ExchangeRate {
   fromCurrency: string;
   toCurrency: string;
   rate: number;
   finalRate: number;
+  source: string;
+  spread: number;
+  validFrom: Date;
+  validUntil: Date;
   timestamp: Date;
 }
 
+/**
+ * Prices BTC in KES from BTC/USD and USD/KES feeds
+ * Each refresh is persisted as an ExchangeRate snapshot that is reused until it expires.
+ */
 @Injectable()
 export class ConversionService {
   private readonly logger = new Logger(ConversionService.name);
+  private readonly spread: number;
+  private readonly snapshotTtlMs: number;
+  private readonly aggregation: Record<RatePair, AggregationOptions>;
+  private refreshing: Promise<ExchangeRate> | null = null;
 
+  constructor(
+    @Inject(RATE_SOURCES) private readonly sources: RateSource[],
+    private readonly prisma: PrismaService,
+    configService: ConfigService
+  ) {
+    const getNumber = (key: string, defaultValue: number) =>
+      Number(configService.get(key, defaultValue));
+
+    this.spread = getNumber('RATE_SPREAD', 0.01);
+    this.snapshotTtlMs = getNumber('RATE_SNAPSHOT_TTL_MS', 30 * 1000);
+
+    const maxDeviation = getNumber('RATE_MAX_DEVIATION', 0.02);
+    const minSources = getNumber('RATE_MIN_SOURCES', 2);
+    this.aggregation = {
+      'BTC/USD': {
+        maxAgeMs: getNumber('RATE_BTC_USD_MAX_AGE_MS', 60 * 1000),
+        maxDeviation,
+        minSources,
+      },
+      // Fiat feeds publish once or twice a day
+      'USD/KES': {
+        maxAgeMs: getNumber('RATE_USD_KES_MAX_AGE_MS', 48 * 60 * 60 * 1000),
+        maxDeviation,
+        minSources,
+      },
+    };
+  }
+
+  /**
+   * Current BTC/KES rate, refreshed from the rate sources once the last snapshot expires
+   * Throws RateUnavailableError rather than quote from stale or disagreeing sources.
+   */
   async getCurrentRate(fromCurrency: string, toCurrency: string): Promise<ExchangeRate | null> {
-    this.logger.log(`Getting exchange rate from ${fromCurrency} to ${toCurrency}`);
-    
-    // Mock implementation - replace with actual exchange rate service
-    if (fromCurrency === 'BTC' && toCurrency === 'KES') {
-      return {
-        fromCurrency: 'BTC',
-        toCurrency: 'KES',
-        rate: 5000000, // Mock rate
-        finalRate: 5000000,
-        timestamp: new Date(),
-      };
+    if (fromCurrency !== 'BTC' || toCurrency !== 'KES') {
+      return null;
+    }
+
+    const snapshot = await this.prisma.exchangeRate.findFirst({
+      where: { fromCurrency, toCurrency, validUntil: { gt: new Date() } },
+      orderBy: { validFrom: 'desc' },
+    });
+    if (snapshot) {
+      return this.mapToExchangeRate(snapshot);
     }
-    
-    return null;
+
+    // Concurrent callers share one refresh instead of each hitting every source
+    if (!this.refreshing) {
+      this.refreshing = this.refreshRate().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
   }
 
   async convertAmount(amount: number, fromCurrency: string, toCurrency: string): Promise<number> {
@@ -34,7 +87,85 @@ export class ConversionService {
     if (!rate) {
       throw new Error(`Exchange rate not available for ${fromCurrency} to ${toCurrency}`);
     }
-    
+
     return amount * rate.finalRate;
   }
+
+  private async refreshRate(): Promise<ExchangeRate> {
+    const quotes = await this.fetchQuotes();
+    const now = new Date();
+
+    const btcUsd = this.aggregate('BTC/USD', quotes, now);
+    const usdKes = this.aggregate('USD/KES', quotes, now);
+
+    const rate = round(btcUsd.rate * usdKes.rate);
+    // The spread is taken by quoting fewer KES per BTC than the market rate
+    const finalRate = round(rate * (1 - this.spread));
+
+    const snapshot = await this.prisma.exchangeRate.create({
+      data: {
+        fromCurrency: 'BTC',
+        toCurrency: 'KES',
+        rate,
+        source: [btcUsd, usdKes]
+          .map(aggregated => `${aggregated.pair}: ${aggregated.sources.join(', ')}`)
+          .join('; '),
+        spread: this.spread,
+        finalRate,
+        validFrom: now,
+        validUntil: new Date(now.getTime() + this.snapshotTtlMs),
+      },
+    });
+
+    this.logger.log(
+      `BTC/KES ${rate} (final ${finalRate}) from BTC/USD ${btcUsd.rate} x USD/KES ${usdKes.rate}`
+    );
+    return this.mapToExchangeRate(snapshot);
+  }
+
+  private async fetchQuotes(): Promise<SourceRate[]> {
+    const results = await Promise.allSettled(this.sources.map(source => source.fetchRate()));
+
+    return results.flatMap((result, index) => {
+      if (result.status === 'rejected') {
+        this.logger.warn(
+          `Rate source ${this.sources[index].name} failed: ${(result.reason as Error).message}`
+        );
+        return [];
+      }
+      return [result.value];
+    });
+  }
+
+  private aggregate(pair: RatePair, quotes: SourceRate[], now: Date): AggregatedRate {
+    const aggregated = aggregateRates(
+      pair,
+      quotes.filter(quote => quote.pair === pair),
+      this.aggregation[pair],
+      now
+    );
+    if (aggregated.rejected.length) {
+      this.logger.warn(`Ignored ${pair} rates from ${aggregated.rejected.join(', ')}`);
+    }
+
+    return aggregated;
+  }
+
+  private mapToExchangeRate(snapshot: any): ExchangeRate {
+    return {
+      fromCurrency: snapshot.fromCurrency,
+      toCurrency: snapshot.toCurrency,
+      rate: Number(snapshot.rate),
+      finalRate: Number(snapshot.finalRate),
+      source: snapshot.source,
+      spread: Number(snapshot.spread),
+      validFrom: snapshot.validFrom,
+      validUntil: snapshot.validUntil,
+      timestamp: snapshot.validFrom,
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
 }
@@ -0,0 +1,75 @@
+import { RatePair, SourceRate } from './rate-sources/rate-source';
+
+export interface AggregationOptions {
+  /** Quotes older than this are ignored */
+  maxAgeMs: number;
+  /** Quotes further than this fraction from the median are rejected as outliers */
+  maxDeviation: number;
+  /** Fewest fresh, agreeing quotes a rate can be built from */
+  minSources: number;
+}
+
+export interface AggregatedRate {
+  pair: RatePair;
+  rate: number;
+  sources: string[];
+  rejected: string[];
+}
+
+/**
+ * Raised when there are not enough fresh, agreeing quotes to price a pair
+ */
+export class RateUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateUnavailableError';
+  }
+}
+
+/**
+ * Combine quotes for one pair into a single rate
+ * Stale quotes are dropped, quotes too far from the median are rejected as outliers, and
+ * the median of what remains is the rate.
+ */
+export function aggregateRates(
+  pair: RatePair,
+  quotes: SourceRate[],
+  options: AggregationOptions,
+  now: Date = new Date()
+): AggregatedRate {
+  const fresh = quotes.filter(
+    quote => now.getTime() - quote.timestamp.getTime() <= options.maxAgeMs
+  );
+  if (fresh.length < options.minSources) {
+    const stale = quotes.filter(quote => !fresh.includes(quote)).map(quote => quote.source);
+    throw new RateUnavailableError(
+      `Only ${fresh.length} fresh ${pair} rate(s), need ${options.minSources}` +
+        (stale.length ? ` (stale: ${stale.join(', ')})` : '')
+    );
+  }
+
+  const center = median(fresh.map(quote => quote.rate));
+  const agreeing = fresh.filter(
+    quote => Math.abs(quote.rate - center) / center <= options.maxDeviation
+  );
+  if (agreeing.length < options.minSources) {
+    throw new RateUnavailableError(
+      `${pair} sources disagree by more than ${options.maxDeviation * 100}%: ` +
+        fresh.map(quote => `${quote.source} ${quote.rate}`).join(', ')
+    );
+  }
+
+  return {
+    pair,
+    rate: median(agreeing.map(quote => quote.rate)),
+    sources: agreeing.map(quote => quote.source),
+    rejected: quotes.filter(quote => !agreeing.includes(quote)).map(quote => quote.source),
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
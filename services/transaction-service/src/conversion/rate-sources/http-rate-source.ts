@@ -0,0 +1,101 @@
+import { AxiosInstance } from 'axios';
+import { RatePair, RateSource, SourceRate } from './rate-source';
+
+export type RateHttpClient = Pick<AxiosInstance, 'get'>;
+
+export interface RateSourceDefinition {
+  pair: RatePair;
+  url: string;
+  /** Pull the rate and its observation time out of the response body */
+  parse(body: any, fetchedAt: Date): { rate: number; timestamp: Date };
+}
+
+/**
+ * Public price feeds that can be enabled by name through RATE_BTC_USD_SOURCES and
+ * RATE_USD_KES_SOURCES
+ */
+export const RATE_SOURCE_DEFINITIONS: Record<string, RateSourceDefinition> = {
+  binance: {
+    pair: 'BTC/USD',
+    url: 'https://api.binance.com/api/v3/ticker/24hr?symbol=BTCUSDT',
+    parse: body => ({ rate: Number(body.lastPrice), timestamp: new Date(body.closeTime) }),
+  },
+  coinbase: {
+    pair: 'BTC/USD',
+    url: 'https://api.exchange.coinbase.com/products/BTC-USD/ticker',
+    parse: body => ({ rate: Number(body.price), timestamp: new Date(body.time) }),
+  },
+  kraken: {
+    pair: 'BTC/USD',
+    url: 'https://api.kraken.com/0/public/Ticker?pair=XBTUSD',
+    parse: (body, fetchedAt) => {
+      if (body.error?.length) {
+        throw new Error(body.error.join(', '));
+      }
+      // Kraken keys the result by its own pair name (XXBTZUSD) and has no timestamp
+      const [ticker] = Object.values<any>(body.result);
+      return { rate: Number(ticker.c[0]), timestamp: fetchedAt };
+    },
+  },
+  bitstamp: {
+    pair: 'BTC/USD',
+    url: 'https://www.bitstamp.net/api/v2/ticker/btcusd/',
+    parse: body => ({
+      rate: Number(body.last),
+      timestamp: new Date(Number(body.timestamp) * 1000),
+    }),
+  },
+  'open-er-api': {
+    pair: 'USD/KES',
+    url: 'https://open.er-api.com/v6/latest/USD',
+    parse: body => {
+      if (body.result !== 'success') {
+        throw new Error(body['error-type'] ?? 'Request failed');
+      }
+      return {
+        rate: Number(body.rates.KES),
+        timestamp: new Date(body.time_last_update_unix * 1000),
+      };
+    },
+  },
+  'currency-api': {
+    pair: 'USD/KES',
+    url: 'https://cdn.jsdelivr.net/npm/@fawazahmed0/currency-api@latest/v1/currencies/usd.json',
+    parse: body => ({ rate: Number(body.usd.kes), timestamp: new Date(`${body.date}T00:00:00Z`) }),
+  },
+  floatrates: {
+    pair: 'USD/KES',
+    url: 'https://www.floatrates.com/daily/usd.json',
+    parse: body => ({ rate: Number(body.kes.rate), timestamp: new Date(body.kes.date) }),
+  },
+};
+
+/**
+ * Rate source that reads a single price feed over HTTP
+ */
+export class HttpRateSource implements RateSource {
+  readonly pair: RatePair;
+
+  constructor(
+    readonly name: string,
+    private readonly definition: RateSourceDefinition,
+    private readonly http: RateHttpClient
+  ) {
+    this.pair = definition.pair;
+  }
+
+  async fetchRate(): Promise<SourceRate> {
+    const fetchedAt = new Date();
+    const { data } = await this.http.get(this.definition.url);
+    const { rate, timestamp } = this.definition.parse(data, fetchedAt);
+
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`${this.name} returned an invalid ${this.pair} rate: ${rate}`);
+    }
+    if (Number.isNaN(timestamp.getTime())) {
+      throw new Error(`${this.name} returned an invalid timestamp`);
+    }
+
+    return { source: this.name, pair: this.pair, rate, timestamp };
+  }
+}
@@ -0,0 +1,47 @@
+import axios from 'axios';
+import { ConfigService } from '@nestjs/config';
+import { RateSource } from './rate-source';
+import { HttpRateSource, RATE_SOURCE_DEFINITIONS, RateHttpClient } from './http-rate-source';
+
+const DEFAULT_BTC_USD_SOURCES = 'binance,coinbase,kraken,bitstamp';
+const DEFAULT_USD_KES_SOURCES = 'open-er-api,currency-api,floatrates';
+const SOURCE_TIMEOUT_MS = 5000;
+
+/**
+ * Build the rate sources listed in RATE_BTC_USD_SOURCES and RATE_USD_KES_SOURCES
+ */
+export function createRateSources(
+  configService: ConfigService,
+  http: RateHttpClient = axios.create({ timeout: SOURCE_TIMEOUT_MS })
+): RateSource[] {
+  const btcUsd = parseList(
+    configService.get<string>('RATE_BTC_USD_SOURCES', DEFAULT_BTC_USD_SOURCES)
+  );
+  const usdKes = parseList(
+    configService.get<string>('RATE_USD_KES_SOURCES', DEFAULT_USD_KES_SOURCES)
+  );
+
+  return [
+    ...btcUsd.map(name => createSource(name, 'BTC/USD', http)),
+    ...usdKes.map(name => createSource(name, 'USD/KES', http)),
+  ];
+}
+
+function createSource(name: string, pair: string, http: RateHttpClient): RateSource {
+  const definition = RATE_SOURCE_DEFINITIONS[name];
+  if (!definition) {
+    throw new Error(`Unsupported rate source: ${name}`);
+  }
+  if (definition.pair !== pair) {
+    throw new Error(`Rate source ${name} quotes ${definition.pair}, not ${pair}`);
+  }
+
+  return new HttpRateSource(name, definition, http);
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,24 @@
+/**
+ * Exchange rate source contract
+ * Each configured price feed implements this interface so ConversionService can
+ * aggregate quotes without knowing which API they came from.
+ */
+
+export const RATE_SOURCES = Symbol('RATE_SOURCES');
+
+export type RatePair = 'BTC/USD' | 'USD/KES';
+
+export interface SourceRate {
+  source: string;
+  pair: RatePair;
+  rate: number;
+  /** When the source says the rate was observed, or when it was fetched if it does not say */
+  timestamp: Date;
+}
+
+export interface RateSource {
+  readonly name: string;
+  readonly pair: RatePair;
+
+  fetchRate(): Promise<SourceRate>;
+}
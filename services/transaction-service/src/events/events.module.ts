@@ -0,0 +1,33 @@
+import { Module, Global } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  EVENT_BROKER,
+  EventBroker,
+  OutboxRelay,
+  PrismaOutboxStore,
+  createEventBroker,
+} from '@bitpesa/shared-infrastructure';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from './outbox.service';
+
+@Global()
+@Module({
+  providers: [
+    OutboxService,
+    {
+      provide: EVENT_BROKER,
+      useFactory: createEventBroker,
+      inject: [ConfigService],
+    },
+    {
+      provide: OutboxRelay,
+      useFactory: (prisma: PrismaService, broker: EventBroker) =>
+        new OutboxRelay(new PrismaOutboxStore(prisma.outboxEvent), broker, {
+          source: 'transaction-service',
+        }),
+      inject: [PrismaService, EVENT_BROKER],
+    },
+  ],
+  exports: [OutboxService, EVENT_BROKER],
+})
+export class EventsModule {}
@@ -0,0 +1,22 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { EventType } from '@bitpesa/shared-types';
+
+/**
+ * Records events in the outbox_events table
+ * Always pass the Prisma transaction that makes the change the event describes, so the
+ * event exists if and only if the change was committed. The outbox relay publishes it.
+ */
+@Injectable()
+export class OutboxService {
+  async enqueue(
+    client: Prisma.TransactionClient,
+    type: EventType,
+    aggregateId: string,
+    payload: object
+  ): Promise<void> {
+    await client.outboxEvent.create({
+      data: { type, aggregateId, payload: payload as Prisma.InputJsonValue },
+    });
+  }
+}
@@ -0,0 +1,173 @@
+import * as crypto from 'crypto';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LightningService, LightningSettlement } from './lightning.service';
+import { LIGHTNING_NODE_ADAPTER } from './lightning/lightning-node.adapter';
+import { FakeLightningNodeAdapter } from './lightning/fake-node.adapter';
+import { decodeBolt11 } from './lightning/bolt11';
+
+describe('LightningService', () => {
+  let service: LightningService;
+  let node: FakeLightningNodeAdapter;
+
+  beforeEach(async () => {
+    node = new FakeLightningNodeAdapter();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LightningService,
+        {
+          provide: LIGHTNING_NODE_ADAPTER,
+          useValue: node,
+        },
+      ],
+    }).compile();
+
+    service = module.get<LightningService>(LightningService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createInvoice', () => {
+    it('should issue a signed regtest BOLT11 invoice', async () => {
+      const invoice = await service.createInvoice(25000, 'BitPesa Bridge - SEND_MONEY', 300);
+
+      expect(invoice.invoice).toMatch(/^lnbcrt250u1/);
+      expect(invoice.amount).toBe(25000);
+
+      const decoded = decodeBolt11(invoice.invoice);
+      expect(decoded.network).toBe('regtest');
+      expect(decoded.amountSats).toBe(25000);
+      expect(decoded.paymentHash).toBe(invoice.paymentHash);
+      expect(decoded.description).toBe('BitPesa Bridge - SEND_MONEY');
+      expect(decoded.expirySeconds).toBe(300);
+      expect(decoded.payeeNodeKey).toBe(node.nodePublicKey);
+    });
+
+    it('should encode amounts that are not whole micro-bitcoins', async () => {
+      const invoice = await service.createInvoice(1234);
+
+      expect(invoice.invoice).toMatch(/^lnbcrt12340n1/);
+      expect(decodeBolt11(invoice.invoice).amountSats).toBe(1234);
+    });
+  });
+
+  describe('checkPaymentStatus', () => {
+    it('should report unpaid invoices without a preimage', async () => {
+      const invoice = await service.createInvoice(1000);
+
+      const status = await service.checkPaymentStatus(invoice.paymentHash);
+
+      expect(status).toEqual({ paid: false, amount: 1000, preimage: undefined, paidAt: undefined });
+    });
+
+    it('should reveal the preimage once the invoice is settled', async () => {
+      const invoice = await service.createInvoice(1000);
+      node.settleInvoice(invoice.paymentHash);
+
+      const status = await service.checkPaymentStatus(invoice.paymentHash);
+
+      expect(status.paid).toBe(true);
+      expect(status.amount).toBe(1000);
+      expect(status.paidAt).toBeInstanceOf(Date);
+      expect(
+        crypto
+          .createHash('sha256')
+          .update(Buffer.from(status.preimage as string, 'hex'))
+          .digest('hex')
+      ).toBe(invoice.paymentHash);
+    });
+
+    it('should throw for unknown invoices', async () => {
+      await expect(service.checkPaymentStatus('00'.repeat(32))).rejects.toThrow('not found');
+    });
+  });
+
+  describe('subscribeToSettlements', () => {
+    it('should replay settlements after the given index, then stream new ones', async () => {
+      const first = await service.createInvoice(1000);
+      const second = await service.createInvoice(2000);
+      const third = await service.createInvoice(3000);
+      node.settleInvoice(first.paymentHash);
+      node.settleInvoice(second.paymentHash);
+
+      const received: LightningSettlement[] = [];
+      const onError = jest.fn();
+      const subscription = service.subscribeToSettlements(
+        1,
+        async settlement => {
+          received.push(settlement);
+        },
+        onError
+      );
+      node.settleInvoice(third.paymentHash, 3500);
+      await new Promise(resolve => setImmediate(resolve));
+      subscription.close();
+
+      expect(received.map(s => [s.paymentHash, s.settleIndex, s.amount])).toEqual([
+        [second.paymentHash, 2, 2000],
+        [third.paymentHash, 3, 3500],
+      ]);
+      expect(received[1].preimage).toBeDefined();
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('should stop delivering and report the error when a handler fails', async () => {
+      const first = await service.createInvoice(1000);
+      const second = await service.createInvoice(2000);
+
+      const handler = jest.fn().mockRejectedValueOnce(new Error('database unavailable'));
+      const onError = jest.fn();
+      service.subscribeToSettlements(0, handler, onError);
+      node.settleInvoice(first.paymentHash);
+      node.settleInvoice(second.paymentHash);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(new Error('database unavailable'));
+    });
+  });
+
+  describe('getInvoiceInfo', () => {
+    it('should decode the payment request', async () => {
+      const invoice = await service.createInvoice(5000, 'Airtime');
+
+      const info = await service.getInvoiceInfo(invoice.invoice);
+
+      expect(info).toEqual({
+        amount: 5000,
+        memo: 'Airtime',
+        expiresAt: invoice.expiresAt,
+        paymentHash: invoice.paymentHash,
+      });
+    });
+
+    it('should reject a tampered invoice', async () => {
+      const invoice = await service.createInvoice(5000);
+      const tampered = invoice.invoice.slice(0, -8) + 'qqqqqqqq';
+
+      await expect(service.getInvoiceInfo(tampered)).rejects.toThrow('checksum mismatch');
+    });
+  });
+
+  describe('lookupOutgoingPayment', () => {
+    it('should return the receipt of a payment the node made', async () => {
+      const invoice = await service.createInvoice(5000);
+      const paid = await service.payInvoice(invoice.invoice, 50);
+
+      await expect(service.lookupOutgoingPayment(invoice.paymentHash)).resolves.toEqual({
+        status: 'SUCCEEDED',
+        result: paid,
+      });
+    });
+
+    it('should report a payment the node never sent', async () => {
+      const invoice = await service.createInvoice(5000);
+
+      await expect(service.lookupOutgoingPayment(invoice.paymentHash)).resolves.toEqual({
+        status: 'NOT_SENT',
+      });
+    });
+  });
+});
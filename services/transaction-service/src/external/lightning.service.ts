@@ -1,4 +1,9 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  InvoiceSubscription,
+  LIGHTNING_NODE_ADAPTER,
+  LightningNodeAdapter,
+} from './lightning/lightning-node.adapter';
 
 export interface LightningInvoice {
   paymentHash: string;
@@ -7,40 +12,166 @@ export interface LightningInvoice {
   expiresAt: Date;
 }
 
+export interface LightningPaymentStatus {
+  paid: boolean;
+  amount?: number;
+  preimage?: string;
+  paidAt?: Date;
+}
+
+export interface LightningPaymentResult {
+  paymentHash: string;
+  preimage: string;
+  amount: number;
+  fee: number;
+}
+
+export interface OutgoingPaymentStatus {
+  /** NOT_SENT when the node has no record of the payment */
+  status: 'NOT_SENT' | 'IN_FLIGHT' | 'SUCCEEDED' | 'FAILED';
+  /** Only set once the payment has succeeded */
+  result?: LightningPaymentResult;
+}
+
+export interface LightningSettlement {
+  paymentHash: string;
+  amount: number;
+  preimage?: string;
+  paidAt: Date;
+  settleIndex: number;
+}
+
+const DEFAULT_INVOICE_EXPIRY_SECONDS = 3600;
+
 @Injectable()
 export class LightningService {
   private readonly logger = new Logger(LightningService.name);
 
-  async createInvoice(amount: number, memo?: string): Promise<LightningInvoice> {
-    this.logger.log(`Creating Lightning invoice for ${amount} sats`);
-    
-    // Mock implementation - replace with actual Lightning node call
+  constructor(@Inject(LIGHTNING_NODE_ADAPTER) private readonly node: LightningNodeAdapter) {}
+
+  get nodeName(): string {
+    return this.node.name;
+  }
+
+  async createInvoice(
+    amount: number,
+    memo?: string,
+    expirySeconds: number = DEFAULT_INVOICE_EXPIRY_SECONDS
+  ): Promise<LightningInvoice> {
+    this.logger.log(`Creating Lightning invoice for ${amount} sats on ${this.node.name} node`);
+
+    const invoice = await this.node.createInvoice({ amountSats: amount, memo, expirySeconds });
+
     return {
-      paymentHash: `ln_${Date.now()}`,
-      invoice: 'lnbc1000n1p...', // Mock Lightning invoice
-      amount,
-      expiresAt: new Date(Date.now() + 3600000), // 1 hour
+      paymentHash: invoice.paymentHash,
+      invoice: invoice.paymentRequest,
+      amount: invoice.amountSats,
+      expiresAt: invoice.expiresAt,
     };
   }
 
-  async checkPaymentStatus(paymentHash: string): Promise<{ paid: boolean; amount?: number }> {
+  async checkPaymentStatus(paymentHash: string): Promise<LightningPaymentStatus> {
     this.logger.log(`Checking Lightning payment status for ${paymentHash}`);
-    
-    // Mock implementation
+
+    const invoice = await this.node.lookupInvoice(paymentHash);
+    if (!invoice) {
+      throw new Error(`Lightning invoice ${paymentHash} not found on ${this.node.name} node`);
+    }
+
     return {
-      paid: false,
-      amount: 1000,
+      paid: invoice.settled,
+      amount: invoice.settled ? invoice.amountPaidSats : invoice.amountSats,
+      preimage: invoice.preimage,
+      paidAt: invoice.settledAt,
     };
   }
 
-  async getInvoiceInfo(invoice: string): Promise<{ amount: number; memo?: string; expiresAt: Date }> {
+  async getInvoiceInfo(
+    invoice: string
+  ): Promise<{ amount: number; memo?: string; expiresAt: Date; paymentHash: string }> {
     this.logger.log(`Getting Lightning invoice info for ${invoice}`);
-    
-    // Mock implementation
+
+    const decoded = await this.node.decodePaymentRequest(invoice);
+
     return {
-      amount: 1000,
-      memo: 'Mock invoice',
-      expiresAt: new Date(Date.now() + 3600000),
+      amount: decoded.amountSats,
+      memo: decoded.memo,
+      expiresAt: decoded.expiresAt,
+      paymentHash: decoded.paymentHash,
     };
   }
+
+  /**
+   * Pay a BOLT11 invoice from the node
+   * `amount` is only used when the invoice does not specify one.
+   */
+  async payInvoice(
+    paymentRequest: string,
+    maxFeeSats: number,
+    amount?: number
+  ): Promise<LightningPaymentResult> {
+    const decoded = await this.node.decodePaymentRequest(paymentRequest);
+    if (!decoded.amountSats && !amount) {
+      throw new Error(`Invoice ${decoded.paymentHash} has no amount and none was given`);
+    }
+
+    this.logger.log(
+      `Paying Lightning invoice ${decoded.paymentHash} on ${this.node.name} node (max fee ${maxFeeSats} sats)`
+    );
+    const payment = await this.node.payInvoice({
+      paymentRequest,
+      amountSats: decoded.amountSats ? undefined : amount,
+      maxFeeSats,
+    });
+
+    return {
+      paymentHash: payment.paymentHash,
+      preimage: payment.preimage,
+      amount: payment.amountSats,
+      fee: payment.feeSats,
+    };
+  }
+
+  /**
+   * Where an outgoing payment stands on the node, by the payment hash of the paid invoice
+   */
+  async lookupOutgoingPayment(paymentHash: string): Promise<OutgoingPaymentStatus> {
+    const found = await this.node.lookupPayment(paymentHash);
+    if (!found) {
+      return { status: 'NOT_SENT' };
+    }
+
+    const { status, payment } = found;
+    return {
+      status,
+      result: payment && {
+        paymentHash: payment.paymentHash,
+        preimage: payment.preimage,
+        amount: payment.amountSats,
+        fee: payment.feeSats,
+      },
+    };
+  }
+
+  /**
+   * Subscribe to invoices settled on the node after the given settle index
+   */
+  subscribeToSettlements(
+    afterSettleIndex: number,
+    onSettled: (settlement: LightningSettlement) => Promise<void>,
+    onError: (error: Error) => void
+  ): InvoiceSubscription {
+    return this.node.subscribeSettledInvoices(
+      afterSettleIndex,
+      invoice =>
+        onSettled({
+          paymentHash: invoice.paymentHash,
+          amount: invoice.amountPaidSats ?? invoice.amountSats,
+          preimage: invoice.preimage,
+          paidAt: invoice.settledAt ?? new Date(),
+          settleIndex: invoice.settleIndex ?? 0,
+        }),
+      onError
+    );
+  }
 }
@@ -0,0 +1,316 @@
+import * as crypto from 'crypto';
+import { secp256k1 } from '@noble/curves/secp256k1';
+
+/**
+ * Minimal BOLT11 codec
+ * Covers the tagged fields BitPesa issues and reads: payment hash, payment secret,
+ * description, expiry, min final CLTV expiry and feature bits.
+ */
+
+export const BOLT11_NETWORK_PREFIXES = {
+  regtest: 'bcrt',
+  signet: 'tbs',
+  testnet: 'tb',
+  mainnet: 'bc',
+} as const;
+
+export type Bolt11Network = keyof typeof BOLT11_NETWORK_PREFIXES;
+
+export interface Bolt11InvoiceData {
+  network: Bolt11Network;
+  amountSats?: number;
+  timestamp: number;
+  paymentHash: string;
+  paymentSecret?: string;
+  description?: string;
+  expirySeconds: number;
+  minFinalCltvExpiry: number;
+}
+
+export interface DecodedBolt11Invoice extends Bolt11InvoiceData {
+  payeeNodeKey: string;
+}
+
+const BECH32_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const BECH32_GENERATORS = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+const TAGS = {
+  PAYMENT_HASH: 1,
+  FEATURES: 5,
+  EXPIRY: 6,
+  DESCRIPTION: 13,
+  PAYMENT_SECRET: 16,
+  MIN_FINAL_CLTV_EXPIRY: 24,
+} as const;
+
+// var_onion_optin (bit 8) and payment_secret (bit 14), both required
+const DEFAULT_FEATURE_BITS = (1 << 14) | (1 << 8);
+const DEFAULT_EXPIRY_SECONDS = 3600;
+const DEFAULT_MIN_FINAL_CLTV_EXPIRY = 18;
+const SIGNATURE_WORDS = 104;
+const MSAT_PER_BTC = 100_000_000_000n;
+const AMOUNT_MULTIPLIERS: Record<string, bigint> = {
+  m: 100_000_000n,
+  u: 100_000n,
+  n: 100n,
+};
+
+/**
+ * Encode and sign a BOLT11 invoice with the given node private key
+ */
+export function encodeBolt11(data: Bolt11InvoiceData, privateKey: Uint8Array): string {
+  const hrp = `ln${BOLT11_NETWORK_PREFIXES[data.network]}${encodeAmount(data.amountSats)}`;
+
+  const words: number[] = [...intToWords(data.timestamp, 7)];
+  pushTag(words, TAGS.PAYMENT_HASH, hexToWords(data.paymentHash));
+  if (data.paymentSecret) {
+    pushTag(words, TAGS.PAYMENT_SECRET, hexToWords(data.paymentSecret));
+  }
+  pushTag(words, TAGS.DESCRIPTION, convertBits(Buffer.from(data.description ?? '', 'utf8'), 8, 5));
+  pushTag(words, TAGS.EXPIRY, intToWords(data.expirySeconds));
+  pushTag(words, TAGS.MIN_FINAL_CLTV_EXPIRY, intToWords(data.minFinalCltvExpiry));
+  pushTag(words, TAGS.FEATURES, intToWords(DEFAULT_FEATURE_BITS));
+
+  const signature = secp256k1.sign(signingHash(hrp, words), privateKey);
+  const signatureBytes = Buffer.concat([
+    Buffer.from(signature.toCompactRawBytes()),
+    Buffer.from([signature.recovery]),
+  ]);
+
+  return bech32Encode(hrp, [...words, ...convertBits(signatureBytes, 8, 5)]);
+}
+
+/**
+ * Decode a BOLT11 invoice and recover the payee node key from its signature
+ */
+export function decodeBolt11(paymentRequest: string): DecodedBolt11Invoice {
+  const { hrp, words } = bech32Decode(paymentRequest);
+  const { network, amountSats } = parseHrp(hrp);
+
+  if (words.length < 7 + SIGNATURE_WORDS) {
+    throw new Error('Invalid BOLT11 invoice: data part too short');
+  }
+
+  const dataWords = words.slice(0, words.length - SIGNATURE_WORDS);
+  const signatureBytes = Buffer.from(
+    convertBits(words.slice(words.length - SIGNATURE_WORDS), 5, 8, false)
+  );
+
+  const invoice: DecodedBolt11Invoice = {
+    network,
+    amountSats,
+    timestamp: wordsToInt(dataWords.slice(0, 7)),
+    paymentHash: '',
+    expirySeconds: DEFAULT_EXPIRY_SECONDS,
+    minFinalCltvExpiry: DEFAULT_MIN_FINAL_CLTV_EXPIRY,
+    payeeNodeKey: '',
+  };
+
+  let cursor = 7;
+  while (cursor < dataWords.length) {
+    const tag = dataWords[cursor];
+    const length = (dataWords[cursor + 1] << 5) | dataWords[cursor + 2];
+    const value = dataWords.slice(cursor + 3, cursor + 3 + length);
+    cursor += 3 + length;
+
+    switch (tag) {
+      case TAGS.PAYMENT_HASH:
+        invoice.paymentHash = wordsToHex(value);
+        break;
+      case TAGS.PAYMENT_SECRET:
+        invoice.paymentSecret = wordsToHex(value);
+        break;
+      case TAGS.DESCRIPTION:
+        invoice.description = Buffer.from(convertBits(value, 5, 8, false)).toString('utf8');
+        break;
+      case TAGS.EXPIRY:
+        invoice.expirySeconds = wordsToInt(value);
+        break;
+      case TAGS.MIN_FINAL_CLTV_EXPIRY:
+        invoice.minFinalCltvExpiry = wordsToInt(value);
+        break;
+      default:
+        // Unknown tags are skipped as required by the spec
+        break;
+    }
+  }
+
+  if (!invoice.paymentHash) {
+    throw new Error('Invalid BOLT11 invoice: missing payment hash');
+  }
+
+  const signature = secp256k1.Signature.fromCompact(signatureBytes.subarray(0, 64)).addRecoveryBit(
+    signatureBytes[64]
+  );
+  invoice.payeeNodeKey = signature.recoverPublicKey(signingHash(hrp, dataWords)).toHex(true);
+
+  return invoice;
+}
+
+function encodeAmount(amountSats?: number): string {
+  if (!amountSats) {
+    return '';
+  }
+
+  const msat = BigInt(Math.round(amountSats)) * 1000n;
+  for (const [suffix, multiplier] of Object.entries(AMOUNT_MULTIPLIERS)) {
+    if (msat % multiplier === 0n) {
+      return `${msat / multiplier}${suffix}`;
+    }
+  }
+
+  throw new Error(`Cannot encode amount ${amountSats} sats`);
+}
+
+function parseHrp(hrp: string): { network: Bolt11Network; amountSats?: number } {
+  if (!hrp.startsWith('ln')) {
+    throw new Error('Invalid BOLT11 invoice: prefix must start with "ln"');
+  }
+
+  const rest = hrp.slice(2);
+  const network = (Object.keys(BOLT11_NETWORK_PREFIXES) as Bolt11Network[]).find(key =>
+    rest.startsWith(BOLT11_NETWORK_PREFIXES[key])
+  );
+  if (!network) {
+    throw new Error(`Invalid BOLT11 invoice: unknown network prefix in "${hrp}"`);
+  }
+
+  const amount = rest.slice(BOLT11_NETWORK_PREFIXES[network].length);
+  if (!amount) {
+    return { network };
+  }
+
+  const match = /^(\d+)([munp]?)$/.exec(amount);
+  if (!match) {
+    throw new Error(`Invalid BOLT11 invoice: malformed amount "${amount}"`);
+  }
+
+  const value = BigInt(match[1]);
+  let msat: bigint;
+  if (match[2] === 'p') {
+    if (value % 10n !== 0n) {
+      throw new Error('Invalid BOLT11 invoice: sub-millisatoshi amount');
+    }
+    msat = value / 10n;
+  } else {
+    msat = match[2] ? value * AMOUNT_MULTIPLIERS[match[2]] : value * MSAT_PER_BTC;
+  }
+
+  return { network, amountSats: Number(msat / 1000n) };
+}
+
+function signingHash(hrp: string, dataWords: number[]): Uint8Array {
+  return crypto
+    .createHash('sha256')
+    .update(Buffer.concat([Buffer.from(hrp, 'utf8'), Buffer.from(convertBits(dataWords, 5, 8))]))
+    .digest();
+}
+
+function pushTag(words: number[], tag: number, value: number[]): void {
+  words.push(tag, value.length >> 5, value.length & 31, ...value);
+}
+
+function intToWords(value: number, minLength: number = 1): number[] {
+  const words: number[] = [];
+  let remaining = value;
+  while (remaining > 0) {
+    words.unshift(remaining % 32);
+    remaining = Math.floor(remaining / 32);
+  }
+  while (words.length < minLength) {
+    words.unshift(0);
+  }
+  return words;
+}
+
+function wordsToInt(words: number[]): number {
+  return words.reduce((total, word) => total * 32 + word, 0);
+}
+
+function hexToWords(hex: string): number[] {
+  return convertBits(Buffer.from(hex, 'hex'), 8, 5);
+}
+
+function wordsToHex(words: number[]): string {
+  return Buffer.from(convertBits(words, 5, 8, false)).toString('hex');
+}
+
+export function convertBits(
+  data: ArrayLike<number>,
+  fromBits: number,
+  toBits: number,
+  pad: boolean = true
+): number[] {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << toBits) - 1;
+  const maxAccumulator = (1 << (fromBits + toBits - 1)) - 1;
+
+  for (let i = 0; i < data.length; i++) {
+    accumulator = ((accumulator << fromBits) | data[i]) & maxAccumulator;
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((accumulator >> bits) & maxValue);
+    }
+  }
+
+  if (pad && bits > 0) {
+    result.push((accumulator << (toBits - bits)) & maxValue);
+  }
+
+  return result;
+}
+
+function bech32Polymod(values: number[]): number {
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >> i) & 1) {
+        checksum ^= BECH32_GENERATORS[i];
+      }
+    }
+  }
+  return checksum;
+}
+
+function bech32HrpExpand(hrp: string): number[] {
+  const chars = [...hrp].map(char => char.charCodeAt(0));
+  return [...chars.map(code => code >> 5), 0, ...chars.map(code => code & 31)];
+}
+
+export function bech32Encode(hrp: string, words: number[]): string {
+  const polymod = bech32Polymod([...bech32HrpExpand(hrp), ...words, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksum = Array.from({ length: 6 }, (_, i) => (polymod >> (5 * (5 - i))) & 31);
+  return `${hrp}1${[...words, ...checksum].map(word => BECH32_CHARSET[word]).join('')}`;
+}
+
+function bech32Decode(value: string): { hrp: string; words: number[] } {
+  const lowered = value.toLowerCase();
+  if (lowered !== value && value.toUpperCase() !== value) {
+    throw new Error('Invalid BOLT11 invoice: mixed case');
+  }
+
+  const separator = lowered.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lowered.length) {
+    throw new Error('Invalid BOLT11 invoice: missing separator');
+  }
+
+  const hrp = lowered.slice(0, separator);
+  const words = [...lowered.slice(separator + 1)].map(char => {
+    const word = BECH32_CHARSET.indexOf(char);
+    if (word === -1) {
+      throw new Error(`Invalid BOLT11 invoice: unexpected character "${char}"`);
+    }
+    return word;
+  });
+
+  if (bech32Polymod([...bech32HrpExpand(hrp), ...words]) !== 1) {
+    throw new Error('Invalid BOLT11 invoice: checksum mismatch');
+  }
+
+  return { hrp, words: words.slice(0, -6) };
+}
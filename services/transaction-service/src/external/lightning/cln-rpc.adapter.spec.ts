@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { ClnRpcAdapter } from './cln-rpc.adapter';
+
+describe('ClnRpcAdapter', () => {
+  let socketPath: string;
+  let server: net.Server;
+  let respond: (socket: net.Socket, request: { id: number; method: string }) => void;
+
+  const invoice = {
+    payment_hash: 'ab'.repeat(32),
+    bolt11: 'lnbcrt10u1example',
+    status: 'unpaid',
+    amount_msat: 1000000,
+    expires_at: 1800000000,
+  };
+
+  beforeEach(async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cln-rpc-'));
+    socketPath = path.join(dir, 'lightning-rpc');
+    server = net.createServer(socket => {
+      socket.on('data', data => respond(socket, JSON.parse(data.toString('utf8'))));
+    });
+    await new Promise<void>(resolve => server.listen(socketPath, resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(path.dirname(socketPath), { recursive: true, force: true });
+  });
+
+  it('should read a response split across several frames', async () => {
+    respond = (socket, request) => {
+      const body = `${JSON.stringify({ jsonrpc: '2.0', id: request.id, result: { invoices: [invoice] } })}\n\n`;
+      socket.write(body.slice(0, 20));
+      setTimeout(() => socket.write(body.slice(20)), 10);
+    };
+    const adapter = new ClnRpcAdapter({ socketPath });
+
+    const found = await adapter.lookupInvoice(invoice.payment_hash);
+
+    expect(found).toMatchObject({ paymentHash: invoice.payment_hash, amountSats: 1000 });
+  });
+
+  it('should reject a malformed response', async () => {
+    respond = socket => socket.write('{"jsonrpc": "2.0", "result": \n\n');
+    const adapter = new ClnRpcAdapter({ socketPath });
+
+    await expect(adapter.lookupInvoice(invoice.payment_hash)).rejects.toThrow(
+      'Core Lightning RPC listinvoices returned a malformed response'
+    );
+  });
+
+  it('should reject when lightningd closes the socket without replying', async () => {
+    respond = socket => socket.end();
+    const adapter = new ClnRpcAdapter({ socketPath });
+
+    await expect(adapter.lookupInvoice(invoice.payment_hash)).rejects.toThrow(
+      'Core Lightning RPC listinvoices connection closed before a response'
+    );
+  });
+
+  it('should reject when lightningd never replies', async () => {
+    respond = () => undefined;
+    const adapter = new ClnRpcAdapter({ socketPath, timeoutMs: 50 });
+
+    await expect(adapter.lookupInvoice(invoice.payment_hash)).rejects.toThrow(
+      'Core Lightning RPC listinvoices timed out'
+    );
+  });
+
+  it('should report a payment as succeeded once any attempt completed', async () => {
+    const pays = [
+      { payment_hash: invoice.payment_hash, status: 'failed' },
+      {
+        payment_hash: invoice.payment_hash,
+        status: 'complete',
+        preimage: 'cd'.repeat(32),
+        amount_msat: 1000000,
+        amount_sent_msat: 1003000,
+      },
+    ];
+    respond = (socket, request) =>
+      socket.write(`${JSON.stringify({ jsonrpc: '2.0', id: request.id, result: { pays } })}\n\n`);
+    const adapter = new ClnRpcAdapter({ socketPath });
+
+    await expect(adapter.lookupPayment(invoice.payment_hash)).resolves.toEqual({
+      status: 'SUCCEEDED',
+      payment: {
+        paymentHash: invoice.payment_hash,
+        preimage: 'cd'.repeat(32),
+        amountSats: 1000,
+        feeSats: 3,
+      },
+    });
+  });
+
+  it('should report a payment the node never sent as unknown', async () => {
+    respond = (socket, request) =>
+      socket.write(
+        `${JSON.stringify({ jsonrpc: '2.0', id: request.id, result: { pays: [] } })}\n\n`
+      );
+    const adapter = new ClnRpcAdapter({ socketPath });
+
+    await expect(adapter.lookupPayment(invoice.payment_hash)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,327 @@
+import * as net from 'net';
+import { randomUUID } from 'crypto';
+import {
+  CreateNodeInvoiceParams,
+  DecodedPaymentRequest,
+  InvoiceSubscription,
+  LightningNodeAdapter,
+  LightningPaymentError,
+  NodeInvoice,
+  NodePayment,
+  NodePaymentStatus,
+  PayInvoiceParams,
+  SettledInvoiceHandler,
+} from './lightning-node.adapter';
+import { SettledInvoiceQueue } from './settled-invoice-queue';
+
+export interface ClnRpcOptions {
+  socketPath: string;
+  timeoutMs?: number;
+}
+
+interface ClnInvoice {
+  payment_hash: string;
+  bolt11: string;
+  status: 'unpaid' | 'paid' | 'expired';
+  description?: string;
+  amount_msat?: number | string;
+  amount_received_msat?: number | string;
+  expires_at: number;
+  paid_at?: number;
+  payment_preimage?: string;
+  pay_index?: number;
+}
+
+interface ClnDecodedInvoice {
+  payment_hash: string;
+  amount_msat?: number | string;
+  description?: string;
+  created_at: number;
+  expiry?: number;
+  payee?: string;
+}
+
+interface ClnPayResult {
+  payment_hash: string;
+  payment_preimage: string;
+  amount_msat: number | string;
+  amount_sent_msat: number | string;
+}
+
+interface ClnPay {
+  payment_hash: string;
+  status: 'pending' | 'failed' | 'complete';
+  preimage?: string;
+  amount_msat?: number | string;
+  amount_sent_msat?: number | string;
+}
+
+/**
+ * lightningd error code for a waitanyinvoice call that hit its own timeout
+ */
+const WAIT_TIMED_OUT = 904;
+const WAIT_TIMEOUT_SECONDS = 60;
+
+/**
+ * pay error codes that mean the payment failed for good; code 200 (a previous attempt is
+ * still in progress) is deliberately not included
+ */
+const PAY_FAILED_CODES = [201, 203, 205, 206, 207, 210];
+const PAY_RETRY_SECONDS = 60;
+
+class ClnRpcError extends Error {
+  constructor(
+    message: string,
+    readonly code: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Core Lightning backend over the lightningd JSON-RPC unix socket
+ */
+export class ClnRpcAdapter implements LightningNodeAdapter {
+  readonly name = 'cln';
+  private requestId = 0;
+
+  constructor(private readonly options: ClnRpcOptions) {}
+
+  async createInvoice(params: CreateNodeInvoiceParams): Promise<NodeInvoice> {
+    const created = await this.call<{ payment_hash: string }>('invoice', {
+      amount_msat: params.amountSats * 1000,
+      label: `bitpesa-${randomUUID()}`,
+      description: params.memo ?? '',
+      expiry: params.expirySeconds,
+    });
+
+    const invoice = await this.lookupInvoice(created.payment_hash);
+    if (!invoice) {
+      throw new Error(`Core Lightning did not return invoice ${created.payment_hash}`);
+    }
+
+    return invoice;
+  }
+
+  async lookupInvoice(paymentHash: string): Promise<NodeInvoice | null> {
+    const result = await this.call<{ invoices: ClnInvoice[] }>('listinvoices', {
+      payment_hash: paymentHash,
+    });
+
+    return result.invoices.length > 0 ? this.mapInvoice(result.invoices[0]) : null;
+  }
+
+  async decodePaymentRequest(paymentRequest: string): Promise<DecodedPaymentRequest> {
+    const decoded = await this.call<ClnDecodedInvoice>('decode', { string: paymentRequest });
+
+    return {
+      paymentHash: decoded.payment_hash,
+      amountSats: msatToSats(decoded.amount_msat),
+      memo: decoded.description || undefined,
+      createdAt: new Date(decoded.created_at * 1000),
+      expiresAt: new Date((decoded.created_at + (decoded.expiry ?? 3600)) * 1000),
+      payeeNodeKey: decoded.payee,
+    };
+  }
+
+  async payInvoice(params: PayInvoiceParams): Promise<NodePayment> {
+    try {
+      const result = await this.call<ClnPayResult>(
+        'pay',
+        {
+          bolt11: params.paymentRequest,
+          amount_msat: params.amountSats !== undefined ? params.amountSats * 1000 : undefined,
+          maxfee: params.maxFeeSats * 1000,
+          retry_for: PAY_RETRY_SECONDS,
+        },
+        { timeoutMs: (PAY_RETRY_SECONDS + 30) * 1000 }
+      );
+
+      const amountSats = msatToSats(result.amount_msat);
+      return {
+        paymentHash: result.payment_hash,
+        preimage: result.payment_preimage,
+        amountSats,
+        feeSats: msatToSats(result.amount_sent_msat) - amountSats,
+      };
+    } catch (error) {
+      if (error instanceof ClnRpcError && PAY_FAILED_CODES.includes(error.code)) {
+        throw new LightningPaymentError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * listpays groups the attempts at one payment hash; a completed attempt wins over a
+   * pending one, and the payment has only failed when every attempt has
+   */
+  async lookupPayment(paymentHash: string): Promise<NodePaymentStatus | null> {
+    const { pays } = await this.call<{ pays: ClnPay[] }>('listpays', {
+      payment_hash: paymentHash,
+    });
+    if (pays.length === 0) {
+      return null;
+    }
+
+    const complete = pays.find(pay => pay.status === 'complete');
+    if (complete) {
+      const amountSats = msatToSats(complete.amount_msat);
+      return {
+        status: 'SUCCEEDED',
+        payment: {
+          paymentHash,
+          preimage: complete.preimage as string,
+          amountSats,
+          feeSats: msatToSats(complete.amount_sent_msat) - amountSats,
+        },
+      };
+    }
+
+    return { status: pays.some(pay => pay.status === 'pending') ? 'IN_FLIGHT' : 'FAILED' };
+  }
+
+  /**
+   * Long-poll waitanyinvoice, which returns the next invoice paid after lastpay_index
+   */
+  subscribeSettledInvoices(
+    afterSettleIndex: number,
+    onSettled: SettledInvoiceHandler,
+    onError: (error: Error) => void
+  ): InvoiceSubscription {
+    const controller = new AbortController();
+    const queue = new SettledInvoiceQueue(onSettled, onError, () => controller.abort());
+
+    const poll = async (lastPayIndex: number): Promise<void> => {
+      while (!queue.isClosed) {
+        try {
+          const invoice = await this.call<ClnInvoice>(
+            'waitanyinvoice',
+            { lastpay_index: lastPayIndex, timeout: WAIT_TIMEOUT_SECONDS },
+            { timeoutMs: (WAIT_TIMEOUT_SECONDS + 30) * 1000, signal: controller.signal }
+          );
+          lastPayIndex = invoice.pay_index ?? lastPayIndex;
+          queue.push(this.mapInvoice(invoice));
+        } catch (error) {
+          if (error instanceof ClnRpcError && error.code === WAIT_TIMED_OUT) {
+            continue;
+          }
+          queue.fail(error as Error);
+        }
+      }
+    };
+    void poll(afterSettleIndex);
+
+    return queue;
+  }
+
+  private mapInvoice(raw: ClnInvoice): NodeInvoice {
+    const settled = raw.status === 'paid';
+
+    return {
+      paymentHash: raw.payment_hash,
+      paymentRequest: raw.bolt11,
+      amountSats: msatToSats(raw.amount_msat),
+      memo: raw.description || undefined,
+      expiresAt: new Date(raw.expires_at * 1000),
+      settled,
+      amountPaidSats: settled ? msatToSats(raw.amount_received_msat) : undefined,
+      preimage: settled ? raw.payment_preimage : undefined,
+      settledAt: settled && raw.paid_at ? new Date(raw.paid_at * 1000) : undefined,
+      settleIndex: settled ? raw.pay_index : undefined,
+    };
+  }
+
+  /**
+   * Send a single JSON-RPC request; lightningd terminates each response with a blank line
+   * Settles once: on the response, a socket error, the socket closing without a full
+   * response, the timeout or the abort signal, whichever comes first.
+   */
+  private call<T>(
+    method: string,
+    params: Record<string, unknown>,
+    callOptions: { timeoutMs?: number; signal?: AbortSignal } = {}
+  ): Promise<T> {
+    const id = ++this.requestId;
+    const timeoutMs = callOptions.timeoutMs ?? this.options.timeoutMs ?? 30000;
+
+    return new Promise<T>((resolve, reject) => {
+      const socket = net.createConnection(this.options.socketPath);
+      socket.setEncoding('utf8');
+      let buffer = '';
+      let settled = false;
+
+      const settle = (error: Error | null, result?: T) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        callOptions.signal?.removeEventListener('abort', abort);
+        socket.destroy();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result as T);
+        }
+      };
+
+      const timer = setTimeout(
+        () => settle(new Error(`Core Lightning RPC ${method} timed out`)),
+        timeoutMs
+      );
+      const abort = () => settle(new Error(`Core Lightning RPC ${method} aborted`));
+      if (callOptions.signal?.aborted) {
+        abort();
+        return;
+      }
+      callOptions.signal?.addEventListener('abort', abort, { once: true });
+
+      socket.on('connect', () => {
+        socket.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+      });
+
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        if (!buffer.endsWith('\n\n')) {
+          return;
+        }
+
+        let response: { result?: T; error?: { code: number; message: string } };
+        try {
+          response = JSON.parse(buffer);
+        } catch {
+          settle(new Error(`Core Lightning RPC ${method} returned a malformed response`));
+          return;
+        }
+
+        if (response.error) {
+          settle(
+            new ClnRpcError(
+              `Core Lightning RPC ${method} failed: ${response.error.message}`,
+              response.error.code
+            )
+          );
+        } else {
+          settle(null, response.result as T);
+        }
+      });
+
+      socket.on('error', error => settle(error));
+      socket.on('close', () =>
+        settle(new Error(`Core Lightning RPC ${method} connection closed before a response`))
+      );
+    });
+  }
+}
+
+/**
+ * Older lightningd versions return msat amounts as strings like "1000msat"
+ */
+function msatToSats(value?: number | string): number {
+  if (value === undefined) {
+    return 0;
+  }
+  const msat = typeof value === 'number' ? value : parseInt(value, 10);
+  return Math.floor(msat / 1000);
+}
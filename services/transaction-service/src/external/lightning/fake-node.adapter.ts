@@ -0,0 +1,204 @@
+import * as crypto from 'crypto';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import {
+  CreateNodeInvoiceParams,
+  DecodedPaymentRequest,
+  InvoiceSubscription,
+  LightningNodeAdapter,
+  LightningPaymentError,
+  NodeInvoice,
+  NodePayment,
+  NodePaymentStatus,
+  PayInvoiceParams,
+  SettledInvoiceHandler,
+} from './lightning-node.adapter';
+import { decodeBolt11, encodeBolt11 } from './bolt11';
+import { SettledInvoiceQueue } from './settled-invoice-queue';
+
+export interface FakeNodeOptions {
+  privateKeyHex?: string;
+  /** Routing fee charged on every outgoing payment */
+  paymentFeeSats?: number;
+}
+
+/**
+ * In-process regtest Lightning node
+ * Issues BOLT11 invoices signed with a real secp256k1 key so they decode like any
+ * node-issued invoice, and exposes settleInvoice() so tests can simulate payments.
+ * Outgoing payments can only reach invoices issued by this same node.
+ */
+export class FakeLightningNodeAdapter implements LightningNodeAdapter {
+  readonly name = 'fake';
+  private readonly privateKey: Uint8Array;
+  private readonly paymentFeeSats: number;
+  private readonly invoices = new Map<string, NodeInvoice>();
+  private readonly payments = new Map<string, NodePaymentStatus>();
+  private readonly subscribers = new Set<SettledInvoiceQueue>();
+  private settleIndex = 0;
+
+  constructor(options: FakeNodeOptions = {}) {
+    this.privateKey = options.privateKeyHex
+      ? Buffer.from(options.privateKeyHex, 'hex')
+      : secp256k1.utils.randomPrivateKey();
+    this.paymentFeeSats = options.paymentFeeSats ?? 0;
+  }
+
+  get nodePublicKey(): string {
+    return Buffer.from(secp256k1.getPublicKey(this.privateKey, true)).toString('hex');
+  }
+
+  async createInvoice(params: CreateNodeInvoiceParams): Promise<NodeInvoice> {
+    const preimage = crypto.randomBytes(32);
+    const paymentHash = crypto.createHash('sha256').update(preimage).digest('hex');
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const paymentRequest = encodeBolt11(
+      {
+        network: 'regtest',
+        amountSats: params.amountSats,
+        timestamp,
+        paymentHash,
+        paymentSecret: crypto.randomBytes(32).toString('hex'),
+        description: params.memo,
+        expirySeconds: params.expirySeconds,
+        minFinalCltvExpiry: 18,
+      },
+      this.privateKey
+    );
+
+    const invoice: NodeInvoice = {
+      paymentHash,
+      paymentRequest,
+      amountSats: params.amountSats,
+      memo: params.memo,
+      expiresAt: new Date((timestamp + params.expirySeconds) * 1000),
+      settled: false,
+      preimage: preimage.toString('hex'),
+    };
+    this.invoices.set(paymentHash, invoice);
+
+    return this.toPublicInvoice(invoice);
+  }
+
+  async lookupInvoice(paymentHash: string): Promise<NodeInvoice | null> {
+    const invoice = this.invoices.get(paymentHash);
+    return invoice ? this.toPublicInvoice(invoice) : null;
+  }
+
+  async decodePaymentRequest(paymentRequest: string): Promise<DecodedPaymentRequest> {
+    const decoded = decodeBolt11(paymentRequest);
+
+    return {
+      paymentHash: decoded.paymentHash,
+      amountSats: decoded.amountSats ?? 0,
+      memo: decoded.description,
+      createdAt: new Date(decoded.timestamp * 1000),
+      expiresAt: new Date((decoded.timestamp + decoded.expirySeconds) * 1000),
+      payeeNodeKey: decoded.payeeNodeKey,
+    };
+  }
+
+  async payInvoice(params: PayInvoiceParams): Promise<NodePayment> {
+    const { paymentHash, amountSats } = decodeBolt11(params.paymentRequest);
+    try {
+      const payment = this.sendPayment(paymentHash, params, amountSats);
+      this.payments.set(paymentHash, { status: 'SUCCEEDED', payment });
+      return payment;
+    } catch (error) {
+      // Like a real node, a refused retry does not overwrite an earlier successful payment
+      if (this.payments.get(paymentHash)?.status !== 'SUCCEEDED') {
+        this.payments.set(paymentHash, { status: 'FAILED' });
+      }
+      throw error;
+    }
+  }
+
+  async lookupPayment(paymentHash: string): Promise<NodePaymentStatus | null> {
+    return this.payments.get(paymentHash) ?? null;
+  }
+
+  subscribeSettledInvoices(
+    afterSettleIndex: number,
+    onSettled: SettledInvoiceHandler,
+    onError: (error: Error) => void
+  ): InvoiceSubscription {
+    const queue = new SettledInvoiceQueue(onSettled, onError, () => this.subscribers.delete(queue));
+
+    [...this.invoices.values()]
+      .filter(invoice => invoice.settled && (invoice.settleIndex ?? 0) > afterSettleIndex)
+      .sort((a, b) => (a.settleIndex ?? 0) - (b.settleIndex ?? 0))
+      .forEach(invoice => queue.push(this.toPublicInvoice(invoice)));
+    this.subscribers.add(queue);
+
+    return queue;
+  }
+
+  /**
+   * Mark an invoice as paid, as if a payer had settled it over the network
+   */
+  settleInvoice(paymentHash: string, amountPaidSats?: number): NodeInvoice {
+    const invoice = this.invoices.get(paymentHash);
+    if (!invoice) {
+      throw new Error(`Unknown invoice ${paymentHash}`);
+    }
+    if (invoice.settled) {
+      return this.toPublicInvoice(invoice);
+    }
+    if (invoice.expiresAt.getTime() < Date.now()) {
+      throw new Error(`Invoice ${paymentHash} has expired`);
+    }
+
+    invoice.settled = true;
+    invoice.amountPaidSats = amountPaidSats ?? invoice.amountSats;
+    invoice.settledAt = new Date();
+    invoice.settleIndex = ++this.settleIndex;
+
+    const settled = this.toPublicInvoice(invoice);
+    this.subscribers.forEach(queue => queue.push(settled));
+
+    return settled;
+  }
+
+  private sendPayment(
+    paymentHash: string,
+    params: PayInvoiceParams,
+    amountSats: number | undefined
+  ): NodePayment {
+    const invoice = this.invoices.get(paymentHash);
+    if (!invoice) {
+      throw new LightningPaymentError(`No route to the payee of invoice ${paymentHash}`);
+    }
+    if (invoice.settled) {
+      throw new LightningPaymentError(`Invoice ${paymentHash} is already paid`);
+    }
+    if (this.paymentFeeSats > params.maxFeeSats) {
+      throw new LightningPaymentError(
+        `Routing fee ${this.paymentFeeSats} sats exceeds the ${params.maxFeeSats} sat limit`
+      );
+    }
+
+    let settled: NodeInvoice;
+    try {
+      settled = this.settleInvoice(paymentHash, amountSats ?? params.amountSats);
+    } catch (error) {
+      throw new LightningPaymentError((error as Error).message);
+    }
+
+    return {
+      paymentHash,
+      preimage: settled.preimage as string,
+      amountSats: settled.amountPaidSats ?? 0,
+      feeSats: this.paymentFeeSats,
+    };
+  }
+
+  /**
+   * The preimage is only revealed once the invoice is settled, like on a real node
+   */
+  private toPublicInvoice(invoice: NodeInvoice): NodeInvoice {
+    return {
+      ...invoice,
+      preimage: invoice.settled ? invoice.preimage : undefined,
+    };
+  }
+}
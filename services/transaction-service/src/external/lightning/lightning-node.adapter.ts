@@ -0,0 +1,114 @@
+/**
+ * Lightning node adapter contract
+ * Each supported backend (LND, Core Lightning, fake regtest node) implements this
+ * interface so LightningService never talks to a node implementation directly.
+ */
+
+export const LIGHTNING_NODE_ADAPTER = Symbol('LIGHTNING_NODE_ADAPTER');
+
+export interface CreateNodeInvoiceParams {
+  amountSats: number;
+  memo?: string;
+  expirySeconds: number;
+}
+
+export interface NodeInvoice {
+  paymentHash: string;
+  paymentRequest: string;
+  amountSats: number;
+  memo?: string;
+  expiresAt: Date;
+  settled: boolean;
+  amountPaidSats?: number;
+  preimage?: string;
+  settledAt?: Date;
+  settleIndex?: number;
+}
+
+export interface DecodedPaymentRequest {
+  paymentHash: string;
+  amountSats: number;
+  memo?: string;
+  createdAt: Date;
+  expiresAt: Date;
+  payeeNodeKey?: string;
+}
+
+export interface PayInvoiceParams {
+  paymentRequest: string;
+  /** Only set for invoices that do not specify an amount */
+  amountSats?: number;
+  maxFeeSats: number;
+}
+
+export interface NodePayment {
+  paymentHash: string;
+  preimage: string;
+  amountSats: number;
+  feeSats: number;
+}
+
+export interface NodePaymentStatus {
+  status: 'IN_FLIGHT' | 'SUCCEEDED' | 'FAILED';
+  /** Only set once the payment has succeeded */
+  payment?: NodePayment;
+}
+
+/**
+ * The node reported that a payment definitely failed and no HTLC is left in flight,
+ * so it is safe to retry. Any other error from payInvoice leaves the outcome unknown.
+ */
+export class LightningPaymentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LightningPaymentError';
+  }
+}
+
+export type SettledInvoiceHandler = (invoice: NodeInvoice) => Promise<void>;
+
+export interface InvoiceSubscription {
+  close(): void;
+}
+
+export interface LightningNodeAdapter {
+  readonly name: string;
+
+  /**
+   * Create a BOLT11 invoice on the node
+   */
+  createInvoice(params: CreateNodeInvoiceParams): Promise<NodeInvoice>;
+
+  /**
+   * Look up an invoice by its hex payment hash, or null if the node does not know it
+   */
+  lookupInvoice(paymentHash: string): Promise<NodeInvoice | null>;
+
+  /**
+   * Decode a BOLT11 payment request
+   */
+  decodePaymentRequest(paymentRequest: string): Promise<DecodedPaymentRequest>;
+
+  /**
+   * Pay a BOLT11 invoice, spending at most maxFeeSats on routing fees
+   * Resolves once the payment has succeeded; rejects with LightningPaymentError when it
+   * has definitely failed.
+   */
+  payInvoice(params: PayInvoiceParams): Promise<NodePayment>;
+
+  /**
+   * Look up an outgoing payment by its hex payment hash, or null if the node never sent it
+   */
+  lookupPayment(paymentHash: string): Promise<NodePaymentStatus | null>;
+
+  /**
+   * Stream settled invoices with a settle index above afterSettleIndex, oldest first.
+   * Handlers run one at a time; if a handler rejects or the stream drops, the
+   * subscription closes and onError is called so the caller can resubscribe.
+   */
+  subscribeSettledInvoices(
+    afterSettleIndex: number,
+    onSettled: SettledInvoiceHandler,
+    onError: (error: Error) => void
+  ): InvoiceSubscription;
+}
@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import { ConfigService } from '@nestjs/config';
+import { LightningNodeAdapter } from './lightning-node.adapter';
+import { LndRestAdapter } from './lnd-rest.adapter';
+import { ClnRpcAdapter } from './cln-rpc.adapter';
+import { FakeLightningNodeAdapter } from './fake-node.adapter';
+
+/**
+ * Build the Lightning node adapter selected by LIGHTNING_BACKEND (lnd, cln or fake)
+ */
+export function createLightningNodeAdapter(configService: ConfigService): LightningNodeAdapter {
+  const backend = configService.get<string>('LIGHTNING_BACKEND', 'fake');
+
+  switch (backend) {
+    case 'lnd':
+      return new LndRestAdapter({
+        url: getRequired(configService, 'LND_REST_URL'),
+        macaroonHex: fs
+          .readFileSync(getRequired(configService, 'LND_MACAROON_PATH'))
+          .toString('hex'),
+        tlsCertPem: readOptionalFile(configService.get<string>('LND_TLS_CERT_PATH')),
+      });
+
+    case 'cln':
+      return new ClnRpcAdapter({
+        socketPath: getRequired(configService, 'CLN_RPC_PATH'),
+      });
+
+    case 'fake':
+      if (configService.get<string>('NODE_ENV') === 'production') {
+        throw new Error('The fake Lightning node cannot be used in production');
+      }
+      return new FakeLightningNodeAdapter({
+        privateKeyHex: configService.get<string>('FAKE_NODE_PRIVATE_KEY'),
+      });
+
+    default:
+      throw new Error(`Unsupported LIGHTNING_BACKEND: ${backend}`);
+  }
+}
+
+function getRequired(configService: ConfigService, key: string): string {
+  const value = configService.get<string>(key);
+  if (!value) {
+    throw new Error(`${key} is required for the configured Lightning backend`);
+  }
+  return value;
+}
+
+function readOptionalFile(path?: string): string | undefined {
+  return path ? fs.readFileSync(path, 'utf8') : undefined;
+}
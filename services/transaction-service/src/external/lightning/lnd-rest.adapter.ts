@@ -0,0 +1,316 @@
+import * as https from 'https';
+import { Readable } from 'stream';
+import axios, { AxiosInstance } from 'axios';
+import {
+  CreateNodeInvoiceParams,
+  DecodedPaymentRequest,
+  InvoiceSubscription,
+  LightningNodeAdapter,
+  LightningPaymentError,
+  NodeInvoice,
+  NodePayment,
+  NodePaymentStatus,
+  PayInvoiceParams,
+  SettledInvoiceHandler,
+} from './lightning-node.adapter';
+import { SettledInvoiceQueue } from './settled-invoice-queue';
+
+export interface LndRestOptions {
+  url: string;
+  macaroonHex: string;
+  tlsCertPem?: string;
+  timeoutMs?: number;
+}
+
+interface LndInvoice {
+  r_hash: string;
+  r_preimage?: string;
+  payment_request: string;
+  value: string;
+  memo?: string;
+  creation_date: string;
+  expiry: string;
+  state: 'OPEN' | 'SETTLED' | 'CANCELED' | 'ACCEPTED';
+  amt_paid_sat?: string;
+  settle_date?: string;
+  settle_index?: string;
+}
+
+interface LndPayReq {
+  destination: string;
+  payment_hash: string;
+  num_satoshis: string;
+  timestamp: string;
+  expiry: string;
+  description?: string;
+}
+
+interface LndSendResponse {
+  payment_error?: string;
+  payment_preimage?: string;
+  payment_hash?: string;
+  payment_route?: {
+    total_amt: string;
+    total_fees: string;
+  };
+}
+
+interface LndPayment {
+  payment_hash: string;
+  payment_preimage?: string;
+  value_sat?: string;
+  fee_sat?: string;
+  status: 'UNKNOWN' | 'IN_FLIGHT' | 'SUCCEEDED' | 'FAILED' | 'INITIATED';
+}
+
+const PAYMENT_TIMEOUT_MS = 120000;
+
+/**
+ * gRPC status LND answers with when it has no payment for a hash
+ */
+const GRPC_NOT_FOUND = 5;
+
+/**
+ * LND backend over its REST gateway (the REST proxy in front of LND's gRPC API)
+ */
+export class LndRestAdapter implements LightningNodeAdapter {
+  readonly name = 'lnd';
+  private readonly client: AxiosInstance;
+
+  constructor(options: LndRestOptions) {
+    this.client = axios.create({
+      baseURL: options.url,
+      timeout: options.timeoutMs ?? 30000,
+      headers: {
+        'Grpc-Metadata-macaroon': options.macaroonHex,
+        'Content-Type': 'application/json',
+      },
+      httpsAgent: new https.Agent({ ca: options.tlsCertPem }),
+    });
+  }
+
+  async createInvoice(params: CreateNodeInvoiceParams): Promise<NodeInvoice> {
+    const response = await this.client.post<{ r_hash: string; payment_request: string }>(
+      '/v1/invoices',
+      {
+        value: String(params.amountSats),
+        memo: params.memo,
+        expiry: String(params.expirySeconds),
+      }
+    );
+
+    const paymentHash = base64ToHex(response.data.r_hash);
+    const invoice = await this.lookupInvoice(paymentHash);
+    if (!invoice) {
+      throw new Error(`LND did not return invoice ${paymentHash} after creating it`);
+    }
+
+    return invoice;
+  }
+
+  async lookupInvoice(paymentHash: string): Promise<NodeInvoice | null> {
+    try {
+      const response = await this.client.get<LndInvoice>(`/v1/invoice/${paymentHash}`);
+      return this.mapInvoice(response.data);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async decodePaymentRequest(paymentRequest: string): Promise<DecodedPaymentRequest> {
+    const response = await this.client.get<LndPayReq>(`/v1/payreq/${paymentRequest}`);
+    const timestamp = Number(response.data.timestamp);
+
+    return {
+      paymentHash: response.data.payment_hash,
+      amountSats: Number(response.data.num_satoshis),
+      memo: response.data.description || undefined,
+      createdAt: new Date(timestamp * 1000),
+      expiresAt: new Date((timestamp + Number(response.data.expiry)) * 1000),
+      payeeNodeKey: response.data.destination,
+    };
+  }
+
+  /**
+   * Pay synchronously; LND only answers once the payment has settled or definitely failed
+   */
+  async payInvoice(params: PayInvoiceParams): Promise<NodePayment> {
+    const response = await this.client.post<LndSendResponse>(
+      '/v1/channels/transactions',
+      {
+        payment_request: params.paymentRequest,
+        amt: params.amountSats !== undefined ? String(params.amountSats) : undefined,
+        fee_limit: { fixed: String(params.maxFeeSats) },
+      },
+      { timeout: PAYMENT_TIMEOUT_MS }
+    );
+
+    const { payment_error, payment_preimage, payment_hash, payment_route } = response.data;
+    if (payment_error || !payment_preimage || !payment_hash || !payment_route) {
+      throw new LightningPaymentError(`LND payment failed: ${payment_error || 'no route'}`);
+    }
+
+    const feeSats = Number(payment_route.total_fees);
+    return {
+      paymentHash: base64ToHex(payment_hash),
+      preimage: base64ToHex(payment_preimage),
+      amountSats: Number(payment_route.total_amt) - feeSats,
+      feeSats,
+    };
+  }
+
+  /**
+   * Read the first message of LND's payment tracking stream, which is the payment as it
+   * currently stands, then close the stream
+   */
+  async lookupPayment(paymentHash: string): Promise<NodePaymentStatus | null> {
+    const controller = new AbortController();
+    try {
+      const response = await this.client.get<Readable>(
+        `/v2/router/track/${Buffer.from(paymentHash, 'hex').toString('base64url')}`,
+        { responseType: 'stream', signal: controller.signal }
+      );
+      const message = JSON.parse(await readFirstLine(response.data)) as {
+        result?: LndPayment;
+        error?: { code?: number; message: string };
+      };
+      if (message.error?.code === GRPC_NOT_FOUND) {
+        return null;
+      }
+      if (!message.result) {
+        throw new Error(`LND payment lookup failed: ${message.error?.message ?? 'no result'}`);
+      }
+
+      const payment = message.result;
+      if (payment.status === 'SUCCEEDED') {
+        return {
+          status: 'SUCCEEDED',
+          payment: {
+            paymentHash,
+            preimage: payment.payment_preimage as string,
+            amountSats: Number(payment.value_sat ?? 0),
+            feeSats: Number(payment.fee_sat ?? 0),
+          },
+        };
+      }
+      return { status: payment.status === 'FAILED' ? 'FAILED' : 'IN_FLIGHT' };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    } finally {
+      controller.abort();
+    }
+  }
+
+  /**
+   * Consume LND's invoice subscription stream; LND replays every invoice settled after
+   * settle_index before switching to live updates
+   */
+  subscribeSettledInvoices(
+    afterSettleIndex: number,
+    onSettled: SettledInvoiceHandler,
+    onError: (error: Error) => void
+  ): InvoiceSubscription {
+    const controller = new AbortController();
+    const queue = new SettledInvoiceQueue(onSettled, onError, () => controller.abort());
+
+    this.client
+      .get<Readable>('/v1/invoices/subscribe', {
+        params: { settle_index: afterSettleIndex },
+        responseType: 'stream',
+        timeout: 0,
+        signal: controller.signal,
+      })
+      .then(response => {
+        let buffer = '';
+
+        response.data.on('data', (chunk: Buffer) => {
+          buffer += chunk.toString('utf8');
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+
+          for (const line of lines.filter(l => l.trim())) {
+            try {
+              const message = JSON.parse(line) as {
+                result?: LndInvoice;
+                error?: { message: string };
+              };
+              if (message.error) {
+                throw new Error(message.error.message);
+              }
+              if (message.result?.state === 'SETTLED') {
+                queue.push(this.mapInvoice(message.result));
+              }
+            } catch (error) {
+              queue.fail(new Error(`LND invoice subscription failed: ${(error as Error).message}`));
+              return;
+            }
+          }
+        });
+        response.data.on('end', () => queue.fail(new Error('LND invoice subscription ended')));
+        response.data.on('error', (error: Error) => queue.fail(error));
+      })
+      .catch((error: Error) => queue.fail(error));
+
+    return queue;
+  }
+
+  private mapInvoice(raw: LndInvoice): NodeInvoice {
+    const settled = raw.state === 'SETTLED';
+    const createdAt = Number(raw.creation_date);
+
+    return {
+      paymentHash: base64ToHex(raw.r_hash),
+      paymentRequest: raw.payment_request,
+      amountSats: Number(raw.value),
+      memo: raw.memo || undefined,
+      expiresAt: new Date((createdAt + Number(raw.expiry)) * 1000),
+      settled,
+      amountPaidSats: settled ? Number(raw.amt_paid_sat ?? 0) : undefined,
+      preimage: settled && raw.r_preimage ? base64ToHex(raw.r_preimage) : undefined,
+      settledAt: settled && raw.settle_date ? new Date(Number(raw.settle_date) * 1000) : undefined,
+      settleIndex: settled && raw.settle_index ? Number(raw.settle_index) : undefined,
+    };
+  }
+}
+
+function readFirstLine(stream: Readable): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+
+    const finish = (error: Error | null, line?: string) => {
+      stream.off('data', onData);
+      stream.off('end', onEnd);
+      stream.off('error', finish);
+      if (error) {
+        reject(error);
+      } else {
+        resolve(line as string);
+      }
+    };
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString('utf8');
+      const end = buffer.indexOf('\n');
+      if (end >= 0) {
+        finish(null, buffer.slice(0, end));
+      }
+    };
+    const onEnd = () =>
+      buffer.trim()
+        ? finish(null, buffer)
+        : finish(new Error('LND stream ended without a message'));
+
+    stream.on('data', onData);
+    stream.on('end', onEnd);
+    stream.on('error', finish);
+  });
+}
+
+function base64ToHex(value: string): string {
+  return Buffer.from(value, 'base64').toString('hex');
+}
@@ -0,0 +1,8 @@
+import { bech32Encode, convertBits } from './bolt11';
+
+/**
+ * Encode a URL as a bech32 LNURL (LUD-01), upper-cased so it packs densely into QR codes
+ */
+export function encodeLnurl(url: string): string {
+  return bech32Encode('lnurl', convertBits(Buffer.from(url, 'utf8'), 8, 5)).toUpperCase();
+}
@@ -0,0 +1,50 @@
+import { InvoiceSubscription, NodeInvoice, SettledInvoiceHandler } from './lightning-node.adapter';
+
+/**
+ * Delivers settled invoices to a subscriber one at a time, in the order the node reported them
+ * The first handler failure (or a failed stream) closes the subscription and reports the error
+ * once; invoices queued behind it are dropped and redelivered when the caller resubscribes.
+ */
+export class SettledInvoiceQueue implements InvoiceSubscription {
+  private tail: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(
+    private readonly onSettled: SettledInvoiceHandler,
+    private readonly onError: (error: Error) => void,
+    private readonly onClose: () => void = () => undefined
+  ) {}
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  push(invoice: NodeInvoice): void {
+    this.tail = this.tail.then(async () => {
+      if (this.closed) {
+        return;
+      }
+      try {
+        await this.onSettled(invoice);
+      } catch (error) {
+        this.fail(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  fail(error: Error): void {
+    if (this.closed) {
+      return;
+    }
+    this.close();
+    this.onError(error);
+  }
+
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.onClose();
+  }
+}
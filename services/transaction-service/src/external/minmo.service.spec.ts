@@ -0,0 +1,142 @@
+import axios from 'axios';
+import { ConfigService } from '@nestjs/config';
+import { MinmoService } from './minmo.service';
+
+jest.mock('axios');
+
+describe('MinmoService', () => {
+  const mockedAxios = axios as jest.Mocked<typeof axios>;
+  let service: MinmoService;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    service = new MinmoService({
+      get: (_key: string, defaultValue: unknown) => defaultValue,
+    } as unknown as ConfigService);
+  });
+
+  it('should quote through minmo-service', async () => {
+    mockedAxios.get.mockResolvedValue({
+      data: {
+        kesAmount: 5000,
+        btcAmount: 0.00101,
+        exchangeRate: 5000000,
+        minmoFee: 50,
+        timestamp: '2026-10-19T10:00:00.000Z',
+      },
+    });
+
+    await expect(service.getQuote(5000)).resolves.toEqual({
+      btcAmount: 0.00101,
+      exchangeRate: 5000000,
+      minmoFee: 50,
+    });
+    expect(mockedAxios.get).toHaveBeenCalledWith('http://localhost:3003/minmo/quotes', {
+      params: { kesAmount: 5000 },
+      timeout: 5000,
+    });
+  });
+
+  it('should create the swap with minmo-service and return its deposit address', async () => {
+    mockedAxios.post.mockResolvedValue({
+      data: {
+        swapId: 'swap_123',
+        btcAddress: 'bcrt1qdeposit',
+        btcAmount: 0.00101,
+        kesAmount: 5000,
+        exchangeRate: 5000000,
+        minmoFee: 50,
+        expiresAt: '2026-10-19T11:00:00.000Z',
+        status: 'pending',
+      },
+    });
+
+    const swap = await service.createSwap({
+      kesAmount: 5000,
+      recipientPhone: '254712345678',
+      transactionId: 'tx-1',
+      transactionType: 'SEND_MONEY',
+    });
+
+    expect(swap).toEqual({
+      swapId: 'swap_123',
+      btcAddress: 'bcrt1qdeposit',
+      btcAmount: 0.00101,
+      exchangeRate: 5000000,
+      minmoFee: 50,
+      expiresAt: new Date('2026-10-19T11:00:00.000Z'),
+    });
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'http://localhost:3003/minmo/swaps',
+      {
+        kesAmount: 5000,
+        recipientPhone: '254712345678',
+        recipientName: undefined,
+        transactionId: 'tx-1',
+        transactionType: 'SEND_MONEY',
+      },
+      { timeout: 10000 }
+    );
+  });
+
+  it('should leave out a phone number and transaction type minmo-service does not take', async () => {
+    mockedAxios.post.mockResolvedValue({
+      data: { swapId: 'swap_123', expiresAt: '2026-10-19T11:00:00.000Z' },
+    });
+
+    await service.createSwap({
+      kesAmount: 5000,
+      recipientPhone: '',
+      transactionId: 'tx-1',
+      transactionType: 'B2B',
+    });
+
+    expect(mockedAxios.post.mock.calls[0][1]).toMatchObject({
+      recipientPhone: undefined,
+      transactionType: undefined,
+    });
+  });
+
+  it('should report the deposit and its confirmations', async () => {
+    mockedAxios.get.mockResolvedValue({
+      data: {
+        status: 'DEPOSIT_CONFIRMING',
+        btcReceived: true,
+        btcAmount: 0.00101,
+        kesAmount: 5000,
+        confirmations: 1,
+        requiredConfirmations: 2,
+      },
+    });
+
+    await expect(service.getSwapStatus('swap_123')).resolves.toEqual({
+      status: 'DEPOSIT_CONFIRMING',
+      btcReceived: true,
+      confirmations: 1,
+      requiredConfirmations: 2,
+    });
+    expect(mockedAxios.get).toHaveBeenCalledWith('http://localhost:3003/minmo/swaps/swap_123', {
+      timeout: 5000,
+    });
+  });
+
+  it('should cancel the swap through minmo-service', async () => {
+    mockedAxios.post.mockResolvedValue({ data: undefined });
+
+    await service.cancelSwap('swap_123');
+
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'http://localhost:3003/minmo/swaps/swap_123/cancel',
+      undefined,
+      { timeout: 5000 }
+    );
+  });
+
+  it('should report a refund as failed while minmo-service cannot refund', async () => {
+    await expect(service.initiateRefund('swap_123', 'bcrt1qrefund', 100000)).resolves.toEqual({
+      success: false,
+      error: 'MinMo refunds are not available yet',
+    });
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+  });
+});
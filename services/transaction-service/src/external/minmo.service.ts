@@ -1,47 +1,141 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { ComplianceTransactionType } from '@bitpesa/shared-types';
+
+export interface MinmoSwapRequest {
+  kesAmount: number;
+  recipientPhone?: string;
+  recipientName?: string;
+  transactionId: string;
+  transactionType?: string;
+}
 
 export interface MinmoSwapResult {
   swapId: string;
   btcAddress: string;
-  invoice: string;
+  btcAmount: number;
+  exchangeRate: number;
   minmoFee: number;
   expiresAt: Date;
 }
 
+export interface MinmoQuote {
+  btcAmount: number;
+  exchangeRate: number;
+  minmoFee: number;
+}
+
+export interface MinmoSwapStatus {
+  status: string;
+  btcReceived: boolean;
+  confirmations: number;
+  requiredConfirmations: number;
+}
+
+/**
+ * Client for minmo-service, which holds the Minmo API credentials and tracks the swaps
+ */
 @Injectable()
 export class MinmoService {
   private readonly logger = new Logger(MinmoService.name);
 
-  async createSwap(amountBtc: number, recipientAddress: string): Promise<MinmoSwapResult> {
-    this.logger.log(`Creating MinMo swap for ${amountBtc} BTC to ${recipientAddress}`);
-    
-    // Mock implementation - replace with actual MinMo API call
+  constructor(private readonly configService: ConfigService) {}
+
+  private get baseUrl(): string {
+    return this.configService.get<string>('MINMO_SERVICE_URL', 'http://localhost:3003');
+  }
+
+  async getQuote(kesAmount: number): Promise<MinmoQuote> {
+    this.logger.log(`Quoting MinMo swap for ${kesAmount} KES`);
+
+    const { data } = await axios.get<MinmoQuote>(`${this.baseUrl}/minmo/quotes`, {
+      params: { kesAmount },
+      timeout: 5000,
+    });
     return {
-      swapId: `swap_${Date.now()}`,
-      btcAddress: 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh',
-      invoice: 'lnbc1000n1p...', // Mock Lightning invoice
-      minmoFee: 0.0001,
-      expiresAt: new Date(Date.now() + 3600000), // 1 hour
+      btcAmount: data.btcAmount,
+      exchangeRate: data.exchangeRate,
+      minmoFee: data.minmoFee,
     };
   }
 
-  async getSwapStatus(swapId: string): Promise<{ status: string; confirmed: boolean }> {
+  async createSwap(request: MinmoSwapRequest): Promise<MinmoSwapResult> {
+    this.logger.log(
+      `Creating MinMo swap for ${request.kesAmount} KES (transaction ${request.transactionId})`
+    );
+
+    // minmo-service only takes the compliance transaction types
+    const transactionType = Object.values<string>(ComplianceTransactionType).includes(
+      request.transactionType ?? ''
+    )
+      ? request.transactionType
+      : undefined;
+    const { data } = await axios.post<MinmoSwapResult>(
+      `${this.baseUrl}/minmo/swaps`,
+      {
+        kesAmount: request.kesAmount,
+        recipientPhone: request.recipientPhone || undefined,
+        recipientName: request.recipientName,
+        transactionId: request.transactionId,
+        transactionType,
+      },
+      { timeout: 10000 }
+    );
+    return {
+      swapId: data.swapId,
+      btcAddress: data.btcAddress,
+      btcAmount: data.btcAmount,
+      exchangeRate: data.exchangeRate,
+      minmoFee: data.minmoFee,
+      expiresAt: new Date(data.expiresAt),
+    };
+  }
+
+  async getSwapStatus(swapId: string): Promise<MinmoSwapStatus> {
     this.logger.log(`Getting MinMo swap status for ${swapId}`);
-    
-    // Mock implementation
+
+    const { data } = await axios.get<MinmoSwapStatus>(
+      `${this.baseUrl}/minmo/swaps/${encodeURIComponent(swapId)}`,
+      { timeout: 5000 }
+    );
     return {
-      status: 'pending',
-      confirmed: false,
+      status: data.status,
+      btcReceived: data.btcReceived,
+      confirmations: data.confirmations,
+      requiredConfirmations: data.requiredConfirmations,
     };
   }
 
-  async initiateRefund(swapId: string): Promise<{ success: boolean; refundTxId?: string }> {
-    this.logger.log(`Initiating MinMo refund for ${swapId}`);
-    
-    // Mock implementation
+  async cancelSwap(swapId: string): Promise<void> {
+    this.logger.log(`Cancelling MinMo swap ${swapId}`);
+
+    await axios.post(
+      `${this.baseUrl}/minmo/swaps/${encodeURIComponent(swapId)}/cancel`,
+      undefined,
+      {
+        timeout: 5000,
+      }
+    );
+  }
+
+  /**
+   * Return amountSats of a swap's BTC on-chain; MinMo deducts the network fee from it.
+   * minmo-service has no refund endpoint yet, so every refund is reported as failed and
+   * stays open for the payer rather than being recorded as paid.
+   */
+  async initiateRefund(
+    swapId: string,
+    refundAddress: string,
+    amountSats: number
+  ): Promise<{ success: boolean; refundTxId?: string; networkFeeSats?: number; error?: string }> {
+    this.logger.warn(
+      `Cannot refund ${amountSats} sats for MinMo swap ${swapId} to ${refundAddress}: minmo-service has no refund endpoint`
+    );
+
     return {
-      success: true,
-      refundTxId: `refund_${Date.now()}`,
+      success: false,
+      error: 'MinMo refunds are not available yet',
     };
   }
 }
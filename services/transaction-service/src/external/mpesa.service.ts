@@ -1,4 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { MpesaRecipient, MpesaRecipientType } from '@bitpesa/shared-types';
 
 export interface MpesaTransactionResult {
   transactionId: string;
@@ -17,10 +20,24 @@ export interface MpesaCallbackData {
   timestamp: string;
 }
 
+/**
+ * mpesa-service refused a payout request without sending it to Daraja, so no money moved
+ * and the payout can be failed. Any other error from the initiate* calls, such as a
+ * timeout, leaves the outcome unknown.
+ */
+export class MpesaPaymentRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MpesaPaymentRejectedError';
+  }
+}
+
 @Injectable()
 export class MpesaService {
   private readonly logger = new Logger(MpesaService.name);
 
+  constructor(private readonly configService: ConfigService) {}
+
   async initiateStkPush(
     phoneNumber: string,
     amount: number,
@@ -39,21 +56,22 @@ export class MpesaService {
     };
   }
 
-  async initiateC2B(
-    phoneNumber: string,
+  async initiateB2B(
+    commandId: 'BusinessPayBill' | 'BusinessBuyGoods',
+    shortCode: string,
     amount: number,
-    merchantCode: string,
-    accountNumber?: string
+    accountNumber?: string,
+    referenceNumber?: string
   ): Promise<MpesaTransactionResult> {
-    this.logger.log(`Initiating C2B for ${phoneNumber}, amount: ${amount}, merchant: ${merchantCode}`);
+    this.logger.log(`Initiating ${commandId} to ${shortCode}, amount: ${amount}`);
     
-    // Mock implementation
+    // Mock implementation - mpesa-service pays the merchant from our shortcode
     return {
-      transactionId: `c2b_${Date.now()}`,
+      transactionId: `b2b_${Date.now()}`,
       status: 'pending',
-      referenceNumber: `C2B${Date.now()}`,
+      referenceNumber: referenceNumber ?? `B2B${Date.now()}`,
       amount,
-      phoneNumber,
+      phoneNumber: shortCode,
     };
   }
 
@@ -74,6 +92,44 @@ export class MpesaService {
     };
   }
 
+  async initiateAirtime(
+    phoneNumber: string,
+    amount: number,
+    referenceNumber: string
+  ): Promise<MpesaTransactionResult> {
+    this.logger.log(`Initiating airtime top-up for ${phoneNumber}, amount: ${amount}`);
+    
+    // Mock implementation - mpesa-service buys from the recipient's network
+    return {
+      transactionId: `airtime_${Date.now()}`,
+      status: 'pending',
+      referenceNumber,
+      amount,
+      phoneNumber,
+    };
+  }
+
+  /**
+   * Who a paybill, till or phone number belongs to, from mpesa-service; null when it
+   * cannot say, as the lookup only informs the payer and never blocks a payment
+   */
+  async lookupRecipient(
+    type: MpesaRecipientType,
+    identifier: string
+  ): Promise<MpesaRecipient | null> {
+    const baseUrl = this.configService.get<string>('MPESA_SERVICE_URL', 'http://localhost:3002');
+    try {
+      const { data } = await axios.get<MpesaRecipient>(
+        `${baseUrl}/mpesa/lookup/${type.toLowerCase()}/${encodeURIComponent(identifier)}`,
+        { timeout: 5000 }
+      );
+      return data;
+    } catch (error) {
+      this.logger.warn(`Could not look up ${type} ${identifier}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
   async getTransactionStatus(transactionId: string): Promise<{ status: string; amount?: number }> {
     this.logger.log(`Getting M-Pesa transaction status for ${transactionId}`);
     
@@ -0,0 +1,121 @@
+/**
+ * Versioned fee schedules
+ * A schedule is never edited once it has been in effect: fee changes ship as a new
+ * version with a later effectiveFrom, so the version stored on a transaction always
+ * reproduces the fee it was charged.
+ */
+
+export const FEE_SCHEDULES = Symbol('FEE_SCHEDULES');
+
+export type FeeProduct = 'SEND_MONEY' | 'BUY_AIRTIME' | 'PAYBILL' | 'BUY_GOODS' | 'SCAN_PAY';
+
+export interface FeeTier {
+  /** Largest KES amount in the band; the last band has no limit */
+  upTo: number;
+  /** Fraction of the whole amount charged for amounts in this band */
+  percentage: number;
+}
+
+export interface ProductFees {
+  tiers: FeeTier[];
+  minFee: number;
+  maxFee: number;
+}
+
+/**
+ * Safaricom charge for an amount band, passed through to the payer as mpesaFee
+ */
+export interface TariffBand {
+  upTo: number;
+  fee: number;
+}
+
+export interface FeePromotion {
+  name: string;
+  startsAt: Date;
+  endsAt: Date;
+  /** Products the promotion applies to; all of them when omitted */
+  products?: FeeProduct[];
+  /** Fraction taken off the service fee (1 waives it) */
+  discount: number;
+}
+
+export interface FeeSchedule {
+  version: string;
+  effectiveFrom: Date;
+  products: Partial<Record<FeeProduct, ProductFees>>;
+  mpesaTariff: Partial<Record<FeeProduct, TariffBand[]>>;
+  promotions: FeePromotion[];
+}
+
+const flatPercentage = (percentage: number, minFee: number, maxFee = Infinity): ProductFees => ({
+  tiers: [{ upTo: Infinity, percentage }],
+  minFee,
+  maxFee,
+});
+
+// Safaricom customer tariff for transfers to M-Pesa users and Pay Bill accounts
+const TRANSFER_TARIFF: TariffBand[] = [
+  { upTo: 100, fee: 0 },
+  { upTo: 500, fee: 7 },
+  { upTo: 1000, fee: 13 },
+  { upTo: 1500, fee: 23 },
+  { upTo: 2500, fee: 33 },
+  { upTo: 3500, fee: 53 },
+  { upTo: 5000, fee: 57 },
+  { upTo: 7500, fee: 78 },
+  { upTo: 10000, fee: 90 },
+  { upTo: 15000, fee: 100 },
+  { upTo: 20000, fee: 105 },
+  { upTo: Infinity, fee: 108 },
+];
+
+export const FEE_SCHEDULE_VERSIONS: FeeSchedule[] = [
+  {
+    // Single 2.5% fee with a 5 KES minimum, charged before tiered schedules existed
+    version: '2024-01',
+    effectiveFrom: new Date('2024-01-01T00:00:00+03:00'),
+    products: {
+      SEND_MONEY: flatPercentage(0.025, 5),
+      BUY_AIRTIME: flatPercentage(0.025, 5),
+      PAYBILL: flatPercentage(0.025, 5),
+      BUY_GOODS: flatPercentage(0.025, 5),
+      SCAN_PAY: flatPercentage(0.025, 5),
+    },
+    mpesaTariff: {},
+    promotions: [],
+  },
+  {
+    version: '2026-10',
+    effectiveFrom: new Date('2026-10-01T00:00:00+03:00'),
+    products: {
+      SEND_MONEY: {
+        tiers: [
+          { upTo: 1000, percentage: 0.02 },
+          { upTo: 10000, percentage: 0.015 },
+          { upTo: 50000, percentage: 0.01 },
+          { upTo: Infinity, percentage: 0.0075 },
+        ],
+        minFee: 5,
+        maxFee: 750,
+      },
+      BUY_AIRTIME: flatPercentage(0.01, 1, 50),
+      PAYBILL: {
+        tiers: [
+          { upTo: 5000, percentage: 0.015 },
+          { upTo: Infinity, percentage: 0.01 },
+        ],
+        minFee: 10,
+        maxFee: 500,
+      },
+      BUY_GOODS: flatPercentage(0.015, 5, 500),
+      SCAN_PAY: flatPercentage(0.015, 5, 500),
+    },
+    // Buy Goods and airtime are free to the customer, so only these pass a tariff through
+    mpesaTariff: {
+      SEND_MONEY: TRANSFER_TARIFF,
+      PAYBILL: TRANSFER_TARIFF,
+    },
+    promotions: [],
+  },
+];
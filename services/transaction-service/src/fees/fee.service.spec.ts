@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FeeService } from './fee.service';
+import { FEE_SCHEDULES, FEE_SCHEDULE_VERSIONS, FeeSchedule } from './fee-schedules';
+
+describe('FeeService', () => {
+  let service: FeeService;
+
+  const at = new Date('2026-10-19T12:00:00+03:00');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [FeeService, { provide: FEE_SCHEDULES, useValue: FEE_SCHEDULE_VERSIONS }],
+    }).compile();
+
+    service = module.get<FeeService>(FeeService);
+  });
+
+  describe('calculate', () => {
+    it('should charge the band the amount falls in and pass the Safaricom tariff through', () => {
+      expect(service.calculate('SEND_MONEY', 2000, { at })).toEqual({
+        serviceFee: 30,
+        mpesaFee: 33,
+        total: 63,
+        scheduleVersion: '2026-10',
+        promotion: undefined,
+      });
+    });
+
+    it('should apply the minimum and maximum service fee', () => {
+      expect(service.calculate('SEND_MONEY', 100, { at })).toMatchObject({
+        serviceFee: 5,
+        mpesaFee: 0,
+      });
+      expect(service.calculate('SEND_MONEY', 150000, { at })).toMatchObject({
+        serviceFee: 750,
+        mpesaFee: 108,
+      });
+    });
+
+    it('should price each product from its own schedule', () => {
+      expect(service.calculate('BUY_AIRTIME', 500, { at })).toMatchObject({
+        serviceFee: 5,
+        mpesaFee: 0,
+        total: 5,
+      });
+      expect(service.calculate('PAYBILL', 500, { at })).toMatchObject({
+        serviceFee: 10,
+        mpesaFee: 7,
+        total: 17,
+      });
+      expect(service.calculate('BUY_GOODS', 500, { at })).toMatchObject({
+        serviceFee: 7.5,
+        mpesaFee: 0,
+      });
+    });
+
+    it('should reproduce fees charged under an earlier version', () => {
+      expect(service.getSchedule(new Date('2025-06-01')).version).toBe('2024-01');
+      expect(service.calculate('SEND_MONEY', 2000, { version: '2024-01', at })).toMatchObject({
+        serviceFee: 50,
+        mpesaFee: 0,
+        scheduleVersion: '2024-01',
+      });
+    });
+
+    it('should reject products without fees and unknown versions', () => {
+      expect(() => service.calculate('DEPOSIT', 1000, { at })).toThrow(
+        'No fees are configured for DEPOSIT'
+      );
+      expect(() => service.calculate('SEND_MONEY', 1000, { version: '1999-01' })).toThrow(
+        'Unknown fee schedule version 1999-01'
+      );
+    });
+  });
+
+  describe('promotions', () => {
+    const schedule: FeeSchedule = {
+      ...FEE_SCHEDULE_VERSIONS[1],
+      version: 'promo',
+      promotions: [
+        {
+          name: 'half-price-airtime',
+          startsAt: new Date('2026-10-01T00:00:00+03:00'),
+          endsAt: new Date('2026-11-01T00:00:00+03:00'),
+          products: ['BUY_AIRTIME'],
+          discount: 0.5,
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      service = new FeeService([schedule]);
+    });
+
+    it('should discount the service fee of matching products during the window', () => {
+      expect(service.calculate('BUY_AIRTIME', 1000, { at })).toMatchObject({
+        serviceFee: 5,
+        total: 5,
+        promotion: 'half-price-airtime',
+      });
+      expect(service.calculate('SEND_MONEY', 1000, { at })).toMatchObject({
+        serviceFee: 20,
+        promotion: undefined,
+      });
+    });
+
+    it('should not discount outside the window', () => {
+      expect(
+        service.calculate('BUY_AIRTIME', 1000, { at: new Date('2026-11-01T00:00:00+03:00') })
+      ).toMatchObject({ serviceFee: 10, promotion: undefined });
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { FeeBreakdown } from '@bitpesa/shared-types';
+import { FEE_SCHEDULES, FeeProduct, FeeSchedule } from './fee-schedules';
+
+/**
+ * Works out transaction fees from the versioned fee schedules
+ */
+@Injectable()
+export class FeeService {
+  private readonly schedules: FeeSchedule[];
+
+  constructor(@Inject(FEE_SCHEDULES) schedules: FeeSchedule[]) {
+    this.schedules = [...schedules].sort(
+      (a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime()
+    );
+  }
+
+  /**
+   * Schedule in effect at `at`
+   */
+  getSchedule(at: Date = new Date()): FeeSchedule {
+    const schedule = [...this.schedules].reverse().find(s => s.effectiveFrom <= at);
+    if (!schedule) {
+      throw new Error(`No fee schedule in effect at ${at.toISOString()}`);
+    }
+    return schedule;
+  }
+
+  getScheduleVersion(version: string): FeeSchedule {
+    const schedule = this.schedules.find(s => s.version === version);
+    if (!schedule) {
+      throw new Error(`Unknown fee schedule version ${version}`);
+    }
+    return schedule;
+  }
+
+  /**
+   * Fees for a KES amount of a product
+   * Pass the version and time a transaction was priced at to reproduce its fees.
+   */
+  calculate(
+    transactionType: string,
+    kesAmount: number,
+    options: { version?: string; at?: Date } = {}
+  ): FeeBreakdown {
+    const at = options.at ?? new Date();
+    const schedule = options.version
+      ? this.getScheduleVersion(options.version)
+      : this.getSchedule(at);
+
+    const product = transactionType as FeeProduct;
+    const fees = schedule.products[product];
+    if (!fees) {
+      throw new BadRequestException(`No fees are configured for ${transactionType}`);
+    }
+
+    const tier = fees.tiers.find(t => kesAmount <= t.upTo) ?? fees.tiers[fees.tiers.length - 1];
+    let serviceFee = Math.min(Math.max(kesAmount * tier.percentage, fees.minFee), fees.maxFee);
+
+    const promotion = schedule.promotions.find(
+      p => p.startsAt <= at && at < p.endsAt && (!p.products || p.products.includes(product))
+    );
+    if (promotion) {
+      serviceFee *= 1 - promotion.discount;
+    }
+
+    const tariff = schedule.mpesaTariff[product] ?? [];
+    const mpesaFee = tariff.find(band => kesAmount <= band.upTo)?.fee ?? 0;
+
+    serviceFee = round(serviceFee);
+    return {
+      serviceFee,
+      mpesaFee,
+      total: round(serviceFee + mpesaFee),
+      scheduleVersion: schedule.version,
+      promotion: promotion?.name,
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,31 @@
+import { Inject, Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { DomainEvent, EventType, MpesaFloatEventPayload } from '@bitpesa/shared-types';
+import { EVENT_BROKER, EventBroker, deduplicateEvents } from '@bitpesa/shared-infrastructure';
+import { PrismaService } from '../prisma/prisma.service';
+import { FloatService } from './float.service';
+
+const CONSUMER = 'transaction-service.float';
+
+/**
+ * Records the M-Pesa float balances mpesa-service publishes
+ */
+@Injectable()
+export class FloatEventsConsumer implements OnApplicationBootstrap {
+  constructor(
+    @Inject(EVENT_BROKER) private readonly broker: EventBroker,
+    private readonly prisma: PrismaService,
+    private readonly floatService: FloatService
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.broker.subscribe({
+      group: CONSUMER,
+      types: [EventType.MPESA_FLOAT_UPDATED],
+      handler: deduplicateEvents(this.prisma.processedEvent, CONSUMER, event => this.handle(event)),
+    });
+  }
+
+  private async handle(event: DomainEvent): Promise<void> {
+    await this.floatService.recordBalance(event.payload as unknown as MpesaFloatEventPayload);
+  }
+}
@@ -0,0 +1,232 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventType, TransactionStatus } from '@bitpesa/shared-types';
+import { FloatService } from './float.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../events/outbox.service';
+
+/**
+ * Whether a row meets one OR branch of the reserved-transactions filter
+ */
+function matches(row: Record<string, any>, clause: Record<string, any>): boolean {
+  return Object.entries(clause).every(([field, condition]) => {
+    if (condition && typeof condition === 'object' && 'in' in condition) {
+      return condition.in.includes(row[field]);
+    }
+    if (condition && typeof condition === 'object' && 'gt' in condition) {
+      return row[field] > condition.gt;
+    }
+    return row[field] === condition;
+  });
+}
+
+describe('FloatService', () => {
+  let service: FloatService;
+  let float: Record<string, any> | null;
+  let reservedByQuotes: number;
+  let reservedByTransactions: number;
+  let transactions: Array<Record<string, any>>;
+  let outboxEvents: Array<Record<string, any>>;
+  let prisma: Record<string, any>;
+
+  const report = (utilityBalance: number, checkedAt = '2026-10-19T08:00:00.000Z') =>
+    service.recordBalance({ workingBalance: 0, utilityBalance, checkedAt });
+
+  // Records an unpaid transaction holding kesAmount, as creating one would
+  const createTransaction = (kesAmount: number) =>
+    jest.fn(async () => {
+      const created = {
+        status: TransactionStatus.LIGHTNING_PENDING,
+        kesAmount,
+        invoiceExpiresAt: new Date(Date.now() + 60000),
+      };
+      transactions.push(created);
+      return created;
+    });
+
+  beforeEach(async () => {
+    float = null;
+    reservedByQuotes = 0;
+    reservedByTransactions = 0;
+    transactions = [];
+    outboxEvents = [];
+
+    // Single-row in-memory mpesa_float table; the quote sum is fixed and the transaction
+    // sum is reservedByTransactions plus the in-memory transactions the filter matches
+    prisma = {
+      mpesaFloat: {
+        findUnique: jest.fn(async () => float),
+        create: jest.fn(async ({ data }) => (float = { alertedAt: null, ...data })),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const matches =
+            float &&
+            (!where.checkedAt || float.checkedAt < where.checkedAt.lt) &&
+            (!where.OR || float.alertedAt === null || float.alertedAt < where.OR[1].alertedAt.lt);
+          if (!matches) {
+            return { count: 0 };
+          }
+          Object.assign(float!, data);
+          return { count: 1 };
+        }),
+      },
+      quote: {
+        aggregate: jest.fn(async () => ({ _sum: { kesAmount: reservedByQuotes, mpesaFee: 0 } })),
+      },
+      transaction: {
+        aggregate: jest.fn(async ({ where }) => ({
+          _sum: {
+            kesAmount: transactions
+              .filter(row => where.OR.some((clause: Record<string, any>) => matches(row, clause)))
+              .reduce((total, row) => total + row.kesAmount, reservedByTransactions),
+            mpesaFee: null,
+          },
+        })),
+      },
+      outboxEvent: {
+        create: jest.fn(async ({ data }) => outboxEvents.push(data)),
+      },
+      $queryRaw: jest.fn(async () => []),
+      $transaction: jest.fn(callback => callback(prisma)),
+    };
+
+    const config: Record<string, number> = {
+      MPESA_FLOAT_MIN_BALANCE: 10000,
+      MPESA_FLOAT_ALERT_BALANCE: 30000,
+      MPESA_FLOAT_TARGET_BALANCE: 100000,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FloatService,
+        OutboxService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key, defaultValue) => config[key] ?? defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FloatService>(FloatService);
+  });
+
+  it('should allow payouts until a balance has been reported', async () => {
+    await expect(service.reservePayout(1000000, createTransaction(1000000))).resolves.toMatchObject(
+      { kesAmount: 1000000 }
+    );
+  });
+
+  it('should hold open quotes and unsettled payouts against the reported balance', async () => {
+    reservedByQuotes = 5000;
+    reservedByTransactions = 15000;
+    await report(80000);
+
+    await expect(service.getPosition()).resolves.toMatchObject({
+      utilityBalance: 80000,
+      reserved: 20000,
+      projectedBalance: 60000,
+    });
+  });
+
+  it('should hold a quote until a transaction is created against it, even once used', async () => {
+    await report(80000);
+
+    await service.getPosition();
+
+    expect(prisma.quote.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { transaction: null, expiresAt: { gt: expect.any(Date) } } })
+    );
+  });
+
+  it('should stop holding an unpaid transaction once its invoice or swap expires', async () => {
+    const inAMinute = new Date(Date.now() + 60000);
+    const aMinuteAgo = new Date(Date.now() - 60000);
+    transactions = [
+      { status: TransactionStatus.LIGHTNING_PENDING, kesAmount: 1000, invoiceExpiresAt: inAMinute },
+      {
+        status: TransactionStatus.LIGHTNING_PENDING,
+        kesAmount: 2000,
+        invoiceExpiresAt: aMinuteAgo,
+      },
+      {
+        status: TransactionStatus.AWAITING_BTC_PAYMENT,
+        kesAmount: 4000,
+        invoiceExpiresAt: aMinuteAgo,
+      },
+      // Paid, so its payout is still owed whatever its invoice expiry
+      { status: TransactionStatus.MPESA_PENDING, kesAmount: 8000, invoiceExpiresAt: aMinuteAgo },
+      // Still being set up, so held for a while without an expiry
+      {
+        status: TransactionStatus.PENDING,
+        kesAmount: 16000,
+        invoiceExpiresAt: null,
+        createdAt: aMinuteAgo,
+      },
+      {
+        status: TransactionStatus.PENDING,
+        kesAmount: 32000,
+        invoiceExpiresAt: null,
+        createdAt: new Date(Date.now() - 60 * 60 * 1000),
+      },
+    ];
+    await report(80000);
+
+    await expect(service.getPosition()).resolves.toMatchObject({ reserved: 25000 });
+  });
+
+  it('should ignore a balance older than the one recorded', async () => {
+    await report(80000, '2026-10-19T08:05:00.000Z');
+    await report(20000, '2026-10-19T08:00:00.000Z');
+
+    expect(float!.utilityBalance).toBe(80000);
+  });
+
+  it('should refuse a payout that would take the float below the minimum', async () => {
+    reservedByTransactions = 40000;
+    await report(80000);
+    const refused = createTransaction(35000);
+
+    await expect(service.reservePayout(35000, refused)).rejects.toThrow(
+      'M-Pesa payouts are temporarily unavailable'
+    );
+    expect(refused).not.toHaveBeenCalled();
+  });
+
+  it('should check each payout under the float row lock against the ones reserved before it', async () => {
+    reservedByTransactions = 40000;
+    await report(80000);
+    prisma.mpesaFloat.findUnique.mockClear();
+    const first = createTransaction(25000);
+    const second = createTransaction(25000);
+
+    await expect(service.reservePayout(25000, first)).resolves.toBeDefined();
+    await expect(service.reservePayout(25000, second)).rejects.toThrow(
+      'M-Pesa payouts are temporarily unavailable'
+    );
+
+    expect(first).toHaveBeenCalledWith(prisma);
+    expect(second).not.toHaveBeenCalled();
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(2);
+    expect(prisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      prisma.mpesaFloat.findUnique.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should raise one float.low alert with a top-up recommendation per cooldown', async () => {
+    reservedByTransactions = 60000;
+    await report(80000);
+    await service.reservePayout(5000, createTransaction(5000));
+
+    expect(outboxEvents).toHaveLength(1);
+    expect(outboxEvents[0]).toMatchObject({
+      type: EventType.FLOAT_LOW,
+      payload: {
+        utilityBalance: 80000,
+        reserved: 60000,
+        projectedBalance: 20000,
+        minimumBalance: 10000,
+        recommendedTopUp: 80000,
+      },
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import {
+  EventType,
+  FloatLowEventPayload,
+  MpesaFloatEventPayload,
+  TransactionStatus,
+} from '@bitpesa/shared-types';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../events/outbox.service';
+
+/**
+ * The shortcode account M-Pesa payouts are made from
+ */
+const FLOAT_ID = 'B2C';
+
+/**
+ * Statuses in which a transaction is waiting for the payer's BTC; it stops holding its KES
+ * once its invoice or swap expires, so abandoned checkouts don't hold the float forever
+ */
+const AWAITING_PAYMENT = [
+  TransactionStatus.PENDING,
+  TransactionStatus.LIGHTNING_PENDING,
+  TransactionStatus.AWAITING_BTC_PAYMENT,
+];
+
+/**
+ * Statuses in which a paid transaction's M-Pesa payout is still to be made
+ */
+const PAYOUT_PENDING = [
+  TransactionStatus.PROCESSING,
+  TransactionStatus.LIGHTNING_PAID,
+  TransactionStatus.CONVERTING,
+  TransactionStatus.BTC_RECEIVED,
+  TransactionStatus.MPESA_PENDING,
+];
+
+/**
+ * How long a transaction created without an invoice or swap expiry, e.g. while its swap
+ * is being created, holds its KES
+ */
+const SETUP_HOLD_MS = 10 * 60 * 1000;
+
+export interface FloatPosition {
+  utilityBalance: number;
+  reserved: number; // KES held for open quotes and unsettled payouts
+  projectedBalance: number;
+  checkedAt: Date;
+}
+
+/**
+ * Keeps payouts within the M-Pesa float
+ * mpesa-service reports the shortcode's utility account balance as mpesa.float.updated.
+ * Open quotes, unexpired unpaid transactions and paid transactions whose payout has not
+ * been made yet hold their KES against it, as do payouts made since the balance was
+ * reported. A quote, or a transaction priced
+ * without one, that would take the projected balance below MPESA_FLOAT_MIN_BALANCE is
+ * refused; the check and the write that holds the KES happen under a lock on the float
+ * row, so concurrent requests cannot both be let through against the same balance.
+ * Below MPESA_FLOAT_ALERT_BALANCE a float.low event recommends a top-up to
+ * MPESA_FLOAT_TARGET_BALANCE, at most once per MPESA_FLOAT_ALERT_COOLDOWN_MS.
+ */
+@Injectable()
+export class FloatService {
+  private readonly logger = new Logger(FloatService.name);
+  private readonly minimumBalance: number;
+  private readonly alertBalance: number;
+  private readonly targetBalance: number;
+  private readonly alertCooldownMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly outbox: OutboxService,
+    configService: ConfigService
+  ) {
+    const getNumber = (key: string, defaultValue: number) =>
+      Number(configService.get(key, defaultValue));
+
+    this.minimumBalance = getNumber('MPESA_FLOAT_MIN_BALANCE', 50000);
+    this.alertBalance = getNumber('MPESA_FLOAT_ALERT_BALANCE', 150000);
+    this.targetBalance = getNumber('MPESA_FLOAT_TARGET_BALANCE', 500000);
+    this.alertCooldownMs = getNumber('MPESA_FLOAT_ALERT_COOLDOWN_MS', 60 * 60 * 1000);
+  }
+
+  /**
+   * Record balances reported by mpesa-service, unless newer ones are already recorded
+   */
+  async recordBalance(balance: MpesaFloatEventPayload): Promise<void> {
+    const checkedAt = new Date(balance.checkedAt);
+    const data = {
+      utilityBalance: balance.utilityBalance,
+      workingBalance: balance.workingBalance,
+      checkedAt,
+    };
+
+    const existing = await this.prisma.mpesaFloat.findUnique({ where: { id: FLOAT_ID } });
+    if (!existing) {
+      await this.prisma.mpesaFloat.create({ data: { id: FLOAT_ID, ...data } });
+    } else {
+      // Events can arrive out of order; only move forward
+      const { count } = await this.prisma.mpesaFloat.updateMany({
+        where: { id: FLOAT_ID, checkedAt: { lt: checkedAt } },
+        data,
+      });
+      if (count === 0) {
+        this.logger.debug(`Ignoring float balance from ${balance.checkedAt}: already superseded`);
+        return;
+      }
+    }
+
+    const position = await this.getPosition();
+    if (position) {
+      this.logger.log(
+        `M-Pesa float: ${position.utilityBalance} KES, ${position.projectedBalance} KES projected`
+      );
+      await this.alertIfLow(position);
+    }
+  }
+
+  /**
+   * Utility account balance less what is held against it; null until a balance is reported
+   */
+  async getPosition(client: Prisma.TransactionClient = this.prisma): Promise<FloatPosition | null> {
+    const float = await client.mpesaFloat.findUnique({ where: { id: FLOAT_ID } });
+    if (!float) {
+      return null;
+    }
+
+    const utilityBalance = Number(float.utilityBalance);
+    const reserved = await this.reserved(client, float.checkedAt);
+    return {
+      utilityBalance,
+      reserved,
+      projectedBalance: utilityBalance - reserved,
+      checkedAt: float.checkedAt,
+    };
+  }
+
+  /**
+   * Refuse a payout of kesAmount the float cannot cover while staying above the minimum,
+   * otherwise run `create` to write the quote or transaction that holds it
+   * The check and `create` share an interactive transaction that locks the float row, so
+   * concurrent reservations are checked one at a time, each counting the ones before it.
+   */
+  async reservePayout<T>(
+    kesAmount: number,
+    create: (tx: Prisma.TransactionClient) => Promise<T>
+  ): Promise<T> {
+    let projected: FloatPosition | undefined;
+    try {
+      return await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await tx.$queryRaw`SELECT id FROM mpesa_float WHERE id = ${FLOAT_ID} FOR UPDATE`;
+
+        const position = await this.getPosition(tx);
+        if (!position) {
+          // Nothing reported yet, e.g. just after deployment
+          this.logger.warn('No M-Pesa float balance reported yet; not checking payouts against it');
+          return create(tx);
+        }
+
+        projected = { ...position, projectedBalance: position.projectedBalance - kesAmount };
+        if (projected.projectedBalance < this.minimumBalance) {
+          this.logger.warn(
+            `Refusing ${kesAmount} KES payout: float would fall to ${projected.projectedBalance} KES`
+          );
+          throw new ServiceUnavailableException(
+            'M-Pesa payouts are temporarily unavailable. Please try again later.'
+          );
+        }
+        return create(tx);
+      });
+    } finally {
+      // Alerting writes the float row, so it waits for the lock to be released
+      if (projected) {
+        await this.alertIfLow(projected);
+      }
+    }
+  }
+
+  private async reserved(client: Prisma.TransactionClient, since: Date): Promise<number> {
+    const now = new Date();
+    const [quotes, transactions] = await Promise.all([
+      // A quote holds its KES until it expires or a transaction created against it takes over
+      client.quote.aggregate({
+        where: { transaction: null, expiresAt: { gt: now } },
+        _sum: { kesAmount: true, mpesaFee: true },
+      }),
+      client.transaction.aggregate({
+        where: {
+          OR: [
+            { status: { in: AWAITING_PAYMENT }, invoiceExpiresAt: { gt: now } },
+            {
+              status: TransactionStatus.PENDING,
+              invoiceExpiresAt: null,
+              createdAt: { gt: new Date(now.getTime() - SETUP_HOLD_MS) },
+            },
+            { status: { in: PAYOUT_PENDING } },
+            // Paid out after the balance was reported, so not reflected in it
+            { status: TransactionStatus.COMPLETED, completedAt: { gt: since } },
+          ],
+        },
+        _sum: { kesAmount: true, mpesaFee: true },
+      }),
+    ]);
+
+    return [quotes._sum, transactions._sum].reduce(
+      (total, sum) => total + Number(sum.kesAmount ?? 0) + Number(sum.mpesaFee ?? 0),
+      0
+    );
+  }
+
+  private async alertIfLow(position: FloatPosition): Promise<void> {
+    if (position.projectedBalance >= this.alertBalance) {
+      return;
+    }
+
+    const now = new Date();
+    const payload: FloatLowEventPayload = {
+      utilityBalance: position.utilityBalance,
+      reserved: position.reserved,
+      projectedBalance: position.projectedBalance,
+      minimumBalance: this.minimumBalance,
+      recommendedTopUp: Math.ceil(Math.max(0, this.targetBalance - position.projectedBalance)),
+      checkedAt: position.checkedAt.toISOString(),
+    };
+
+    const alerted = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Guard on the cooldown so concurrent quotes raise one alert between them
+      const { count } = await tx.mpesaFloat.updateMany({
+        where: {
+          id: FLOAT_ID,
+          OR: [
+            { alertedAt: null },
+            { alertedAt: { lt: new Date(now.getTime() - this.alertCooldownMs) } },
+          ],
+        },
+        data: { alertedAt: now },
+      });
+      if (count > 0) {
+        await this.outbox.enqueue(tx, EventType.FLOAT_LOW, FLOAT_ID, payload);
+      }
+      return count > 0;
+    });
+
+    if (alerted) {
+      this.logger.warn(
+        `M-Pesa float low: ${payload.projectedBalance} KES projected, top up ${payload.recommendedTopUp} KES`
+      );
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyService } from './idempotency.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('IdempotencyInterceptor', () => {
+  let interceptor: IdempotencyInterceptor;
+  let rows: Map<string, Record<string, any>>;
+  let created: number;
+  let prisma: Record<string, any>;
+
+  const rowKey = (where: { scope: string; key: string }) => `${where.scope}|${where.key}`;
+
+  const send = (body: Record<string, unknown>, headers: Record<string, string> = {}) => {
+    const response = { setHeader: jest.fn() };
+    const context = {
+      switchToHttp: () => ({
+        getRequest: () => ({
+          method: 'POST',
+          route: { path: '/transactions/send-money' },
+          headers,
+          body,
+        }),
+        getResponse: () => response,
+      }),
+    } as unknown as ExecutionContext;
+    const handler: CallHandler = {
+      handle: jest.fn(() => of({ success: true, data: { id: `tx-${++created}` } })),
+    };
+
+    return {
+      response,
+      handler,
+      result: lastValueFrom(interceptor.intercept(context, handler)),
+    };
+  };
+
+  beforeEach(async () => {
+    rows = new Map();
+    created = 0;
+
+    // In-memory idempotency_keys table
+    prisma = {
+      idempotencyKey: {
+        deleteMany: jest.fn(async ({ where }) => {
+          const row = rows.get(rowKey(where));
+          if (
+            row &&
+            (!where.expiresAt || row.expiresAt <= where.expiresAt.lte) &&
+            (where.completedAt === undefined || row.completedAt === where.completedAt)
+          ) {
+            rows.delete(rowKey(where));
+            return { count: 1 };
+          }
+          return { count: 0 };
+        }),
+        createMany: jest.fn(async ({ data: [data] }) => {
+          if (rows.has(rowKey(data))) {
+            return { count: 0 };
+          }
+          rows.set(rowKey(data), { id: rowKey(data), completedAt: null, ...data });
+          return { count: 1 };
+        }),
+        findUniqueOrThrow: jest.fn(async ({ where }) => rows.get(rowKey(where.scope_key))),
+        update: jest.fn(async ({ where, data }) => {
+          const row = { ...rows.get(rowKey(where.scope_key)), ...data };
+          rows.set(rowKey(where.scope_key), row);
+          return row;
+        }),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const row = rows.get(where.id);
+          if (!row || row.lockedAt !== where.lockedAt || row.completedAt !== null) {
+            return { count: 0 };
+          }
+          rows.set(where.id, { ...row, ...data });
+          return { count: 1 };
+        }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyInterceptor,
+        IdempotencyService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key, defaultValue) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    interceptor = module.get<IdempotencyInterceptor>(IdempotencyInterceptor);
+  });
+
+  it('should run every request that has no Idempotency-Key', async () => {
+    await send({ kesAmount: 1000 }).result;
+    await send({ kesAmount: 1000 }).result;
+
+    expect(created).toBe(2);
+    expect(rows.size).toBe(0);
+  });
+
+  it('should replay the original response for a retry with the same key and body', async () => {
+    const first = await send(
+      { kesAmount: 1000, recipientPhone: '254712345678' },
+      {
+        'idempotency-key': 'key-1',
+      }
+    ).result;
+
+    // Same body with its keys in a different order
+    const retry = send(
+      { recipientPhone: '254712345678', kesAmount: 1000 },
+      {
+        'idempotency-key': 'key-1',
+      }
+    );
+
+    await expect(retry.result).resolves.toEqual(first);
+    expect(retry.handler.handle).not.toHaveBeenCalled();
+    expect(retry.response.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+    expect(created).toBe(1);
+  });
+
+  it('should reject a key reused with a different body', async () => {
+    await send({ kesAmount: 1000 }, { 'idempotency-key': 'key-1' }).result;
+
+    await expect(send({ kesAmount: 2000 }, { 'idempotency-key': 'key-1' }).result).rejects.toThrow(
+      'was already used with a different request body'
+    );
+  });
+
+  it('should reject a retry while the original request is still running', async () => {
+    const { result } = send({ kesAmount: 1000 }, { 'idempotency-key': 'key-1' });
+    const retry = send({ kesAmount: 1000 }, { 'idempotency-key': 'key-1' });
+
+    await expect(retry.result).rejects.toThrow('is still being processed');
+    await result;
+  });
+
+  it('should release the key when the request fails so it can be retried', async () => {
+    const failing = send({ kesAmount: 1000 }, { 'idempotency-key': 'key-1' });
+    (failing.handler.handle as jest.Mock).mockReturnValue(
+      throwError(() => new Error('Lightning node unavailable'))
+    );
+    await expect(failing.result).rejects.toThrow('Lightning node unavailable');
+
+    await expect(
+      send({ kesAmount: 1000 }, { 'idempotency-key': 'key-1' }).result
+    ).resolves.toMatchObject({ data: { id: 'tx-1' } });
+  });
+
+  it('should keep the key claimed when the response cannot be stored', async () => {
+    prisma.idempotencyKey.update.mockRejectedValueOnce(new Error('Database unavailable'));
+
+    await expect(
+      send({ kesAmount: 1000 }, { 'idempotency-key': 'key-1' }).result
+    ).resolves.toMatchObject({ data: { id: 'tx-1' } });
+
+    await expect(send({ kesAmount: 1000 }, { 'idempotency-key': 'key-1' }).result).rejects.toThrow(
+      'is still being processed'
+    );
+    expect(created).toBe(1);
+  });
+
+  it('should replay a request whose handler returned no body', async () => {
+    const first = send({ kesAmount: 1000 }, { 'idempotency-key': 'key-1' });
+    (first.handler.handle as jest.Mock).mockReturnValue(of(undefined));
+    await expect(first.result).resolves.toBeUndefined();
+
+    const retry = send({ kesAmount: 1000 }, { 'idempotency-key': 'key-1' });
+
+    await expect(retry.result).resolves.toBeUndefined();
+    expect(retry.handler.handle).not.toHaveBeenCalled();
+  });
+
+  it('should take over a key whose request was abandoned', async () => {
+    send({ kesAmount: 1000 }, { 'idempotency-key': 'key-1' });
+    await new Promise(resolve => setImmediate(resolve));
+    const row = rows.get('POST /transactions/send-money|key-1')!;
+    row.completedAt = null;
+    row.lockedAt = new Date(Date.now() - 3 * 60 * 1000);
+
+    await expect(
+      send({ kesAmount: 1000 }, { 'idempotency-key': 'key-1' }).result
+    ).resolves.toBeDefined();
+  });
+
+  it('should let a key be reused once its window has passed', async () => {
+    await send({ kesAmount: 1000 }, { 'idempotency-key': 'key-1' }).result;
+    rows.get('POST /transactions/send-money|key-1')!.expiresAt = new Date(Date.now() - 1);
+
+    await send({ kesAmount: 2000 }, { 'idempotency-key': 'key-1' }).result;
+
+    expect(created).toBe(2);
+  });
+
+  it('should reject malformed keys', () => {
+    expect(() => send({ kesAmount: 1000 }, { 'idempotency-key': 'has spaces' })).toThrow(
+      'Idempotency-Key must be 1-255 printable ASCII characters'
+    );
+  });
+});
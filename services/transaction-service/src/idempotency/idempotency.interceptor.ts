@@ -0,0 +1,116 @@
+import { createHash } from 'crypto';
+import {
+  applyDecorators,
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiHeader } from '@nestjs/swagger';
+import { from, Observable, of } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { IdempotencyService } from './idempotency.service';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Makes a request retry-safe when the client sends an Idempotency-Key header
+ * The first request with a key runs and its response is stored; later requests with the
+ * same key and body get that response back instead of running again.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+
+    const key: string | undefined = request.headers[IDEMPOTENCY_KEY_HEADER];
+    if (key === undefined) {
+      return next.handle();
+    }
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      throw new BadRequestException('Idempotency-Key must be 1-255 printable ASCII characters');
+    }
+
+    const scope = `${request.method} ${request.route?.path ?? request.path}`;
+    const requestHash = hashBody(request.body);
+
+    return from(this.idempotencyService.claim(scope, key, requestHash)).pipe(
+      mergeMap(claim => {
+        if (claim.replay) {
+          response.setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+          return of(claim.response);
+        }
+
+        return next.handle().pipe(
+          // Only a failed request gives its key up; one that succeeded keeps it claimed
+          // even if its response cannot be stored, so a retry cannot run it a second time
+          catchError(async error => {
+            await this.idempotencyService.release(scope, key);
+            throw error;
+          }),
+          mergeMap(async body => {
+            try {
+              await this.idempotencyService.complete(scope, key, body);
+            } catch (error) {
+              this.logger.error(
+                `Could not store the response for Idempotency-Key ${key} on ${scope}:`,
+                error
+              );
+            }
+            return body;
+          })
+        );
+      })
+    );
+  }
+}
+
+/**
+ * Mark a transaction-creating route as accepting an Idempotency-Key header
+ */
+export function Idempotent(): MethodDecorator {
+  return applyDecorators(
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: 'Idempotency-Key',
+      required: false,
+      description:
+        'Unique key per transaction; retries with the same key return the original response',
+    })
+  );
+}
+
+/**
+ * Hash a JSON body independently of its key order
+ */
+function hashBody(body: unknown): string {
+  return createHash('sha256')
+    .update(canonicalJson(body ?? {}))
+    .digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
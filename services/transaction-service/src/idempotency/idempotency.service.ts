@@ -0,0 +1,103 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+export type IdempotencyClaim = { replay: false } | { replay: true; response: unknown };
+
+/**
+ * Records idempotency keys so a retried request gets the original response instead of
+ * creating a second transaction
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly ttlMs: number;
+  private readonly lockTimeoutMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService
+  ) {
+    this.ttlMs = Number(configService.get('IDEMPOTENCY_KEY_TTL_MS', 24 * 60 * 60 * 1000));
+    this.lockTimeoutMs = Number(configService.get('IDEMPOTENCY_LOCK_TIMEOUT_MS', 2 * 60 * 1000));
+  }
+
+  /**
+   * Claim a key for a request, or get the response of the request that already used it
+   * Rejects keys reused with a different body, and keys whose request is still running.
+   */
+  async claim(scope: string, key: string, requestHash: string): Promise<IdempotencyClaim> {
+    const now = new Date();
+
+    // Keys past their window can be used again
+    await this.prisma.idempotencyKey.deleteMany({ where: { scope, key, expiresAt: { lte: now } } });
+
+    const { count } = await this.prisma.idempotencyKey.createMany({
+      data: [
+        { scope, key, requestHash, lockedAt: now, expiresAt: new Date(now.getTime() + this.ttlMs) },
+      ],
+      skipDuplicates: true,
+    });
+    if (count === 1) {
+      return { replay: false };
+    }
+
+    const existing = await this.prisma.idempotencyKey.findUniqueOrThrow({
+      where: { scope_key: { scope, key } },
+    });
+    if (existing.requestHash !== requestHash) {
+      throw new UnprocessableEntityException(
+        `Idempotency-Key ${key} was already used with a different request body`
+      );
+    }
+    if (existing.completedAt) {
+      this.logger.log(`Replaying ${scope} for Idempotency-Key ${key}`);
+      return { replay: true, response: existing.response };
+    }
+
+    // Take over a key whose request never finished, e.g. because the process died
+    if (existing.lockedAt.getTime() <= now.getTime() - this.lockTimeoutMs) {
+      const { count: taken } = await this.prisma.idempotencyKey.updateMany({
+        where: { id: existing.id, lockedAt: existing.lockedAt, completedAt: null },
+        data: { lockedAt: now },
+      });
+      if (taken === 1) {
+        this.logger.warn(`Took over abandoned Idempotency-Key ${key} on ${scope}`);
+        return { replay: false };
+      }
+    }
+
+    throw new ConflictException(`A request with Idempotency-Key ${key} is still being processed`);
+  }
+
+  /**
+   * Store the response of a claimed key for replays
+   */
+  async complete(scope: string, key: string, response: unknown): Promise<void> {
+    await this.prisma.idempotencyKey.update({
+      where: { scope_key: { scope, key } },
+      data: {
+        // Stored as the client received it, so replays serialize identically; a handler
+        // that returned nothing is stored as JSON null, which replays as an empty body too
+        response:
+          response === undefined
+            ? Prisma.JsonNull
+            : (JSON.parse(JSON.stringify(response)) as Prisma.InputJsonValue),
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Give up a claimed key after its request failed, so the client can retry with it
+   */
+  async release(scope: string, key: string): Promise<void> {
+    await this.prisma.idempotencyKey.deleteMany({ where: { scope, key, completedAt: null } });
+  }
+}
@@ -0,0 +1,229 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TransactionStatus } from '@bitpesa/shared-types';
+import { LightningSettlementService } from './lightning-settlement.service';
+import { TransactionOrchestratorService } from './transaction-orchestrator.service';
+import { LightningService } from '../external/lightning.service';
+import { LIGHTNING_NODE_ADAPTER } from '../external/lightning/lightning-node.adapter';
+import { FakeLightningNodeAdapter } from '../external/lightning/fake-node.adapter';
+import { TransactionStateService } from '../transaction/transaction-state.service';
+import { OutboxService } from '../events/outbox.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+// TransactionService pulls in @bitpesa/shared-utils, which jest can't resolve; only its token is needed
+jest.mock('./transaction-orchestrator.service', () => ({
+  TransactionOrchestratorService: class TransactionOrchestratorService {},
+}));
+
+interface Store {
+  invoices: Record<string, { status: string; preimage?: string; paidAt?: Date }>;
+  transactions: Array<{ id: string; paymentHash: string; status: string; paidAt?: Date }>;
+  settleIndex: bigint | null;
+  history: Array<{ transactionId: string; fromStatus: string; toStatus: string }>;
+}
+
+// Lets the settled-invoice queue deliver everything pushed so far
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('LightningSettlementService', () => {
+  let service: LightningSettlementService;
+  let node: FakeLightningNodeAdapter;
+  let lightningService: LightningService;
+  let orchestrator: { processLightningPayment: jest.Mock };
+  let store: Store;
+  let failTransition: boolean;
+
+  // In-memory Prisma whose interactive transactions roll back when their callback throws
+  const client = {
+    lightningInvoice: {
+      updateMany: jest.fn(async ({ where, data }) => {
+        const invoice = store.invoices[where.paymentHash];
+        if (!invoice || invoice.status === 'PAID') {
+          return { count: 0 };
+        }
+        Object.assign(invoice, data);
+        return { count: 1 };
+      }),
+    },
+    lightningSettlementCursor: {
+      findUnique: jest.fn(async () =>
+        store.settleIndex === null ? null : { node: 'fake', settleIndex: store.settleIndex }
+      ),
+      upsert: jest.fn(async ({ update }) => {
+        store.settleIndex = update.settleIndex;
+      }),
+    },
+    transaction: {
+      count: jest.fn(
+        async ({ where }) =>
+          store.transactions.filter(t => t.paymentHash === where.paymentHash).length
+      ),
+      findMany: jest.fn(async ({ where }) =>
+        store.transactions.filter(t => t.status === where.status).map(t => ({ ...t }))
+      ),
+      findUnique: jest.fn(async ({ where }) => {
+        const found = store.transactions.find(t =>
+          where.id ? t.id === where.id : t.paymentHash === where.paymentHash
+        );
+        return found ? { ...found } : null;
+      }),
+      updateMany: jest.fn(async ({ where, data }) => {
+        if (failTransition) {
+          throw new Error('Database unavailable');
+        }
+        const found = store.transactions.find(t => t.id === where.id && t.status === where.status);
+        if (!found) {
+          return { count: 0 };
+        }
+        Object.assign(found, data);
+        return { count: 1 };
+      }),
+    },
+    transactionStatusHistory: {
+      create: jest.fn(async ({ data }) => store.history.push(data)),
+    },
+    outboxEvent: { create: jest.fn() },
+  };
+
+  const prisma = {
+    ...client,
+    $transaction: jest.fn(async (callback: (tx: typeof client) => Promise<unknown>) => {
+      const snapshot = structuredClone(store);
+      try {
+        return await callback(client);
+      } catch (error) {
+        store = snapshot;
+        throw error;
+      }
+    }),
+  };
+
+  const payInvoice = async (transactionId: string) => {
+    const invoice = await lightningService.createInvoice(
+      20000,
+      `BitPesa SEND_MONEY - ${transactionId}`
+    );
+    store.invoices[invoice.paymentHash] = { status: 'PENDING' };
+    store.transactions.push({
+      id: transactionId,
+      paymentHash: invoice.paymentHash,
+      status: TransactionStatus.LIGHTNING_PENDING,
+    });
+    return invoice.paymentHash;
+  };
+
+  beforeEach(async () => {
+    store = { invoices: {}, transactions: [], settleIndex: null, history: [] };
+    failTransition = false;
+    node = new FakeLightningNodeAdapter();
+    orchestrator = { processLightningPayment: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LightningSettlementService,
+        LightningService,
+        TransactionStateService,
+        OutboxService,
+        { provide: LIGHTNING_NODE_ADAPTER, useValue: node },
+        { provide: PrismaService, useValue: prisma },
+        { provide: TransactionOrchestratorService, useValue: orchestrator },
+      ],
+    }).compile();
+
+    service = module.get(LightningSettlementService);
+    lightningService = module.get(LightningService);
+  });
+
+  afterEach(() => {
+    service.onApplicationShutdown();
+    jest.clearAllMocks();
+  });
+
+  it('should mark the invoice and transaction paid, advance the cursor and start the M-Pesa leg', async () => {
+    const paymentHash = await payInvoice('tx-1');
+    await service.onApplicationBootstrap();
+
+    node.settleInvoice(paymentHash);
+    await flush();
+
+    expect(store.invoices[paymentHash]).toMatchObject({
+      status: 'PAID',
+      preimage: expect.any(String),
+    });
+    expect(store.transactions[0].status).toBe(TransactionStatus.LIGHTNING_PAID);
+    expect(store.history).toEqual([
+      expect.objectContaining({
+        transactionId: 'tx-1',
+        fromStatus: TransactionStatus.LIGHTNING_PENDING,
+        toStatus: TransactionStatus.LIGHTNING_PAID,
+      }),
+    ]);
+    expect(store.settleIndex).toBe(BigInt(1));
+    expect(orchestrator.processLightningPayment).toHaveBeenCalledWith(paymentHash);
+  });
+
+  it('should resume after the stored settle index', async () => {
+    const before = await payInvoice('tx-1');
+    const after = await payInvoice('tx-2');
+    node.settleInvoice(before);
+    node.settleInvoice(after);
+    store.settleIndex = BigInt(1);
+
+    await service.onApplicationBootstrap();
+    await flush();
+
+    expect(orchestrator.processLightningPayment).toHaveBeenCalledTimes(1);
+    expect(orchestrator.processLightningPayment).toHaveBeenCalledWith(after);
+    expect(store.transactions[0].status).toBe(TransactionStatus.LIGHTNING_PENDING);
+    expect(store.settleIndex).toBe(BigInt(2));
+  });
+
+  it('should start the M-Pesa leg only once when a settlement is replayed', async () => {
+    const paymentHash = await payInvoice('tx-1');
+    const settled = node.settleInvoice(paymentHash);
+    const settlement = {
+      paymentHash,
+      amount: 20000,
+      preimage: settled.preimage,
+      paidAt: settled.settledAt as Date,
+      settleIndex: 1,
+    };
+
+    await service.handleSettlement(settlement);
+    await service.handleSettlement(settlement);
+
+    expect(orchestrator.processLightningPayment).toHaveBeenCalledTimes(1);
+    expect(store.history).toHaveLength(1);
+  });
+
+  it('should leave the cursor and invoice alone when the transaction cannot be marked paid', async () => {
+    const paymentHash = await payInvoice('tx-1');
+    const settled = node.settleInvoice(paymentHash);
+    failTransition = true;
+
+    await expect(
+      service.handleSettlement({
+        paymentHash,
+        amount: 20000,
+        preimage: settled.preimage,
+        paidAt: settled.settledAt as Date,
+        settleIndex: 1,
+      })
+    ).rejects.toThrow('Database unavailable');
+
+    expect(store.settleIndex).toBeNull();
+    expect(store.invoices[paymentHash].status).toBe('PENDING');
+    expect(orchestrator.processLightningPayment).not.toHaveBeenCalled();
+  });
+
+  it('should pick up M-Pesa legs a restart interrupted', async () => {
+    store.transactions.push({
+      id: 'tx-1',
+      paymentHash: 'cd'.repeat(32),
+      status: TransactionStatus.LIGHTNING_PAID,
+    });
+
+    await service.onApplicationBootstrap();
+
+    expect(orchestrator.processLightningPayment).toHaveBeenCalledWith('cd'.repeat(32));
+  });
+});
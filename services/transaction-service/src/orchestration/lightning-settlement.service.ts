@@ -0,0 +1,141 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TransactionFlow, TransactionStatus } from '@bitpesa/shared-types';
+import { LightningService, LightningSettlement } from '../external/lightning.service';
+import { InvoiceSubscription } from '../external/lightning/lightning-node.adapter';
+import { TransactionStateService } from '../transaction/transaction-state.service';
+import { TransactionOrchestratorService } from './transaction-orchestrator.service';
+
+const RESUBSCRIBE_DELAY_MS = 5000;
+
+/**
+ * Long-lived consumer of the Lightning node's invoice settlement stream
+ * Each settled invoice is matched to its transaction by payment hash, recorded on the
+ * LightningInvoice and moves the transaction to LIGHTNING_PAID in the same database
+ * transaction that advances the stored settle index, so a restart resumes exactly
+ * where processing stopped. The M-Pesa leg is then triggered through the orchestrator.
+ */
+@Injectable()
+export class LightningSettlementService implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(LightningSettlementService.name);
+  private subscription: InvoiceSubscription | null = null;
+  private resubscribeTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly lightningService: LightningService,
+    private readonly transactionState: TransactionStateService,
+    private readonly orchestrator: TransactionOrchestratorService
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.resumePendingMpesaLegs();
+    await this.subscribe();
+  }
+
+  onApplicationShutdown(): void {
+    this.stopped = true;
+    if (this.resubscribeTimer) {
+      clearTimeout(this.resubscribeTimer);
+    }
+    this.subscription?.close();
+  }
+
+  /**
+   * Record a settled invoice and trigger the M-Pesa leg for its transaction
+   */
+  async handleSettlement(settlement: LightningSettlement): Promise<void> {
+    const { paymentHash, preimage, paidAt, settleIndex } = settlement;
+    this.logger.log(`Invoice ${paymentHash} settled (settle index ${settleIndex})`);
+
+    const paid = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.lightningInvoice.updateMany({
+        where: { paymentHash, status: { not: 'PAID' } },
+        data: { status: 'PAID', preimage, paidAt },
+      });
+      await tx.lightningSettlementCursor.upsert({
+        where: { node: this.lightningService.nodeName },
+        create: { node: this.lightningService.nodeName, settleIndex: BigInt(settleIndex) },
+        update: { settleIndex: BigInt(settleIndex) },
+      });
+
+      const exists = await tx.transaction.count({ where: { paymentHash } });
+      return exists
+        ? this.transactionState.transition(
+            TransactionFlow.LIGHTNING,
+            { paymentHash },
+            TransactionStatus.LIGHTNING_PAID,
+            {
+              expectedStatus: TransactionStatus.LIGHTNING_PENDING,
+              reason: 'Lightning invoice settled',
+              metadata: { settleIndex, amountSats: settlement.amount },
+              data: { paidAt },
+            },
+            tx
+          )
+        : null;
+    });
+
+    if (!paid) {
+      this.logger.warn(`No transaction awaiting payment for invoice ${paymentHash}`);
+      return;
+    }
+
+    await this.triggerMpesaLeg(paymentHash);
+  }
+
+  private async subscribe(): Promise<void> {
+    const cursor = await this.prisma.lightningSettlementCursor.findUnique({
+      where: { node: this.lightningService.nodeName },
+    });
+    const afterSettleIndex = cursor ? Number(cursor.settleIndex) : 0;
+
+    this.logger.log(
+      `Subscribing to settled invoices on ${this.lightningService.nodeName} node after settle index ${afterSettleIndex}`
+    );
+    this.subscription = this.lightningService.subscribeToSettlements(
+      afterSettleIndex,
+      settlement => this.handleSettlement(settlement),
+      error => this.scheduleResubscribe(error)
+    );
+  }
+
+  private scheduleResubscribe(error: Error): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.logger.error(
+      `Invoice settlement stream failed, resubscribing in ${RESUBSCRIBE_DELAY_MS}ms:`,
+      error
+    );
+    this.resubscribeTimer = setTimeout(() => {
+      this.resubscribeTimer = null;
+      this.subscribe().catch(subscribeError => this.scheduleResubscribe(subscribeError));
+    }, RESUBSCRIBE_DELAY_MS);
+  }
+
+  /**
+   * Pick up transactions that were marked paid before a restart interrupted their M-Pesa leg
+   */
+  private async resumePendingMpesaLegs(): Promise<void> {
+    const pending = await this.prisma.transaction.findMany({
+      where: { status: TransactionStatus.LIGHTNING_PAID },
+      select: { paymentHash: true },
+    });
+
+    for (const { paymentHash } of pending) {
+      await this.triggerMpesaLeg(paymentHash);
+    }
+  }
+
+  private async triggerMpesaLeg(paymentHash: string): Promise<void> {
+    try {
+      await this.orchestrator.processLightningPayment(paymentHash);
+    } catch (error) {
+      this.logger.error(`M-Pesa leg failed for invoice ${paymentHash}:`, error);
+    }
+  }
+}
@@ -0,0 +1,473 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PaymentVarianceDecision, TransactionFlow, TransactionStatus } from '@bitpesa/shared-types';
+import { MinmoTransactionOrchestratorService } from './minmo-transaction-orchestrator.service';
+import { MinmoTransactionService } from '../transaction/minmo-transaction.service';
+import { MpesaPaymentRejectedError, MpesaService } from '../external/mpesa.service';
+import { RefundService } from '../refund/refund.service';
+import { FloatService } from '../float/float.service';
+import { PaymentVariancePolicy } from '../payment-variance/payment-variance.policy';
+import { SwapRouterService, SwapRoutingError } from '../swap-providers/swap-router.service';
+import { SwapAsset } from '../swap-providers/swap-provider';
+
+// The shared-infrastructure build doesn't load under jest; the router is mocked anyway
+jest.mock('@bitpesa/shared-infrastructure', () => ({
+  CircuitBreakerService: class CircuitBreakerService {},
+}));
+
+describe('MinmoTransactionOrchestratorService', () => {
+  let orchestrator: MinmoTransactionOrchestratorService;
+  let transaction: Record<string, any> | null;
+  let transactionService: Record<string, jest.Mock>;
+  let mpesaService: {
+    initiateB2C: jest.Mock;
+    initiateAirtime: jest.Mock;
+    initiateB2B: jest.Mock;
+  };
+  let refundService: { openRefund: jest.Mock; openExcessRefund: jest.Mock };
+  let swapRouter: { createSwap: jest.Mock; getProvider: jest.Mock };
+  let swapProvider: { getSwapStatus: jest.Mock };
+  let floatService: { reservePayout: jest.Mock };
+  const floatTx = { name: 'float reservation' };
+
+  beforeEach(async () => {
+    // Shaped like MinmoTransactionService.mapToTransaction's result
+    transaction = {
+      id: 'tx-1',
+      minmoSwapId: 'swap_123',
+      status: TransactionStatus.AWAITING_BTC_PAYMENT,
+      transactionType: 'SEND_MONEY',
+      recipientPhone: '254712345678',
+      kesAmount: 1000,
+      btcAmount: 0.001,
+      btcReceived: false,
+    };
+
+    // Single in-memory transaction moved by the Minmo flow state machine
+    transactionService = {
+      findById: jest.fn(async () => transaction && { ...transaction }),
+      findByMinmoSwapId: jest.fn(async () => transaction && { ...transaction }),
+      updateStatus: jest.fn(async (_id, status, options) => {
+        if (options.expectedStatus && transaction!.status !== options.expectedStatus) {
+          return null;
+        }
+        transaction = { ...transaction, ...options.data, status };
+        return { ...transaction };
+      }),
+      update: jest.fn(async (_id, data) => {
+        // Like TransactionStateService, a move to the current status changes nothing
+        if (data.status && data.status === transaction!.status) {
+          return null;
+        }
+        transaction = { ...transaction, ...data };
+        return { ...transaction };
+      }),
+      updatePaymentVarianceDecision: jest.fn(async (_id, from, to) => {
+        if (transaction!.paymentVarianceDecision !== from) {
+          return false;
+        }
+        transaction = { ...transaction, paymentVarianceDecision: to };
+        return true;
+      }),
+    };
+    mpesaService = {
+      initiateB2C: jest.fn().mockResolvedValue({ transactionId: 'b2c_1', status: 'pending' }),
+      initiateAirtime: jest
+        .fn()
+        .mockResolvedValue({ transactionId: 'airtime_1', status: 'pending' }),
+      initiateB2B: jest.fn().mockResolvedValue({ transactionId: 'b2b_1', status: 'pending' }),
+    };
+    refundService = { openRefund: jest.fn(), openExcessRefund: jest.fn() };
+    swapProvider = {
+      getSwapStatus: jest.fn().mockResolvedValue({
+        status: 'DEPOSIT_CONFIRMING',
+        btcReceived: true,
+        confirmations: 1,
+        requiredConfirmations: 2,
+      }),
+    };
+    swapRouter = { createSwap: jest.fn(), getProvider: jest.fn(() => swapProvider) };
+    floatService = { reservePayout: jest.fn(async (_kesAmount, create) => create(floatTx)) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MinmoTransactionOrchestratorService,
+        { provide: MinmoTransactionService, useValue: transactionService },
+        { provide: SwapRouterService, useValue: swapRouter },
+        { provide: MpesaService, useValue: mpesaService },
+        { provide: RefundService, useValue: refundService },
+        { provide: FloatService, useValue: floatService },
+        PaymentVariancePolicy,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue: unknown) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    orchestrator = module.get(MinmoTransactionOrchestratorService);
+  });
+
+  describe('createBtcToMpesaTransaction', () => {
+    it('should record the provider that created the swap and the ones it failed over from', async () => {
+      transactionService.create = jest.fn(async data => (transaction = { id: 'tx-2', ...data }));
+      const failovers = [
+        { provider: 'cheapswap', error: 'Gateway timeout', failedAt: '2026-10-19T08:00:00.000Z' },
+      ];
+      swapRouter.createSwap.mockResolvedValue({
+        swap: {
+          provider: 'minmo',
+          swapId: 'swap_456',
+          depositAddress: 'bc1qdeposit',
+          btcAmount: 0.000202,
+          exchangeRate: 5000000,
+          feeKes: 10,
+          expiresAt: new Date('2026-10-19T09:00:00.000Z'),
+        },
+        failovers,
+      });
+
+      const created = await orchestrator.createBtcToMpesaTransaction({
+        transactionType: 'SEND_MONEY',
+        amountKes: 1000,
+        phoneNumber: '254712345678',
+      } as any);
+
+      expect(floatService.reservePayout).toHaveBeenCalledWith(1000, expect.any(Function));
+      expect(transactionService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ kesAmount: 1000, recipientPhone: '254712345678' }),
+        floatTx
+      );
+      expect(swapRouter.createSwap).toHaveBeenCalledWith(
+        expect.objectContaining({
+          transactionId: 'tx-2',
+          asset: SwapAsset.ONCHAIN_BTC,
+          kesAmount: 1000,
+        })
+      );
+      expect(transaction).toMatchObject({
+        status: TransactionStatus.AWAITING_BTC_PAYMENT,
+        minmoSwapId: 'swap_456',
+        swapProvider: 'minmo',
+        swapFailovers: failovers,
+        btcAddress: 'bc1qdeposit',
+        minmoFee: 10,
+      });
+      expect(created).toMatchObject({
+        id: 'tx-2',
+        swapProvider: 'minmo',
+        btcAddress: 'bc1qdeposit',
+      });
+    });
+
+    it('should fail the created transaction and keep the failovers when no provider can swap', async () => {
+      transactionService.create = jest.fn(async data => (transaction = { id: 'tx-2', ...data }));
+      const failovers = [
+        { provider: 'minmo', error: 'Gateway timeout', failedAt: '2026-10-19T08:00:00.000Z' },
+      ];
+      swapRouter.createSwap.mockRejectedValue(
+        new SwapRoutingError('Every swap provider failed: minmo: Gateway timeout', failovers)
+      );
+
+      await expect(
+        orchestrator.createBtcToMpesaTransaction({
+          transactionType: 'SEND_MONEY',
+          amountKes: 1000,
+          phoneNumber: '254712345678',
+        } as any)
+      ).rejects.toThrow('Failed to create transaction');
+
+      expect(transactionService.update).toHaveBeenCalledWith('tx-2', {
+        status: TransactionStatus.FAILED,
+        failureReason: 'Every swap provider failed: minmo: Gateway timeout',
+        swapFailovers: failovers,
+      });
+    });
+
+    it('should refuse the transaction without creating a swap when the float cannot cover it', async () => {
+      transactionService.create = jest.fn();
+      floatService.reservePayout.mockRejectedValue(
+        new ServiceUnavailableException(
+          'M-Pesa payouts are temporarily unavailable. Please try again later.'
+        )
+      );
+
+      await expect(
+        orchestrator.createBtcToMpesaTransaction({
+          transactionType: 'SEND_MONEY',
+          amountKes: 1000,
+          phoneNumber: '254712345678',
+        } as any)
+      ).rejects.toThrow(ServiceUnavailableException);
+
+      expect(transactionService.create).not.toHaveBeenCalled();
+      expect(swapRouter.createSwap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleMinmoConfirmation', () => {
+    it('should mark the BTC received and pay out over M-Pesa once', async () => {
+      await orchestrator.handleMinmoConfirmation('swap_123');
+      await orchestrator.handleMinmoConfirmation('swap_123');
+
+      expect(transaction).toMatchObject({
+        status: TransactionStatus.MPESA_PENDING,
+        btcReceived: true,
+      });
+      expect(mpesaService.initiateB2C).toHaveBeenCalledTimes(1);
+      expect(mpesaService.initiateB2C).toHaveBeenCalledWith('254712345678', 1000, 'tx-1');
+    });
+
+    it('should pay a paybill out to the merchant', async () => {
+      transaction = {
+        ...transaction,
+        transactionType: 'PAYBILL',
+        merchantCode: '888880',
+        accountNumber: 'ACC-42',
+      };
+
+      await orchestrator.handleMinmoConfirmation('swap_123');
+
+      expect(mpesaService.initiateB2B).toHaveBeenCalledWith(
+        'BusinessPayBill',
+        '888880',
+        1000,
+        'ACC-42',
+        'tx-1'
+      );
+      expect(transaction).toMatchObject({ status: TransactionStatus.MPESA_PENDING });
+    });
+
+    it('should throw for a swap with no transaction so the webhook is retried', async () => {
+      transaction = null;
+
+      await expect(orchestrator.handleMinmoConfirmation('swap_123')).rejects.toThrow(
+        'Transaction not found for MinMo swap swap_123'
+      );
+    });
+
+    it('should fail and refund the transaction when mpesa-service refuses the payout', async () => {
+      mpesaService.initiateB2C.mockRejectedValue(
+        new MpesaPaymentRejectedError('Invalid phone number')
+      );
+
+      await orchestrator.handleMinmoConfirmation('swap_123');
+
+      expect(transaction).toMatchObject({
+        status: TransactionStatus.FAILED,
+        btcReceived: true,
+        failureReason: 'M-Pesa failed: Invalid phone number',
+      });
+      expect(refundService.openRefund).toHaveBeenCalledWith(
+        TransactionFlow.MINMO,
+        'tx-1',
+        'M-Pesa failed: Invalid phone number'
+      );
+    });
+
+    it('should leave a payout with an unknown outcome pending for reconciliation', async () => {
+      mpesaService.initiateB2C.mockRejectedValue(new Error('timeout of 10000ms exceeded'));
+
+      await orchestrator.handleMinmoConfirmation('swap_123');
+      await orchestrator.handleMinmoConfirmation('swap_123');
+
+      expect(transaction).toMatchObject({ status: TransactionStatus.MPESA_PENDING });
+      expect(mpesaService.initiateB2C).toHaveBeenCalledTimes(1);
+      expect(refundService.openRefund).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('payment variance', () => {
+    it('should pay out as quoted and record a deposit within tolerance', async () => {
+      await orchestrator.handleMinmoConfirmation('swap_123', 0.000995);
+
+      expect(transaction).toMatchObject({
+        status: TransactionStatus.MPESA_PENDING,
+        btcReceivedAmount: 0.000995,
+        paymentVarianceDecision: PaymentVarianceDecision.ACCEPTED,
+      });
+      expect(mpesaService.initiateB2C).toHaveBeenCalledWith('254712345678', 1000, 'tx-1');
+    });
+
+    it('should offer a smaller payout for a short deposit and pay it once accepted', async () => {
+      await orchestrator.handleMinmoConfirmation('swap_123', 0.0009);
+
+      expect(transaction).toMatchObject({
+        status: TransactionStatus.BTC_RECEIVED,
+        paymentVarianceDecision: PaymentVarianceDecision.REPRICE_OFFERED,
+        repricedKesAmount: 900,
+      });
+      expect(transactionService.updateStatus).toHaveBeenCalledWith(
+        'tx-1',
+        TransactionStatus.BTC_RECEIVED,
+        expect.objectContaining({
+          reason: 'MinMo confirmed 0.0009 BTC of the 0.001 BTC quoted; offered a payout of 900 KES',
+        })
+      );
+      expect(mpesaService.initiateB2C).not.toHaveBeenCalled();
+
+      await expect(orchestrator.respondToReprice('tx-1', true)).resolves.toMatchObject({
+        decision: PaymentVarianceDecision.REPRICE_ACCEPTED,
+        expectedBtc: 0.001,
+        receivedBtc: 0.0009,
+        repricedKesAmount: 900,
+      });
+      expect(mpesaService.initiateB2C).toHaveBeenCalledWith('254712345678', 900, 'tx-1');
+      expect(transaction).toMatchObject({ status: TransactionStatus.MPESA_PENDING });
+
+      await expect(orchestrator.respondToReprice('tx-1', false)).rejects.toThrow(
+        'Transaction tx-1 has no payout offer to answer'
+      );
+    });
+
+    it('should refund a short deposit when the smaller payout is declined', async () => {
+      await orchestrator.handleMinmoConfirmation('swap_123', 0.0009);
+
+      await orchestrator.respondToReprice('tx-1', false);
+
+      expect(transaction).toMatchObject({
+        paymentVarianceDecision: PaymentVarianceDecision.REFUNDED,
+      });
+      expect(refundService.openRefund).toHaveBeenCalledWith(
+        TransactionFlow.MINMO,
+        'tx-1',
+        'User declined 900 KES for the 0.0009 BTC received'
+      );
+      expect(mpesaService.initiateB2C).not.toHaveBeenCalled();
+    });
+
+    it('should refund a deposit too short to re-price', async () => {
+      await orchestrator.handleMinmoConfirmation('swap_123', 0.0005);
+
+      expect(transaction).toMatchObject({
+        paymentVarianceDecision: PaymentVarianceDecision.REFUNDED,
+      });
+      expect(refundService.openRefund).toHaveBeenCalledWith(
+        TransactionFlow.MINMO,
+        'tx-1',
+        'MinMo confirmed 0.0005 BTC of the 0.001 BTC quoted; too short to pay out, refunding'
+      );
+      expect(mpesaService.initiateB2C).not.toHaveBeenCalled();
+    });
+
+    it('should pay out as quoted and refund the excess of an overpaid deposit', async () => {
+      await orchestrator.handleMinmoConfirmation('swap_123', 0.0012);
+
+      expect(transaction).toMatchObject({
+        paymentVarianceDecision: PaymentVarianceDecision.EXCESS_REFUNDED,
+      });
+      expect(mpesaService.initiateB2C).toHaveBeenCalledWith('254712345678', 1000, 'tx-1');
+      expect(refundService.openExcessRefund).not.toHaveBeenCalled();
+
+      await orchestrator.handleMpesaCallback({
+        transactionId: 'tx-1',
+        mpesaReceipt: 'QAB123',
+        resultCode: 0,
+        resultDesc: 'Success',
+      });
+
+      expect(transaction).toMatchObject({ status: TransactionStatus.COMPLETED });
+      expect(refundService.openExcessRefund).toHaveBeenCalledWith(
+        'tx-1',
+        20000,
+        'Refunding the 20000 sats sent beyond the quote'
+      );
+    });
+
+    it('should open the excess refund once when the completion callback is repeated', async () => {
+      await orchestrator.handleMinmoConfirmation('swap_123', 0.0012);
+      const callback = {
+        transactionId: 'tx-1',
+        mpesaReceipt: 'QAB123',
+        resultCode: 0,
+        resultDesc: 'Success',
+      };
+
+      await orchestrator.handleMpesaCallback(callback);
+      await orchestrator.handleMpesaCallback(callback);
+
+      expect(refundService.openExcessRefund).toHaveBeenCalledTimes(1);
+    });
+
+    it('should record an excess refund that cannot be opened on the completed transaction', async () => {
+      refundService.openExcessRefund.mockRejectedValue(new Error('Database unavailable'));
+      await orchestrator.handleMinmoConfirmation('swap_123', 0.0012);
+
+      await orchestrator.handleMpesaCallback({
+        transactionId: 'tx-1',
+        mpesaReceipt: 'QAB123',
+        resultCode: 0,
+        resultDesc: 'Success',
+      });
+
+      expect(transaction).toMatchObject({
+        status: TransactionStatus.COMPLETED,
+        failureReason: 'Excess refund of 20000 sats could not be opened: Database unavailable',
+      });
+    });
+  });
+
+  describe('handleMinmoSwapEnded', () => {
+    it('should end a transaction still waiting for BTC', async () => {
+      await orchestrator.handleMinmoSwapEnded(
+        'swap_123',
+        TransactionStatus.EXPIRED,
+        'MinMo swap expired before BTC was received'
+      );
+
+      expect(transaction).toMatchObject({
+        status: TransactionStatus.EXPIRED,
+        failureReason: 'MinMo swap expired before BTC was received',
+      });
+    });
+
+    it('should leave a transaction whose BTC was already received alone', async () => {
+      await orchestrator.handleMinmoConfirmation('swap_123');
+
+      await orchestrator.handleMinmoSwapEnded(
+        'swap_123',
+        TransactionStatus.FAILED,
+        'MinMo swap failed: payout rejected'
+      );
+
+      expect(transaction).toMatchObject({ status: TransactionStatus.MPESA_PENDING });
+      expect(transaction?.failureReason).toBeUndefined();
+    });
+  });
+
+  describe('getTransactionStatus', () => {
+    it('should report the confirmations of a deposit awaiting settlement', async () => {
+      transaction!.swapProvider = 'minmo';
+
+      const status = await orchestrator.getTransactionStatus('tx-1');
+
+      expect(swapRouter.getProvider).toHaveBeenCalledWith('minmo');
+      expect(swapProvider.getSwapStatus).toHaveBeenCalledWith('swap_123');
+      expect(status).toMatchObject({
+        status: TransactionStatus.AWAITING_BTC_PAYMENT,
+        btcReceived: false,
+        confirmations: 1,
+        requiredConfirmations: 2,
+      });
+    });
+
+    it('should leave out the confirmations when the swap provider cannot be reached', async () => {
+      swapProvider.getSwapStatus.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      const status = await orchestrator.getTransactionStatus('tx-1');
+
+      expect(status.status).toBe(TransactionStatus.AWAITING_BTC_PAYMENT);
+      expect(status.confirmations).toBeUndefined();
+    });
+
+    it('should not ask the swap provider once the BTC has been received', async () => {
+      await orchestrator.handleMinmoConfirmation('swap_123');
+
+      const status = await orchestrator.getTransactionStatus('tx-1');
+
+      expect(swapProvider.getSwapStatus).not.toHaveBeenCalled();
+      expect(status.confirmations).toBeUndefined();
+    });
+  });
+});
@@ -1,186 +1,390 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
-import { TransactionService } from '../transaction/transaction.service';
-import { MinmoService } from '../external/minmo.service';
-import { MpesaService } from '../external/mpesa.service';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { MinmoTransactionService } from '../transaction/minmo-transaction.service';
+import { SwapRouterService, SwapRoutingError } from '../swap-providers/swap-router.service';
+import { SwapAsset } from '../swap-providers/swap-provider';
+import {
+  MpesaPaymentRejectedError,
+  MpesaService,
+  MpesaTransactionResult,
+} from '../external/mpesa.service';
 import { CreateBtcToMpesaTransactionDto } from '../dto/create-btc-to-mpesa-transaction.dto';
-import { Transaction, TransactionStatus } from '@bitpesa/shared-types';
+import { RefundService } from '../refund/refund.service';
+import { FloatService } from '../float/float.service';
+import {
+  PaymentAssessment,
+  PaymentVariancePolicy,
+} from '../payment-variance/payment-variance.policy';
+import {
+  PaymentVariance,
+  PaymentVarianceDecision,
+  Transaction,
+  TransactionFlow,
+  TransactionStatus,
+} from '@bitpesa/shared-types';
 
 @Injectable()
 export class MinmoTransactionOrchestratorService {
   private readonly logger = new Logger(MinmoTransactionOrchestratorService.name);
 
   constructor(
-    private readonly transactionService: TransactionService,
-    private readonly minmoService: MinmoService,
+    private readonly transactionService: MinmoTransactionService,
+    private readonly swapRouter: SwapRouterService,
     private readonly mpesaService: MpesaService,
+    private readonly refundService: RefundService,
+    private readonly paymentVariancePolicy: PaymentVariancePolicy,
+    private readonly floatService: FloatService,
   ) {}
 
   /**
    * Create a Bitcoin to M-Pesa transaction using MinMo
-   * This replaces the Lightning-based flow with MinMo integration
+   * This replaces the Lightning-based flow with MinMo integration. SwapRouterService picks
+   * the swap provider; the one used and any that failed before it are stored on the
+   * transaction. The transaction is refused unless the M-Pesa float can cover its payout,
+   * which it holds from the moment it is created.
    */
   async createBtcToMpesaTransaction(
     dto: CreateBtcToMpesaTransactionDto,
   ): Promise<Transaction> {
+    let transaction: Transaction | undefined;
     try {
       this.logger.log(`Creating MinMo-powered BTC to M-Pesa transaction: ${dto.transactionType}`);
 
-      // Step 1: Create transaction record
-      const transaction = await this.transactionService.create({
-        type: 'BTC_TO_MPESA',
-        status: 'PENDING',
-        amountBtc: dto.amountBtc,
-        amountKes: dto.amountKes,
-        transactionType: dto.transactionType,
-        phoneNumber: dto.phoneNumber,
-        accountNumber: dto.accountNumber,
-        tillNumber: dto.tillNumber,
-        merchantCode: dto.merchantCode,
-        description: dto.description,
-        metadata: dto.metadata,
-      });
+      // Step 1: Create transaction record, reserving its payout against the float
+      transaction = await this.floatService.reservePayout(dto.amountKes, tx =>
+        this.transactionService.create(
+          {
+            type: 'BTC_TO_MPESA',
+            status: TransactionStatus.PENDING,
+            amountBtc: dto.amountBtc,
+            kesAmount: dto.amountKes,
+            transactionType: dto.transactionType,
+            // Paybill and till payouts may come without a phone number
+            recipientPhone: dto.phoneNumber ?? '',
+            accountNumber: dto.accountNumber,
+            tillNumber: dto.tillNumber,
+            merchantCode: dto.merchantCode,
+            description: dto.description,
+            metadata: dto.metadata,
+          },
+          tx
+        )
+      );
 
-      // Step 2: Create MinMo swap
-      this.logger.log(`Step 1: Creating MinMo swap for transaction ${transaction.id}`);
+      // Step 2: Create the swap
+      this.logger.log(`Step 1: Creating swap for transaction ${transaction.id}`);
       
-      const swapResult = await this.minmoService.createSwap({
+      const { swap, failovers } = await this.swapRouter.createSwap({
+        transactionId: transaction.id,
+        asset: SwapAsset.ONCHAIN_BTC,
         kesAmount: dto.amountKes,
         recipientPhone: dto.phoneNumber,
         recipientName: dto.metadata?.recipientName,
-        transactionId: transaction.id,
+        transactionType: dto.transactionType,
       });
+      const swapDetails = {
+        minmoSwapId: swap.swapId,
+        swapProvider: swap.provider,
+        swapFailovers: failovers,
+        btcAddress: swap.depositAddress,
+        btcAmount: swap.btcAmount,
+        exchangeRate: swap.exchangeRate,
+        minmoFee: swap.feeKes,
+        invoiceExpiresAt: swap.expiresAt,
+      };
 
-      // Step 3: Update transaction with MinMo details
+      // Step 3: Update transaction with the swap details
       await this.transactionService.update(transaction.id, {
-        status: 'AWAITING_BTC_PAYMENT',
-        minmoSwapId: swapResult.swapId,
-        btcAddress: swapResult.btcAddress,
-        btcAmount: swapResult.btcAmount,
-        exchangeRate: swapResult.exchangeRate,
-        minmoFee: swapResult.minmoFee,
-        invoiceExpiresAt: swapResult.expiresAt,
+        status: TransactionStatus.AWAITING_BTC_PAYMENT,
+        ...swapDetails,
       });
 
-      this.logger.log(`Step 2: Waiting for BTC payment to ${swapResult.btcAddress}`);
+      this.logger.log(
+        `Step 2: Waiting for BTC payment to ${swap.depositAddress} (${swap.provider})`
+      );
 
-      // Return updated transaction with MinMo details
+      // Return updated transaction with the swap details
       return {
         ...transaction,
-        status: 'AWAITING_BTC_PAYMENT',
-        minmoSwapId: swapResult.swapId,
-        btcAddress: swapResult.btcAddress,
-        btcAmount: swapResult.btcAmount,
-        exchangeRate: swapResult.exchangeRate,
-        minmoFee: swapResult.minmoFee,
-        invoiceExpiresAt: swapResult.expiresAt,
+        status: TransactionStatus.AWAITING_BTC_PAYMENT,
+        ...swapDetails,
       };
 
     } catch (error) {
-      this.logger.error(`Transaction ${dto.transactionId || 'unknown'} failed: ${(error as Error).message}`);
-      
-      // Update transaction status to failed if we have an ID
-      if (dto.transactionId) {
-        await this.transactionService.update(dto.transactionId, {
-          status: 'FAILED',
+      this.logger.error(
+        `Transaction ${transaction?.id ?? 'unknown'} failed: ${(error as Error).message}`
+      );
+
+      if (!transaction && error instanceof ServiceUnavailableException) {
+        throw error; // The float cannot cover the payout; nothing was created
+      }
+
+      // Fail the transaction if it was created, keeping the providers that could not swap
+      if (transaction) {
+        await this.transactionService.update(transaction.id, {
+          status: TransactionStatus.FAILED,
           failureReason: (error as Error).message,
+          ...(error instanceof SwapRoutingError && { swapFailovers: error.failovers }),
         });
       }
-      
+
       throw new BadRequestException(`Failed to create transaction: ${(error as Error).message}`);
     }
   }
 
   /**
    * Handle MinMo webhook - BTC received
-   * This is called when MinMo confirms BTC payment
+   * This is called when MinMo confirms BTC payment. Only the first confirmation moves the
+   * transaction on; repeats are ignored. A deposit that differs from the quote is judged
+   * by PaymentVariancePolicy: paid out as quoted, offered to the user as a smaller payout,
+   * or refunded, with the decision recorded on the BTC_RECEIVED status change.
    */
-  async handleMinmoConfirmation(swapId: string): Promise<void> {
-    try {
-      this.logger.log(`Step 3: BTC received for MinMo swap ${swapId}`);
+  async handleMinmoConfirmation(swapId: string, receivedBtc?: number): Promise<void> {
+    this.logger.log(`Step 3: BTC received for MinMo swap ${swapId}`);
 
-      // Find transaction by MinMo swap ID
-      const transaction = await this.transactionService.findByMinmoSwapId(swapId);
-      
-      if (!transaction) {
-        this.logger.error(`Transaction not found for MinMo swap ${swapId}`);
-        return;
+    const found = await this.findBySwapId(swapId);
+    const expectedBtc = Number(found.btcAmount);
+    const btcReceivedAmount = receivedBtc ?? expectedBtc;
+    const assessment = this.paymentVariancePolicy.assess(
+      expectedBtc,
+      btcReceivedAmount,
+      found.kesAmount
+    );
+    const reason = this.describeDeposit(expectedBtc, btcReceivedAmount, assessment);
+
+    const transaction = await this.transactionService.updateStatus(
+      found.id,
+      TransactionStatus.BTC_RECEIVED,
+      {
+        expectedStatus: TransactionStatus.AWAITING_BTC_PAYMENT,
+        reason,
+        metadata: {
+          expectedBtc,
+          receivedBtc: btcReceivedAmount,
+          variance: assessment.variance,
+          decision: assessment.decision,
+        },
+        data: {
+          btcReceived: true,
+          btcReceivedAmount,
+          paymentVarianceDecision: assessment.decision,
+          repricedKesAmount: assessment.repricedKesAmount,
+        },
       }
+    );
+    if (!transaction) {
+      this.logger.log(`Transaction ${found.id} is already ${found.status}; ignoring confirmation`);
+      return;
+    }
 
-      // Update transaction status
-      await this.transactionService.update(transaction.id, {
-        status: 'BTC_RECEIVED',
-        btcReceived: true,
-        paidAt: new Date(),
-      });
+    switch (assessment.decision) {
+      case PaymentVarianceDecision.REPRICE_OFFERED:
+        this.logger.warn(`Transaction ${transaction.id}: ${reason}`);
+        break;
 
-      // Step 4: Execute M-Pesa payment
-      this.logger.log(`Step 4: Sending ${transaction.amountKes} KES via M-Pesa`);
+      case PaymentVarianceDecision.REFUNDED:
+        await this.refundService.openRefund(TransactionFlow.MINMO, transaction.id, reason);
+        break;
 
-      let mpesaResult;
-      
-      switch (transaction.transactionType) {
-        case 'SEND_MONEY':
-          mpesaResult = await this.mpesaService.sendMoney({
-            phone: transaction.phoneNumber,
-            amount: transaction.amountKes,
-            reference: transaction.id,
-          });
-          break;
-          
-        case 'BUY_AIRTIME':
-          mpesaResult = await this.mpesaService.buyAirtime({
-            phone: transaction.phoneNumber,
-            amount: transaction.amountKes,
-          });
-          break;
-          
-        case 'PAYBILL':
-          mpesaResult = await this.mpesaService.paybill({
-            businessNumber: transaction.merchantCode,
-            accountNumber: transaction.accountNumber,
-            amount: transaction.amountKes,
-            phone: transaction.phoneNumber,
-          });
-          break;
-          
-        case 'BUY_GOODS':
-          mpesaResult = await this.mpesaService.buyGoods({
-            tillNumber: transaction.merchantCode,
-            amount: transaction.amountKes,
-            phone: transaction.phoneNumber,
-          });
-          break;
-          
-        default:
-          throw new Error(`Unsupported transaction type: ${transaction.transactionType}`);
+      default:
+        await this.payOut(transaction, transaction.kesAmount, 'M-Pesa payout sent');
+    }
+  }
+
+  /**
+   * The user's answer to a smaller payout offered for a short deposit
+   * Accepting pays the re-priced KES amount out; declining refunds the BTC received.
+   */
+  async respondToReprice(transactionId: string, accept: boolean): Promise<PaymentVariance> {
+    const transaction = await this.transactionService.findById(transactionId);
+    if (!transaction) {
+      throw new NotFoundException(`Transaction ${transactionId} not found`);
+    }
+
+    const decided = await this.transactionService.updatePaymentVarianceDecision(
+      transactionId,
+      PaymentVarianceDecision.REPRICE_OFFERED,
+      accept ? PaymentVarianceDecision.REPRICE_ACCEPTED : PaymentVarianceDecision.REFUNDED
+    );
+    if (!decided) {
+      throw new ConflictException(`Transaction ${transactionId} has no payout offer to answer`);
+    }
+
+    const offer = `${transaction.repricedKesAmount} KES for the ${transaction.btcReceivedAmount} BTC received`;
+    if (accept) {
+      await this.payOut(transaction, transaction.repricedKesAmount, `User accepted ${offer}`);
+    } else {
+      await this.refundService.openRefund(
+        TransactionFlow.MINMO,
+        transactionId,
+        `User declined ${offer}`
+      );
+    }
+
+    return this.getPaymentVariance(transactionId);
+  }
+
+  /**
+   * How a transaction's BTC deposit compared with its quote, and what was done about it
+   */
+  async getPaymentVariance(transactionId: string): Promise<PaymentVariance> {
+    const transaction = await this.transactionService.findById(transactionId);
+    if (!transaction?.paymentVarianceDecision) {
+      throw new NotFoundException(`Transaction ${transactionId} has not received BTC`);
+    }
+
+    const expectedBtc = Number(transaction.btcAmount);
+    const receivedBtc = Number(transaction.btcReceivedAmount);
+    return {
+      transactionId,
+      expectedBtc,
+      receivedBtc,
+      variance: this.paymentVariancePolicy.assess(expectedBtc, receivedBtc, transaction.kesAmount)
+        .variance,
+      decision: transaction.paymentVarianceDecision,
+      quotedKesAmount: transaction.kesAmount,
+      repricedKesAmount: transaction.repricedKesAmount ?? undefined,
+    };
+  }
+
+  /**
+   * Pay a transaction's KES out over M-Pesa
+   * The transaction moves to MPESA_PENDING before the payout is requested, so the payout is
+   * sent at most once. Only a payout mpesa-service refused without sending fails the
+   * transaction and refunds its BTC; when the outcome is unknown the transaction stays
+   * MPESA_PENDING for M-Pesa reconciliation to settle.
+   */
+  private async payOut(transaction: Transaction, amountKes: number, reason: string): Promise<void> {
+    // Step 4: Claim the payout
+    const claimed = await this.transactionService.updateStatus(
+      transaction.id,
+      TransactionStatus.MPESA_PENDING,
+      { expectedStatus: TransactionStatus.BTC_RECEIVED, reason, metadata: { amountKes } }
+    );
+    if (!claimed) {
+      this.logger.warn(`Transaction ${transaction.id} is not awaiting its payout, skipping`);
+      return;
+    }
+
+    try {
+      // Step 5: Execute M-Pesa payment
+      this.logger.log(`Step 5: Sending ${amountKes} KES via M-Pesa`);
+      const mpesaResult = await this.requestPayout(transaction, amountKes);
+      this.logger.log(
+        `M-Pesa payout ${mpesaResult.transactionId} initiated for transaction ${transaction.id}`
+      );
+    } catch (error) {
+      if (!(error instanceof MpesaPaymentRejectedError)) {
+        this.logger.error(
+          `M-Pesa payout for transaction ${transaction.id} has an unknown outcome, leaving it for reconciliation: ${(error as Error).message}`
+        );
+        return;
       }
 
-      // Step 5: Update status to M-Pesa pending
+      // Nothing was paid out, so fail the transaction and return the swap's BTC via MinMo
+      this.logger.error(
+        `M-Pesa payment failed for transaction ${transaction.id}: ${error.message}`
+      );
+      const failureReason = `M-Pesa failed: ${error.message}`;
       await this.transactionService.update(transaction.id, {
-        status: 'MPESA_PENDING',
-        mpesaFee: mpesaResult.fee,
+        status: TransactionStatus.FAILED,
+        failureReason,
       });
+      await this.refundService.openRefund(TransactionFlow.MINMO, transaction.id, failureReason);
+    }
+  }
 
-      this.logger.log(`Step 5: M-Pesa initiated for transaction ${transaction.id}`);
+  private async requestPayout(
+    transaction: Transaction,
+    amountKes: number
+  ): Promise<MpesaTransactionResult> {
+    // M-Pesa outcomes come back with the reference as their transaction id
+    switch (transaction.transactionType) {
+      case 'SEND_MONEY':
+        return this.mpesaService.initiateB2C(
+          transaction.recipientPhone ?? '',
+          amountKes,
+          transaction.id
+        );
 
-    } catch (error) {
-      this.logger.error(`M-Pesa payment failed for swap ${swapId}: ${(error as Error).message}`);
-      
-      // Update transaction status to failed
-      const transaction = await this.transactionService.findByMinmoSwapId(swapId);
-      if (transaction) {
-        await this.transactionService.update(transaction.id, {
-          status: 'FAILED',
-          failureReason: `M-Pesa failed: ${(error as Error).message}`,
-        });
-      }
-      
-      // TODO: Initiate refund via MinMo
+      case 'BUY_AIRTIME':
+        return this.mpesaService.initiateAirtime(
+          transaction.recipientPhone ?? '',
+          amountKes,
+          transaction.id
+        );
+
+      case 'PAYBILL':
+      case 'BUY_GOODS':
+        return this.mpesaService.initiateB2B(
+          transaction.transactionType === 'PAYBILL' ? 'BusinessPayBill' : 'BusinessBuyGoods',
+          transaction.merchantCode,
+          amountKes,
+          transaction.accountNumber,
+          transaction.id
+        );
+
+      default:
+        throw new MpesaPaymentRejectedError(
+          `Unsupported transaction type: ${transaction.transactionType}`
+        );
+    }
+  }
+
+  private describeDeposit(
+    expectedBtc: number,
+    receivedBtc: number,
+    assessment: PaymentAssessment
+  ): string {
+    const deposit = `MinMo confirmed ${receivedBtc} BTC of the ${expectedBtc} BTC quoted`;
+    switch (assessment.decision) {
+      case PaymentVarianceDecision.REPRICE_OFFERED:
+        return `${deposit}; offered a payout of ${assessment.repricedKesAmount} KES`;
+      case PaymentVarianceDecision.EXCESS_REFUNDED:
+        return `${deposit}; paying out as quoted and refunding the ${assessment.excessSats} sats excess`;
+      case PaymentVarianceDecision.REFUNDED:
+        return `${deposit}; too short to pay out, refunding`;
+      default:
+        return receivedBtc === expectedBtc ? 'MinMo confirmed BTC payment' : deposit;
+    }
+  }
+
+  /**
+   * Handle MinMo webhook - swap failed or expired
+   * Ends a transaction still waiting for BTC; once BTC has been received the M-Pesa leg
+   * decides the outcome instead.
+   */
+  async handleMinmoSwapEnded(
+    swapId: string,
+    status: TransactionStatus.FAILED | TransactionStatus.EXPIRED,
+    failureReason: string
+  ): Promise<void> {
+    const found = await this.findBySwapId(swapId);
+    const transaction = await this.transactionService.updateStatus(found.id, status, {
+      expectedStatus: TransactionStatus.AWAITING_BTC_PAYMENT,
+      reason: failureReason,
+      data: { failureReason },
+    });
+
+    if (transaction) {
+      this.logger.warn(`Transaction ${found.id} ${status}: ${failureReason}`);
+    } else {
+      this.logger.warn(
+        `Ignoring "${failureReason}" for transaction ${found.id}, which is already ${found.status}`
+      );
     }
   }
 
   /**
    * Handle M-Pesa callback - Payment complete
+   * Repeats of an outcome already recorded are ignored; any other error is rethrown so the
+   * outcome is redelivered.
    */
   async handleMpesaCallback(data: {
     transactionId: string;
@@ -200,28 +404,63 @@ export class MinmoTransactionOrchestratorService {
         // Success! Update transaction as completed
         this.logger.log(`Step 6: M-Pesa completed for transaction ${transaction.id}`);
         
-        await this.transactionService.update(transaction.id, {
-          status: 'COMPLETED',
+        const completed = await this.transactionService.update(transaction.id, {
+          status: TransactionStatus.COMPLETED,
           completedAt: new Date(),
           referenceNumber: data.mpesaReceipt,
         });
+        if (!completed) {
+          this.logger.warn(`Transaction ${transaction.id} is already completed, skipping callback`);
+          return;
+        }
 
         // Send success notification
         await this.sendTransactionCompleteNotification(transaction);
+
+        if (transaction.paymentVarianceDecision === PaymentVarianceDecision.EXCESS_REFUNDED) {
+          const excessSats =
+            Math.round(Number(transaction.btcReceivedAmount) * 100_000_000) -
+            Math.round(Number(transaction.btcAmount) * 100_000_000);
+          await this.openExcessRefund(transaction.id, excessSats);
+        }
         
       } else {
         // M-Pesa failed
         this.logger.error(`M-Pesa failed for transaction ${transaction.id}: ${data.resultDesc}`);
         
-        await this.transactionService.update(transaction.id, {
-          status: 'FAILED',
-          failureReason: `M-Pesa failed: ${data.resultDesc}`,
+        const failureReason = `M-Pesa failed: ${data.resultDesc}`;
+        const failed = await this.transactionService.update(transaction.id, {
+          status: TransactionStatus.FAILED,
+          failureReason,
         });
-
-        // TODO: Initiate refund via MinMo
+        if (!failed) {
+          this.logger.warn(`Transaction ${transaction.id} has already failed, skipping callback`);
+          return;
+        }
+        await this.refundService.openRefund(TransactionFlow.MINMO, transaction.id, failureReason);
       }
     } catch (error) {
       this.logger.error(`M-Pesa callback handling failed: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Refund what an overpaid deposit sent beyond the quote, once the payout has completed
+   * The payout stands either way, so a refund that cannot be opened is logged and recorded
+   * on the transaction for follow-up rather than failing the callback.
+   */
+  private async openExcessRefund(transactionId: string, excessSats: number): Promise<void> {
+    try {
+      await this.refundService.openExcessRefund(
+        transactionId,
+        excessSats,
+        `Refunding the ${excessSats} sats sent beyond the quote`
+      );
+    } catch (error) {
+      const failureReason = `Excess refund of ${excessSats} sats could not be opened: ${(error as Error).message}`;
+      this.logger.error(`Transaction ${transactionId}: ${failureReason}`, (error as Error).stack);
+      await this.transactionService.update(transactionId, { failureReason });
     }
   }
 
@@ -233,6 +472,12 @@ export class MinmoTransactionOrchestratorService {
     btcReceived: boolean;
     mpesaStatus: string;
     receipt?: string;
+    /** Set once BTC has been received; REPRICE_OFFERED waits for the user's answer */
+    paymentVarianceDecision?: PaymentVarianceDecision;
+    repricedKesAmount?: number;
+    /** Deposit confirmations reported by the swap provider while BTC is awaited */
+    confirmations?: number;
+    requiredConfirmations?: number;
   }> {
     const transaction = await this.transactionService.findById(transactionId);
     
@@ -241,13 +486,57 @@ export class MinmoTransactionOrchestratorService {
     }
 
     return {
+      ...(await this.getDepositConfirmations(transaction)),
       status: transaction.status,
       btcReceived: transaction.btcReceived || false,
       mpesaStatus: transaction.status === 'COMPLETED' ? 'completed' : 'pending',
       receipt: transaction.referenceNumber,
+      paymentVarianceDecision: transaction.paymentVarianceDecision,
+      repricedKesAmount: transaction.repricedKesAmount,
     };
   }
 
+  /**
+   * Confirmations of a deposit the swap provider has seen but not yet settled
+   * The status is still returned when the provider cannot be reached, just without them.
+   */
+  private async getDepositConfirmations(
+    transaction: Transaction
+  ): Promise<{ confirmations?: number; requiredConfirmations?: number }> {
+    if (
+      transaction.status !== TransactionStatus.AWAITING_BTC_PAYMENT ||
+      transaction.btcReceived ||
+      !transaction.minmoSwapId
+    ) {
+      return {};
+    }
+
+    try {
+      const { confirmations, requiredConfirmations } = await this.swapRouter
+        .getProvider(transaction.swapProvider ?? 'minmo')
+        .getSwapStatus(transaction.minmoSwapId);
+      return { confirmations, requiredConfirmations };
+    } catch (error) {
+      this.logger.warn(
+        `Could not get the deposit confirmations of transaction ${transaction.id}: ${(error as Error).message}`
+      );
+      return {};
+    }
+  }
+
+  /**
+   * Find the transaction a MinMo swap belongs to
+   * Throws when there is none yet, so a webhook that arrives before the swap ID has been
+   * stored is redelivered rather than dropped.
+   */
+  private async findBySwapId(swapId: string): Promise<Transaction> {
+    const transaction = await this.transactionService.findByMinmoSwapId(swapId);
+    if (!transaction) {
+      throw new NotFoundException(`Transaction not found for MinMo swap ${swapId}`);
+    }
+    return transaction;
+  }
+
   /**
    * Send transaction completion notification
    */
@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DomainEvent, EventType } from '@bitpesa/shared-types';
+import { EVENT_BROKER } from '@bitpesa/shared-infrastructure';
+import { MpesaEventsConsumer } from './mpesa-events.consumer';
+import { TransactionOrchestratorService } from './transaction-orchestrator.service';
+import { MinmoTransactionOrchestratorService } from './minmo-transaction-orchestrator.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+// The shared-infrastructure build doesn't load under jest; events reach the handler as-is
+jest.mock('@bitpesa/shared-infrastructure', () => ({
+  EVENT_BROKER: 'EVENT_BROKER',
+  deduplicateEvents:
+    (_processedEvent: unknown, _consumer: string, handler: (event: unknown) => Promise<void>) =>
+    (event: unknown) =>
+      handler(event),
+}));
+
+// Both orchestrators pull in modules jest can't resolve; only their tokens are needed
+jest.mock('./transaction-orchestrator.service', () => ({
+  TransactionOrchestratorService: class TransactionOrchestratorService {},
+}));
+jest.mock('./minmo-transaction-orchestrator.service', () => ({
+  MinmoTransactionOrchestratorService: class MinmoTransactionOrchestratorService {},
+}));
+
+describe('MpesaEventsConsumer', () => {
+  let deliver: (event: DomainEvent) => Promise<void>;
+  let transactions: Record<string, { minmoSwapId: string | null }>;
+  let orchestrator: { handleMpesaCallback: jest.Mock };
+  let minmoOrchestrator: { handleMpesaCallback: jest.Mock };
+
+  const mpesaEvent = (type: EventType, transactionId: string, resultCode: number): DomainEvent => ({
+    id: 'evt-1',
+    type,
+    source: 'mpesa-service',
+    aggregateId: 'mtx-1',
+    payload: {
+      mpesaTransactionId: 'mtx-1',
+      transactionId,
+      resultCode,
+      resultDesc: resultCode === 0 ? 'The service request is processed successfully.' : 'Declined',
+      receiptNumber: resultCode === 0 ? 'QAB123' : undefined,
+    },
+    occurredAt: '2026-10-19T08:00:00.000Z',
+  });
+
+  beforeEach(async () => {
+    transactions = {
+      'tx-lightning': { minmoSwapId: null },
+      'tx-minmo': { minmoSwapId: 'swap_123' },
+    };
+    orchestrator = { handleMpesaCallback: jest.fn() };
+    minmoOrchestrator = { handleMpesaCallback: jest.fn() };
+    const broker = {
+      subscribe: jest.fn(async ({ handler }) => {
+        deliver = handler;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MpesaEventsConsumer,
+        { provide: EVENT_BROKER, useValue: broker },
+        {
+          provide: PrismaService,
+          useValue: {
+            transaction: {
+              findUnique: jest.fn(async ({ where }) => transactions[where.id] ?? null),
+            },
+          },
+        },
+        { provide: TransactionOrchestratorService, useValue: orchestrator },
+        { provide: MinmoTransactionOrchestratorService, useValue: minmoOrchestrator },
+      ],
+    }).compile();
+
+    await module.get(MpesaEventsConsumer).onApplicationBootstrap();
+  });
+
+  it('should settle a MinMo transaction through the MinMo orchestrator', async () => {
+    await deliver(mpesaEvent(EventType.MPESA_COMPLETED, 'tx-minmo', 0));
+
+    expect(minmoOrchestrator.handleMpesaCallback).toHaveBeenCalledWith({
+      transactionId: 'tx-minmo',
+      mpesaReceipt: 'QAB123',
+      resultCode: 0,
+      resultDesc: 'The service request is processed successfully.',
+    });
+    expect(orchestrator.handleMpesaCallback).not.toHaveBeenCalled();
+  });
+
+  it('should fail a MinMo transaction whose payout failed', async () => {
+    await deliver(mpesaEvent(EventType.MPESA_FAILED, 'tx-minmo', 2001));
+
+    expect(minmoOrchestrator.handleMpesaCallback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        transactionId: 'tx-minmo',
+        resultCode: 2001,
+        resultDesc: 'Declined',
+      })
+    );
+  });
+
+  it('should settle a Lightning transaction through the Lightning orchestrator', async () => {
+    await deliver(mpesaEvent(EventType.MPESA_COMPLETED, 'tx-lightning', 0));
+
+    expect(orchestrator.handleMpesaCallback).toHaveBeenCalledWith('tx-lightning', 'SUCCESS', {
+      receiptNumber: 'QAB123',
+      resultCode: 0,
+      errorMessage: 'The service request is processed successfully.',
+    });
+    expect(minmoOrchestrator.handleMpesaCallback).not.toHaveBeenCalled();
+  });
+
+  it('should throw for an unknown transaction so the event is redelivered', async () => {
+    await expect(deliver(mpesaEvent(EventType.MPESA_COMPLETED, 'tx-missing', 0))).rejects.toThrow(
+      'Transaction tx-missing not found'
+    );
+  });
+});
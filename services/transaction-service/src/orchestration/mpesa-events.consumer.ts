@@ -0,0 +1,72 @@
+import { Inject, Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { DomainEvent, EventType, MpesaEventPayload } from '@bitpesa/shared-types';
+import { EVENT_BROKER, EventBroker, deduplicateEvents } from '@bitpesa/shared-infrastructure';
+import { PrismaService } from '../prisma/prisma.service';
+import { TransactionOrchestratorService } from './transaction-orchestrator.service';
+import { MinmoTransactionOrchestratorService } from './minmo-transaction-orchestrator.service';
+
+const CONSUMER = 'transaction-service.mpesa';
+
+/**
+ * Settles transactions from the M-Pesa outcomes mpesa-service publishes
+ * Each outcome goes to the orchestrator of its transaction's flow: transactions with a
+ * swap belong to the MinMo flow, the rest to the Lightning flow.
+ */
+@Injectable()
+export class MpesaEventsConsumer implements OnApplicationBootstrap {
+  private readonly logger = new Logger(MpesaEventsConsumer.name);
+
+  constructor(
+    @Inject(EVENT_BROKER) private readonly broker: EventBroker,
+    private readonly prisma: PrismaService,
+    private readonly orchestrator: TransactionOrchestratorService,
+    private readonly minmoOrchestrator: MinmoTransactionOrchestratorService
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.broker.subscribe({
+      group: CONSUMER,
+      types: [EventType.MPESA_COMPLETED, EventType.MPESA_FAILED],
+      handler: deduplicateEvents(this.prisma.processedEvent, CONSUMER, event => this.handle(event)),
+    });
+  }
+
+  private async handle(event: DomainEvent): Promise<void> {
+    const payload = event.payload as unknown as MpesaEventPayload;
+    if (!payload.transactionId) {
+      this.logger.debug(`Ignoring ${event.type} ${event.id}: not a bridge payment`);
+      return;
+    }
+
+    const transaction = await this.prisma.transaction.findUnique({
+      where: { id: payload.transactionId },
+      select: { minmoSwapId: true },
+    });
+    if (!transaction) {
+      // Thrown so the event is redelivered rather than marked processed
+      throw new Error(
+        `Transaction ${payload.transactionId} not found for ${event.type} ${event.id}`
+      );
+    }
+
+    if (transaction.minmoSwapId) {
+      await this.minmoOrchestrator.handleMpesaCallback({
+        transactionId: payload.transactionId,
+        mpesaReceipt: payload.receiptNumber ?? '',
+        resultCode: event.type === EventType.MPESA_COMPLETED ? 0 : payload.resultCode,
+        resultDesc: payload.resultDesc,
+      });
+      return;
+    }
+
+    await this.orchestrator.handleMpesaCallback(
+      payload.transactionId,
+      event.type === EventType.MPESA_COMPLETED ? 'SUCCESS' : 'FAILED',
+      {
+        receiptNumber: payload.receiptNumber,
+        resultCode: payload.resultCode,
+        errorMessage: payload.resultDesc,
+      }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { Inject, Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { DomainEvent, EventType, SwapEventPayload, TransactionStatus } from '@bitpesa/shared-types';
+import { EVENT_BROKER, EventBroker, deduplicateEvents } from '@bitpesa/shared-infrastructure';
+import { PrismaService } from '../prisma/prisma.service';
+import { MinmoTransactionOrchestratorService } from './minmo-transaction-orchestrator.service';
+
+const CONSUMER = 'transaction-service.swaps';
+
+/**
+ * Drives Minmo transactions from the swap webhooks minmo-service publishes
+ * A handler that throws, e.g. because the swap's transaction is not stored yet, gets the
+ * event redelivered.
+ */
+@Injectable()
+export class SwapEventsConsumer implements OnApplicationBootstrap {
+  constructor(
+    @Inject(EVENT_BROKER) private readonly broker: EventBroker,
+    private readonly prisma: PrismaService,
+    private readonly orchestrator: MinmoTransactionOrchestratorService
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.broker.subscribe({
+      group: CONSUMER,
+      types: [
+        EventType.SWAP_CONFIRMED,
+        EventType.SWAP_COMPLETED,
+        EventType.SWAP_FAILED,
+        EventType.SWAP_EXPIRED,
+      ],
+      handler: deduplicateEvents(this.prisma.processedEvent, CONSUMER, event => this.handle(event)),
+    });
+  }
+
+  private async handle(event: DomainEvent): Promise<void> {
+    const { swapId, reason, data } = event.payload as unknown as SwapEventPayload;
+
+    switch (event.type) {
+      // A completed swap has received its BTC too, in case the confirmation went missing
+      case EventType.SWAP_CONFIRMED:
+      case EventType.SWAP_COMPLETED:
+        await this.orchestrator.handleMinmoConfirmation(
+          swapId,
+          typeof data?.btcAmount === 'number' ? data.btcAmount : undefined
+        );
+        break;
+
+      case EventType.SWAP_FAILED:
+        await this.orchestrator.handleMinmoSwapEnded(
+          swapId,
+          TransactionStatus.FAILED,
+          `MinMo swap failed: ${reason || 'unknown reason'}`
+        );
+        break;
+
+      case EventType.SWAP_EXPIRED:
+        await this.orchestrator.handleMinmoSwapEnded(
+          swapId,
+          TransactionStatus.EXPIRED,
+          reason || 'MinMo swap expired before BTC was received'
+        );
+        break;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TransactionOrchestratorService } from './transaction-orchestrator.service';
+import { TransactionService } from '../transaction/transaction.service';
+import { LightningService } from '../external/lightning.service';
+import { MpesaPaymentRejectedError, MpesaService } from '../external/mpesa.service';
+import { ConversionService } from '../conversion/conversion.service';
+import { RefundService } from '../refund/refund.service';
+import { TransactionFlow, TransactionStatus } from '@bitpesa/shared-types';
+
+// TransactionService pulls in @bitpesa/shared-utils, which jest can't resolve; only its token is needed
+jest.mock('../transaction/transaction.service', () => ({
+  TransactionService: class TransactionService {},
+}));
+
+describe('TransactionOrchestratorService', () => {
+  let orchestrator: TransactionOrchestratorService;
+  let transactionService: {
+    create: jest.Mock;
+    update: jest.Mock;
+    updateTransactionStatus: jest.Mock;
+    findById: jest.Mock;
+  };
+  let lightningService: { createInvoice: jest.Mock };
+  let conversionService: { getCurrentRate: jest.Mock };
+  let mpesaService: { initiateB2C: jest.Mock };
+  let refundService: { openRefund: jest.Mock };
+
+  const paidTransaction = {
+    id: 'tx-1',
+    paymentHash: 'ab'.repeat(32),
+    status: TransactionStatus.MPESA_PENDING,
+    transactionType: 'SEND_MONEY',
+    recipientPhone: '254712345678',
+    kesAmount: 1000,
+  };
+
+  beforeEach(async () => {
+    transactionService = {
+      create: jest.fn(async data => ({ id: 'tx-1', ...data })),
+      update: jest.fn(),
+      findById: jest.fn(async () => ({ ...paidTransaction })),
+      updateTransactionStatus: jest.fn(async (_hash, status) =>
+        status === TransactionStatus.MPESA_PENDING ? { ...paidTransaction } : null
+      ),
+    };
+    lightningService = {
+      createInvoice: jest.fn().mockResolvedValue({
+        paymentHash: 'ab'.repeat(32),
+        invoice: 'lnbcrt200u1example',
+        amount: 20000,
+        expiresAt: new Date('2026-10-19T10:00:00.000Z'),
+      }),
+    };
+    conversionService = {
+      getCurrentRate: jest.fn().mockResolvedValue({ rate: 5100000, finalRate: 5000000 }),
+    };
+    mpesaService = {
+      initiateB2C: jest.fn().mockResolvedValue({ transactionId: 'b2c_1', status: 'pending' }),
+    };
+    refundService = { openRefund: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransactionOrchestratorService,
+        { provide: TransactionService, useValue: transactionService },
+        { provide: LightningService, useValue: lightningService },
+        { provide: MpesaService, useValue: mpesaService },
+        { provide: ConversionService, useValue: conversionService },
+        { provide: RefundService, useValue: refundService },
+      ],
+    }).compile();
+
+    orchestrator = module.get(TransactionOrchestratorService);
+  });
+
+  describe('createBtcToMpesaTransaction', () => {
+    it('should invoice the KES amount in sats at the final rate', async () => {
+      await orchestrator.createBtcToMpesaTransaction({
+        transactionType: 'SEND_MONEY',
+        amountBtc: 0.0002,
+        amountKes: 1000,
+        phoneNumber: '254712345678',
+      } as any);
+
+      expect(lightningService.createInvoice).toHaveBeenCalledWith(
+        20000,
+        'BitPesa SEND_MONEY - tx-1',
+        3600
+      );
+      expect(transactionService.update).toHaveBeenCalledWith('tx-1', {
+        paymentHash: 'ab'.repeat(32),
+        paymentRequest: 'lnbcrt200u1example',
+        status: 'LIGHTNING_PENDING',
+      });
+    });
+
+    it('should fail when no exchange rate is available', async () => {
+      conversionService.getCurrentRate.mockResolvedValue(null);
+
+      await expect(
+        orchestrator.createBtcToMpesaTransaction({
+          transactionType: 'SEND_MONEY',
+          amountBtc: 0.0002,
+          amountKes: 1000,
+        } as any)
+      ).rejects.toThrow('Failed to create transaction');
+      expect(lightningService.createInvoice).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processLightningPayment', () => {
+    it('should send the payout and record the M-Pesa leg', async () => {
+      await orchestrator.processLightningPayment(paidTransaction.paymentHash);
+
+      expect(mpesaService.initiateB2C).toHaveBeenCalledWith('254712345678', 1000, 'tx-1');
+      expect(transactionService.update).toHaveBeenCalledWith('tx-1', {
+        mpesaTransaction: {
+          create: expect.objectContaining({ mpesaType: 'B2C', merchantRequestId: 'b2c_1' }),
+        },
+      });
+    });
+
+    it('should fail and refund the transaction when the payout is rejected', async () => {
+      mpesaService.initiateB2C.mockRejectedValue(
+        new MpesaPaymentRejectedError('Invalid recipient phone number')
+      );
+
+      await expect(
+        orchestrator.processLightningPayment(paidTransaction.paymentHash)
+      ).rejects.toThrow('Failed to process Lightning payment');
+
+      expect(transactionService.updateTransactionStatus).toHaveBeenCalledWith(
+        paidTransaction.paymentHash,
+        TransactionStatus.FAILED,
+        { reason: 'M-Pesa initiation failed: Invalid recipient phone number' }
+      );
+      expect(refundService.openRefund).toHaveBeenCalledWith(
+        TransactionFlow.LIGHTNING,
+        'tx-1',
+        'M-Pesa initiation failed: Invalid recipient phone number'
+      );
+    });
+
+    it('should leave a payout with an unknown outcome pending for reconciliation', async () => {
+      mpesaService.initiateB2C.mockRejectedValue(new Error('timeout of 30000ms exceeded'));
+
+      await expect(
+        orchestrator.processLightningPayment(paidTransaction.paymentHash)
+      ).rejects.toThrow('Failed to process Lightning payment');
+
+      expect(transactionService.updateTransactionStatus).not.toHaveBeenCalledWith(
+        expect.anything(),
+        TransactionStatus.FAILED,
+        expect.anything()
+      );
+      expect(refundService.openRefund).not.toHaveBeenCalled();
+    });
+
+    it('should not roll back an accepted payout that could not be recorded', async () => {
+      transactionService.update.mockRejectedValue(new Error('Database unavailable'));
+
+      await orchestrator.processLightningPayment(paidTransaction.paymentHash);
+
+      expect(transactionService.updateTransactionStatus).toHaveBeenCalledTimes(1);
+      expect(refundService.openRefund).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleMpesaCallback', () => {
+    it('should refund a failed payout once when the callback is repeated', async () => {
+      transactionService.update
+        .mockResolvedValueOnce({ id: 'tx-1', status: TransactionStatus.FAILED })
+        .mockResolvedValueOnce(null);
+
+      await orchestrator.handleMpesaCallback('tx-1', 'FAILED', { errorMessage: 'Declined' });
+      await orchestrator.handleMpesaCallback('tx-1', 'FAILED', { errorMessage: 'Declined' });
+
+      expect(refundService.openRefund).toHaveBeenCalledTimes(1);
+      expect(refundService.openRefund).toHaveBeenCalledWith(
+        TransactionFlow.LIGHTNING,
+        'tx-1',
+        'M-Pesa failed: Declined'
+      );
+    });
+  });
+});
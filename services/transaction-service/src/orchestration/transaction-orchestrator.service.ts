@@ -1,10 +1,15 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { TransactionService } from '../transaction/transaction.service';
 import { LightningService } from '../external/lightning.service';
-import { MpesaService } from '../external/mpesa.service';
+import {
+  MpesaPaymentRejectedError,
+  MpesaService,
+  MpesaTransactionResult,
+} from '../external/mpesa.service';
 import { ConversionService } from '../conversion/conversion.service';
 import { CreateBtcToMpesaTransactionDto } from '../dto/create-btc-to-mpesa-transaction.dto';
-import { Transaction } from '@bitpesa/shared-types';
+import { RefundService } from '../refund/refund.service';
+import { Transaction, TransactionFlow, TransactionStatus } from '@bitpesa/shared-types';
 
 @Injectable()
 export class TransactionOrchestratorService {
@@ -15,6 +20,7 @@ export class TransactionOrchestratorService {
     private readonly lightningService: LightningService,
     private readonly mpesaService: MpesaService,
     private readonly conversionService: ConversionService,
+    private readonly refundService: RefundService,
   ) {}
 
   async createBtcToMpesaTransaction(
@@ -40,21 +46,24 @@ export class TransactionOrchestratorService {
 
       // Step 2: Get conversion rate and calculate Lightning amount
       const conversionRate = await this.conversionService.getCurrentRate('BTC', 'KES');
-      const lightningAmountSats = Math.round((dto.amountBtc * 100000000) / conversionRate.rate);
+      if (!conversionRate) {
+        throw new Error('Exchange rate not available for BTC to KES');
+      }
+      const lightningAmountSats = Math.round(
+        (dto.amountKes / conversionRate.finalRate) * 100000000
+      );
 
       // Step 3: Create Lightning invoice
-      const lightningInvoice = await this.lightningService.createInvoice({
-        transactionId: transaction.id,
-        amountSats: lightningAmountSats,
-        description: `BitPesa ${dto.transactionType} - ${transaction.id}`,
-        expiry: 3600, // 1 hour
-      });
+      const lightningInvoice = await this.lightningService.createInvoice(
+        lightningAmountSats,
+        `BitPesa ${dto.transactionType} - ${transaction.id}`,
+        3600 // 1 hour
+      );
 
       // Step 4: Update transaction with Lightning details
       await this.transactionService.update(transaction.id, {
-        lightningInvoiceId: lightningInvoice.id,
         paymentHash: lightningInvoice.paymentHash,
-        paymentRequest: lightningInvoice.paymentRequest,
+        paymentRequest: lightningInvoice.invoice,
         status: 'LIGHTNING_PENDING',
       });
 
@@ -66,29 +75,28 @@ export class TransactionOrchestratorService {
     }
   }
 
+  /**
+   * Run the M-Pesa leg for a transaction whose Lightning invoice has been settled
+   * Safe to call repeatedly: only the caller that moves the transaction out of
+   * LIGHTNING_PAID initiates the payout.
+   */
   async processLightningPayment(paymentHash: string): Promise<void> {
     try {
       this.logger.log(`Processing Lightning payment: ${paymentHash}`);
 
-      // Step 1: Get transaction by payment hash
-      const transaction = await this.transactionService.findByPaymentHash(paymentHash);
+      const transaction = await this.transactionService.updateTransactionStatus(
+        paymentHash,
+        TransactionStatus.MPESA_PENDING,
+        {
+          expectedStatus: TransactionStatus.LIGHTNING_PAID,
+          reason: 'Lightning payment settled, initiating M-Pesa leg',
+        }
+      );
       if (!transaction) {
-        throw new BadRequestException('Transaction not found');
+        this.logger.warn(`Transaction ${paymentHash} is not awaiting its M-Pesa leg, skipping`);
+        return;
       }
 
-      // Step 2: Verify Lightning payment
-      const lightningInvoice = await this.lightningService.getInvoice(paymentHash);
-      if (lightningInvoice.status !== 'PAID') {
-        throw new BadRequestException('Lightning payment not confirmed');
-      }
-
-      // Step 3: Update transaction status
-      await this.transactionService.update(transaction.id, {
-        status: 'LIGHTNING_CONFIRMED',
-        lightningSettledAt: new Date(),
-      });
-
-      // Step 4: Initiate M-Pesa transaction based on type
       await this.initiateMpesaTransaction(transaction);
 
       this.logger.log(`Lightning payment processed successfully: ${paymentHash}`);
@@ -98,74 +106,114 @@ export class TransactionOrchestratorService {
     }
   }
 
-  private async initiateMpesaTransaction(transaction: Transaction): Promise<void> {
+  /**
+   * Send the payout for a transaction already moved to MPESA_PENDING
+   * Only a payout that was definitely not sent fails the transaction and refunds the
+   * payer. When the outcome is unknown, or the payout was accepted but could not be
+   * recorded, the transaction stays MPESA_PENDING for M-Pesa reconciliation to settle.
+   */
+  private async initiateMpesaTransaction(transaction: any): Promise<void> {
+    this.logger.log(`Initiating M-Pesa transaction: ${transaction.id}`);
+
+    let mpesaType: 'B2C' | 'AIRTIME' | 'PAYBILL' | 'TILL';
+    let mpesaResponse: MpesaTransactionResult;
     try {
-      this.logger.log(`Initiating M-Pesa transaction: ${transaction.id}`);
-
-      let mpesaResponse;
-
-      switch (transaction.transactionType) {
-        case 'SEND_MONEY':
-          mpesaResponse = await this.mpesaService.sendB2C({
-            phoneNumber: transaction.phoneNumber!,
-            amount: transaction.amountKes,
-            description: transaction.description || `BitPesa Send Money - ${transaction.id}`,
-            transactionId: transaction.id,
-          });
-          break;
-
-        case 'BUY_AIRTIME':
-          mpesaResponse = await this.mpesaService.buyAirtime({
-            phoneNumber: transaction.phoneNumber!,
-            amount: transaction.amountKes,
-            description: transaction.description || `BitPesa Airtime - ${transaction.id}`,
-            transactionId: transaction.id,
-          });
-          break;
-
-        case 'PAYBILL':
-          mpesaResponse = await this.mpesaService.payBill({
-            phoneNumber: transaction.phoneNumber!,
-            amount: transaction.amountKes,
-            accountNumber: transaction.accountNumber!,
-            description: transaction.description || `BitPesa Paybill - ${transaction.id}`,
-            transactionId: transaction.id,
-          });
-          break;
-
-        case 'BUY_GOODS':
-          mpesaResponse = await this.mpesaService.buyGoods({
-            phoneNumber: transaction.phoneNumber!,
-            amount: transaction.amountKes,
-            tillNumber: transaction.tillNumber!,
-            description: transaction.description || `BitPesa Buy Goods - ${transaction.id}`,
-            transactionId: transaction.id,
-          });
-          break;
-
-        default:
-          throw new BadRequestException('Invalid transaction type');
+      ({ mpesaType, mpesaResponse } = await this.requestPayout(transaction));
+    } catch (error) {
+      if (!(error instanceof MpesaPaymentRejectedError)) {
+        this.logger.error(
+          `M-Pesa payout for transaction ${transaction.id} has an unknown outcome, leaving it for reconciliation:`,
+          error
+        );
+        throw error;
       }
 
-      // Update transaction with M-Pesa details
-      await this.transactionService.update(transaction.id, {
-        mpesaTransactionId: mpesaResponse.originatorConversationId || mpesaResponse.merchantRequestId,
-        status: 'MPESA_PENDING',
-        mpesaInitiatedAt: new Date(),
-      });
+      // Nothing was paid out, so fail the transaction and return the payer's BTC
+      const reason = `M-Pesa initiation failed: ${error.message}`;
+      this.logger.error(`Failed to initiate M-Pesa transaction ${transaction.id}: ${reason}`);
+      await this.transactionService.updateTransactionStatus(
+        transaction.paymentHash,
+        TransactionStatus.FAILED,
+        { reason }
+      );
+      await this.refundService.openRefund(TransactionFlow.LIGHTNING, transaction.id, reason);
+      throw error;
+    }
 
-      this.logger.log(`M-Pesa transaction initiated successfully: ${transaction.id}`);
-    } catch (error) {
-      this.logger.error(`Failed to initiate M-Pesa transaction ${transaction.id}:`, error);
-      
-      // Update transaction status to failed
+    // Record the M-Pesa leg against the transaction
+    try {
       await this.transactionService.update(transaction.id, {
-        status: 'MPESA_FAILED',
-        failureReason: (error as Error).message,
-        mpesaFailedAt: new Date(),
+        mpesaTransaction: {
+          create: {
+            mpesaType,
+            merchantRequestId: mpesaResponse.transactionId,
+            phoneNumber: transaction.recipientPhone,
+            amount: transaction.kesAmount,
+            businessShortCode: transaction.merchantCode,
+            accountReference: transaction.accountNumber,
+            status: 'PROCESSING',
+          },
+        },
       });
+    } catch (error) {
+      this.logger.error(
+        `M-Pesa payout ${mpesaResponse.transactionId} for transaction ${transaction.id} was accepted but could not be recorded:`,
+        error
+      );
+      return;
+    }
 
-      throw error;
+    this.logger.log(`M-Pesa transaction initiated successfully: ${transaction.id}`);
+  }
+
+  private async requestPayout(transaction: any): Promise<{
+    mpesaType: 'B2C' | 'AIRTIME' | 'PAYBILL' | 'TILL';
+    mpesaResponse: MpesaTransactionResult;
+  }> {
+    const amount = Number(transaction.kesAmount);
+    const reference = transaction.referenceNumber || transaction.id;
+
+    switch (transaction.transactionType) {
+      case 'SEND_MONEY':
+        return {
+          mpesaType: 'B2C',
+          mpesaResponse: await this.mpesaService.initiateB2C(
+            transaction.recipientPhone,
+            amount,
+            reference
+          ),
+        };
+
+      case 'BUY_AIRTIME':
+        return {
+          mpesaType: 'AIRTIME',
+          mpesaResponse: await this.mpesaService.initiateAirtime(
+            transaction.recipientPhone,
+            amount,
+            reference
+          ),
+        };
+
+      case 'PAYBILL':
+      case 'BUY_GOODS':
+      case 'SCAN_PAY': {
+        const isPaybill = transaction.transactionType === 'PAYBILL';
+        return {
+          mpesaType: isPaybill ? 'PAYBILL' : 'TILL',
+          mpesaResponse: await this.mpesaService.initiateB2B(
+            isPaybill ? 'BusinessPayBill' : 'BusinessBuyGoods',
+            transaction.merchantCode,
+            amount,
+            transaction.accountNumber,
+            reference
+          ),
+        };
+      }
+
+      default:
+        throw new MpesaPaymentRejectedError(
+          `Invalid transaction type: ${transaction.transactionType}`
+        );
     }
   }
 
@@ -183,18 +231,30 @@ export class TransactionOrchestratorService {
       }
 
       if (status === 'SUCCESS') {
-        await this.transactionService.update(transactionId, {
-          status: 'COMPLETED',
-          mpesaCompletedAt: new Date(),
-          mpesaResponse: details,
+        const completed = await this.transactionService.update(transactionId, {
+          status: TransactionStatus.COMPLETED,
+          completedAt: new Date(),
         });
+        if (!completed) {
+          this.logger.warn(`Transaction ${transactionId} is already completed, skipping callback`);
+          return;
+        }
       } else {
-        await this.transactionService.update(transactionId, {
-          status: 'MPESA_FAILED',
-          failureReason: details.errorMessage || 'M-Pesa transaction failed',
-          mpesaFailedAt: new Date(),
-          mpesaResponse: details,
+        this.logger.warn(
+          `M-Pesa transaction failed for ${transactionId}: ${details.errorMessage || 'unknown error'}`
+        );
+        const failed = await this.transactionService.update(transactionId, {
+          status: TransactionStatus.FAILED,
         });
+        if (!failed) {
+          this.logger.warn(`Transaction ${transactionId} has already failed, skipping callback`);
+          return;
+        }
+        await this.refundService.openRefund(
+          TransactionFlow.LIGHTNING,
+          transactionId,
+          `M-Pesa failed: ${details.errorMessage || 'unknown error'}`
+        );
       }
 
       this.logger.log(`M-Pesa callback processed successfully: ${transactionId}`);
@@ -0,0 +1,46 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { MinmoTransactionOrchestratorService } from '../orchestration/minmo-transaction-orchestrator.service';
+import { RespondToRepriceDto } from '../transaction/dto';
+import { PaymentVariance } from '@bitpesa/shared-types';
+
+@ApiTags('payment-variances')
+@Controller('payment-variances')
+@UseGuards(ThrottlerGuard)
+export class PaymentVarianceController {
+  constructor(private readonly orchestrator: MinmoTransactionOrchestratorService) {}
+
+  @Get(':transactionId')
+  @ApiOperation({ summary: 'Compare the BTC received for a MinMo swap with its quote' })
+  @ApiParam({ name: 'transactionId', description: 'Transaction ID' })
+  @ApiResponse({ status: 200, description: 'Payment variance retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Transaction has not received BTC' })
+  async getPaymentVariance(
+    @Param('transactionId') transactionId: string
+  ): Promise<PaymentVariance> {
+    return this.orchestrator.getPaymentVariance(transactionId);
+  }
+
+  @Post(':transactionId/response')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Accept or decline the smaller payout offered for a short deposit' })
+  @ApiParam({ name: 'transactionId', description: 'Transaction ID' })
+  @ApiResponse({ status: 200, description: 'Payout sent or refund opened' })
+  @ApiResponse({ status: 409, description: 'Transaction has no payout offer to answer' })
+  async respondToReprice(
+    @Param('transactionId') transactionId: string,
+    @Body() dto: RespondToRepriceDto
+  ): Promise<PaymentVariance> {
+    return this.orchestrator.respondToReprice(transactionId, dto.accept);
+  }
+}
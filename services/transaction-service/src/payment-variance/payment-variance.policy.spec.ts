@@ -0,0 +1,36 @@
+import { ConfigService } from '@nestjs/config';
+import { PaymentVarianceDecision } from '@bitpesa/shared-types';
+import { PaymentVariancePolicy } from './payment-variance.policy';
+
+describe('PaymentVariancePolicy', () => {
+  const policy = new PaymentVariancePolicy({
+    get: jest.fn((_key: string, defaultValue: unknown) => defaultValue),
+  } as unknown as ConfigService);
+
+  it('should accept deposits within the tolerance bands', () => {
+    expect(policy.assess(0.001, 0.001, 1000)).toEqual({
+      decision: PaymentVarianceDecision.ACCEPTED,
+      variance: 0,
+    });
+    expect(policy.assess(0.001, 0.00101, 1000).decision).toBe(PaymentVarianceDecision.ACCEPTED);
+    expect(policy.assess(0.001, 0.00099, 1000).decision).toBe(PaymentVarianceDecision.ACCEPTED);
+  });
+
+  it('should refund the excess of an overpaid deposit', () => {
+    expect(policy.assess(0.001, 0.0015, 1000)).toMatchObject({
+      decision: PaymentVarianceDecision.EXCESS_REFUNDED,
+      excessSats: 50000,
+    });
+  });
+
+  it('should offer the whole shillings a short deposit pays for', () => {
+    expect(policy.assess(0.001, 0.00085, 1001)).toMatchObject({
+      decision: PaymentVarianceDecision.REPRICE_OFFERED,
+      repricedKesAmount: 850,
+    });
+  });
+
+  it('should refund a deposit short by more than the re-price limit', () => {
+    expect(policy.assess(0.001, 0.00079, 1000).decision).toBe(PaymentVarianceDecision.REFUNDED);
+  });
+});
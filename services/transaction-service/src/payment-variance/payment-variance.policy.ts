@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentVarianceDecision } from '@bitpesa/shared-types';
+
+export interface PaymentAssessment {
+  decision: PaymentVarianceDecision;
+  /** Received minus expected, as a fraction of expected */
+  variance: number;
+  /** KES the BTC received pays for; set when a smaller payout is offered */
+  repricedKesAmount?: number;
+  /** BTC sent beyond the quote, in sats; set when the excess is refunded */
+  excessSats?: number;
+}
+
+/**
+ * Decides what to do with a Minmo swap whose BTC deposit differs from the quote
+ * Deposits within MINMO_UNDERPAYMENT_TOLERANCE short or MINMO_OVERPAYMENT_TOLERANCE over
+ * are paid out as quoted. A bigger excess is refunded after the quoted payout. A deposit
+ * short by up to MINMO_REPRICE_LIMIT is offered as a payout of the KES it covers, and
+ * anything shorter is refunded. Tolerances are fractions of the quoted BTC.
+ */
+@Injectable()
+export class PaymentVariancePolicy {
+  private readonly underpaymentTolerance: number;
+  private readonly overpaymentTolerance: number;
+  private readonly repriceLimit: number;
+
+  constructor(configService: ConfigService) {
+    this.underpaymentTolerance = Number(configService.get('MINMO_UNDERPAYMENT_TOLERANCE', 0.01));
+    this.overpaymentTolerance = Number(configService.get('MINMO_OVERPAYMENT_TOLERANCE', 0.01));
+    this.repriceLimit = Number(configService.get('MINMO_REPRICE_LIMIT', 0.2));
+  }
+
+  assess(expectedBtc: number, receivedBtc: number, quotedKesAmount: number): PaymentAssessment {
+    // Whole sats, so that decimal BTC amounts compare exactly against the bands
+    const expectedSats = Math.round(expectedBtc * 100_000_000);
+    const receivedSats = Math.round(receivedBtc * 100_000_000);
+    const variance = expectedSats > 0 ? (receivedSats - expectedSats) / expectedSats : 0;
+
+    if (variance > this.overpaymentTolerance) {
+      return {
+        decision: PaymentVarianceDecision.EXCESS_REFUNDED,
+        variance,
+        excessSats: receivedSats - expectedSats,
+      };
+    }
+    if (variance >= -this.underpaymentTolerance) {
+      return { decision: PaymentVarianceDecision.ACCEPTED, variance };
+    }
+    if (variance >= -this.repriceLimit) {
+      // M-Pesa pays whole shillings
+      return {
+        decision: PaymentVarianceDecision.REPRICE_OFFERED,
+        variance,
+        repricedKesAmount: Math.floor((quotedKesAmount * receivedSats) / expectedSats),
+      };
+    }
+    return { decision: PaymentVarianceDecision.REFUNDED, variance };
+  }
+}
@@ -0,0 +1,36 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { TransactionService } from '../transaction/transaction.service';
+import { CreateQuoteDto } from '../transaction/dto';
+import { ApiResponse, Quote } from '@bitpesa/shared-types';
+
+@Controller('quotes')
+@UseGuards(ThrottlerGuard) // Rate limiting
+export class QuoteController {
+  constructor(private readonly transactionService: TransactionService) {}
+
+  /**
+   * Lock a rate and fees; pass the returned id as `quoteId` when creating the transaction
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createQuote(@Body() dto: CreateQuoteDto): Promise<ApiResponse<Quote>> {
+    const quote = await this.transactionService.createQuote(dto);
+    return { success: true, data: quote, timestamp: new Date().toISOString() };
+  }
+
+  @Get(':id')
+  async getQuote(@Param('id') id: string): Promise<ApiResponse<Quote>> {
+    const quote = await this.transactionService.getQuote(id);
+    return { success: true, data: quote, timestamp: new Date().toISOString() };
+  }
+}
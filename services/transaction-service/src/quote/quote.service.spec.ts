@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { QuotePricing, QuoteService } from './quote.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('QuoteService', () => {
+  let service: QuoteService;
+  let quote: Record<string, any> | null;
+  let prisma: Record<string, any>;
+
+  const pricing: QuotePricing = {
+    kesAmount: 1000,
+    fees: { serviceFee: 12, mpesaFee: 13, total: 25, scheduleVersion: '2026-10' },
+    totalKesAmount: 1025,
+    btcAmount: 0.000205,
+    amountSats: 20500,
+    rate: 5000000,
+    finalRate: 5000000,
+  };
+
+  beforeEach(async () => {
+    quote = null;
+
+    // Single-row in-memory quotes table
+    prisma = {
+      quote: {
+        create: jest.fn(async ({ data }) => {
+          quote = { id: 'quote-1', consumedAt: null, createdAt: new Date(), ...data };
+          return quote;
+        }),
+        findUnique: jest.fn(async () => quote),
+        findUniqueOrThrow: jest.fn(async () => quote),
+        updateMany: jest.fn(async ({ where, data }) => {
+          if (
+            !quote ||
+            quote.consumedAt !== where.consumedAt ||
+            quote.expiresAt <= where.expiresAt.gt
+          ) {
+            return { count: 0 };
+          }
+          quote = { ...quote, ...data };
+          return { count: 1 };
+        }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [QuoteService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get<QuoteService>(QuoteService);
+  });
+
+  describe('create', () => {
+    it('should lock the rate and fee breakdown until the quote expires', async () => {
+      const created = await service.create(pricing, 'SEND_MONEY');
+
+      expect(created).toMatchObject({
+        id: 'quote-1',
+        fromCurrency: 'BTC',
+        toCurrency: 'KES',
+        fromAmount: 0.000205,
+        toAmount: 1000,
+        amountSats: 20500,
+        finalRate: 5000000,
+        fees: { serviceFee: 12, mpesaFee: 13, total: 25, scheduleVersion: '2026-10' },
+        totalKesAmount: 1025,
+        transactionType: 'SEND_MONEY',
+      });
+      expect(created.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  describe('getOpenQuote', () => {
+    beforeEach(async () => {
+      await service.create(pricing, 'SEND_MONEY');
+    });
+
+    it('should return a quote that matches the transaction', async () => {
+      await expect(
+        service.getOpenQuote('quote-1', { kesAmount: 1000, transactionType: 'SEND_MONEY' })
+      ).resolves.toMatchObject({ id: 'quote-1' });
+    });
+
+    it('should reject a quote for a different amount or transaction type', async () => {
+      await expect(
+        service.getOpenQuote('quote-1', { kesAmount: 2000, transactionType: 'SEND_MONEY' })
+      ).rejects.toThrow('is for 1000 KES, not 2000 KES');
+      await expect(
+        service.getOpenQuote('quote-1', { kesAmount: 1000, transactionType: 'PAYBILL' })
+      ).rejects.toThrow('was issued for SEND_MONEY');
+    });
+
+    it('should reject an expired quote', async () => {
+      quote!.expiresAt = new Date(Date.now() - 1000);
+
+      await expect(service.getOpenQuote('quote-1', { kesAmount: 1000 })).rejects.toThrow(
+        'Quote quote-1 expired'
+      );
+    });
+
+    it('should reject an unknown quote', async () => {
+      quote = null;
+
+      await expect(service.getOpenQuote('missing', { kesAmount: 1000 })).rejects.toThrow(
+        'Quote missing not found'
+      );
+    });
+  });
+
+  describe('consume', () => {
+    beforeEach(async () => {
+      await service.create(pricing);
+    });
+
+    it('should let only one transaction consume a quote', async () => {
+      await service.consume('quote-1', prisma as any);
+      expect(quote?.consumedAt).toBeInstanceOf(Date);
+
+      await expect(service.consume('quote-1', prisma as any)).rejects.toThrow(
+        'Quote quote-1 has already been used'
+      );
+      await expect(service.getOpenQuote('quote-1', { kesAmount: 1000 })).rejects.toThrow(
+        'has already been used'
+      );
+    });
+
+    it('should not consume a quote that expired after it was checked', async () => {
+      quote!.expiresAt = new Date(Date.now() - 1);
+
+      await expect(service.consume('quote-1', prisma as any)).rejects.toThrow('expired');
+      expect(quote?.consumedAt).toBeNull();
+    });
+  });
+});
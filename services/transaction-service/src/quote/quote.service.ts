@@ -0,0 +1,147 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { Currency, FeeBreakdown, Quote } from '@bitpesa/shared-types';
+
+/**
+ * How long a quote's rate stays locked
+ */
+const QUOTE_TTL_MS = 60 * 1000;
+
+export interface QuotePricing {
+  kesAmount: number;
+  fees: FeeBreakdown;
+  totalKesAmount: number;
+  btcAmount: number;
+  amountSats: number;
+  rate: number;
+  finalRate: number;
+}
+
+/**
+ * Stores firm quotes and hands each one out to at most one transaction
+ */
+@Injectable()
+export class QuoteService {
+  private readonly logger = new Logger(QuoteService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async create(
+    pricing: QuotePricing,
+    transactionType?: string,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<Quote> {
+    const quote = await client.quote.create({
+      data: {
+        transactionType,
+        kesAmount: pricing.kesAmount,
+        feeAmount: pricing.fees.total,
+        mpesaFee: pricing.fees.mpesaFee,
+        feeScheduleVersion: pricing.fees.scheduleVersion,
+        totalKesAmount: pricing.totalKesAmount,
+        btcAmount: pricing.btcAmount,
+        amountSats: BigInt(pricing.amountSats),
+        rate: pricing.rate,
+        finalRate: pricing.finalRate,
+        expiresAt: new Date(Date.now() + QUOTE_TTL_MS),
+      },
+    });
+
+    this.logger.log(
+      `Quote ${quote.id}: ${pricing.kesAmount} KES for ${pricing.amountSats} sats at ${pricing.finalRate}`
+    );
+    return this.mapToQuote(quote);
+  }
+
+  async findById(id: string): Promise<Quote> {
+    const quote = await this.prisma.quote.findUnique({ where: { id } });
+    if (!quote) {
+      throw new NotFoundException(`Quote ${id} not found`);
+    }
+
+    return this.mapToQuote(quote);
+  }
+
+  /**
+   * Fetch a quote a transaction is about to be created against
+   * Rejects quotes that have expired, were already used, or were issued for a different
+   * amount or transaction type.
+   */
+  async getOpenQuote(
+    id: string,
+    request: { kesAmount: number; transactionType?: string }
+  ): Promise<Quote> {
+    const quote = await this.findById(id);
+    this.assertOpen(quote);
+
+    if (quote.toAmount !== request.kesAmount) {
+      throw new BadRequestException(
+        `Quote ${id} is for ${quote.toAmount} KES, not ${request.kesAmount} KES`
+      );
+    }
+    if (quote.transactionType && quote.transactionType !== request.transactionType) {
+      throw new BadRequestException(`Quote ${id} was issued for ${quote.transactionType}`);
+    }
+
+    return quote;
+  }
+
+  /**
+   * Mark a quote used by a transaction about to be created against it
+   * Only one caller can consume a quote; everyone else is rejected. Pass an interactive
+   * transaction as `client` to consume it together with other writes.
+   */
+  async consume(id: string, client: Prisma.TransactionClient): Promise<void> {
+    const { count } = await client.quote.updateMany({
+      where: { id, consumedAt: null, expiresAt: { gt: new Date() } },
+      data: { consumedAt: new Date() },
+    });
+    if (count === 0) {
+      // Report why the quote could not be consumed
+      this.assertOpen(this.mapToQuote(await client.quote.findUniqueOrThrow({ where: { id } })));
+      throw new ConflictException(`Quote ${id} could not be consumed`);
+    }
+  }
+
+  private assertOpen(quote: Quote): void {
+    if (quote.consumedAt) {
+      throw new ConflictException(`Quote ${quote.id} has already been used`);
+    }
+    if (quote.expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException(
+        `Quote ${quote.id} expired at ${quote.expiresAt.toISOString()}`
+      );
+    }
+  }
+
+  private mapToQuote(quote: any): Quote {
+    return {
+      id: quote.id,
+      fromCurrency: Currency.BTC,
+      toCurrency: Currency.KES,
+      fromAmount: Number(quote.btcAmount),
+      toAmount: Number(quote.kesAmount),
+      amountSats: Number(quote.amountSats),
+      rate: Number(quote.rate),
+      finalRate: Number(quote.finalRate),
+      fees: {
+        serviceFee: Math.round((Number(quote.feeAmount) - Number(quote.mpesaFee)) * 100) / 100,
+        mpesaFee: Number(quote.mpesaFee),
+        total: Number(quote.feeAmount),
+        scheduleVersion: quote.feeScheduleVersion,
+      },
+      totalKesAmount: Number(quote.totalKesAmount),
+      transactionType: quote.transactionType ?? undefined,
+      expiresAt: quote.expiresAt,
+      consumedAt: quote.consumedAt ?? undefined,
+      createdAt: quote.createdAt,
+    };
+  }
+}
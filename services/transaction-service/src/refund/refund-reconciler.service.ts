@@ -0,0 +1,52 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RefundService } from './refund.service';
+
+/**
+ * Runs RefundService.reconcileInFlightRefunds every REFUND_RECONCILE_INTERVAL_MS so
+ * refunds whose payment outcome was unknown do not stay IN_FLIGHT forever
+ */
+@Injectable()
+export class RefundReconcilerService implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(RefundReconcilerService.name);
+  private readonly intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly refundService: RefundService,
+    configService: ConfigService
+  ) {
+    this.intervalMs = Number(configService.get('REFUND_RECONCILE_INTERVAL_MS', 60000));
+  }
+
+  onApplicationBootstrap(): void {
+    this.schedule();
+  }
+
+  onApplicationShutdown(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  private schedule(): void {
+    if (this.stopped) {
+      return;
+    }
+
+    this.timer = setTimeout(async () => {
+      try {
+        const settled = await this.refundService.reconcileInFlightRefunds();
+        if (settled > 0) {
+          this.logger.log(`Settled ${settled} in-flight refunds`);
+        }
+      } catch (error) {
+        this.logger.error('Refund reconciliation failed', error);
+      }
+      this.schedule();
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ThrottlerGuard } from '@nestjs/throttler';
+import { LnurlResponse, LnurlWithdrawRequest, RefundService } from './refund.service';
+import { SubmitRefundDestinationDto } from '../transaction/dto';
+import { Refund } from '@bitpesa/shared-types';
+
+@ApiTags('refunds')
+@Controller('refunds')
+@UseGuards(ThrottlerGuard)
+export class RefundController {
+  constructor(private readonly refundService: RefundService) {}
+
+  @Get(':transactionId')
+  @ApiOperation({ summary: 'Get the refund of a failed transaction, with its receipt once paid' })
+  @ApiParam({ name: 'transactionId', description: 'Transaction ID' })
+  @ApiResponse({ status: 200, description: 'Refund retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Transaction has no refund' })
+  async getRefund(@Param('transactionId') transactionId: string): Promise<Refund> {
+    return this.refundService.getRefund(transactionId);
+  }
+
+  @Post(':transactionId/destination')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Submit a Lightning invoice or Bitcoin address to receive the refund' })
+  @ApiParam({ name: 'transactionId', description: 'Transaction ID' })
+  @ApiResponse({ status: 200, description: 'Refund sent or in flight' })
+  @ApiResponse({ status: 400, description: 'Destination does not match the refund' })
+  @ApiResponse({ status: 409, description: 'Refund is not waiting for a destination' })
+  async submitDestination(
+    @Param('transactionId') transactionId: string,
+    @Body() dto: SubmitRefundDestinationDto
+  ): Promise<Refund> {
+    return this.refundService.submitDestination(transactionId, dto);
+  }
+
+  @Get('lnurl/:k1')
+  @ApiOperation({ summary: 'LNURL-withdraw request for a Lightning refund' })
+  async getLnurlWithdrawRequest(
+    @Param('k1') k1: string
+  ): Promise<LnurlWithdrawRequest | LnurlResponse> {
+    try {
+      return await this.refundService.getLnurlWithdrawRequest(k1);
+    } catch (error) {
+      // LNURL wallets expect errors in the body rather than as HTTP status codes
+      return { status: 'ERROR', reason: (error as Error).message };
+    }
+  }
+
+  @Get('lnurl/:k1/callback')
+  @ApiOperation({ summary: 'LNURL-withdraw callback with the invoice to pay the refund to' })
+  async handleLnurlWithdrawCallback(
+    @Param('k1') k1: string,
+    @Query('k1') queryK1: string,
+    @Query('pr') paymentRequest: string
+  ): Promise<LnurlResponse> {
+    if (queryK1 !== k1 || !paymentRequest) {
+      return { status: 'ERROR', reason: 'Invalid LNURL-withdraw callback' };
+    }
+
+    return this.refundService.handleLnurlWithdrawCallback(k1, paymentRequest);
+  }
+}
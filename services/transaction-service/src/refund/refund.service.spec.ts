@@ -0,0 +1,412 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  RefundMethod,
+  RefundStatus,
+  TransactionFlow,
+  TransactionStatus,
+} from '@bitpesa/shared-types';
+import { RefundService } from './refund.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TransactionStateService } from '../transaction/transaction-state.service';
+import { LightningService } from '../external/lightning.service';
+import { SWAP_PROVIDERS } from '../swap-providers/swap-provider';
+import { FakeLightningNodeAdapter } from '../external/lightning/fake-node.adapter';
+import { decodeBolt11 } from '../external/lightning/bolt11';
+
+describe('RefundService', () => {
+  let service: RefundService;
+  let payerNode: FakeLightningNodeAdapter;
+  let transactionState: { transition: jest.Mock };
+  let minmoProvider: { name: string; refund: jest.Mock };
+  let refund: Record<string, any> | null;
+  let prisma: Record<string, any>;
+
+  const givenTransaction = (fields: Record<string, unknown>) => {
+    prisma.transaction.findUnique.mockResolvedValue({
+      id: 'tx-1',
+      paymentHash: 'hash-1',
+      ...fields,
+    });
+  };
+
+  beforeEach(async () => {
+    payerNode = new FakeLightningNodeAdapter({ paymentFeeSats: 3 });
+    transactionState = { transition: jest.fn().mockResolvedValue({ id: 'tx-1' }) };
+    minmoProvider = { name: 'minmo', refund: jest.fn() };
+    refund = null;
+
+    // Single-row in-memory refunds table
+    prisma = {
+      transaction: { findUnique: jest.fn() },
+      lightningInvoice: {
+        findUnique: jest.fn().mockResolvedValue({ status: 'PAID', amountSats: BigInt(50000) }),
+      },
+      refund: {
+        findUnique: jest.fn(async ({ where }) =>
+          where.lnurlK1 && where.lnurlK1 !== refund?.lnurlK1 ? null : refund
+        ),
+        findUniqueOrThrow: jest.fn(async () => refund),
+        findMany: jest.fn(async ({ where }) =>
+          refund?.status === where.status && refund?.flow === where.flow ? [refund] : []
+        ),
+        create: jest.fn(async ({ data }) => {
+          refund = { id: 'refund-1', status: RefundStatus.AWAITING_DESTINATION, ...data };
+          delete refund.statusHistory;
+          return refund;
+        }),
+        updateMany: jest.fn(async ({ where, data }) => {
+          if (!refund || refund.status !== where.status) {
+            return { count: 0 };
+          }
+          refund = { ...refund, ...data };
+          return { count: 1 };
+        }),
+      },
+      refundStatusHistory: { create: jest.fn() },
+      $transaction: jest.fn(callback => callback(prisma)),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: TransactionStateService, useValue: transactionState },
+        { provide: LightningService, useValue: new LightningService(payerNode) },
+        { provide: SWAP_PROVIDERS, useValue: [minmoProvider] },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key === 'REFUND_LNURL_BASE_URL' ? 'https://bitpesa.test/api/v1/' : defaultValue
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RefundService>(RefundService);
+  });
+
+  describe('openRefund', () => {
+    it('should move a paid Lightning transaction to REFUNDING and open a refund', async () => {
+      givenTransaction({ status: TransactionStatus.FAILED });
+
+      const opened = await service.openRefund(
+        TransactionFlow.LIGHTNING,
+        'tx-1',
+        'M-Pesa failed: Invalid account'
+      );
+
+      expect(opened).toMatchObject({
+        status: RefundStatus.AWAITING_DESTINATION,
+        amountSats: 50000,
+        maxFeeSats: 500,
+        maxRefundableSats: 49500,
+      });
+      expect(opened?.lnurl).toMatch(/^LNURL1/);
+      expect(transactionState.transition).toHaveBeenCalledWith(
+        TransactionFlow.LIGHTNING,
+        { id: 'tx-1' },
+        TransactionStatus.REFUNDING,
+        { reason: 'M-Pesa failed: Invalid account', metadata: { amountSats: 50000 } },
+        prisma
+      );
+    });
+
+    it('should not open a refund when the payer never paid', async () => {
+      givenTransaction({ status: TransactionStatus.FAILED });
+      prisma.lightningInvoice.findUnique.mockResolvedValue({
+        status: 'PENDING',
+        amountSats: BigInt(50000),
+      });
+
+      await expect(
+        service.openRefund(TransactionFlow.LIGHTNING, 'tx-1', 'M-Pesa failed')
+      ).resolves.toBeNull();
+      expect(transactionState.transition).not.toHaveBeenCalled();
+      expect(prisma.refund.create).not.toHaveBeenCalled();
+    });
+
+    it('should return the open refund instead of opening a second one', async () => {
+      givenTransaction({ status: TransactionStatus.FAILED });
+      await service.openRefund(TransactionFlow.LIGHTNING, 'tx-1', 'M-Pesa failed');
+
+      await service.openRefund(TransactionFlow.LIGHTNING, 'tx-1', 'M-Pesa failed');
+
+      expect(prisma.refund.create).toHaveBeenCalledTimes(1);
+      expect(transactionState.transition).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('submitDestination', () => {
+    beforeEach(async () => {
+      givenTransaction({ status: TransactionStatus.FAILED });
+      await service.openRefund(TransactionFlow.LIGHTNING, 'tx-1', 'M-Pesa failed');
+      transactionState.transition.mockClear();
+    });
+
+    it('should pay the refund invoice and record the receipt', async () => {
+      const invoice = await payerNode.createInvoice({ amountSats: 49500, expirySeconds: 600 });
+
+      const paid = await service.submitDestination('tx-1', {
+        lightningInvoice: invoice.paymentRequest,
+      });
+
+      expect(paid.status).toBe(RefundStatus.SUCCEEDED);
+      expect(paid.method).toBe(RefundMethod.LIGHTNING_INVOICE);
+      expect(paid.receipt).toMatchObject({
+        refundedSats: 49500,
+        feeSats: 3,
+        paymentHash: invoice.paymentHash,
+      });
+      expect(paid.receipt?.preimage).toMatch(/^[0-9a-f]{64}$/);
+      expect((await payerNode.lookupInvoice(invoice.paymentHash))?.settled).toBe(true);
+      expect(transactionState.transition).toHaveBeenCalledWith(
+        TransactionFlow.LIGHTNING,
+        { id: 'tx-1' },
+        TransactionStatus.REFUNDED,
+        expect.objectContaining({ expectedStatus: TransactionStatus.REFUNDING }),
+        prisma
+      );
+      expect(
+        prisma.refundStatusHistory.create.mock.calls.map(([{ data }]) => data.toStatus)
+      ).toEqual([RefundStatus.PENDING, RefundStatus.IN_FLIGHT, RefundStatus.SUCCEEDED]);
+    });
+
+    it('should pay the full refundable amount to an invoice without an amount', async () => {
+      const invoice = await payerNode.createInvoice({ amountSats: 0, expirySeconds: 600 });
+      expect(decodeBolt11(invoice.paymentRequest).amountSats).toBeUndefined();
+
+      const paid = await service.submitDestination('tx-1', {
+        lightningInvoice: invoice.paymentRequest,
+      });
+
+      expect(paid.receipt?.refundedSats).toBe(49500);
+    });
+
+    it('should reject an invoice for more than the refundable amount', async () => {
+      const invoice = await payerNode.createInvoice({ amountSats: 50000, expirySeconds: 600 });
+
+      await expect(
+        service.submitDestination('tx-1', { lightningInvoice: invoice.paymentRequest })
+      ).rejects.toThrow('at most 49500 sats can be refunded');
+      expect(refund?.status).toBe(RefundStatus.AWAITING_DESTINATION);
+    });
+
+    it('should fail the refund when the payment fails so another destination can be given', async () => {
+      const unroutable = await new FakeLightningNodeAdapter().createInvoice({
+        amountSats: 1000,
+        expirySeconds: 600,
+      });
+
+      const failed = await service.submitDestination('tx-1', {
+        lightningInvoice: unroutable.paymentRequest,
+      });
+
+      expect(failed.status).toBe(RefundStatus.FAILED);
+      expect(failed.failureReason).toContain('No route');
+      expect(transactionState.transition).not.toHaveBeenCalled();
+
+      const invoice = await payerNode.createInvoice({ amountSats: 1000, expirySeconds: 600 });
+      await expect(
+        service.submitDestination('tx-1', { lightningInvoice: invoice.paymentRequest })
+      ).resolves.toMatchObject({ status: RefundStatus.SUCCEEDED });
+    });
+
+    it('should not accept a destination once the refund has been paid', async () => {
+      const invoice = await payerNode.createInvoice({ amountSats: 1000, expirySeconds: 600 });
+      await service.submitDestination('tx-1', { lightningInvoice: invoice.paymentRequest });
+
+      const another = await payerNode.createInvoice({ amountSats: 1000, expirySeconds: 600 });
+      await expect(
+        service.submitDestination('tx-1', { lightningInvoice: another.paymentRequest })
+      ).rejects.toThrow('not waiting for a destination');
+    });
+  });
+
+  describe('reconcileInFlightRefunds', () => {
+    let invoice: Awaited<ReturnType<FakeLightningNodeAdapter['createInvoice']>>;
+
+    // Leaves the refund IN_FLIGHT as if the node stopped answering mid-payment
+    const submitWithUnknownOutcome = async (paymentMadeFirst: boolean) => {
+      jest.spyOn(payerNode, 'payInvoice').mockImplementationOnce(async params => {
+        if (paymentMadeFirst) {
+          await FakeLightningNodeAdapter.prototype.payInvoice.call(payerNode, params);
+        }
+        throw new Error('socket hang up');
+      });
+
+      const submitted = await service.submitDestination('tx-1', {
+        lightningInvoice: invoice.paymentRequest,
+      });
+      expect(submitted.status).toBe(RefundStatus.IN_FLIGHT);
+    };
+
+    beforeEach(async () => {
+      givenTransaction({ status: TransactionStatus.FAILED });
+      await service.openRefund(TransactionFlow.LIGHTNING, 'tx-1', 'M-Pesa failed');
+      transactionState.transition.mockClear();
+      invoice = await payerNode.createInvoice({ amountSats: 49500, expirySeconds: 600 });
+    });
+
+    it('should complete a refund the node did pay', async () => {
+      await submitWithUnknownOutcome(true);
+
+      await expect(service.reconcileInFlightRefunds()).resolves.toBe(1);
+
+      expect(refund).toMatchObject({
+        status: RefundStatus.SUCCEEDED,
+        refundedSats: BigInt(49500),
+        feeSats: BigInt(3),
+        paymentHash: invoice.paymentHash,
+      });
+      expect(transactionState.transition).toHaveBeenCalledWith(
+        TransactionFlow.LIGHTNING,
+        { id: 'tx-1' },
+        TransactionStatus.REFUNDED,
+        expect.objectContaining({ expectedStatus: TransactionStatus.REFUNDING }),
+        prisma
+      );
+    });
+
+    it('should fail a refund the node never sent so another destination can be given', async () => {
+      await submitWithUnknownOutcome(false);
+
+      await expect(service.reconcileInFlightRefunds()).resolves.toBe(1);
+
+      expect(refund).toMatchObject({
+        status: RefundStatus.FAILED,
+        failureReason: 'The Lightning node never sent the refund payment',
+      });
+      expect(transactionState.transition).not.toHaveBeenCalled();
+    });
+
+    it('should leave a payment still in flight for the next pass', async () => {
+      await submitWithUnknownOutcome(false);
+      jest.spyOn(payerNode, 'lookupPayment').mockResolvedValue({ status: 'IN_FLIGHT' });
+
+      await expect(service.reconcileInFlightRefunds()).resolves.toBe(0);
+
+      expect(refund?.status).toBe(RefundStatus.IN_FLIGHT);
+    });
+
+    it('should only check refunds in flight for longer than the grace period', async () => {
+      await submitWithUnknownOutcome(true);
+
+      await service.reconcileInFlightRefunds();
+
+      const { updatedAt } = prisma.refund.findMany.mock.calls[0][0].where;
+      expect(Date.now() - updatedAt.lte.getTime()).toBeGreaterThanOrEqual(10 * 60 * 1000);
+    });
+  });
+
+  describe('LNURL-withdraw', () => {
+    beforeEach(async () => {
+      givenTransaction({ status: TransactionStatus.FAILED });
+      await service.openRefund(TransactionFlow.LIGHTNING, 'tx-1', 'M-Pesa failed');
+    });
+
+    it('should offer the refundable amount and pay the invoice sent to the callback', async () => {
+      const k1 = refund?.lnurlK1;
+
+      const request = await service.getLnurlWithdrawRequest(k1);
+      expect(request).toMatchObject({
+        tag: 'withdrawRequest',
+        callback: `https://bitpesa.test/api/v1/refunds/lnurl/${k1}/callback`,
+        maxWithdrawable: 49500000,
+      });
+
+      const invoice = await payerNode.createInvoice({ amountSats: 49500, expirySeconds: 600 });
+      await expect(
+        service.handleLnurlWithdrawCallback(k1, invoice.paymentRequest)
+      ).resolves.toEqual({ status: 'OK' });
+
+      await new Promise(resolve => setImmediate(resolve));
+      expect(refund).toMatchObject({
+        status: RefundStatus.SUCCEEDED,
+        method: RefundMethod.LNURL_WITHDRAW,
+      });
+    });
+
+    it('should answer unknown secrets with an LNURL error', async () => {
+      const invoice = await payerNode.createInvoice({ amountSats: 1000, expirySeconds: 600 });
+
+      await expect(
+        service.handleLnurlWithdrawCallback('unknown', invoice.paymentRequest)
+      ).resolves.toEqual({ status: 'ERROR', reason: 'Unknown LNURL-withdraw request' });
+    });
+  });
+
+  describe('MinMo refunds', () => {
+    beforeEach(async () => {
+      givenTransaction({
+        status: TransactionStatus.FAILED,
+        btcReceived: true,
+        btcAmount: '0.002',
+        minmoSwapId: 'swap-1',
+      });
+      await service.openRefund(TransactionFlow.MINMO, 'tx-1', 'M-Pesa failed');
+    });
+
+    it('should require an on-chain address', async () => {
+      await expect(
+        service.submitDestination('tx-1', { lightningInvoice: 'lnbcrt1' })
+      ).rejects.toThrow('Bitcoin address is required');
+    });
+
+    it('should refund the swap on-chain net of the network fee', async () => {
+      minmoProvider.refund.mockResolvedValue({
+        success: true,
+        refundTxId: 'txid-1',
+        networkFeeSats: 700,
+      });
+
+      const paid = await service.submitDestination('tx-1', {
+        bitcoinAddress: 'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080',
+      });
+
+      expect(minmoProvider.refund).toHaveBeenCalledWith(
+        'swap-1',
+        'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080',
+        200000
+      );
+      expect(paid.method).toBe(RefundMethod.ONCHAIN_ADDRESS);
+      expect(paid.receipt).toMatchObject({ refundedSats: 199300, feeSats: 700, txId: 'txid-1' });
+    });
+  });
+
+  describe('MinMo excess refunds', () => {
+    it('should ask the provider to refund only the excess', async () => {
+      givenTransaction({
+        status: TransactionStatus.COMPLETED,
+        btcReceived: true,
+        btcAmount: '0.002',
+        btcReceivedAmount: '0.0025',
+        minmoSwapId: 'swap-1',
+        swapProvider: 'minmo',
+      });
+      await service.openExcessRefund(
+        'tx-1',
+        50000,
+        'Refunding the 50000 sats sent beyond the quote'
+      );
+      minmoProvider.refund.mockResolvedValue({
+        success: true,
+        refundTxId: 'txid-2',
+        networkFeeSats: 700,
+      });
+
+      const paid = await service.submitDestination('tx-1', {
+        bitcoinAddress: 'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080',
+      });
+
+      expect(minmoProvider.refund).toHaveBeenCalledWith(
+        'swap-1',
+        'bcrt1qw508d6qejxtdg4y5r3zarvary0c5xw7kygt080',
+        50000
+      );
+      expect(paid.receipt).toMatchObject({ refundedSats: 49300, feeSats: 700, txId: 'txid-2' });
+    });
+  });
+});
@@ -0,0 +1,602 @@
+import * as crypto from 'crypto';
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, Refund as RefundRecord, Transaction as TransactionRecord } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { TransactionStateService } from '../transaction/transaction-state.service';
+import { LightningPaymentResult, LightningService } from '../external/lightning.service';
+import { LightningPaymentError } from '../external/lightning/lightning-node.adapter';
+import { encodeLnurl } from '../external/lightning/lnurl';
+import { SWAP_PROVIDERS, SwapProvider, findSwapProvider } from '../swap-providers/swap-provider';
+import { SubmitRefundDestinationDto } from '../transaction/dto';
+import {
+  Refund,
+  RefundMethod,
+  RefundStatus,
+  TransactionFlow,
+  TransactionStatus,
+  assertRefundTransition,
+} from '@bitpesa/shared-types';
+
+interface RefundTransitionOptions {
+  /** Only move the refund if it is currently in one of these statuses; otherwise return null */
+  expectedStatuses?: RefundStatus[];
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  /** Extra columns written together with the status change */
+  data?: Record<string, unknown>;
+}
+
+export interface LnurlWithdrawRequest {
+  tag: 'withdrawRequest';
+  callback: string;
+  k1: string;
+  minWithdrawable: number;
+  maxWithdrawable: number;
+  defaultDescription: string;
+}
+
+/**
+ * Network fee budgets deducted from refunds: 1% (at least 10 sats) for Lightning routing,
+ * a flat allowance for MinMo's on-chain refund transaction
+ */
+const LIGHTNING_MAX_FEE_PERCENTAGE = 0.01;
+const LIGHTNING_MIN_FEE_SATS = 10;
+const ONCHAIN_MAX_FEE_SATS = 5000;
+
+const RECONCILE_BATCH_SIZE = 50;
+
+export type LnurlResponse = { status: 'OK' } | { status: 'ERROR'; reason: string };
+
+/**
+ * Refunds the BTC of transactions whose M-Pesa leg failed after the payer had paid
+ * Lightning transactions are refunded to a BOLT11 invoice or through LNURL-withdraw,
+ * MinMo swaps to an on-chain address. The network fee comes out of the refund, capped
+ * at the refund's fee budget, and every refund status change is recorded as a
+ * RefundStatusHistory row.
+ */
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+  private readonly lnurlBaseUrl?: string;
+  private readonly reconcileGraceMs: number;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly transactionState: TransactionStateService,
+    private readonly lightningService: LightningService,
+    @Inject(SWAP_PROVIDERS) private readonly swapProviders: SwapProvider[],
+    configService: ConfigService
+  ) {
+    this.lnurlBaseUrl = configService.get<string>('REFUND_LNURL_BASE_URL')?.replace(/\/+$/, '');
+    this.reconcileGraceMs = Number(configService.get('REFUND_RECONCILE_GRACE_MS', 10 * 60 * 1000));
+  }
+
+  /**
+   * Move a failed transaction to REFUNDING and open a refund awaiting its destination
+   * Returns the existing refund when one is already open, and null when the payer's
+   * BTC never arrived so there is nothing to refund.
+   */
+  async openRefund(
+    flow: TransactionFlow,
+    transactionId: string,
+    reason: string
+  ): Promise<Refund | null> {
+    const refund = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const existing = await tx.refund.findUnique({ where: { transactionId } });
+      if (existing) {
+        return existing;
+      }
+
+      const transaction = await tx.transaction.findUnique({ where: { id: transactionId } });
+      if (!transaction) {
+        throw new NotFoundException(`Transaction ${transactionId} not found`);
+      }
+
+      const amountSats = await this.getReceivedSats(flow, transaction, tx);
+      if (!amountSats) {
+        return null;
+      }
+
+      await this.transactionState.transition(
+        flow,
+        { id: transactionId },
+        TransactionStatus.REFUNDING,
+        { reason, metadata: { amountSats } },
+        tx
+      );
+
+      return tx.refund.create({
+        data: {
+          transactionId,
+          flow,
+          reason,
+          amountSats: BigInt(amountSats),
+          maxFeeSats: BigInt(this.getMaxFeeSats(flow, amountSats)),
+          lnurlK1:
+            flow === TransactionFlow.LIGHTNING ? crypto.randomBytes(32).toString('hex') : null,
+          minmoSwapId: flow === TransactionFlow.MINMO ? transaction.minmoSwapId : null,
+          swapProvider: flow === TransactionFlow.MINMO ? transaction.swapProvider : null,
+          statusHistory: {
+            create: { toStatus: RefundStatus.AWAITING_DESTINATION, reason },
+          },
+        },
+      });
+    });
+
+    if (!refund) {
+      this.logger.warn(
+        `Transaction ${transactionId} failed before any BTC was received, no refund`
+      );
+      return null;
+    }
+
+    this.logger.log(`Refund ${refund.id} open for transaction ${transactionId}: ${reason}`);
+    return this.mapToRefund(refund);
+  }
+
+  /**
+   * Open a refund of the BTC a MinMo payer sent beyond their quote
+   * The transaction keeps its status since its payout went ahead; returns the existing
+   * refund when one is already open.
+   */
+  async openExcessRefund(
+    transactionId: string,
+    excessSats: number,
+    reason: string
+  ): Promise<Refund> {
+    const refund = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const existing = await tx.refund.findUnique({ where: { transactionId } });
+      if (existing) {
+        return existing;
+      }
+
+      const transaction = await tx.transaction.findUnique({ where: { id: transactionId } });
+      if (!transaction) {
+        throw new NotFoundException(`Transaction ${transactionId} not found`);
+      }
+
+      return tx.refund.create({
+        data: {
+          transactionId,
+          flow: TransactionFlow.MINMO,
+          reason,
+          amountSats: BigInt(excessSats),
+          maxFeeSats: BigInt(this.getMaxFeeSats(TransactionFlow.MINMO, excessSats)),
+          minmoSwapId: transaction.minmoSwapId,
+          swapProvider: transaction.swapProvider,
+          statusHistory: {
+            create: { toStatus: RefundStatus.AWAITING_DESTINATION, reason },
+          },
+        },
+      });
+    });
+
+    this.logger.log(`Refund ${refund.id} open for transaction ${transactionId}: ${reason}`);
+    return this.mapToRefund(refund);
+  }
+
+  async getRefund(transactionId: string): Promise<Refund> {
+    const refund = await this.prisma.refund.findUnique({ where: { transactionId } });
+    if (!refund) {
+      throw new NotFoundException(`No refund for transaction ${transactionId}`);
+    }
+
+    return this.mapToRefund(refund);
+  }
+
+  /**
+   * Record where the payer wants their refund sent and pay it
+   */
+  async submitDestination(transactionId: string, dto: SubmitRefundDestinationDto): Promise<Refund> {
+    const refund = await this.prisma.refund.findUnique({ where: { transactionId } });
+    if (!refund) {
+      throw new NotFoundException(`No refund for transaction ${transactionId}`);
+    }
+
+    let method: RefundMethod;
+    let destination: string;
+    if (refund.flow === TransactionFlow.LIGHTNING) {
+      if (!dto.lightningInvoice) {
+        throw new BadRequestException('A Lightning invoice is required to refund this transaction');
+      }
+      method = RefundMethod.LIGHTNING_INVOICE;
+      destination = dto.lightningInvoice;
+      await this.validateInvoice(refund, destination);
+    } else {
+      if (!dto.bitcoinAddress) {
+        throw new BadRequestException('A Bitcoin address is required to refund this transaction');
+      }
+      method = RefundMethod.ONCHAIN_ADDRESS;
+      destination = dto.bitcoinAddress;
+    }
+
+    await this.setDestination(refund.id, method, destination);
+    return this.executeRefund(refund.id);
+  }
+
+  /**
+   * First LNURL-withdraw (LUD-03) request from the payer's wallet
+   */
+  async getLnurlWithdrawRequest(k1: string): Promise<LnurlWithdrawRequest> {
+    const refund = await this.findAwaitingLnurlRefund(k1);
+
+    return {
+      tag: 'withdrawRequest',
+      callback: `${this.lnurlBaseUrl}/refunds/lnurl/${k1}/callback`,
+      k1,
+      minWithdrawable: 1000,
+      maxWithdrawable: this.getMaxRefundableSats(refund) * 1000,
+      defaultDescription: `BitPesa refund for transaction ${refund.transactionId}`,
+    };
+  }
+
+  /**
+   * LNURL-withdraw callback carrying the wallet's invoice
+   * Answers as soon as the invoice is accepted; the payment runs in the background.
+   */
+  async handleLnurlWithdrawCallback(k1: string, paymentRequest: string): Promise<LnurlResponse> {
+    try {
+      const refund = await this.findAwaitingLnurlRefund(k1);
+      await this.validateInvoice(refund, paymentRequest);
+      await this.setDestination(refund.id, RefundMethod.LNURL_WITHDRAW, paymentRequest);
+
+      this.executeRefund(refund.id).catch(error =>
+        this.logger.error(`LNURL-withdraw refund ${refund.id} failed:`, error)
+      );
+      return { status: 'OK' };
+    } catch (error) {
+      return { status: 'ERROR', reason: (error as Error).message };
+    }
+  }
+
+  /**
+   * Settle Lightning refunds left IN_FLIGHT by a payment with an unknown outcome
+   * Each refund's payment is looked up on the node by the payment hash of its invoice:
+   * a payment that succeeded completes the refund, one that failed or was never sent
+   * fails it so the payer can give another destination, and one still in flight is
+   * left for the next pass. Refunds are only checked once they have been in flight for
+   * REFUND_RECONCILE_GRACE_MS, so a payment still being sent is not taken for one the
+   * node never made. Returns how many refunds were settled.
+   */
+  async reconcileInFlightRefunds(): Promise<number> {
+    const inFlight = await this.prisma.refund.findMany({
+      where: {
+        flow: TransactionFlow.LIGHTNING,
+        status: RefundStatus.IN_FLIGHT,
+        updatedAt: { lte: new Date(Date.now() - this.reconcileGraceMs) },
+      },
+      orderBy: { updatedAt: 'asc' },
+      take: RECONCILE_BATCH_SIZE,
+    });
+
+    let settled = 0;
+    for (const refund of inFlight) {
+      try {
+        if (await this.reconcileRefund(refund)) {
+          settled++;
+        }
+      } catch (error) {
+        this.logger.error(`Could not reconcile refund ${refund.id}:`, error);
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * Pay a refund that has a destination
+   * A Lightning payment whose outcome is unknown leaves the refund IN_FLIGHT rather
+   * than risking a second payment, until reconcileInFlightRefunds settles it.
+   */
+  private async executeRefund(refundId: string): Promise<Refund> {
+    const refund = await this.transition(refundId, RefundStatus.IN_FLIGHT, {
+      expectedStatuses: [RefundStatus.PENDING],
+      reason: 'Sending refund',
+    });
+    if (!refund) {
+      return this.mapToRefund(
+        await this.prisma.refund.findUniqueOrThrow({ where: { id: refundId } })
+      );
+    }
+
+    const amountSats = Number(refund.amountSats);
+    const maxFeeSats = Number(refund.maxFeeSats);
+
+    if (refund.flow === TransactionFlow.LIGHTNING) {
+      try {
+        const payment = await this.lightningService.payInvoice(
+          refund.destination as string,
+          maxFeeSats,
+          amountSats - maxFeeSats
+        );
+        return this.completeRefund(refund, {
+          refundedSats: payment.amount,
+          feeSats: payment.fee,
+          paymentHash: payment.paymentHash,
+          preimage: payment.preimage,
+        });
+      } catch (error) {
+        if (error instanceof LightningPaymentError) {
+          return this.failRefund(refund, error.message);
+        }
+        this.logger.error(`Refund ${refund.id} payment outcome unknown, left in flight:`, error);
+        return this.mapToRefund(refund);
+      }
+    }
+
+    // Swaps created before swap routing are all MinMo's
+    const provider = findSwapProvider(this.swapProviders, refund.swapProvider ?? 'minmo');
+    const result = await provider.refund(
+      refund.minmoSwapId as string,
+      refund.destination as string,
+      amountSats
+    );
+    if (!result.success) {
+      return this.failRefund(
+        refund,
+        result.error || `Swap provider ${provider.name} could not refund`
+      );
+    }
+
+    const feeSats = result.networkFeeSats ?? 0;
+    return this.completeRefund(refund, {
+      refundedSats: amountSats - feeSats,
+      feeSats,
+      txId: result.refundTxId,
+    });
+  }
+
+  private async reconcileRefund(refund: RefundRecord): Promise<boolean> {
+    const { paymentHash } = await this.lightningService.getInvoiceInfo(
+      refund.destination as string
+    );
+    const payment = await this.lightningService.lookupOutgoingPayment(paymentHash);
+
+    switch (payment.status) {
+      case 'SUCCEEDED': {
+        const { amount, fee, preimage } = payment.result as LightningPaymentResult;
+        await this.completeRefund(refund, {
+          refundedSats: amount,
+          feeSats: fee,
+          paymentHash,
+          preimage,
+        });
+        return true;
+      }
+      case 'FAILED':
+        await this.failRefund(refund, 'The refund payment failed');
+        return true;
+      case 'NOT_SENT':
+        await this.failRefund(refund, 'The Lightning node never sent the refund payment');
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private async completeRefund(
+    refund: RefundRecord,
+    receipt: {
+      refundedSats: number;
+      feeSats: number;
+      paymentHash?: string;
+      preimage?: string;
+      txId?: string;
+    }
+  ): Promise<Refund> {
+    const completed = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const updated = await this.transition(
+        refund.id,
+        RefundStatus.SUCCEEDED,
+        {
+          reason: 'Refund paid',
+          metadata: { refundedSats: receipt.refundedSats, feeSats: receipt.feeSats },
+          data: {
+            ...receipt,
+            refundedSats: BigInt(receipt.refundedSats),
+            feeSats: BigInt(receipt.feeSats),
+            refundedAt: new Date(),
+          },
+        },
+        tx
+      );
+
+      await this.transactionState.transition(
+        refund.flow as TransactionFlow,
+        { id: refund.transactionId },
+        TransactionStatus.REFUNDED,
+        {
+          expectedStatus: TransactionStatus.REFUNDING,
+          reason: 'BTC refunded to the payer',
+          metadata: { refundId: refund.id, refundedSats: receipt.refundedSats },
+        },
+        tx
+      );
+
+      return updated;
+    });
+
+    this.logger.log(
+      `Refund ${refund.id} paid: ${receipt.refundedSats} sats (${receipt.feeSats} sats network fee)`
+    );
+    return this.mapToRefund(completed as RefundRecord);
+  }
+
+  private async failRefund(refund: RefundRecord, failureReason: string): Promise<Refund> {
+    this.logger.warn(`Refund ${refund.id} failed: ${failureReason}`);
+
+    const failed = await this.transition(refund.id, RefundStatus.FAILED, {
+      reason: failureReason,
+      data: { failureReason },
+    });
+    return this.mapToRefund(failed as RefundRecord);
+  }
+
+  private async setDestination(
+    refundId: string,
+    method: RefundMethod,
+    destination: string
+  ): Promise<void> {
+    const updated = await this.transition(refundId, RefundStatus.PENDING, {
+      expectedStatuses: [RefundStatus.AWAITING_DESTINATION, RefundStatus.FAILED],
+      reason: 'Refund destination submitted',
+      metadata: { method },
+      data: { method, destination, failureReason: null },
+    });
+    if (!updated) {
+      throw new ConflictException(`Refund ${refundId} is not waiting for a destination`);
+    }
+  }
+
+  /**
+   * Move a refund to a new status and record its history
+   * Pass `client` to run inside an existing Prisma interactive transaction. Returns null
+   * only when the refund is not in one of `expectedStatuses`.
+   */
+  private async transition(
+    refundId: string,
+    toStatus: RefundStatus,
+    options: RefundTransitionOptions = {},
+    client?: Prisma.TransactionClient
+  ): Promise<RefundRecord | null> {
+    if (!client) {
+      return this.prisma.$transaction((tx: Prisma.TransactionClient) =>
+        this.transition(refundId, toStatus, options, tx)
+      );
+    }
+
+    const current = await client.refund.findUniqueOrThrow({ where: { id: refundId } });
+    const fromStatus = current.status as RefundStatus;
+    if (options.expectedStatuses && !options.expectedStatuses.includes(fromStatus)) {
+      return null;
+    }
+
+    assertRefundTransition(fromStatus, toStatus);
+
+    // Guard on the status we validated against so a concurrent move cannot be overwritten
+    const { count } = await client.refund.updateMany({
+      where: { id: refundId, status: fromStatus },
+      data: { ...options.data, status: toStatus },
+    });
+    if (count === 0) {
+      if (options.expectedStatuses) {
+        return null;
+      }
+      throw new ConflictException(`Refund ${refundId} changed status while moving to ${toStatus}`);
+    }
+
+    await client.refundStatusHistory.create({
+      data: {
+        refundId,
+        fromStatus,
+        toStatus,
+        reason: options.reason,
+        metadata: options.metadata as Prisma.InputJsonValue | undefined,
+      },
+    });
+
+    this.logger.log(`Refund ${refundId}: ${fromStatus} -> ${toStatus}`);
+    return client.refund.findUnique({ where: { id: refundId } });
+  }
+
+  /**
+   * Sats the payer actually sent, or 0 when their payment never arrived
+   */
+  private async getReceivedSats(
+    flow: TransactionFlow,
+    transaction: TransactionRecord,
+    client: Prisma.TransactionClient
+  ): Promise<number> {
+    if (flow === TransactionFlow.MINMO) {
+      const receivedBtc = transaction.btcReceivedAmount ?? transaction.btcAmount;
+      return transaction.btcReceived ? Math.round(Number(receivedBtc) * 100_000_000) : 0;
+    }
+
+    const invoice = await client.lightningInvoice.findUnique({
+      where: { paymentHash: transaction.paymentHash },
+    });
+    return invoice?.status === 'PAID' ? Number(invoice.amountSats) : 0;
+  }
+
+  private getMaxFeeSats(flow: TransactionFlow, amountSats: number): number {
+    if (flow === TransactionFlow.MINMO) {
+      return ONCHAIN_MAX_FEE_SATS;
+    }
+
+    return Math.max(Math.ceil(amountSats * LIGHTNING_MAX_FEE_PERCENTAGE), LIGHTNING_MIN_FEE_SATS);
+  }
+
+  private getMaxRefundableSats(refund: RefundRecord): number {
+    return Math.max(Number(refund.amountSats) - Number(refund.maxFeeSats), 0);
+  }
+
+  private async validateInvoice(refund: RefundRecord, paymentRequest: string): Promise<void> {
+    const invoice = await this.lightningService.getInvoiceInfo(paymentRequest);
+    const maxRefundableSats = this.getMaxRefundableSats(refund);
+
+    if (invoice.expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('The refund invoice has expired');
+    }
+    if (invoice.amount > maxRefundableSats) {
+      throw new BadRequestException(
+        `The refund invoice is for ${invoice.amount} sats but at most ${maxRefundableSats} sats can be refunded`
+      );
+    }
+  }
+
+  private async findAwaitingLnurlRefund(k1: string): Promise<RefundRecord> {
+    const refund = await this.prisma.refund.findUnique({ where: { lnurlK1: k1 } });
+    if (!refund) {
+      throw new NotFoundException('Unknown LNURL-withdraw request');
+    }
+    if (
+      refund.status !== RefundStatus.AWAITING_DESTINATION &&
+      refund.status !== RefundStatus.FAILED
+    ) {
+      throw new ConflictException('This refund has already been claimed');
+    }
+
+    return refund;
+  }
+
+  private mapToRefund(refund: RefundRecord): Refund {
+    return {
+      id: refund.id,
+      transactionId: refund.transactionId,
+      flow: refund.flow as TransactionFlow,
+      status: refund.status as RefundStatus,
+      reason: refund.reason,
+      amountSats: Number(refund.amountSats),
+      maxFeeSats: Number(refund.maxFeeSats),
+      maxRefundableSats: this.getMaxRefundableSats(refund),
+      method: (refund.method as RefundMethod | null) ?? undefined,
+      destination: refund.destination ?? undefined,
+      lnurl:
+        refund.lnurlK1 && this.lnurlBaseUrl
+          ? encodeLnurl(`${this.lnurlBaseUrl}/refunds/lnurl/${refund.lnurlK1}`)
+          : undefined,
+      failureReason: refund.failureReason ?? undefined,
+      receipt:
+        refund.status === RefundStatus.SUCCEEDED
+          ? {
+              refundedSats: Number(refund.refundedSats),
+              feeSats: Number(refund.feeSats),
+              paymentHash: refund.paymentHash ?? undefined,
+              preimage: refund.preimage ?? undefined,
+              txId: refund.txId ?? undefined,
+              refundedAt: refund.refundedAt as Date,
+            }
+          : undefined,
+      createdAt: refund.createdAt,
+      updatedAt: refund.updatedAt,
+    };
+  }
+}
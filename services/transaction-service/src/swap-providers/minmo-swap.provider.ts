@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MinmoService } from '../external/minmo.service';
+import {
+  CreateProviderSwapParams,
+  ProviderRefundResult,
+  ProviderSwap,
+  ProviderSwapStatus,
+  SwapAsset,
+  SwapProvider,
+  SwapQuote,
+} from './swap-provider';
+
+/**
+ * MinMo on-chain swaps, between MINMO_MIN_KES and MINMO_MAX_KES
+ */
+@Injectable()
+export class MinmoSwapProvider implements SwapProvider {
+  readonly name = 'minmo';
+  readonly assets = [SwapAsset.ONCHAIN_BTC];
+  readonly minKesAmount: number;
+  readonly maxKesAmount: number;
+
+  constructor(
+    private readonly minmoService: MinmoService,
+    configService: ConfigService
+  ) {
+    this.minKesAmount = Number(configService.get('MINMO_MIN_KES', 10));
+    this.maxKesAmount = Number(configService.get('MINMO_MAX_KES', 150000));
+  }
+
+  async quote(kesAmount: number, asset: SwapAsset): Promise<SwapQuote> {
+    const quote = await this.minmoService.getQuote(kesAmount);
+    return {
+      provider: this.name,
+      asset,
+      kesAmount,
+      btcAmount: quote.btcAmount,
+      exchangeRate: quote.exchangeRate,
+      feeKes: quote.minmoFee,
+    };
+  }
+
+  async createSwap(params: CreateProviderSwapParams): Promise<ProviderSwap> {
+    const swap = await this.minmoService.createSwap({
+      kesAmount: params.kesAmount,
+      recipientPhone: params.recipientPhone,
+      recipientName: params.recipientName,
+      transactionId: params.transactionId,
+      transactionType: params.transactionType,
+    });
+    return {
+      provider: this.name,
+      swapId: swap.swapId,
+      depositAddress: swap.btcAddress,
+      btcAmount: swap.btcAmount,
+      exchangeRate: swap.exchangeRate,
+      feeKes: swap.minmoFee,
+      expiresAt: swap.expiresAt,
+    };
+  }
+
+  async getSwapStatus(swapId: string): Promise<ProviderSwapStatus> {
+    return this.minmoService.getSwapStatus(swapId);
+  }
+
+  cancelSwap(swapId: string): Promise<void> {
+    return this.minmoService.cancelSwap(swapId);
+  }
+
+  refund(swapId: string, destination: string, amountSats: number): Promise<ProviderRefundResult> {
+    return this.minmoService.initiateRefund(swapId, destination, amountSats);
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Swap provider contract
+ * Each service that turns the payer's on-chain BTC into KES for the M-Pesa payout (MinMo
+ * first) implements this interface so SwapRouterService can choose between them.
+ * Lightning payments are not swapped: the Lightning flow issues its own invoices through
+ * LightningService.
+ */
+
+export const SWAP_PROVIDERS = Symbol('SWAP_PROVIDERS');
+
+/**
+ * How the payer sends their BTC; only on-chain deposits have a provider so far
+ */
+export enum SwapAsset {
+  ONCHAIN_BTC = 'ONCHAIN_BTC',
+}
+
+export interface SwapQuote {
+  provider: string;
+  asset: SwapAsset;
+  kesAmount: number;
+  btcAmount: number;
+  exchangeRate: number;
+  /** What the provider charges for the swap, in KES */
+  feeKes: number;
+}
+
+export interface CreateProviderSwapParams {
+  transactionId: string;
+  asset: SwapAsset;
+  kesAmount: number;
+  recipientPhone?: string;
+  recipientName?: string;
+  transactionType?: string;
+}
+
+export interface ProviderSwap {
+  provider: string;
+  swapId: string;
+  /** Bitcoin address the payer deposits to */
+  depositAddress: string;
+  btcAmount: number;
+  exchangeRate: number;
+  feeKes: number;
+  expiresAt: Date;
+}
+
+export interface ProviderSwapStatus {
+  status: string;
+  btcReceived: boolean;
+  /** On-chain confirmations of the deposit, for providers that report them */
+  confirmations?: number;
+  requiredConfirmations?: number;
+}
+
+export interface ProviderRefundResult {
+  success: boolean;
+  refundTxId?: string;
+  networkFeeSats?: number;
+  error?: string;
+}
+
+export interface SwapProvider {
+  readonly name: string;
+  readonly assets: SwapAsset[];
+  /** Smallest and largest payouts the provider accepts, in KES */
+  readonly minKesAmount: number;
+  readonly maxKesAmount: number;
+
+  quote(kesAmount: number, asset: SwapAsset): Promise<SwapQuote>;
+
+  createSwap(params: CreateProviderSwapParams): Promise<ProviderSwap>;
+
+  getSwapStatus(swapId: string): Promise<ProviderSwapStatus>;
+
+  /**
+   * Cancel a swap that has not received the payer's BTC
+   */
+  cancelSwap(swapId: string): Promise<void>;
+
+  /**
+   * Return amountSats of a swap's BTC to the payer, which is less than the deposit when
+   * only an overpayment is refunded; the network fee comes out of the refunded amount
+   */
+  refund(swapId: string, destination: string, amountSats: number): Promise<ProviderRefundResult>;
+}
+
+export function findSwapProvider(providers: SwapProvider[], name: string): SwapProvider {
+  const provider = providers.find(candidate => candidate.name === name);
+  if (!provider) {
+    throw new Error(`Unknown swap provider: ${name}`);
+  }
+  return provider;
+}
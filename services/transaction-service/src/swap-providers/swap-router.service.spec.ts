@@ -0,0 +1,171 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { CircuitBreakerService } from '@bitpesa/shared-infrastructure';
+import { SwapFailover, SwapRouterService, SwapRoutingError } from './swap-router.service';
+import { SwapAsset, SwapProvider } from './swap-provider';
+
+// Only the type is used; the shared-infrastructure build doesn't load under jest
+jest.mock('@bitpesa/shared-infrastructure', () => ({
+  CircuitBreakerService: class CircuitBreakerService {},
+}));
+
+function fakeProvider(name: string, feeKes: number, overrides: Partial<SwapProvider> = {}) {
+  return {
+    name,
+    assets: [SwapAsset.ONCHAIN_BTC],
+    minKesAmount: 10,
+    maxKesAmount: 150000,
+    quote: jest.fn(async (kesAmount: number, asset: SwapAsset) => ({
+      provider: name,
+      asset,
+      kesAmount,
+      btcAmount: 0.0002,
+      exchangeRate: 5000000,
+      feeKes,
+    })),
+    createSwap: jest.fn(async () => ({
+      provider: name,
+      swapId: `${name}_swap`,
+      depositAddress: `bc1q${name}`,
+      btcAmount: 0.0002,
+      exchangeRate: 5000000,
+      feeKes,
+      expiresAt: new Date(),
+    })),
+    getSwapStatus: jest.fn(),
+    cancelSwap: jest.fn(),
+    refund: jest.fn(),
+    ...overrides,
+  };
+}
+
+describe('SwapRouterService', () => {
+  let breakers: Record<string, { state: string; nextAttemptTime: number }>;
+  let circuitBreaker: { getBreakerState: jest.Mock; execute: jest.Mock };
+
+  const params = {
+    transactionId: 'tx-1',
+    asset: SwapAsset.ONCHAIN_BTC,
+    kesAmount: 1000,
+    recipientPhone: '254712345678',
+  };
+
+  const createRouter = (providers: SwapProvider[]) =>
+    new SwapRouterService(providers, circuitBreaker as unknown as CircuitBreakerService);
+
+  beforeEach(() => {
+    breakers = {};
+    circuitBreaker = {
+      getBreakerState: jest.fn(
+        (name: string) => breakers[name] ?? { state: 'CLOSED', nextAttemptTime: 0 }
+      ),
+      execute: jest.fn((_name: string, operation: () => Promise<unknown>) => operation()),
+    };
+  });
+
+  describe('quote', () => {
+    it('should quote the providers that take the asset and amount, cheapest first', async () => {
+      const router = createRouter([
+        fakeProvider('pricey', 30),
+        fakeProvider('cheap', 10),
+        fakeProvider('retired', 1, { assets: [] }),
+        fakeProvider('small', 1, { maxKesAmount: 500 }),
+      ]);
+
+      const quotes = await router.quote(1000, SwapAsset.ONCHAIN_BTC);
+
+      expect(quotes.map(quote => quote.provider)).toEqual(['cheap', 'pricey']);
+    });
+
+    it('should skip a provider whose breaker is open until it lets a call through', async () => {
+      const down = fakeProvider('down', 1);
+      const router = createRouter([down, fakeProvider('up', 10)]);
+      breakers['swap-provider:down'] = { state: 'OPEN', nextAttemptTime: Date.now() + 60000 };
+
+      expect((await router.quote(1000, SwapAsset.ONCHAIN_BTC)).map(q => q.provider)).toEqual([
+        'up',
+      ]);
+      expect(down.quote).not.toHaveBeenCalled();
+
+      breakers['swap-provider:down'].nextAttemptTime = Date.now() - 1;
+      expect((await router.quote(1000, SwapAsset.ONCHAIN_BTC)).map(q => q.provider)).toEqual([
+        'down',
+        'up',
+      ]);
+    });
+
+    it('should leave out a provider that cannot quote', async () => {
+      const router = createRouter([
+        fakeProvider('broken', 1, { quote: jest.fn().mockRejectedValue(new Error('Bad gateway')) }),
+        fakeProvider('working', 10),
+      ]);
+
+      const quotes = await router.quote(1000, SwapAsset.ONCHAIN_BTC);
+
+      expect(quotes.map(quote => quote.provider)).toEqual(['working']);
+    });
+  });
+
+  describe('createSwap', () => {
+    it('should create the swap with the cheapest provider through its breaker', async () => {
+      const cheap = fakeProvider('cheap', 10);
+      const pricey = fakeProvider('pricey', 30);
+      const router = createRouter([pricey, cheap]);
+
+      const { swap, failovers } = await router.createSwap(params);
+
+      expect(swap.provider).toBe('cheap');
+      expect(failovers).toEqual([]);
+      expect(pricey.createSwap).not.toHaveBeenCalled();
+      expect(circuitBreaker.execute).toHaveBeenCalledWith(
+        'swap-provider:cheap',
+        expect.any(Function)
+      );
+    });
+
+    it('should fail over to the next provider and record the failure', async () => {
+      const router = createRouter([
+        fakeProvider('cheap', 10, {
+          createSwap: jest.fn().mockRejectedValue(new Error('Gateway timeout')),
+        }),
+        fakeProvider('pricey', 30),
+      ]);
+
+      const { swap, failovers } = await router.createSwap(params);
+
+      expect(swap.provider).toBe('pricey');
+      expect(failovers).toEqual([
+        { provider: 'cheap', error: 'Gateway timeout', failedAt: expect.any(String) },
+      ]);
+    });
+
+    it('should throw when every provider fails', async () => {
+      const router = createRouter([
+        fakeProvider('cheap', 10, {
+          createSwap: jest.fn().mockRejectedValue(new Error('Gateway timeout')),
+        }),
+        fakeProvider('pricey', 30, {
+          createSwap: jest.fn().mockRejectedValue(new Error('Out of liquidity')),
+        }),
+      ]);
+
+      const error = await router.createSwap(params).catch(thrown => thrown);
+
+      expect(error).toBeInstanceOf(SwapRoutingError);
+      expect(error.message).toBe(
+        'Every swap provider failed: cheap: Gateway timeout; pricey: Out of liquidity'
+      );
+      expect(error.failovers.map((failover: SwapFailover) => failover.provider)).toEqual([
+        'cheap',
+        'pricey',
+      ]);
+    });
+
+    it('should throw when no provider takes the swap', async () => {
+      const router = createRouter([fakeProvider('minmo', 10)]);
+
+      await expect(router.createSwap({ ...params, kesAmount: 500000 })).rejects.toThrow(
+        ServiceUnavailableException
+      );
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { Inject, Injectable, Logger, ServiceUnavailableException } from '@nestjs/common';
+import { CircuitBreakerService } from '@bitpesa/shared-infrastructure';
+import {
+  CreateProviderSwapParams,
+  ProviderSwap,
+  SWAP_PROVIDERS,
+  SwapAsset,
+  findSwapProvider,
+  SwapProvider,
+  SwapQuote,
+} from './swap-provider';
+
+/**
+ * A provider that could not create a swap before another one did
+ */
+export interface SwapFailover {
+  provider: string;
+  error: string;
+  failedAt: string;
+}
+
+export interface RoutedSwap {
+  swap: ProviderSwap;
+  failovers: SwapFailover[];
+}
+
+/**
+ * Raised when every provider that could take a swap failed to create it
+ */
+export class SwapRoutingError extends ServiceUnavailableException {
+  constructor(
+    message: string,
+    readonly failovers: SwapFailover[]
+  ) {
+    super(message);
+    this.name = 'SwapRoutingError';
+  }
+}
+
+/**
+ * Chooses the swap provider for a payout
+ * Providers that take the payer's asset and the payout amount, and whose circuit breaker
+ * is not open, are quoted and tried cheapest first. Calls go through CircuitBreakerService
+ * under "swap-provider:<name>", so a provider that keeps failing is skipped until its
+ * breaker lets a call through again.
+ */
+@Injectable()
+export class SwapRouterService {
+  private readonly logger = new Logger(SwapRouterService.name);
+
+  constructor(
+    @Inject(SWAP_PROVIDERS) private readonly providers: SwapProvider[],
+    private readonly circuitBreaker: CircuitBreakerService
+  ) {}
+
+  /**
+   * Quotes from every provider that can take the swap, cheapest first
+   */
+  async quote(kesAmount: number, asset: SwapAsset): Promise<SwapQuote[]> {
+    const eligible = this.providers.filter(
+      provider =>
+        provider.assets.includes(asset) &&
+        kesAmount >= provider.minKesAmount &&
+        kesAmount <= provider.maxKesAmount &&
+        this.isAvailable(provider)
+    );
+
+    const quotes: SwapQuote[] = [];
+    for (const provider of eligible) {
+      try {
+        quotes.push(await this.call(provider, () => provider.quote(kesAmount, asset)));
+      } catch (error) {
+        this.logger.warn(
+          `${provider.name} could not quote ${kesAmount} KES: ${(error as Error).message}`
+        );
+      }
+    }
+
+    // Stable, so equal fees keep the providers' registration order
+    return quotes.sort((a, b) => a.feeKes - b.feeKes);
+  }
+
+  /**
+   * Create the swap with the cheapest provider, failing over to the next when it cannot
+   */
+  async createSwap(params: CreateProviderSwapParams): Promise<RoutedSwap> {
+    const quotes = await this.quote(params.kesAmount, params.asset);
+    if (quotes.length === 0) {
+      throw new ServiceUnavailableException(
+        `No swap provider is available for ${params.kesAmount} KES paid in ${params.asset}`
+      );
+    }
+
+    const failovers: SwapFailover[] = [];
+    for (const { provider: name } of quotes) {
+      const provider = this.getProvider(name);
+      try {
+        const swap = await this.call(provider, () => provider.createSwap(params));
+        if (failovers.length > 0) {
+          this.logger.warn(
+            `Swap for transaction ${params.transactionId} failed over to ${name} after ${failovers
+              .map(failover => failover.provider)
+              .join(', ')}`
+          );
+        }
+        return { swap, failovers };
+      } catch (error) {
+        failovers.push({
+          provider: name,
+          error: (error as Error).message,
+          failedAt: new Date().toISOString(),
+        });
+      }
+    }
+
+    throw new SwapRoutingError(
+      `Every swap provider failed: ${failovers
+        .map(failover => `${failover.provider}: ${failover.error}`)
+        .join('; ')}`,
+      failovers
+    );
+  }
+
+  getProvider(name: string): SwapProvider {
+    return findSwapProvider(this.providers, name);
+  }
+
+  private isAvailable(provider: SwapProvider): boolean {
+    const breaker = this.circuitBreaker.getBreakerState(this.breakerName(provider));
+    return breaker.state !== 'OPEN' || Date.now() >= breaker.nextAttemptTime;
+  }
+
+  private call<T>(provider: SwapProvider, operation: () => Promise<T>): Promise<T> {
+    return this.circuitBreaker.execute(this.breakerName(provider), operation);
+  }
+
+  private breakerName(provider: SwapProvider): string {
+    return `swap-provider:${provider.name}`;
+  }
+}
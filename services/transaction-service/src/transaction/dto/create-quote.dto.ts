@@ -0,0 +1,12 @@
+import { IsEnum, IsNumber, Max, Min } from 'class-validator';
+import { TransactionType } from '@bitpesa/shared-types';
+
+export class CreateQuoteDto {
+  @IsNumber()
+  @Min(10) // Minimum 10 KES
+  @Max(150000) // Maximum 150,000 KES
+  kesAmount: number;
+
+  @IsEnum(TransactionType)
+  transactionType: TransactionType; // Fees depend on the product, so quotes are locked to one
+}
@@ -1,5 +1,16 @@
-import { IsString, IsNumber, IsEnum, IsOptional, IsPhoneNumber, Min, Max, Length } from 'class-validator';
+import {
+  IsString,
+  IsNumber,
+  IsEnum,
+  IsOptional,
+  IsPhoneNumber,
+  IsUUID,
+  Min,
+  Max,
+  Length,
+} from 'class-validator';
 import { TransactionType } from '@bitpesa/shared-types';
+import { IsBillerPayment } from '../../billers/is-biller-payment.validator';
 
 export class CreateTransactionDto {
   @IsEnum(TransactionType)
@@ -38,6 +49,10 @@ export class CreateTransactionDto {
   @Length(1, 20)
   referenceNumber?: string;
 
+  @IsOptional()
+  @IsUUID()
+  quoteId?: string; // Pay exactly what this quote showed
+
   @IsOptional()
   @IsString()
   ipAddress?: string;
@@ -63,6 +78,7 @@ export class PaybillDto extends CreateTransactionDto {
 
   @IsString()
   @Length(5, 7)
+  @IsBillerPayment() // Account number and amount the biller accepts
   merchantCode: string;
 
   @IsOptional()
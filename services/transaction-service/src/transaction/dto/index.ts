@@ -1 +1,4 @@
 export * from './create-transaction.dto';
+export * from './create-quote.dto';
+export * from './refund-destination.dto';
+export * from './respond-to-reprice.dto';
@@ -0,0 +1,18 @@
+import { IsOptional, IsString, Matches } from 'class-validator';
+import { SubmitRefundDestinationDto as SubmitRefundDestination } from '@bitpesa/shared-types';
+
+export class SubmitRefundDestinationDto implements SubmitRefundDestination {
+  @IsOptional()
+  @IsString()
+  @Matches(/^ln(bc|tb|bcrt)[0-9a-z]+$/i, {
+    message: 'lightningInvoice must be a BOLT11 invoice',
+  })
+  lightningInvoice?: string; // Lightning flow
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^(bc1|tb1|bcrt1)[02-9ac-hj-np-z]{8,87}$|^[123mn][1-9A-HJ-NP-Za-km-z]{25,34}$/, {
+    message: 'bitcoinAddress must be a Bitcoin address',
+  })
+  bitcoinAddress?: string; // MinMo flow
+}
@@ -0,0 +1,7 @@
+import { IsBoolean } from 'class-validator';
+import { RespondToRepriceDto as RespondToReprice } from '@bitpesa/shared-types';
+
+export class RespondToRepriceDto implements RespondToReprice {
+  @IsBoolean()
+  accept: boolean;
+}
@@ -2,6 +2,7 @@ import { Controller, Post, Get, Body, Param, HttpCode, HttpStatus, Query } from
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery } from '@nestjs/swagger';
 import { ThrottlerGuard } from '@nestjs/throttler';
 import { UseGuards } from '@nestjs/common';
+import { Idempotent } from '../idempotency/idempotency.interceptor';
 import { MinmoTransactionOrchestratorService } from '../orchestration/minmo-transaction-orchestrator.service';
 import { MinmoTransactionService } from '../transaction/minmo-transaction.service';
 import { CreateBtcToMpesaTransactionDto } from '../dto/create-btc-to-mpesa-transaction.dto';
@@ -16,6 +17,7 @@ export class MinmoTransactionController {
   ) {}
 
   @Post('send-money')
+  @Idempotent()
   @ApiOperation({ summary: 'Send Bitcoin to M-Pesa number' })
   @ApiResponse({
     status: 201,
@@ -55,6 +57,7 @@ export class MinmoTransactionController {
   }
 
   @Post('buy-airtime')
+  @Idempotent()
   @ApiOperation({ summary: 'Buy airtime with Bitcoin' })
   @ApiResponse({
     status: 201,
@@ -80,6 +83,7 @@ export class MinmoTransactionController {
   }
 
   @Post('paybill')
+  @Idempotent()
   @ApiOperation({ summary: 'Pay bill with Bitcoin' })
   @ApiResponse({
     status: 201,
@@ -105,6 +109,7 @@ export class MinmoTransactionController {
   }
 
   @Post('buy-goods')
+  @Idempotent()
   @ApiOperation({ summary: 'Buy goods with Bitcoin' })
   @ApiResponse({
     status: 201,
@@ -130,6 +135,7 @@ export class MinmoTransactionController {
   }
 
   @Post('scan-pay')
+  @Idempotent()
   @ApiOperation({ summary: 'Pay by scanning QR code' })
   @ApiResponse({
     status: 201,
@@ -227,24 +233,6 @@ export class MinmoTransactionController {
     return this.transactionService.getStatistics();
   }
 
-  @Post('webhooks/minmo')
-  @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Handle MinMo webhook events' })
-  @ApiResponse({
-    status: 200,
-    description: 'Webhook processed successfully',
-  })
-  @ApiResponse({ status: 400, description: 'Bad request' })
-  async handleMinmoWebhook(@Body() webhookData: any) {
-    const { swapId, event } = webhookData;
-    
-    if (event === 'swap.confirmed') {
-      await this.orchestrator.handleMinmoConfirmation(swapId);
-    }
-    
-    return { success: true, message: 'Webhook processed' };
-  }
-
   @Post('webhooks/mpesa')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Handle M-Pesa callback events' })
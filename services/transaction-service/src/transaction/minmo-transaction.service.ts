@@ -1,8 +1,16 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { LoggerService } from '../logger/logger.service';
 import { CreateTransactionDto } from './dto';
-import { Transaction, TransactionStatus } from '@bitpesa/shared-types';
+import {
+  InvalidTransactionTransitionError,
+  PaymentVarianceDecision,
+  Transaction,
+  TransactionFlow,
+  TransactionStatus,
+} from '@bitpesa/shared-types';
+import { StatusTransitionOptions, TransactionStateService } from './transaction-state.service';
 import { v4 as uuidv4 } from 'uuid';
 
 @Injectable()
@@ -10,18 +18,23 @@ export class MinmoTransactionService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly logger: LoggerService,
+    private readonly transactionState: TransactionStateService,
   ) {
     this.logger.setContext('MinmoTransactionService');
   }
 
   /**
    * Create a new transaction (MinMo-powered)
+   * Pass an interactive transaction as `client` to create it together with other writes.
    */
-  async create(dto: CreateTransactionDto): Promise<Transaction> {
+  async create(
+    dto: CreateTransactionDto,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<Transaction> {
     this.logger.log(`Creating MinMo transaction: ${dto.transactionType} for ${dto.recipientPhone}`);
 
     try {
-      const transaction = await this.prisma.transaction.create({
+      const transaction = await client.transaction.create({
         data: {
           id: uuidv4(),
           transactionType: dto.transactionType,
@@ -38,6 +51,12 @@ export class MinmoTransactionService {
           deviceInfo: dto.deviceInfo,
           createdAt: new Date(),
           updatedAt: new Date(),
+          statusHistory: {
+            create: {
+              toStatus: TransactionStatus.PENDING,
+              reason: 'Transaction created',
+            },
+          },
         },
       });
 
@@ -51,25 +70,75 @@ export class MinmoTransactionService {
 
   /**
    * Update transaction
+   * Returns null when `data.status` is the status the transaction is already in.
    */
-  async update(id: string, data: Partial<Transaction>): Promise<Transaction> {
+  async update(id: string, data: Partial<Transaction>): Promise<Transaction | null> {
     try {
-      const updatedTransaction = await this.prisma.transaction.update({
-        where: { id },
-        data: {
-          ...data,
-          updatedAt: new Date(),
-        },
-      });
+      // Status changes always go through the state machine
+      const { status, ...rest } = data as any;
+      const updatedTransaction = status
+        ? await this.transactionState.transition(TransactionFlow.MINMO, { id }, status, {
+            data: { ...rest, updatedAt: new Date() },
+          })
+        : await this.prisma.transaction.update({
+            where: { id },
+            data: {
+              ...rest,
+              updatedAt: new Date(),
+            },
+          });
+
+      if (!updatedTransaction) {
+        return null;
+      }
 
       this.logger.log(`Transaction updated: ${id}`);
       return this.mapToTransaction(updatedTransaction);
     } catch (error) {
+      if (error instanceof InvalidTransactionTransitionError) {
+        throw error;
+      }
       this.logger.error(`Failed to update transaction ${id}: ${(error as Error).message}`);
       throw new BadRequestException(`Failed to update transaction: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Move a transaction to a new status through the Minmo flow state machine
+   * Returns null when the transaction is already in `status`, or when `expectedStatus` is
+   * given and the transaction is no longer in it
+   */
+  async updateStatus(
+    id: string,
+    status: TransactionStatus,
+    options: StatusTransitionOptions = {}
+  ): Promise<Transaction | null> {
+    const updatedTransaction = await this.transactionState.transition(
+      TransactionFlow.MINMO,
+      { id },
+      status,
+      options
+    );
+
+    return updatedTransaction ? this.mapToTransaction(updatedTransaction) : null;
+  }
+
+  /**
+   * Record the user's answer to a payout offer, only if the decision is still `from`
+   * Returns false when the offer was already answered.
+   */
+  async updatePaymentVarianceDecision(
+    id: string,
+    from: PaymentVarianceDecision,
+    to: PaymentVarianceDecision,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.transaction.updateMany({
+      where: { id, paymentVarianceDecision: from },
+      data: { paymentVarianceDecision: to, updatedAt: new Date() },
+    });
+    return count === 1;
+  }
+
   /**
    * Find transaction by ID
    */
@@ -233,8 +302,19 @@ export class MinmoTransactionService {
       updatedAt: prismaTransaction.updatedAt,
       // MinMo specific fields
       minmoSwapId: prismaTransaction.minmoSwapId,
+      swapProvider: prismaTransaction.swapProvider,
+      swapFailovers: prismaTransaction.swapFailovers ?? [],
       btcAddress: prismaTransaction.btcAddress,
       btcReceived: prismaTransaction.btcReceived,
+      btcReceivedAmount:
+        prismaTransaction.btcReceivedAmount == null
+          ? undefined
+          : Number(prismaTransaction.btcReceivedAmount),
+      paymentVarianceDecision: prismaTransaction.paymentVarianceDecision,
+      repricedKesAmount:
+        prismaTransaction.repricedKesAmount == null
+          ? undefined
+          : Number(prismaTransaction.repricedKesAmount),
       minmoFee: Number(prismaTransaction.minmoFee || 0),
       mpesaFee: Number(prismaTransaction.mpesaFee || 0),
       totalFees: Number(prismaTransaction.totalFees || 0),
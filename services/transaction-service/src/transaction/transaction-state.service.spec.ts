@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  EventType,
+  InvalidTransactionTransitionError,
+  TransactionFlow,
+  TransactionStatus,
+} from '@bitpesa/shared-types';
+import { TransactionStateService } from './transaction-state.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../events/outbox.service';
+
+describe('TransactionStateService', () => {
+  let service: TransactionStateService;
+  let tx: {
+    transaction: { findUnique: jest.Mock; updateMany: jest.Mock; update: jest.Mock };
+    transactionStatusHistory: { create: jest.Mock };
+    outboxEvent: { create: jest.Mock };
+  };
+
+  const givenTransaction = (status: TransactionStatus) => {
+    tx.transaction.findUnique
+      .mockResolvedValueOnce({ id: 'tx-1', paymentHash: 'hash-1', status })
+      .mockImplementationOnce(async () => ({
+        id: 'tx-1',
+        paymentHash: 'hash-1',
+        status: tx.transaction.updateMany.mock.calls[0]?.[0].data.status ?? status,
+      }));
+  };
+
+  beforeEach(async () => {
+    tx = {
+      transaction: {
+        findUnique: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn(),
+      },
+      transactionStatusHistory: { create: jest.fn() },
+      outboxEvent: { create: jest.fn() },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransactionStateService,
+        OutboxService,
+        {
+          provide: PrismaService,
+          useValue: { $transaction: jest.fn(callback => callback(tx)) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TransactionStateService>(TransactionStateService);
+  });
+
+  describe('transition', () => {
+    it('should apply a legal Lightning transition and record its history', async () => {
+      givenTransaction(TransactionStatus.LIGHTNING_PENDING);
+      const paidAt = new Date();
+
+      const result = await service.transition(
+        TransactionFlow.LIGHTNING,
+        { paymentHash: 'hash-1' },
+        TransactionStatus.LIGHTNING_PAID,
+        { reason: 'Lightning invoice settled', metadata: { settleIndex: 7 }, data: { paidAt } }
+      );
+
+      expect(result?.status).toBe(TransactionStatus.LIGHTNING_PAID);
+      expect(tx.transaction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'tx-1', status: TransactionStatus.LIGHTNING_PENDING },
+        data: { paidAt, status: TransactionStatus.LIGHTNING_PAID },
+      });
+      expect(tx.transactionStatusHistory.create).toHaveBeenCalledWith({
+        data: {
+          transactionId: 'tx-1',
+          fromStatus: TransactionStatus.LIGHTNING_PENDING,
+          toStatus: TransactionStatus.LIGHTNING_PAID,
+          reason: 'Lightning invoice settled',
+          metadata: { settleIndex: 7 },
+        },
+      });
+    });
+
+    it('should write an outbox event for statuses other services act on', async () => {
+      givenTransaction(TransactionStatus.AWAITING_BTC_PAYMENT);
+
+      await service.transition(
+        TransactionFlow.MINMO,
+        { id: 'tx-1' },
+        TransactionStatus.BTC_RECEIVED,
+        { reason: 'Swap confirmed' }
+      );
+
+      expect(tx.outboxEvent.create).toHaveBeenCalledWith({
+        data: {
+          type: EventType.TRANSACTION_PAID,
+          aggregateId: 'tx-1',
+          payload: {
+            transactionId: 'tx-1',
+            flow: TransactionFlow.MINMO,
+            fromStatus: TransactionStatus.AWAITING_BTC_PAYMENT,
+            status: TransactionStatus.BTC_RECEIVED,
+            reason: 'Swap confirmed',
+          },
+        },
+      });
+
+      tx.transaction.findUnique.mockReset();
+      tx.transaction.updateMany.mockClear();
+      tx.outboxEvent.create.mockClear();
+      givenTransaction(TransactionStatus.BTC_RECEIVED);
+      await service.transition(
+        TransactionFlow.MINMO,
+        { id: 'tx-1' },
+        TransactionStatus.MPESA_PENDING
+      );
+      expect(tx.outboxEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an illegal transition with a typed error and write nothing', async () => {
+      givenTransaction(TransactionStatus.COMPLETED);
+
+      await expect(
+        service.transition(TransactionFlow.LIGHTNING, { id: 'tx-1' }, TransactionStatus.PENDING)
+      ).rejects.toBeInstanceOf(InvalidTransactionTransitionError);
+      expect(tx.transaction.updateMany).not.toHaveBeenCalled();
+      expect(tx.transactionStatusHistory.create).not.toHaveBeenCalled();
+      expect(tx.outboxEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should apply each flow its own transition table', async () => {
+      givenTransaction(TransactionStatus.AWAITING_BTC_PAYMENT);
+      await expect(
+        service.transition(TransactionFlow.MINMO, { id: 'tx-1' }, TransactionStatus.BTC_RECEIVED)
+      ).resolves.toMatchObject({ status: TransactionStatus.BTC_RECEIVED });
+
+      tx.transaction.findUnique.mockReset();
+      givenTransaction(TransactionStatus.AWAITING_BTC_PAYMENT);
+      await expect(
+        service.transition(
+          TransactionFlow.LIGHTNING,
+          { id: 'tx-1' },
+          TransactionStatus.BTC_RECEIVED
+        )
+      ).rejects.toThrow('Illegal LIGHTNING transaction status transition');
+    });
+
+    it('should return null when the transaction is not in the expected status', async () => {
+      givenTransaction(TransactionStatus.MPESA_PENDING);
+
+      const result = await service.transition(
+        TransactionFlow.LIGHTNING,
+        { paymentHash: 'hash-1' },
+        TransactionStatus.MPESA_PENDING,
+        { expectedStatus: TransactionStatus.LIGHTNING_PAID }
+      );
+
+      expect(result).toBeNull();
+      expect(tx.transaction.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not overwrite a concurrent status change', async () => {
+      givenTransaction(TransactionStatus.MPESA_PENDING);
+      tx.transaction.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.transition(TransactionFlow.LIGHTNING, { id: 'tx-1' }, TransactionStatus.COMPLETED)
+      ).rejects.toThrow('changed status');
+      expect(tx.transactionStatusHistory.create).not.toHaveBeenCalled();
+    });
+
+    it('should return null and write nothing when the transaction is already in the status', async () => {
+      givenTransaction(TransactionStatus.COMPLETED);
+
+      const result = await service.transition(
+        TransactionFlow.LIGHTNING,
+        { id: 'tx-1' },
+        TransactionStatus.COMPLETED,
+        {
+          data: { referenceNumber: 'QKL1234' },
+        }
+      );
+
+      expect(result).toBeNull();
+      expect(tx.transaction.updateMany).not.toHaveBeenCalled();
+      expect(tx.transaction.update).not.toHaveBeenCalled();
+      expect(tx.transactionStatusHistory.create).not.toHaveBeenCalled();
+      expect(tx.outboxEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the transaction does not exist', async () => {
+      tx.transaction.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.transition(TransactionFlow.LIGHTNING, { id: 'missing' }, TransactionStatus.FAILED)
+      ).rejects.toThrow('Transaction missing not found');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, Transaction as TransactionRecord } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../events/outbox.service';
+import {
+  EventType,
+  TransactionEventPayload,
+  TransactionFlow,
+  TransactionStatus,
+  assertTransition,
+} from '@bitpesa/shared-types';
+
+export type TransactionLookup = { id: string } | { paymentHash: string };
+
+/**
+ * Statuses other services hear about, and the event each one publishes
+ */
+const STATUS_EVENTS: Partial<Record<TransactionStatus, EventType>> = {
+  [TransactionStatus.LIGHTNING_PAID]: EventType.TRANSACTION_PAID,
+  [TransactionStatus.BTC_RECEIVED]: EventType.TRANSACTION_PAID,
+  [TransactionStatus.COMPLETED]: EventType.TRANSACTION_COMPLETED,
+  [TransactionStatus.FAILED]: EventType.TRANSACTION_FAILED,
+  [TransactionStatus.EXPIRED]: EventType.TRANSACTION_EXPIRED,
+  [TransactionStatus.REFUNDED]: EventType.TRANSACTION_REFUNDED,
+};
+
+export interface StatusTransitionOptions {
+  /** Only move the transaction if it is currently in this status; otherwise return null */
+  expectedStatus?: TransactionStatus;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+  /** Extra columns written together with the status change */
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Applies transaction status changes through the shared state machine
+ * Every move is validated against the flow's transition table and recorded as a
+ * TransactionStatusHistory row in the same database transaction as the update, together
+ * with the outbox event for statuses in STATUS_EVENTS.
+ */
+@Injectable()
+export class TransactionStateService {
+  private readonly logger = new Logger(TransactionStateService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly outbox: OutboxService
+  ) {}
+
+  /**
+   * Move a transaction to a new status
+   * Returns null, writing nothing, when the transaction is already in `toStatus`, so a
+   * repeated callback can tell it did not make the move and skip its side effects.
+   * Pass `client` to run inside an existing Prisma interactive transaction.
+   */
+  async transition(
+    flow: TransactionFlow,
+    where: TransactionLookup,
+    toStatus: TransactionStatus,
+    options: StatusTransitionOptions = {},
+    client?: Prisma.TransactionClient
+  ): Promise<TransactionRecord | null> {
+    if (!client) {
+      return this.prisma.$transaction((tx: Prisma.TransactionClient) =>
+        this.transition(flow, where, toStatus, options, tx)
+      );
+    }
+
+    const current = await client.transaction.findUnique({ where });
+    if (!current) {
+      throw new NotFoundException(`Transaction ${Object.values(where)[0]} not found`);
+    }
+
+    const fromStatus = current.status as TransactionStatus;
+    if (options.expectedStatus && fromStatus !== options.expectedStatus) {
+      return null;
+    }
+    if (fromStatus === toStatus) {
+      this.logger.debug(`Transaction ${current.id} is already ${toStatus}`);
+      return null;
+    }
+
+    assertTransition(flow, fromStatus, toStatus);
+
+    // Guard on the status we validated against so a concurrent move cannot be overwritten
+    const { count } = await client.transaction.updateMany({
+      where: { id: current.id, status: fromStatus },
+      data: { ...options.data, status: toStatus },
+    });
+    if (count === 0) {
+      if (options.expectedStatus) {
+        return null;
+      }
+      throw new ConflictException(
+        `Transaction ${current.id} changed status while moving to ${toStatus}`
+      );
+    }
+
+    await client.transactionStatusHistory.create({
+      data: {
+        transactionId: current.id,
+        fromStatus,
+        toStatus,
+        reason: options.reason,
+        metadata: options.metadata as Prisma.InputJsonValue | undefined,
+      },
+    });
+
+    const eventType = STATUS_EVENTS[toStatus];
+    if (eventType) {
+      const payload: TransactionEventPayload = {
+        transactionId: current.id,
+        flow,
+        fromStatus,
+        status: toStatus,
+        reason: options.reason,
+      };
+      await this.outbox.enqueue(client, eventType, current.id, payload);
+    }
+
+    this.logger.log(`Transaction ${current.id}: ${fromStatus} -> ${toStatus}`);
+    return client.transaction.findUnique({ where: { id: current.id } });
+  }
+}
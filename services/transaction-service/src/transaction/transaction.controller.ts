@@ -20,6 +20,7 @@ import {
 } from './dto';
 import { Transaction, PaginatedResponse } from '@bitpesa/shared-types';
 import { ThrottlerGuard } from '@nestjs/throttler';
+import { Idempotent } from '../idempotency/idempotency.interceptor';
 
 @Controller('transactions')
 @UseGuards(ThrottlerGuard) // Rate limiting
@@ -28,6 +29,7 @@ export class TransactionController {
 
   @Post('send-money')
   @HttpCode(HttpStatus.CREATED)
+  @Idempotent()
   async sendMoney(
     @Body() dto: SendMoneyDto,
     @Req() req: any
@@ -42,6 +44,7 @@ export class TransactionController {
 
   @Post('buy-airtime')
   @HttpCode(HttpStatus.CREATED)
+  @Idempotent()
   async buyAirtime(
     @Body() dto: BuyAirtimeDto,
     @Req() req: any
@@ -55,6 +58,7 @@ export class TransactionController {
 
   @Post('paybill')
   @HttpCode(HttpStatus.CREATED)
+  @Idempotent()
   async paybill(
     @Body() dto: PaybillDto,
     @Req() req: any
@@ -68,6 +72,7 @@ export class TransactionController {
 
   @Post('buy-goods')
   @HttpCode(HttpStatus.CREATED)
+  @Idempotent()
   async buyGoods(
     @Body() dto: BuyGoodsDto,
     @Req() req: any
@@ -81,6 +86,7 @@ export class TransactionController {
 
   @Post('scan-pay')
   @HttpCode(HttpStatus.CREATED)
+  @Idempotent()
   async scanPay(
     @Body() dto: ScanPayDto,
     @Req() req: any
@@ -1,13 +1,39 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { TransactionController } from './transaction.controller';
 import { TransactionService } from './transaction.service';
+import { TransactionStateService } from './transaction-state.service';
+import { MinmoTransactionService } from './minmo-transaction.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { ConversionModule } from '../conversion/conversion.module';
 import { NotificationModule } from '../notification/notification.module';
 import { AppConfigService, ErrorHandlerService, RetryService } from '@bitpesa/shared-config';
+import { CircuitBreakerService } from '@bitpesa/shared-infrastructure';
 import { MinmoService } from '../external/minmo.service';
 import { MpesaService } from '../external/mpesa.service';
 import { LightningService } from '../external/lightning.service';
+import { LIGHTNING_NODE_ADAPTER } from '../external/lightning/lightning-node.adapter';
+import { createLightningNodeAdapter } from '../external/lightning/lightning-node.factory';
+import { TransactionOrchestratorService } from '../orchestration/transaction-orchestrator.service';
+import { LightningSettlementService } from '../orchestration/lightning-settlement.service';
+import { MinmoTransactionOrchestratorService } from '../orchestration/minmo-transaction-orchestrator.service';
+import { MpesaEventsConsumer } from '../orchestration/mpesa-events.consumer';
+import { SwapEventsConsumer } from '../orchestration/swap-events.consumer';
+import { RefundController } from '../refund/refund.controller';
+import { RefundService } from '../refund/refund.service';
+import { RefundReconcilerService } from '../refund/refund-reconciler.service';
+import { QuoteController } from '../quote/quote.controller';
+import { QuoteService } from '../quote/quote.service';
+import { FeeService } from '../fees/fee.service';
+import { FEE_SCHEDULES, FEE_SCHEDULE_VERSIONS } from '../fees/fee-schedules';
+import { FloatService } from '../float/float.service';
+import { FloatEventsConsumer } from '../float/float-events.consumer';
+import { BillerController } from '../billers/biller.controller';
+import { PaymentVarianceController } from '../payment-variance/payment-variance.controller';
+import { PaymentVariancePolicy } from '../payment-variance/payment-variance.policy';
+import { SWAP_PROVIDERS, SwapProvider } from '../swap-providers/swap-provider';
+import { MinmoSwapProvider } from '../swap-providers/minmo-swap.provider';
+import { SwapRouterService } from '../swap-providers/swap-router.service';
 
 @Module({
   imports: [
@@ -15,15 +41,49 @@ import { LightningService } from '../external/lightning.service';
     ConversionModule,
     NotificationModule,
   ],
-  controllers: [TransactionController],
+  controllers: [
+    TransactionController,
+    QuoteController,
+    RefundController,
+    BillerController,
+    PaymentVarianceController,
+  ],
   providers: [
     TransactionService,
+    TransactionStateService,
+    QuoteService,
+    FeeService,
+    { provide: FEE_SCHEDULES, useValue: FEE_SCHEDULE_VERSIONS },
     AppConfigService,
     ErrorHandlerService,
     RetryService,
+    CircuitBreakerService,
     MinmoService,
+    MinmoSwapProvider,
+    {
+      provide: SWAP_PROVIDERS,
+      useFactory: (...providers: SwapProvider[]) => providers,
+      inject: [MinmoSwapProvider],
+    },
+    SwapRouterService,
     MpesaService,
     LightningService,
+    {
+      provide: LIGHTNING_NODE_ADAPTER,
+      useFactory: createLightningNodeAdapter,
+      inject: [ConfigService],
+    },
+    TransactionOrchestratorService,
+    LightningSettlementService,
+    MpesaEventsConsumer,
+    MinmoTransactionService,
+    MinmoTransactionOrchestratorService,
+    PaymentVariancePolicy,
+    SwapEventsConsumer,
+    RefundService,
+    RefundReconcilerService,
+    FloatService,
+    FloatEventsConsumer,
   ],
   exports: [TransactionService],
 })
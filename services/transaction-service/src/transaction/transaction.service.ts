@@ -1,9 +1,24 @@
-import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException, HttpException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { Prisma } from '@prisma/client';
 import { ConversionService } from '../conversion/conversion.service';
 import { NotificationService } from '../notification/notification.service';
-import { CreateTransactionDto } from './dto';
-import { Transaction, TransactionStatus, PaginatedResponse } from '@bitpesa/shared-types';
+import { LightningService, LightningInvoice } from '../external/lightning.service';
+import { CreateQuoteDto, CreateTransactionDto } from './dto';
+import { StatusTransitionOptions, TransactionStateService } from './transaction-state.service';
+import { QuotePricing, QuoteService } from '../quote/quote.service';
+import { FeeService } from '../fees/fee.service';
+import { FloatService } from '../float/float.service';
+import { MpesaService } from '../external/mpesa.service';
+import {
+  MpesaRecipientType,
+  InvalidTransactionTransitionError,
+  Quote,
+  Transaction,
+  TransactionFlow,
+  TransactionStatus,
+  PaginatedResponse,
+} from '@bitpesa/shared-types';
 import { toPrismaDecimal } from '@bitpesa/shared-utils';
 import { 
   AppConfigService, 
@@ -12,7 +27,21 @@ import {
   TRANSACTION_CONSTANTS
 } from '@bitpesa/shared-config';
 import { v4 as uuidv4 } from 'uuid';
-import * as crypto from 'crypto';
+
+/**
+ * Which number to confirm the recipient of, by transaction type
+ */
+const RECIPIENT_LOOKUPS: Partial<Record<string, MpesaRecipientType>> = {
+  SEND_MONEY: MpesaRecipientType.PHONE,
+  PAYBILL: MpesaRecipientType.PAYBILL,
+  BUY_GOODS: MpesaRecipientType.TILL,
+  SCAN_PAY: MpesaRecipientType.TILL,
+};
+
+interface VerifiedRecipient {
+  recipientName?: string;
+  recipientWarning?: string;
+}
 
 @Injectable()
 export class TransactionService {
@@ -25,51 +54,73 @@ export class TransactionService {
     private readonly appConfig: AppConfigService,
     private readonly errorHandler: ErrorHandlerService,
     private readonly retryService: RetryService,
+    private readonly lightningService: LightningService,
+    private readonly transactionState: TransactionStateService,
+    private readonly quoteService: QuoteService,
+    private readonly feeService: FeeService,
+    private readonly floatService: FloatService,
+    private readonly mpesaService: MpesaService,
   ) {}
 
   async createTransaction(dto: CreateTransactionDto): Promise<Transaction> {
     this.logger.log(`Creating transaction: ${dto.transactionType} for ${dto.recipientPhone}`);
 
     try {
-      // Validate transaction amount
-      this.validateTransactionAmount(dto.kesAmount);
+      // Price the transaction at the quoted rate and fees, or at the current rate
+      const pricing = dto.quoteId
+        ? await this.quoteService.getOpenQuote(dto.quoteId, dto).then(toQuotePricing)
+        : await this.priceTransaction(dto.kesAmount, dto.transactionType);
 
-      // Generate unique payment hash
-      const paymentHash = this.generatePaymentHash();
-      
-      // Get current exchange rate with retry logic
-      const exchangeRate = await this.getExchangeRateWithRetry();
-      
-      // Calculate amounts
-      const feeAmount = this.calculateFee(dto.kesAmount);
-      const totalKesAmount = dto.kesAmount + feeAmount;
-      const btcAmount = totalKesAmount / exchangeRate.finalRate;
-
-      // Validate calculated amounts
-      this.validateCalculatedAmounts(btcAmount, totalKesAmount);
-
-      // Create transaction
-      const transaction = await this.createTransactionRecord({
-        paymentHash,
-        dto,
-        btcAmount,
-        totalKesAmount,
-        feeAmount,
-        exchangeRate: exchangeRate.finalRate,
-      });
+      const recipient = await this.verifyRecipient(dto);
+
+      // Claim the quote before issuing an invoice so requests racing on one quote cannot
+      // each get an invoice to pay; a request that fails after this leaves the quote used
+      if (dto.quoteId) {
+        await this.quoteService.consume(dto.quoteId, this.prisma);
+      }
+
+      // Generate Lightning invoice with retry logic; the node's payment hash identifies the transaction
+      const invoice = await this.generateLightningInvoiceWithRetry(
+        pricing.amountSats,
+        dto.transactionType
+      );
 
-      // Generate Lightning invoice with retry logic
-      await this.generateLightningInvoiceWithRetry(transaction);
+      // Create transaction together with its Lightning invoice; a quote already holds its
+      // payout against the float, otherwise the transaction reserves it as it is created
+      const create = (client: Prisma.TransactionClient) =>
+        this.createTransactionRecord({ invoice, dto, pricing, recipient }, client);
+      const transaction = dto.quoteId
+        ? await create(this.prisma)
+        : await this.floatService.reservePayout(pricing.kesAmount + pricing.fees.mpesaFee, create);
 
-      this.logger.log(`Transaction created: ${transaction.id} with payment hash: ${paymentHash}`);
+      this.logger.log(`Transaction created: ${transaction.id} with payment hash: ${invoice.paymentHash}`);
       return this.mapTransactionToResponse(transaction);
 
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error; // Quote and float rejections reach the client as-is
+      }
       this.errorHandler.handleError(error, 'TransactionService.createTransaction');
       throw this.errorHandler.createExternalServiceError('Transaction', 'creation');
     }
   }
 
+  /**
+   * Lock the current rate and fees for a KES amount
+   */
+  async createQuote(dto: CreateQuoteDto): Promise<Quote> {
+    this.logger.log(`Quoting ${dto.kesAmount} KES for ${dto.transactionType}`);
+
+    const pricing = await this.priceTransaction(dto.kesAmount, dto.transactionType);
+    return this.floatService.reservePayout(pricing.kesAmount + pricing.fees.mpesaFee, tx =>
+      this.quoteService.create(pricing, dto.transactionType, tx)
+    );
+  }
+
+  async getQuote(id: string): Promise<Quote> {
+    return this.quoteService.findById(id);
+  }
+
   async getTransactionByPaymentHash(paymentHash: string): Promise<Transaction> {
     this.logger.log(`Fetching transaction with payment hash: ${paymentHash}`);
 
@@ -110,6 +161,7 @@ export class TransactionService {
       [TransactionStatus.COMPLETED]: { status: 'completed', progress: 100 },
       [TransactionStatus.FAILED]: { status: 'failed', progress: 0 },
       [TransactionStatus.CANCELLED]: { status: 'cancelled', progress: 0 },
+      [TransactionStatus.REFUNDING]: { status: 'refunding', progress: 0 },
       [TransactionStatus.REFUNDED]: { status: 'refunded', progress: 0 },
     };
 
@@ -169,6 +221,8 @@ export class TransactionService {
       type: transaction.transactionType,
       amount: transaction.kesAmount,
       fee: transaction.feeAmount,
+      mpesaFee: transaction.mpesaFee,
+      feeScheduleVersion: transaction.feeScheduleVersion,
       total: transaction.totalKesAmount,
       recipientPhone: transaction.recipientPhone,
       recipientName: transaction.recipientName,
@@ -180,37 +234,32 @@ export class TransactionService {
     };
   }
 
+  /**
+   * Move a transaction to a new status through the Lightning flow state machine
+   * Returns null when the transaction is already in `status`, or when `expectedStatus` is
+   * given and the transaction is no longer in it
+   */
   async updateTransactionStatus(
-    paymentHash: string, 
-    status: TransactionStatus, 
-    _additionalData?: any
-  ): Promise<void> {
+    paymentHash: string,
+    status: TransactionStatus,
+    options: Omit<StatusTransitionOptions, 'data'> = {}
+  ) {
     this.logger.log(`Updating transaction ${paymentHash} status to ${status}`);
 
-    const updateData: any = { status };
-    
+    const data: Record<string, unknown> = {};
+
     if (status === TransactionStatus.LIGHTNING_PAID) {
-      updateData.paidAt = new Date();
+      data.paidAt = new Date();
     } else if (status === TransactionStatus.COMPLETED) {
-      updateData.completedAt = new Date();
+      data.completedAt = new Date();
     }
 
-    await this.prisma.transaction.update({
-      where: { paymentHash },
-      data: updateData,
-    });
-  }
-
-  private generatePaymentHash(): string {
-    return crypto.createHash('sha256')
-      .update(uuidv4() + Date.now().toString())
-      .digest('hex');
-  }
-
-  private calculateFee(amount: number): number {
-    // Use configured fee percentage with minimum fee
-    const fee = Math.max(amount * TRANSACTION_CONSTANTS.FEE_PERCENTAGE, 5);
-    return Math.round(fee * 100) / 100; // Round to 2 decimal places
+    return this.transactionState.transition(
+      TransactionFlow.LIGHTNING,
+      { paymentHash },
+      status,
+      { ...options, data }
+    );
   }
 
   /**
@@ -267,38 +316,122 @@ export class TransactionService {
   }
 
   /**
-   * Create transaction record in database
+   * Work out fees and the BTC amount for a KES amount at the current rate and fee schedule
+   */
+  private async priceTransaction(kesAmount: number, transactionType: string): Promise<QuotePricing> {
+    // Validate transaction amount
+    this.validateTransactionAmount(kesAmount);
+
+    // Get current exchange rate with retry logic
+    const exchangeRate = await this.getExchangeRateWithRetry();
+
+    // Calculate amounts
+    const fees = this.feeService.calculate(transactionType, kesAmount);
+    const totalKesAmount = kesAmount + fees.total;
+    const btcAmount = totalKesAmount / exchangeRate.finalRate;
+
+    // Validate calculated amounts
+    this.validateCalculatedAmounts(btcAmount, totalKesAmount);
+
+    return {
+      kesAmount,
+      fees,
+      totalKesAmount,
+      btcAmount,
+      amountSats: Math.round(btcAmount * 100_000_000),
+      rate: exchangeRate.rate,
+      finalRate: exchangeRate.finalRate,
+    };
+  }
+
+  /**
+   * Confirm who the payment goes to with mpesa-service
+   * The registered name replaces the one the payer typed. An account number that does not
+   * match the biller's known format is recorded as a warning rather than refused, as the
+   * directory's patterns can lag behind a biller's own changes.
+   */
+  private async verifyRecipient(dto: CreateTransactionDto): Promise<VerifiedRecipient> {
+    const type = RECIPIENT_LOOKUPS[dto.transactionType];
+    const identifier = type === MpesaRecipientType.PHONE ? dto.recipientPhone : dto.merchantCode;
+    if (!type || !identifier) {
+      return { recipientName: dto.recipientName };
+    }
+
+    const recipient = await this.mpesaService.lookupRecipient(type, identifier);
+    if (!recipient) {
+      return { recipientName: dto.recipientName };
+    }
+
+    let recipientWarning: string | undefined;
+    if (
+      dto.accountNumber &&
+      recipient.accountNumberPattern &&
+      !new RegExp(recipient.accountNumberPattern).test(dto.accountNumber)
+    ) {
+      recipientWarning =
+        `Account number ${dto.accountNumber} does not match the format ${recipient.name} uses`;
+      this.logger.warn(`${identifier}: ${recipientWarning}`);
+    }
+
+    return { recipientName: recipient.name, recipientWarning };
+  }
+
+  /**
+   * Create transaction record and its Lightning invoice in database
    */
-  private async createTransactionRecord(params: {
-    paymentHash: string;
-    dto: CreateTransactionDto;
-    btcAmount: number;
-    totalKesAmount: number;
-    feeAmount: number;
-    exchangeRate: number;
-  }) {
-    const { paymentHash, dto, btcAmount, totalKesAmount, feeAmount, exchangeRate } = params;
+  private async createTransactionRecord(
+    params: {
+      invoice: LightningInvoice;
+      dto: CreateTransactionDto;
+      pricing: QuotePricing;
+      recipient: VerifiedRecipient;
+    },
+    client: Prisma.TransactionClient
+  ) {
+    const { invoice, dto, pricing, recipient } = params;
     
-    return await this.prisma.transaction.create({
+    return client.transaction.create({
       data: {
         id: uuidv4(),
-        paymentHash,
+        paymentHash: invoice.paymentHash,
         transactionType: dto.transactionType,
-        status: TransactionStatus.PENDING,
-        btcAmount: toPrismaDecimal(btcAmount),
-        kesAmount: toPrismaDecimal(dto.kesAmount),
-        exchangeRate: toPrismaDecimal(exchangeRate),
-        feeAmount: toPrismaDecimal(feeAmount),
-        totalKesAmount: toPrismaDecimal(totalKesAmount),
+        status: TransactionStatus.LIGHTNING_PENDING,
+        btcAmount: toPrismaDecimal(pricing.btcAmount),
+        kesAmount: toPrismaDecimal(pricing.kesAmount),
+        exchangeRate: toPrismaDecimal(pricing.finalRate),
+        feeAmount: toPrismaDecimal(pricing.fees.total),
+        mpesaFee: toPrismaDecimal(pricing.fees.mpesaFee),
+        feeScheduleVersion: pricing.fees.scheduleVersion,
+        totalKesAmount: toPrismaDecimal(pricing.totalKesAmount),
         recipientPhone: dto.recipientPhone,
-        recipientName: dto.recipientName,
+        recipientName: recipient.recipientName,
+        recipientWarning: recipient.recipientWarning,
         merchantCode: dto.merchantCode,
         accountNumber: dto.accountNumber,
         referenceNumber: dto.referenceNumber,
+        quoteId: dto.quoteId,
         ipAddress: dto.ipAddress,
         userAgent: dto.userAgent,
         deviceInfo: dto.deviceInfo,
-        invoiceExpiresAt: new Date(Date.now() + TRANSACTION_CONSTANTS.INVOICE_EXPIRATION_MS),
+        invoiceExpiresAt: invoice.expiresAt,
+        statusHistory: {
+          create: {
+            toStatus: TransactionStatus.LIGHTNING_PENDING,
+            reason: 'Transaction created with Lightning invoice',
+          },
+        },
+        lightningInvoice: {
+          create: {
+            id: uuidv4(),
+            paymentHash: invoice.paymentHash,
+            paymentRequest: invoice.invoice,
+            amountSats: BigInt(invoice.amount),
+            amountKes: toPrismaDecimal(pricing.totalKesAmount),
+            description: `BitPesa Bridge - ${dto.transactionType}`,
+            status: 'PENDING',
+            expiresAt: invoice.expiresAt,
+          },
+        },
       },
     });
   }
@@ -312,21 +445,31 @@ export class TransactionService {
 
   /**
    * Update transaction
+   * Returns null when `data.status` is the status the transaction is already in.
    */
-  async update(id: string, data: any): Promise<Transaction> {
+  async update(id: string, data: any): Promise<Transaction | null> {
     this.logger.log(`Updating transaction: ${id}`);
     
     try {
-      const updatedTransaction = await this.prisma.transaction.update({
-        where: { id },
-        data: {
-          ...data,
-          updatedAt: new Date(),
-        },
-      });
-
-      return this.mapTransactionToResponse(updatedTransaction);
+      // Status changes always go through the state machine
+      const { status, ...rest } = data;
+      const updatedTransaction = status
+        ? await this.transactionState.transition(TransactionFlow.LIGHTNING, { id }, status, {
+            data: { ...rest, updatedAt: new Date() },
+          })
+        : await this.prisma.transaction.update({
+            where: { id },
+            data: {
+              ...rest,
+              updatedAt: new Date(),
+            },
+          });
+
+      return updatedTransaction ? this.mapTransactionToResponse(updatedTransaction) : null;
     } catch (error) {
+      if (error instanceof InvalidTransactionTransitionError) {
+        throw error;
+      }
       this.errorHandler.handleError(error, 'TransactionService.update');
       throw this.errorHandler.createExternalServiceError('Transaction', 'update');
     }
@@ -377,38 +520,30 @@ export class TransactionService {
   }
 
   /**
-   * Generate Lightning invoice with retry logic
+   * Generate Lightning invoice on the configured node with retry logic
    */
-  private async generateLightningInvoiceWithRetry(transaction: any): Promise<void> {
+  private async generateLightningInvoiceWithRetry(
+    amountSats: number,
+    transactionType: string
+  ): Promise<LightningInvoice> {
     const result = await this.retryService.executeWithRetry(
-      () => this.generateLightningInvoice(transaction),
+      () =>
+        this.lightningService.createInvoice(
+          amountSats,
+          `BitPesa Bridge - ${transactionType}`,
+          TRANSACTION_CONSTANTS.INVOICE_EXPIRATION_MS / 1000
+        ),
       {
         maxAttempts: TRANSACTION_CONSTANTS.MAX_RETRY_ATTEMPTS,
         retryCondition: (error: any) => this.errorHandler.isRetryableError(error),
       }
     );
 
-    if (!result.success) {
+    if (!result.success || !result.data) {
       throw this.errorHandler.createExternalServiceError('Lightning Invoice', 'generation');
     }
-  }
 
-  private async generateLightningInvoice(transaction: any): Promise<void> {
-    // This would integrate with the Lightning service
-    // For now, we'll create a placeholder invoice
-    await this.prisma.lightningInvoice.create({
-      data: {
-        id: uuidv4(),
-        paymentHash: transaction.paymentHash,
-        paymentRequest: `lnbc${transaction.btcAmount}...`, // Placeholder
-        amountSats: BigInt(Math.round(transaction.btcAmount * 100_000_000)),
-        amountKes: transaction.kesAmount,
-        description: `BitPesa Bridge - ${transaction.transactionType}`,
-        status: 'PENDING',
-        expiresAt: transaction.invoiceExpiresAt,
-        transactionId: transaction.id,
-      },
-    });
+    return result.data;
   }
 
   private mapTransactionToResponse(transaction: any): Transaction {
@@ -421,9 +556,12 @@ export class TransactionService {
       kesAmount: transaction.kesAmount.toString(),
       exchangeRate: transaction.exchangeRate.toString(),
       feeAmount: transaction.feeAmount.toString(),
+      mpesaFee: transaction.mpesaFee?.toString(),
+      feeScheduleVersion: transaction.feeScheduleVersion,
       totalKesAmount: transaction.totalKesAmount.toString(),
       recipientPhone: transaction.recipientPhone,
       recipientName: transaction.recipientName,
+      recipientWarning: transaction.recipientWarning,
       merchantCode: transaction.merchantCode,
       accountNumber: transaction.accountNumber,
       referenceNumber: transaction.referenceNumber,
@@ -438,3 +576,15 @@ export class TransactionService {
     };
   }
 }
+
+function toQuotePricing(quote: Quote): QuotePricing {
+  return {
+    kesAmount: quote.toAmount,
+    fees: quote.fees,
+    totalKesAmount: quote.totalKesAmount,
+    btcAmount: quote.fromAmount,
+    amountSats: quote.amountSats,
+    rate: quote.rate,
+    finalRate: quote.finalRate,
+  };
+}